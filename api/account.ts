@@ -0,0 +1,12 @@
+import { json, route } from "../server/http";
+import { requireUser } from "../server/supabaseAdmin";
+import { deleteAccount } from "../server/accounts";
+
+// DELETE /api/account { confirm: <the account's email> } -> { deleted: true, deletedCreatives }
+// Cancels the subscription, removes stored creatives, then the user and all their rows.
+export const DELETE = route(async (request) => {
+    const user = await requireUser(request);
+    const body = await request.json().catch(() => ({}));
+    const result = await deleteAccount(user, body.confirm);
+    return json(200, { deleted: true, ...result });
+});
@@ -0,0 +1,41 @@
+import { HttpError, appOrigin, json, route } from "../server/http";
+import { getSupabaseAdmin, requireUser } from "../server/supabaseAdmin";
+import { changeSubscriptionPlan, createCheckout, isPaidPlan } from "../server/lemonsqueezy";
+
+// POST /api/checkout { plan, redirectUrl } -> { url }
+// Subscribers aren't sent to a new checkout: their subscription moves to the
+// plan, and `url` is the redirect URL straight away.
+
+/** `redirectUrl` when it's on the app's own origin, otherwise the app's home page. */
+const redirectTarget = (request: Request, redirectUrl: unknown) => {
+    const origin = appOrigin(request);
+    if (typeof redirectUrl === 'string' && URL.canParse(redirectUrl) && new URL(redirectUrl).origin === origin) {
+        return new URL(redirectUrl).toString();
+    }
+    return new URL('/', origin).toString();
+};
+
+export const POST = route(async (request) => {
+    const user = await requireUser(request);
+    const body = await request.json().catch(() => ({}));
+
+    if (!isPaidPlan(body.plan)) throw new HttpError(400, "Unknown plan", 'invalid_plan');
+    const redirectUrl = redirectTarget(request, body.redirectUrl);
+
+    const { data: subscription, error } = await getSupabaseAdmin()
+        .from('subscriptions')
+        .select('plan, status, lemon_subscription_id')
+        .eq('user_id', user.id)
+        .maybeSingle();
+    if (error) throw new Error(`Reading the subscription failed: ${error.message}`);
+
+    if (subscription && subscription.status !== 'expired') {
+        const resume = subscription.status === 'cancelled';
+        if (subscription.plan === body.plan && !resume) throw new HttpError(409, "You're already on this plan", 'same_plan');
+        await changeSubscriptionPlan(subscription.lemon_subscription_id, body.plan, resume);
+        return json(200, { url: redirectUrl, changed: true });
+    }
+
+    const url = await createCheckout({ plan: body.plan, userId: user.id, email: user.email, redirectUrl });
+    return json(200, { url });
+});
@@ -0,0 +1,5 @@
+import { route } from "../server/http";
+import { handleWebhook } from "../server/lemonsqueezy";
+
+// POST /api/lemonsqueezy-webhook (configured in the Lemon Squeezy dashboard)
+export const POST = route(handleWebhook);
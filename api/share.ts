@@ -0,0 +1,10 @@
+import { json, route } from "../server/http";
+import { openShare } from "../server/shares";
+
+// POST /api/share { token, password? } -> { fileName, report, transcript, videoUrl, expiresAt }
+// Public: the token is the credential. Never cached, the link can be revoked.
+export const POST = route(async (request) => {
+    const body = await request.json().catch(() => ({}));
+    const shared = await openShare(body.token, body.password, request.headers);
+    return json(200, shared, { "Cache-Control": "no-store" });
+});
@@ -1,371 +1,4269 @@
-import React, { useState, useEffect, useContext, createContext } from "react";
+import React, { useState, useEffect, useContext, createContext, useRef } from "react";
 import { createRoot } from "react-dom/client";
+import { renderToStaticMarkup } from "react-dom/server";
 import { motion, AnimatePresence } from "framer-motion";
-import { createClient } from "@supabase/supabase-js";
+import Markdown, { Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import {
+    AuditReport, AuditSection, PolicyReport, Severity, SECTION_META,
+    SECTION_IDS, METRIC_IDS, METRIC_META, TimelineMarker, formatTimestamp, parseTimestamp, reportMarkers,
+    describeContext, reportMetrics, reportToMarkdown, sectionScore
+} from "./lib/report";
+import type { User as SupabaseUser } from "@supabase/supabase-js";
+import { supabase } from "./lib/supabase";
+import { AuditRecord, AuditFilters, saveAudit, getAudit, listAudits, deleteAudit, saveTranscript } from "./lib/audits";
+import {
+    CAPTION_RULES, CUE_KINDS, CUE_KIND_LABELS, CueKind, TranscriptCue, captionIssues, checkCues,
+    formatCueTime, parseCueTime, sortCues, toSrt, toVtt
+} from "./lib/captions";
+import { Entitlements, Feature, PlanId, PLANS, hasFeature } from "./lib/plans";
+import { POLICY_RULES, POLICY_VERDICT_META, PolicyVerdict } from "./lib/policy";
+import { getEntitlements, startCheckout } from "./lib/billing";
+import { VideoInfo, StoredVideo, UPLOAD_LIMITS, getVideoUrl, validateVideo } from "./lib/upload";
+import { Keyframe, extractKeyframes } from "./lib/keyframes";
+import { ComparisonStage, RetryInfo, runAuditJob, runComparisonJob, newIdempotencyKey } from "./lib/analysis";
+import { BATCH_LIMITS, BatchItem, BatchQueue, BatchStatus, createBatchQueue, isActive, pendingCount } from "./lib/batchQueue";
+import {
+    BRANDING_LIMITS, DEFAULT_BRANDING, ExportBranding, LOGO_TYPES, exportFileName, printDocument,
+    printableDocument, readLogo, reportToJson
+} from "./lib/exports";
+import { getBranding, saveBranding } from "./lib/brandingStore";
+import {
+    SHARE_ERROR_MESSAGES, SHARE_EXPIRY_OPTIONS, SHARE_LIMITS, ShareError, ShareLink, ShareState, SharedReport,
+    openSharedReport, shareState, shareTokenFromHash, shareUrl
+} from "./lib/shares";
+import { listShares, createShare, revokeShare } from "./lib/shareStore";
+import { AbComparison, COMPARE_LIMITS, VARIANT_LABELS } from "./lib/comparisons";
+import { ComparisonRecord, saveComparison, listComparisons, deleteComparison } from "./lib/comparisonStore";
+import {
+    AuditContext, AuditPreset, PresetDraft, PlatformId, ObjectiveId, EMPTY_PRESET,
+    PLATFORM_IDS, PLATFORMS, OBJECTIVE_IDS, OBJECTIVES, PRESET_LIMITS, presetToContext
+} from "./lib/presets";
+import { listPresets, savePreset, deletePreset, getLastPresetId, setLastPresetId } from "./lib/presetStore";
+import { GeneratedVariant, REWRITE_STYLE_IDS, REWRITE_STYLES, RewriteStyleId } from "./lib/rewrites";
+import { listVariants, saveVariant, updateVariantText, deleteVariant } from "./lib/scriptVariants";
+import { compareToBenchmark } from "./lib/benchmarks";
+import {
+    BenchmarkEntry, BenchmarkSet, BENCHMARK_LIMITS, listSets, createSet, deleteSet,
+    listEntries, addEntry, removeEntry
+} from "./lib/benchmarkStore";
+import {
+    AuditOption, CORRELATION_MIN_SAMPLES, OUTCOME_META, OUTCOME_METRICS, OutcomeMetric, PERFORMANCE_LIMITS, PERFORMANCE_SOURCES,
+    PERFORMANCE_SOURCE_LABELS, ParsedPerformance, PerformanceImportError, PerformanceSource, SCORE_DIMENSION_LABELS, TRUST_META,
+    TrustVerdict, correlate, matchByFileName, outcomesByAudit, parsePerformanceCsv, trustVerdicts
+} from "./lib/performance";
+import {
+    PerformanceImport, PerformanceRow, deleteImport, importPerformance, linkRow, listAuditOptions, listImports,
+    listPerformanceRows, rematchRows
+} from "./lib/performanceStore";
+import { AuditError, AuditErrorKind, toAuditError } from "./lib/errors";
+import { PUBLIC_API_URL, analysisProvider } from "./lib/providers";
+import { API_KEY_LIMITS, API_SCOPES, API_SCOPE_DESCRIPTIONS, ApiKey, ApiKeyDraft, ApiScope, CreatedApiKey } from "./lib/apiKeys";
+import { listApiKeys, createApiKey, revokeApiKey } from "./lib/apiKeyStore";
+import { ExportTooLargeError, UsagePeriod, accountExportToJson, accountExportToZip, collectAccountData, deleteAccount, getUsageHistory } from "./lib/account";
+import {
+    ASSIGNABLE_ROLES, AssignableRole, CurrentWorkspace, PendingInvite, ROLE_DESCRIPTIONS, ROLE_LABELS, WORKSPACE_LIMITS,
+    Workspace, WorkspaceInvite, WorkspaceMember, canManageWorkspace, canRemoveMember
+} from "./lib/workspaces";
+import {
+    acceptInvite, createWorkspace, declineInvite, deleteWorkspace, inviteMember, listInvites, listMembers,
+    listMyInvites, listWorkspaces, removeMember, renameWorkspace, revokeInvite, setMemberRole, switchWorkspace
+} from "./lib/workspaceStore";
+import {
+    PASSWORD_MIN_LENGTH, RESEND_COOLDOWN_SECONDS, authCallbackError, authRedirectUrl,
+    rememberReturnTo, takeReturnTo
+} from "./lib/auth";
+import { DASHBOARD_TABS, DashboardTab, Route, currentPath, isProtected, navigate, onNavigate, parseRoute, routePath } from "./lib/router";
 
 // ==========================================
 // ⚙️ CONFIGURATION
 // ==========================================
-const WORKER_URL = "https://damp-wind-775f.rusdumitru122.workers.dev/"; 
 
-const SUPABASE_URL = process.env.SUPABASE_URL || "";
-const SUPABASE_KEY = process.env.SUPABASE_KEY || "";
+// 🧪 With the mock provider and no Supabase, the app runs fully offline as a demo user
+const OFFLINE_DEMO = !supabase && analysisProvider.offline;
 
-const supabase = (SUPABASE_URL && SUPABASE_KEY) 
-    ? createClient(SUPABASE_URL, SUPABASE_KEY) 
-    : null;
+const DEMO_USER = { email: "demo@viralaudit.local", id: "demo", createdAt: null, signInMethods: [] };
+
+const DEMO_ENTITLEMENTS: Entitlements = {
+    plan: 'professional',
+    planName: PLANS.professional.name,
+    used: 0,
+    quota: PLANS.professional.audits,
+    remaining: PLANS.professional.audits,
+    period: 'month',
+    periodEnd: null,
+    subscriptionStatus: null,
+    // Team workspaces need Supabase, so the demo has none
+    features: { script_rewrites: true, policy_check: true, benchmarking: true, branded_exports: true },
+    workspace: null,
+};
 
 // ==========================================
 // 🛠️ UTILS
 // ==========================================
 
-const scrollToSection = (e: React.MouseEvent, id: string) => {
-  e.preventDefault();
-  const element = document.getElementById(id);
-  if (element) {
-    element.scrollIntoView({ behavior: "smooth" });
-  }
-};
+const scrollToSection = (e: React.MouseEvent, id: string) => {
+  e.preventDefault();
+  const element = document.getElementById(id);
+  if (element) {
+    element.scrollIntoView({ behavior: "smooth" });
+  }
+};
+
+const downloadBlob = (fileName: string, blob: Blob) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const downloadText = (fileName: string, text: string, type: string) =>
+    downloadBlob(fileName, new Blob([text], { type: `${type};charset=utf-8` }));
+
+// ==========================================
+// 🔐 AUTH CONTEXT
+// ==========================================
+
+type User = {
+    email: string;
+    id: string;
+    createdAt: string | null;
+    /** Auth providers linked to the account ('email', 'google'). */
+    signInMethods: string[];
+};
+
+const toUser = (user: SupabaseUser): User => ({
+    email: user.email!,
+    id: user.id,
+    createdAt: user.created_at ?? null,
+    signInMethods: (user.identities ?? []).map(identity => identity.provider),
+});
+
+/** `reset` sets a new password: after a recovery link, or from the account page. */
+type AuthView = 'login' | 'signup' | 'magic' | 'forgot' | 'reset';
+
+type AuthResult = {
+    error: { message: string; code?: string } | null;
+    /** Signed up, but the project wants the email confirmed before the first sign-in. */
+    needsConfirmation?: boolean;
+};
+
+interface AuthContextType {
+    user: User | null;
+    isLoading: boolean;
+    login: (e: string, p: string) => Promise<AuthResult>;
+    signup: (e: string, p: string) => Promise<AuthResult>;
+    sendMagicLink: (e: string) => Promise<AuthResult>;
+    sendPasswordReset: (e: string) => Promise<AuthResult>;
+    resendConfirmation: (e: string) => Promise<AuthResult>;
+    updatePassword: (p: string) => Promise<AuthResult>;
+    signInWithGoogle: () => Promise<AuthResult>;
+    logout: () => void;
+    showAuthModal: boolean;
+    setShowAuthModal: (show: boolean) => void;
+    authView: AuthView;
+    setAuthView: (view: AuthView) => void;
+    openTool: () => void;
+    triggerUpgrade: () => void;
+    /** Opens the auth modal and, once signed in, goes to `returnTo`. */
+    promptLogin: (returnTo: string | null, view?: AuthView) => void;
+    entitlements: Entitlements | null;
+    refreshEntitlements: () => Promise<void>;
+    /** The workspace the user is working in (from their entitlements). */
+    workspace: CurrentWorkspace | null;
+    /** Makes another workspace the active one and reloads the plan and quota. */
+    selectWorkspace: (id: string) => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextType>({} as AuthContextType);
+
+const AuthProvider = ({ children }: { children: React.ReactNode }) => {
+    const [user, setUser] = useState<User | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [showAuthModal, setShowAuthModal] = useState(false);
+    const [returnTo, setReturnTo] = useState<string | null>(null);
+    const [authView, setAuthView] = useState<AuthView>('signup');
+    const [entitlements, setEntitlements] = useState<Entitlements | null>(null);
+
+    useEffect(() => {
+        const checkSession = async () => {
+            if(!supabase) {
+                console.warn("Supabase not configured");
+                if (OFFLINE_DEMO) setUser(DEMO_USER);
+                setIsLoading(false);
+                return;
+            }
+            const { data: { session } } = await supabase.auth.getSession();
+            if (session?.user) {
+                setUser(toUser(session.user));
+            }
+            setIsLoading(false);
+        };
+        checkSession();
+
+        // Also fires for sessions that arrive through /auth/callback (see lib/auth)
+        const { data: { subscription } } = supabase?.auth.onAuthStateChange((event, session) => {
+            if (session?.user) {
+                setUser(toUser(session.user));
+            } else {
+                setUser(null);
+            }
+            if (event === 'PASSWORD_RECOVERY') {
+                setAuthView('reset');
+                setShowAuthModal(true);
+            }
+        }) || { data: { subscription: null } };
+
+        return () => subscription?.unsubscribe();
+    }, []);
+
+    const refreshEntitlements = async () => {
+        if (OFFLINE_DEMO) {
+            setEntitlements(user ? DEMO_ENTITLEMENTS : null);
+            return;
+        }
+        if (!user || !supabase) {
+            setEntitlements(null);
+            return;
+        }
+        try {
+            setEntitlements(await getEntitlements());
+        } catch (err) {
+            console.error("Failed to load entitlements", err);
+        }
+    };
+
+    // Plan and quota follow the signed-in user
+    useEffect(() => { refreshEntitlements(); }, [user?.id]);
+
+    useEffect(() => {
+        if (!user || !returnTo) return;
+        navigate(returnTo);
+        setReturnTo(null);
+    }, [user, returnTo]);
+
+    const NOT_CONFIGURED: AuthResult = { error: { message: "Supabase not configured" } };
+
+    const login = async (email: string, password: string): Promise<AuthResult> => {
+        if(!supabase) return NOT_CONFIGURED;
+        const { error } = await supabase.auth.signInWithPassword({ email, password });
+        if (!error) setShowAuthModal(false);
+        return { error };
+    };
+
+    const signup = async (email: string, password: string): Promise<AuthResult> => {
+        if(!supabase) return NOT_CONFIGURED;
+        rememberReturnTo(returnTo);
+        const { data, error } = await supabase.auth.signUp({ email, password, options: { emailRedirectTo: authRedirectUrl() } });
+        if (error) return { error };
+        // No session means the confirmation email has to be opened first
+        if (!data.session) return { error: null, needsConfirmation: true };
+        setShowAuthModal(false);
+        return { error: null };
+    };
+
+    // The links below come back through /auth/callback, usually in a new tab, so returnTo is kept in storage
+    const sendMagicLink = async (email: string): Promise<AuthResult> => {
+        if(!supabase) return NOT_CONFIGURED;
+        rememberReturnTo(returnTo);
+        const { error } = await supabase.auth.signInWithOtp({ email, options: { emailRedirectTo: authRedirectUrl() } });
+        return { error };
+    };
+
+    const sendPasswordReset = async (email: string): Promise<AuthResult> => {
+        if(!supabase) return NOT_CONFIGURED;
+        rememberReturnTo(returnTo);
+        const { error } = await supabase.auth.resetPasswordForEmail(email, { redirectTo: authRedirectUrl() });
+        return { error };
+    };
+
+    const resendConfirmation = async (email: string): Promise<AuthResult> => {
+        if(!supabase) return NOT_CONFIGURED;
+        rememberReturnTo(returnTo);
+        const { error } = await supabase.auth.resend({ type: 'signup', email, options: { emailRedirectTo: authRedirectUrl() } });
+        return { error };
+    };
+
+    const updatePassword = async (password: string): Promise<AuthResult> => {
+        if(!supabase) return NOT_CONFIGURED;
+        const { error } = await supabase.auth.updateUser({ password });
+        if (!error) setShowAuthModal(false);
+        return { error };
+    };
+
+    // Leaves the page for Google on success
+    const signInWithGoogle = async (): Promise<AuthResult> => {
+        if(!supabase) return NOT_CONFIGURED;
+        rememberReturnTo(returnTo);
+        const { error } = await supabase.auth.signInWithOAuth({ provider: 'google', options: { redirectTo: authRedirectUrl() } });
+        return { error };
+    };
+
+    const logout = async () => {
+        navigate('/');
+        if(supabase) await supabase.auth.signOut();
+        setUser(null);
+    };
+
+    const promptLogin = (path: string | null, view: AuthView = 'login') => {
+        setReturnTo(path);
+        setAuthView(view);
+        setShowAuthModal(true);
+    };
+
+    // /audit/new is protected, so signed-out users get the login modal first
+    const openTool = () => navigate('/audit/new');
+
+    const triggerUpgrade = () => navigate('/pricing');
+
+    const selectWorkspace = async (id: string) => {
+        await switchWorkspace(id);
+        // An open audit belongs to the workspace being left
+        if (parseRoute(window.location.pathname).name === 'audit') navigate('/app');
+        await refreshEntitlements();
+    };
+
+    return (
+        <AuthContext.Provider value={{ 
+            user, isLoading, login, signup, logout,
+            sendMagicLink, sendPasswordReset, resendConfirmation, updatePassword, signInWithGoogle,
+            showAuthModal, setShowAuthModal,
+            authView, setAuthView, openTool, triggerUpgrade, promptLogin,
+            entitlements, refreshEntitlements, workspace: entitlements?.workspace ?? null, selectWorkspace
+        }}>
+            {children}
+        </AuthContext.Provider>
+    );
+};
+
+const useAuth = () => useContext(AuthContext);
+
+// ==========================================
+// 🧭 ROUTING
+// ==========================================
+
+const useRoute = () => {
+    const [route, setRoute] = useState<Route>(() => parseRoute(window.location.pathname));
+    useEffect(() => onNavigate(() => setRoute(parseRoute(window.location.pathname))), []);
+    return route;
+};
+
+/** An in-app link: a real href (so new tabs and copying work), navigated without a reload. */
+const Link = ({ to, className, title, children }: { to: string, className?: string, title?: string, children: React.ReactNode }) => (
+    <a
+        href={to}
+        title={title}
+        className={className}
+        onClick={(e) => {
+            if (e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+            e.preventDefault();
+            navigate(to);
+        }}
+    >
+        {children}
+    </a>
+);
+
+// ==========================================
+// 🚀 THE APP (SIGNED-IN AREA)
+// ==========================================
+
+/** The audit on screen: just run (no id until it's saved) or opened from history. */
+type OpenedAudit = { id: string | null; report: AuditReport; fileName: string; video: VideoSource | null };
+
+const AppShell = ({ route }: { route: Route }) => {
+    const { user, isLoading, promptLogin, workspace } = useAuth();
+    // Handed from the page that produced or listed an audit to /audits/:id, so it opens without a refetch
+    const [opened, setOpened] = useState<OpenedAudit | null>(null);
+    const [competitorTarget, setCompetitorTarget] = useState<CompetitorTarget | null>(null);
+
+    useEffect(() => {
+        if (isLoading || user) return;
+        promptLogin(currentPath());
+        navigate('/', { replace: true });
+    }, [isLoading, user]);
+
+    if (!user) {
+        return <div className="relative z-10 min-h-screen flex items-center justify-center text-gray-500"><i className="fa-solid fa-circle-notch fa-spin text-2xl"></i></div>;
+    }
+
+    const openAudit = (audit: OpenedAudit, options?: { replace?: boolean }) => {
+        setOpened(audit);
+        navigate(`/audits/${audit.id}`, options);
+    };
+
+    const auditCompetitor = (target: CompetitorTarget) => {
+        setCompetitorTarget(target);
+        navigate('/audit/new');
+    };
+
+    return (
+        <>
+            <AppHeader route={route} />
+            {/* --sticky-top keeps the report's video clear of the fixed header */}
+            <main className="relative z-10 max-w-3xl mx-auto px-4 pt-28 pb-20" style={{ '--sticky-top': '4rem' } as React.CSSProperties}>
+                {/* Switching workspace starts the pages over; the batch below keeps running */}
+                <React.Fragment key={workspace?.id ?? 'none'}>
+                    {route.name === 'dashboard' && <Dashboard tab={route.tab} onOpenAudit={openAudit} onAuditCompetitor={auditCompetitor} />}
+                    {route.name === 'newAudit' && (
+                        <NewAuditPage
+                            competitorTarget={competitorTarget}
+                            onClearTarget={() => setCompetitorTarget(null)}
+                            onSaved={(audit) => openAudit(audit, { replace: true })}
+                        />
+                    )}
+                    {route.name === 'audit' && <AuditPage key={route.id} id={route.id} initial={opened?.id === route.id ? opened : null} />}
+                    {route.name === 'account' && <AccountPage />}
+                </React.Fragment>
+                {/* Kept mounted while in the app so the tab keeps its state; the queue itself is in BatchProvider */}
+                <div className={route.name === 'dashboard' && route.tab === 'batch' ? '' : 'hidden'}>
+                    <BatchAuditPanel />
+                </div>
+            </main>
+        </>
+    );
+};
+
+const AppHeader = ({ route }: { route: Route }) => {
+    const { user, logout, entitlements } = useAuth();
+    const item = (to: string, label: string, active: boolean) => (
+        <Link to={to} className={`px-3 py-1.5 rounded-md transition-colors ${active ? 'bg-white text-black' : 'text-gray-400 hover:text-white'}`}>{label}</Link>
+    );
+
+    return (
+        <nav className="fixed w-full z-50 bg-black/80 backdrop-blur-xl border-b border-white/10 py-3">
+            <div className="max-w-5xl mx-auto px-4 flex items-center justify-between gap-4 h-10">
+                <Link to="/" className="flex items-center gap-2 group">
+                    <div className="w-8 h-8 bg-white rounded-lg flex items-center justify-center group-hover:scale-110 transition-transform"><i className="fa-solid fa-bolt text-black text-sm"></i></div>
+                    <span className="font-heading font-bold text-lg tracking-tight text-white hidden sm:block">ViralAudit</span>
+                    {analysisProvider.name === 'mock' && <span className="text-[10px] font-mono bg-yellow-500/10 text-yellow-400 border border-yellow-500/30 px-2 py-0.5 rounded">MOCK</span>}
+                </Link>
+                <div className="flex items-center gap-1 text-sm font-medium">
+                    {item('/app', 'Dashboard', route.name === 'dashboard' || route.name === 'audit')}
+                    {item('/audit/new', 'New Audit', route.name === 'newAudit')}
+                    {item('/account', 'Account', route.name === 'account')}
+                </div>
+                <div className="flex items-center gap-4">
+                    <WorkspaceSwitcher />
+                    {entitlements && (
+                        <span className="text-xs text-gray-400 hidden md:block" title="Audits left this period">
+                            <span className={entitlements.remaining === 0 ? 'text-red-500 font-bold' : 'text-white font-bold'}>{entitlements.remaining}</span>/{entitlements.quota} left
+                        </span>
+                    )}
+                    <Link to="/account" title="Account" className="text-xs text-gray-500 hover:text-white transition-colors hidden lg:block">{user?.email}</Link>
+                    <button onClick={logout} className="text-sm font-medium text-white hover:text-gray-300 transition-colors">Logout</button>
+                </div>
+            </div>
+        </nav>
+    );
+};
+
+/** The active workspace, the others to switch to and invites waiting for an answer. */
+const WorkspaceSwitcher = () => {
+    const { user, workspace, selectWorkspace } = useAuth();
+    const [open, setOpen] = useState(false);
+    const [workspaces, setWorkspaces] = useState<Workspace[] | null>(null);
+    const [invites, setInvites] = useState<PendingInvite[]>([]);
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Invites are checked up front so the badge shows without opening the menu
+    useEffect(() => {
+        if (!supabase || !user) return;
+        listMyInvites().then(setInvites).catch(err => console.error("Failed to load invites", err));
+    }, [user?.id]);
+
+    useEffect(() => {
+        if (!open || !user) return;
+        setError(null);
+        listWorkspaces(user.id).then(setWorkspaces).catch(err => setError(err.message));
+    }, [open, user?.id, workspace?.id]);
+
+    if (!supabase || !workspace) return null;
+
+    const run = async (action: () => Promise<void>) => {
+        setBusy(true);
+        setError(null);
+        try {
+            await action();
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const choose = (id: string) => run(async () => {
+        if (id !== workspace.id) await selectWorkspace(id);
+        setOpen(false);
+    });
+
+    const answer = (invite: PendingInvite, accept: boolean) => run(async () => {
+        if (accept) {
+            await acceptInvite(invite.id);
+            await selectWorkspace(invite.workspaceId);
+        } else {
+            await declineInvite(invite.id);
+        }
+        setInvites(list => list.filter(i => i.id !== invite.id));
+    });
+
+    const itemClass = "w-full text-left px-3 py-2 text-xs hover:bg-white/5 disabled:opacity-50 flex items-center gap-2";
+
+    return (
+        <div className="relative">
+            <button onClick={() => setOpen(o => !o)} className="text-xs text-gray-300 hover:text-white flex items-center gap-1.5 max-w-[10rem]" title="Switch workspace">
+                <i className={`fa-solid ${workspace.personal ? 'fa-user' : 'fa-users'} text-gray-500`}></i>
+                <span className="truncate">{workspace.personal ? 'Personal' : workspace.name}</span>
+                {invites.length > 0 && <span className="bg-[#FF0050] text-white text-[10px] font-bold rounded-full px-1.5">{invites.length}</span>}
+                <i className={`fa-solid fa-chevron-${open ? 'up' : 'down'} text-[8px]`}></i>
+            </button>
+            {open && (
+                <>
+                    <div className="fixed inset-0 z-10" onClick={() => setOpen(false)} />
+                    <div className="absolute right-0 mt-2 w-64 bg-[#1a1a1a] border border-[#333] rounded-lg shadow-xl z-20 py-1">
+                        <div className="px-3 pt-1 pb-2 text-[10px] text-gray-500 uppercase font-mono">Workspaces</div>
+                        {!workspaces ? (
+                            <div className="px-3 py-2 text-xs text-gray-500"><i className="fa-solid fa-circle-notch fa-spin"></i></div>
+                        ) : workspaces.map(w => (
+                            <button key={w.id} onClick={() => choose(w.id)} disabled={busy} className={`${itemClass} ${w.id === workspace.id ? 'text-white' : 'text-gray-300'}`}>
+                                <i className={`fa-solid ${w.personal ? 'fa-user' : 'fa-users'} w-4 text-gray-500`}></i>
+                                <span className="flex-1 truncate">{w.personal ? 'Personal' : w.name}</span>
+                                {!w.personal && <span className="text-[10px] text-gray-500">{ROLE_LABELS[w.role]}</span>}
+                                {w.id === workspace.id && <i className="fa-solid fa-check text-[#00F2EA]"></i>}
+                            </button>
+                        ))}
+                        {invites.length > 0 && (
+                            <>
+                                <div className="border-t border-[#333] my-1" />
+                                <div className="px-3 pt-1 pb-2 text-[10px] text-gray-500 uppercase font-mono">Invites</div>
+                                {invites.map(invite => (
+                                    <div key={invite.id} className="px-3 py-2 text-xs">
+                                        <div className="text-white truncate">{invite.workspaceName}</div>
+                                        <div className="text-gray-500 mb-2">
+                                            As {ROLE_LABELS[invite.role].toLowerCase()}{invite.invitedBy && <> · from {invite.invitedBy}</>}
+                                        </div>
+                                        <div className="flex gap-2">
+                                            <button onClick={() => answer(invite, true)} disabled={busy} className="bg-white text-black font-bold px-3 py-1 rounded hover:bg-gray-200 disabled:opacity-50">Join</button>
+                                            <button onClick={() => answer(invite, false)} disabled={busy} className="text-gray-400 hover:text-white disabled:opacity-50">Decline</button>
+                                        </div>
+                                    </div>
+                                ))}
+                            </>
+                        )}
+                        {error && <p className="mx-3 my-1 text-[#FF0050] text-xs bg-[#FF0050]/10 p-2 rounded">{error}</p>}
+                        <div className="border-t border-[#333] my-1" />
+                        <button onClick={() => { setOpen(false); navigate('/account'); }} className={`${itemClass} text-gray-300`}>
+                            <i className="fa-solid fa-gear w-4 text-gray-500"></i>Manage workspaces
+                        </button>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+/** Plan, audits left and an upgrade button when they've run out. */
+const UsageBar = () => {
+    const { entitlements, triggerUpgrade } = useAuth();
+    const remaining = entitlements?.remaining ?? null;
+    const resetsOn = entitlements?.periodEnd ? new Date(entitlements.periodEnd).toLocaleDateString() : null;
+    return (
+        <div className="mb-6 flex items-center justify-between bg-[#1a1a1a] p-3 rounded-lg border border-[#333]">
+            <div className="text-sm text-gray-400">
+                {entitlements?.planName ?? 'Free'} Audits: <span className={remaining === 0 ? "text-red-500 font-bold" : "text-white font-bold"}>{remaining ?? '–'}</span> / {entitlements?.quota ?? '–'} left
+                {resetsOn && <span className="text-xs text-gray-600 ml-2">resets {resetsOn}</span>}
+            </div>
+            {remaining === 0 && entitlements?.plan !== 'professional' && (
+                <button onClick={triggerUpgrade} className="text-xs bg-[#FF0050] text-white px-3 py-1 rounded font-bold hover:bg-red-600 transition-colors">
+                    UPGRADE
+                </button>
+            )}
+        </div>
+    );
+};
+
+const DASHBOARD_TAB_LABELS: Record<DashboardTab, string> = {
+    history: 'History',
+    batch: 'Batch',
+    ab: 'A/B Test',
+    benchmarks: 'Benchmarks',
+    performance: 'Performance',
+};
+
+const Dashboard = ({ tab, onOpenAudit, onAuditCompetitor }: {
+    tab: DashboardTab,
+    onOpenAudit: (audit: OpenedAudit) => void,
+    onAuditCompetitor: (target: CompetitorTarget) => void,
+}) => {
+    const { entitlements, refreshEntitlements, triggerUpgrade } = useAuth();
+    const [comparison, setComparison] = useState<AbComparison | null>(null);
+    const canBenchmark = hasFeature(entitlements, 'benchmarking');
+
+    useEffect(() => setComparison(null), [tab]);
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-6">
+                <h1 className="text-2xl font-bold font-heading">Dashboard</h1>
+                <Link to="/audit/new" className="bg-gradient-to-r from-[#FF0050] to-[#00F2EA] text-white text-sm font-bold px-4 py-2 rounded-lg"><i className="fa-solid fa-plus mr-2"></i>New Audit</Link>
+            </div>
+
+            {!comparison && (
+                <div className="flex gap-1 mb-6 bg-[#1a1a1a] p-1 rounded-lg border border-[#333] text-sm">
+                    {DASHBOARD_TABS.map(t => (
+                        <Link key={t} to={routePath({ name: 'dashboard', tab: t })} className={`flex-1 text-center py-2 rounded-md font-medium transition-colors ${tab === t ? 'bg-white text-black' : 'text-gray-400 hover:text-white'}`}>
+                            {DASHBOARD_TAB_LABELS[t]}
+                            {t === 'benchmarks' && !canBenchmark && <i className="fa-solid fa-lock ml-1 text-[#FF0050] text-xs"></i>}
+                        </Link>
+                    ))}
+                </div>
+            )}
+
+            {!comparison && (tab === 'batch' || tab === 'ab') && <UsageBar />}
+
+            {comparison ? (
+                <ComparisonView comparison={comparison} onClose={() => setComparison(null)} closeLabel={tab === 'history' ? 'Back to History' : 'New A/B Test'} />
+            ) : tab === 'history' ? (
+                <AuditHistory
+                    onOpen={(record) => onOpenAudit({ id: record.id, report: record.report, fileName: record.fileName, video: record.storagePath ? { storagePath: record.storagePath } : null })}
+                    onOpenComparison={(record) => setComparison(record.comparison)}
+                />
+            ) : tab === 'ab' ? (
+                <ABTestPanel onDone={(done) => { setComparison(done); refreshEntitlements(); }} />
+            ) : tab === 'benchmarks' ? (
+                canBenchmark ? <BenchmarkLibrary onAuditCompetitor={onAuditCompetitor} /> : (
+                    <div className="text-center py-10">
+                        <i className="fa-solid fa-flag-checkered text-3xl text-gray-600 mb-4"></i>
+                        <h3 className="text-lg font-bold text-white mb-2">Competitor benchmarking is a Professional feature</h3>
+                        <p className="text-gray-400 text-sm mb-6">Build libraries of competitor ads and see where yours is ahead or behind.</p>
+                        <button onClick={triggerUpgrade} className="bg-white text-black font-bold px-6 py-3 rounded-lg hover:bg-gray-200">View Plans</button>
+                    </div>
+                )
+            ) : tab === 'performance' ? (
+                <PerformancePanel />
+            ) : null}
+        </div>
+    );
+};
+
+const NewAuditPage = ({ competitorTarget, onClearTarget, onSaved }: {
+    competitorTarget: CompetitorTarget | null,
+    onClearTarget: () => void,
+    onSaved: (audit: OpenedAudit) => void,
+}) => {
+    const { user, triggerUpgrade, entitlements, refreshEntitlements } = useAuth();
+    const [file, setFile] = useState<File | null>(null);
+    const [fileInfo, setFileInfo] = useState<VideoInfo | null>(null);
+    const [validating, setValidating] = useState(false);
+    const [stored, setStored] = useState<StoredVideo | null>(null);
+    const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+    const [analyzing, setAnalyzing] = useState(false);
+    // Shown here only until it's saved (then it moves to /audits/:id), or for good in the offline demo
+    const [result, setResult] = useState<OpenedAudit | null>(null);
+    const [error, setError] = useState<AuditError | null>(null);
+    const [retryInfo, setRetryInfo] = useState<RetryInfo | null>(null);
+    const [auditContext, setAuditContext] = useState<AuditContext | null>(null);
+    const [policyCheck, setPolicyCheck] = useState(false);
+    const [loadingUsage, setLoadingUsage] = useState(false);
+    const jobRef = useRef<AbortController | null>(null);
+
+    useEffect(() => {
+        if (user && (supabase || OFFLINE_DEMO)) {
+            setLoadingUsage(true);
+            refreshEntitlements().finally(() => setLoadingUsage(false));
+        }
+        // Leaving the page cancels whatever is in flight (the credit is refunded)
+        return () => jobRef.current?.abort();
+    }, []);
+
+    // Validate as soon as a file is picked, so a bad file never costs a credit
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const picked = e.target.files?.[0];
+        e.target.value = "";
+        if (!picked) return;
+
+        setFile(picked);
+        setFileInfo(null);
+        setStored(null);
+        setError(null);
+        setValidating(true);
+        try {
+            setFileInfo(await validateVideo(picked));
+        } catch (err) {
+            setFile(null);
+            setError(toAuditError(err));
+        } finally {
+            setValidating(false);
+        }
+    };
+
+    const runAnalysis = async () => {
+        if (!file || !fileInfo || !user || !(supabase || OFFLINE_DEMO)) return;
+
+        const controller = new AbortController();
+        const target = competitorTarget;
+        jobRef.current = controller;
+        setAnalyzing(true);
+        setError(null);
+        setRetryInfo(null);
+
+        try {
+            const { report, video } = await runAuditJob({
+                file,
+                info: fileInfo,
+                userId: user.id,
+                stored,
+                idempotencyKey: newIdempotencyKey(),
+                context: auditContext,
+                policyCheck: policyCheck && canCheckPolicy,
+                signal: controller.signal,
+                onStage: (stage) => setUploadProgress(stage === 'uploading' ? 0 : null),
+                onUploadProgress: setUploadProgress,
+                onUploaded: setStored,
+                onRetry: setRetryInfo,
+            });
+            setResult({ id: null, report, fileName: file.name, video: { file } });
+            onClearTarget();
+            refreshEntitlements();
+
+            // Keep the report even if saving fails; the user already paid for it.
+            if (!OFFLINE_DEMO) {
+                saveAudit(user.id, file, report, video)
+                    .then(async record => {
+                        if (target) await addEntry(user.id, target.setId, record.id, target.competitor);
+                        onSaved({ id: record.id, report: record.report, fileName: record.fileName, video: { file } });
+                    })
+                    .catch(err => console.error("Failed to save audit", err));
+            }
+        } catch (err) {
+            setError(toAuditError(err));
+            refreshEntitlements();
+        } finally {
+            if (jobRef.current === controller) jobRef.current = null;
+            setUploadProgress(null);
+            setRetryInfo(null);
+            setAnalyzing(false);
+        }
+    };
+
+    const cancelAnalysis = () => jobRef.current?.abort();
+
+    const reset = () => {
+        setResult(null);
+        setFile(null);
+        setFileInfo(null);
+        setStored(null);
+    };
+
+    const isLimitReached = entitlements !== null && entitlements.remaining === 0;
+    const isFreePlan = !entitlements || entitlements.plan === 'free';
+    const resetsOn = entitlements?.periodEnd ? new Date(entitlements.periodEnd).toLocaleDateString() : null;
+    const canCheckPolicy = hasFeature(entitlements, 'policy_check');
+
+    if (result) {
+        return <ReportView audit={result} onChange={setResult} backLabel="Audit Another" onBack={reset} />;
+    }
+
+    return (
+        <div>
+            <h1 className="text-2xl font-bold font-heading mb-6">New Audit</h1>
+            <UsageBar />
+
+            {isLimitReached ? (
+                // LIMIT REACHED STATE
+                <div className="text-center py-8">
+                    <div className="w-16 h-16 rounded-full bg-red-900/20 flex items-center justify-center border border-red-500/30 mb-4 mx-auto">
+                        <i className="fa-solid fa-ban text-2xl text-red-500"></i>
+                    </div>
+                    <h3 className="text-xl font-bold text-white mb-2">{isFreePlan ? 'Free Limit Reached' : 'Monthly Limit Reached'}</h3>
+                    <p className="text-gray-400 mb-6 max-w-sm mx-auto">
+                        {isFreePlan
+                            ? `You've used all ${entitlements?.quota ?? PLANS.free.audits} free audits. Upgrade for more audits and deep analysis.`
+                            : `You've used all ${entitlements?.quota} audits on ${entitlements?.planName} this month.${resetsOn ? ` Your quota resets on ${resetsOn}.` : ''}`}
+                    </p>
+                    <button onClick={triggerUpgrade} className="bg-white text-black font-bold px-8 py-3 rounded-lg hover:bg-gray-200 w-full sm:w-auto">
+                        View Plans
+                    </button>
+                </div>
+            ) : (
+                // UPLOAD STATE
+                <div className="text-center">
+                    {competitorTarget && (
+                        <div className="flex items-center gap-2 text-left text-xs mb-4 bg-[#00F2EA]/5 border border-[#00F2EA]/30 rounded-lg px-3 py-2">
+                            <i className="fa-solid fa-flag-checkered text-[#00F2EA]"></i>
+                            <span className="flex-1 text-gray-300">Competitor ad for <span className="text-white">{competitorTarget.competitor}</span>, added to <span className="text-white">{competitorTarget.setName}</span> once audited.</span>
+                            <button onClick={onClearTarget} disabled={analyzing} className="text-gray-500 hover:text-white" title="Audit my own ad instead"><i className="fa-solid fa-xmark"></i></button>
+                        </div>
+                    )}
+
+                    <PresetPicker onChange={setAuditContext} disabled={analyzing} />
+
+                    {/* POLICY CHECK (Pro) */}
+                    <label
+                        onClick={canCheckPolicy ? undefined : (e) => { e.preventDefault(); triggerUpgrade(); }}
+                        className="flex items-center gap-3 text-left mb-4 bg-[#1a1a1a] border border-[#333] rounded-lg px-3 py-2 cursor-pointer"
+                    >
+                        <input type="checkbox" checked={policyCheck && canCheckPolicy} onChange={(e) => setPolicyCheck(e.target.checked)} disabled={analyzing || !canCheckPolicy} className="accent-[#00F2EA]" />
+                        <span className="flex-1">
+                            <span className="block text-sm text-white"><i className="fa-solid fa-shield-halved mr-1 text-gray-500"></i>Policy Violation Check</span>
+                            <span className="block text-xs text-gray-500">Flags claims, imagery, products and audio likely to be rejected{auditContext?.platform ? ` on ${PLATFORMS[auditContext.platform].label}` : ''}.</span>
+                        </span>
+                        {!canCheckPolicy && <span className="text-[10px] font-bold bg-[#FF0050] text-white px-2 py-0.5 rounded"><i className="fa-solid fa-lock mr-1"></i>PRO</span>}
+                    </label>
+
+                    <div 
+                        onClick={() => document.getElementById('app-file-upload')?.click()}
+                        className={`border-2 border-dashed rounded-xl p-10 cursor-pointer transition-all ${fileInfo ? 'border-[#00F2EA] bg-[#00F2EA]/5' : 'border-[#333] hover:border-gray-500 hover:bg-[#1a1a1a]'}`}
+                    >
+                        <input type="file" id="app-file-upload" className="hidden" accept="video/mp4,video/quicktime,video/webm" onChange={handleFileChange} disabled={analyzing} />
+                        <i className={`fa-solid ${validating ? 'fa-circle-notch fa-spin text-gray-500' : fileInfo ? 'fa-check-circle text-[#00F2EA]' : 'fa-cloud-arrow-up text-gray-500'} text-4xl mb-4`}></i>
+                        <h4 className="text-white font-medium text-lg">{file ? file.name : "Upload Video Ad"}</h4>
+                        <p className="text-sm text-gray-500 mt-2">
+                            {validating
+                                ? "Checking video..."
+                                : fileInfo
+                                    ? `${fileInfo.container.toUpperCase()} · ${fileInfo.width}×${fileInfo.height} · ${Math.round(fileInfo.durationSeconds)}s · ${formatFileSize(fileInfo.sizeBytes)}`
+                                    : `MP4, MOV or WEBM (Max ${UPLOAD_LIMITS.maxBytes / (1024 * 1024)}MB, ${UPLOAD_LIMITS.maxDurationSeconds / 60} min)`}
+                        </p>
+                    </div>
+
+                    {uploadProgress !== null && (
+                        <div className="mt-4 text-left">
+                            <div className="flex justify-between text-xs text-gray-400 mb-1">
+                                <span>Uploading</span>
+                                <span className="font-mono">{Math.round(uploadProgress * 100)}%</span>
+                            </div>
+                            <div className="h-2 bg-[#1a1a1a] rounded-full overflow-hidden border border-[#333]">
+                                <div className="h-full bg-gradient-to-r from-[#FF0050] to-[#00F2EA] transition-[width] duration-200" style={{ width: `${uploadProgress * 100}%` }} />
+                            </div>
+                        </div>
+                    )}
+
+                    {retryInfo && (
+                        <p className="text-yellow-400 text-xs mt-4">
+                            <i className="fa-solid fa-rotate mr-1"></i>
+                            {retryInfo.error.message} Retry {retryInfo.attempt} of {retryInfo.maxRetries} in {Math.ceil(retryInfo.delayMs / 1000)}s...
+                        </p>
+                    )}
+
+                    {error && <AuditErrorNotice error={error} onUpgrade={triggerUpgrade} />}
+
+                    <button 
+                        onClick={runAnalysis} 
+                        disabled={!fileInfo || analyzing || validating || loadingUsage}
+                        className="w-full mt-6 bg-gradient-to-r from-[#FF0050] to-[#00F2EA] text-white font-bold py-4 rounded-xl disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                    >
+                        {uploadProgress !== null
+                            ? <><i className="fa-solid fa-circle-notch fa-spin"></i> Uploading...</>
+                            : analyzing ? <><i className="fa-solid fa-circle-notch fa-spin"></i> Analyzing...</> : "Run Deep Audit"}
+                    </button>
+                    {analyzing && (
+                        <button onClick={cancelAnalysis} className="mt-3 text-xs text-gray-500 hover:text-white underline">Cancel</button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+/** /audits/:id */
+const AuditPage = ({ id, initial }: { id: string, initial: OpenedAudit | null }) => {
+    const [audit, setAudit] = useState<OpenedAudit | null>(initial);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (initial) return;
+        getAudit(id)
+            .then(record => setAudit({ id: record.id, report: record.report, fileName: record.fileName, video: record.storagePath ? { storagePath: record.storagePath } : null }))
+            .catch(err => {
+                console.error("Failed to load audit", err);
+                setError(supabase ? "This audit doesn't exist, or it isn't yours." : "Saved audits aren't available in the offline demo.");
+            });
+    }, [id]);
+
+    if (error) {
+        return (
+            <div className="text-center py-16">
+                <i className="fa-solid fa-file-circle-question text-3xl text-gray-600 mb-4"></i>
+                <p className="text-gray-300 mb-6">{error}</p>
+                <Link to="/app" className="text-sm text-gray-500 hover:text-white underline">Back to History</Link>
+            </div>
+        );
+    }
+    if (!audit) return <div className="text-center py-16 text-gray-500"><i className="fa-solid fa-circle-notch fa-spin text-2xl"></i></div>;
+    return <ReportView audit={audit} onChange={setAudit} backLabel="Back to History" onBack={() => navigate('/app')} />;
+};
+
+/** A report with its tools: script studio, benchmark, share, export. */
+const ReportView = ({ audit, onChange, backLabel, onBack }: {
+    audit: OpenedAudit,
+    onChange: (audit: OpenedAudit) => void,
+    backLabel: string,
+    onBack: () => void,
+}) => {
+    const { entitlements, triggerUpgrade } = useAuth();
+    const [panel, setPanel] = useState<'studio' | 'benchmark' | 'branding' | 'share' | null>(null);
+    const { id, report, fileName, video } = audit;
+    const canBenchmark = hasFeature(entitlements, 'benchmarking');
+
+    // Saved with the audit when there is one; the offline demo only keeps it on screen
+    const saveTranscriptEdits = async (cues: TranscriptCue[]) => {
+        checkCues(cues);
+        const saved = id && supabase ? await saveTranscript(id, cues) : cues;
+        onChange({ ...audit, report: { ...report, transcript: saved } });
+    };
+
+    const open = (next: NonNullable<typeof panel>, feature?: Feature) =>
+        !feature || hasFeature(entitlements, feature) ? setPanel(next) : triggerUpgrade();
+
+    if (panel === 'studio') return <ScriptStudio report={report} auditId={id} onClose={() => setPanel(null)} />;
+    if (panel === 'benchmark') return <BenchmarkComparisonView report={report} auditId={id} onClose={() => setPanel(null)} />;
+    if (panel === 'branding') return <BrandingEditor onClose={() => setPanel(null)} />;
+    if (panel === 'share' && id) return <SharePanel auditId={id} hasVideo={!!video} onClose={() => setPanel(null)} />;
+
+    return (
+        <div className="space-y-4 animate-in fade-in slide-in-from-bottom-4">
+            <div className="flex items-center justify-between mb-4">
+                <div>
+                    <h3 className="text-white font-bold text-lg">Analysis Report</h3>
+                    <p className="text-xs text-gray-500 truncate max-w-[16rem]">{fileName}</p>
+                </div>
+                <div className="flex items-center gap-4">
+                    {report.script && (
+                        <button onClick={() => open('studio', 'script_rewrites')} className="text-xs text-gray-500 hover:text-white">
+                            <i className="fa-solid fa-pen-nib mr-1"></i>Rewrite Script
+                            {!hasFeature(entitlements, 'script_rewrites') && <i className="fa-solid fa-lock ml-1 text-[#FF0050]"></i>}
+                        </button>
+                    )}
+                    <button onClick={() => open('benchmark', 'benchmarking')} className="text-xs text-gray-500 hover:text-white">
+                        <i className="fa-solid fa-flag-checkered mr-1"></i>Benchmark
+                        {!canBenchmark && <i className="fa-solid fa-lock ml-1 text-[#FF0050]"></i>}
+                    </button>
+                    {id && supabase && (
+                        <button onClick={() => open('share')} className="text-xs text-gray-500 hover:text-white"><i className="fa-solid fa-share-nodes mr-1"></i>Share</button>
+                    )}
+                    <ExportMenu report={report} fileName={fileName} auditId={id} onEditBranding={() => open('branding', 'branded_exports')} />
+                    <button onClick={onBack} className="text-xs text-gray-500 hover:text-white underline">{backLabel}</button>
+                </div>
+            </div>
+            <SyncedReport report={report} source={video} onSaveTranscript={saveTranscriptEdits} />
+        </div>
+    );
+};
+
+const SIGN_IN_METHOD_LABELS: Record<string, string> = {
+    email: 'Email',
+    google: 'Google',
+};
+
+/** /account: profile, plan and usage, workspaces, API keys, and the user's data (export or delete). */
+const AccountPage = () => {
+    const { user, entitlements, logout, refreshEntitlements, setAuthView, setShowAuthModal } = useAuth();
+    // Also where checkout returns, so pick up the new plan
+    useEffect(() => { refreshEntitlements(); }, []);
+    const resetsOn = entitlements?.periodEnd ? new Date(entitlements.periodEnd).toLocaleDateString() : null;
+    const used = entitlements ? Math.min(1, entitlements.used / Math.max(1, entitlements.quota)) : 0;
+
+    return (
+        <div className="space-y-6">
+            <h1 className="text-2xl font-bold font-heading">Account</h1>
+            <div className="bg-[#111] border border-[#333] rounded-xl p-5 flex items-center justify-between">
+                <div>
+                    <div className="text-xs text-gray-500 uppercase font-mono mb-1">Signed in as</div>
+                    <div className="text-white">{user?.email}</div>
+                    {user?.createdAt && (
+                        <div className="text-xs text-gray-500">
+                            Member since {new Date(user.createdAt).toLocaleDateString()}
+                            {user.signInMethods.length > 0 && <> · Signs in with {user.signInMethods.map(m => SIGN_IN_METHOD_LABELS[m] ?? m).join(' and ')}</>}
+                        </div>
+                    )}
+                </div>
+                <div className="flex items-center gap-4">
+                    <button onClick={() => { setAuthView('reset'); setShowAuthModal(true); }} className="text-sm text-gray-400 hover:text-white">Change Password</button>
+                    <button onClick={logout} className="text-sm text-gray-400 hover:text-white">Logout</button>
+                </div>
+            </div>
+            <div className="bg-[#111] border border-[#333] rounded-xl p-5 space-y-4">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <div className="text-xs text-gray-500 uppercase font-mono mb-1">Plan</div>
+                        <div className="text-white text-lg font-bold">{entitlements?.planName ?? PLANS.free.name}</div>
+                        {entitlements?.subscriptionStatus && <div className="text-xs text-gray-500">Subscription {entitlements.subscriptionStatus}</div>}
+                    </div>
+                    <Link to="/pricing" className="text-sm bg-white text-black font-bold px-4 py-2 rounded-lg hover:bg-gray-200">
+                        {entitlements?.plan === 'professional' ? 'View Plans' : 'Upgrade'}
+                    </Link>
+                </div>
+                {entitlements && (
+                    <div>
+                        <div className="flex justify-between text-xs text-gray-400 mb-1">
+                            <span>{entitlements.used} of {entitlements.quota} audits used{entitlements.period === 'lifetime' ? '' : ' this period'}</span>
+                            {resetsOn && <span>Resets {resetsOn}</span>}
+                        </div>
+                        <div className="h-2 bg-[#1a1a1a] rounded-full overflow-hidden border border-[#333]">
+                            <div className="h-full bg-gradient-to-r from-[#FF0050] to-[#00F2EA]" style={{ width: `${used * 100}%` }} />
+                        </div>
+                    </div>
+                )}
+            </div>
+            {supabase && <UsageHistory />}
+            {supabase && <WorkspacePanel />}
+            {supabase && <ApiKeysPanel />}
+            {supabase && <DataExportPanel />}
+            {supabase && <DeleteAccountPanel />}
+        </div>
+    );
+};
+
+/** Audits used per quota period, split into the user's own and their teammates'. */
+const UsageHistory = () => {
+    const [periods, setPeriods] = useState<UsagePeriod[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        getUsageHistory().then(setPeriods).catch(err => setError(err.message));
+    }, []);
+
+    const showTeam = periods?.some(p => p.byTeam > 0) ?? false;
+    const formatPeriod = (period: UsagePeriod) => {
+        const start = new Date(period.start).toLocaleDateString();
+        if (period.current) return period.end ? `${start} – now (resets ${new Date(period.end).toLocaleDateString()})` : `Since ${start}`;
+        return `${start} – ${new Date(period.end!).toLocaleDateString()}`;
+    };
+
+    return (
+        <div className="bg-[#111] border border-[#333] rounded-xl p-5">
+            <div className="text-xs text-gray-500 uppercase font-mono mb-3">Usage history</div>
+            {error ? (
+                <p className="text-[#FF0050] text-xs bg-[#FF0050]/10 p-2 rounded">{error}</p>
+            ) : !periods ? (
+                <div className="text-center py-4 text-gray-500 text-sm"><i className="fa-solid fa-circle-notch fa-spin"></i></div>
+            ) : (
+                <table className="w-full text-xs">
+                    <thead>
+                        <tr className="text-gray-500 text-left">
+                            <th className="font-normal pb-2">Period</th>
+                            <th className="font-normal pb-2">Plan</th>
+                            <th className="font-normal pb-2 text-right">Used</th>
+                            {showTeam && <th className="font-normal pb-2 text-right" title="Audits teammates ran in your team workspaces">Teammates</th>}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {periods.map(period => (
+                            <tr key={period.start} className="border-t border-[#222]">
+                                <td className={`py-2 ${period.current ? 'text-white' : 'text-gray-400'}`}>{formatPeriod(period)}</td>
+                                <td className="py-2 text-gray-400">{period.planName}</td>
+                                <td className="py-2 text-right text-gray-300">{period.used} / {period.quota}</td>
+                                {showTeam && <td className="py-2 text-right text-gray-400">{period.byTeam}</td>}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+};
+
+/** Everything the user created, as one JSON file or a ZIP with Markdown reports (and videos). */
+const DataExportPanel = () => {
+    const { user } = useAuth();
+    const [includeVideos, setIncludeVideos] = useState(false);
+    const [progress, setProgress] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    // Set when the videos wouldn't fit, to offer the ZIP without them
+    const [tooLarge, setTooLarge] = useState(false);
+
+    const download = async (format: 'json' | 'zip', withVideos = includeVideos) => {
+        if (!user) return;
+        setError(null);
+        setTooLarge(false);
+        setProgress("Collecting your data...");
+        try {
+            const data = await collectAccountData(user);
+            const date = new Date().toISOString().slice(0, 10);
+            if (format === 'json') {
+                downloadText(`viralaudit-export-${date}.json`, accountExportToJson(data), 'application/json');
+            } else {
+                downloadBlob(`viralaudit-export-${date}.zip`, await accountExportToZip(data, { includeVideos: withVideos, onProgress: setProgress }));
+            }
+        } catch (err: any) {
+            setError(err.message);
+            setTooLarge(err instanceof ExportTooLargeError);
+        } finally {
+            setProgress(null);
+        }
+    };
+
+    return (
+        <div className="bg-[#111] border border-[#333] rounded-xl p-5 space-y-3">
+            <div>
+                <div className="text-xs text-gray-500 uppercase font-mono mb-1">Your data</div>
+                <p className="text-xs text-gray-500">
+                    Download the audits, presets, comparisons, benchmarks, script variants, share links and ad performance imports you created, in every workspace.
+                    The ZIP adds each report as Markdown.
+                </p>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                <input type="checkbox" checked={includeVideos} onChange={(e) => setIncludeVideos(e.target.checked)} className="accent-[#FF0050]" />
+                Include stored videos in the ZIP (can be large)
+            </label>
+            <div className="flex items-center gap-3">
+                <button onClick={() => download('zip')} disabled={!!progress} className="bg-white text-black text-sm font-bold px-4 py-2 rounded-lg hover:bg-gray-200 disabled:opacity-50">
+                    <i className="fa-solid fa-file-zipper mr-2"></i>Download ZIP
+                </button>
+                <button onClick={() => download('json')} disabled={!!progress} className="text-sm text-gray-400 hover:text-white disabled:opacity-50">
+                    <i className="fa-solid fa-code mr-1"></i>JSON only
+                </button>
+                {progress && <span className="text-xs text-gray-500"><i className="fa-solid fa-circle-notch fa-spin mr-1"></i>{progress}</span>}
+            </div>
+            {error && (
+                <div className="text-[#FF0050] text-xs bg-[#FF0050]/10 p-2 rounded">
+                    {error}
+                    {tooLarge && (
+                        <button
+                            onClick={() => { setIncludeVideos(false); download('zip', false); }}
+                            disabled={!!progress}
+                            className="block mt-2 text-white underline hover:no-underline disabled:opacity-50"
+                        >
+                            Download the ZIP without videos
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+/** Deletes the account with its creatives and reports, after the email is typed back. */
+const DeleteAccountPanel = () => {
+    const { user } = useAuth();
+    const [open, setOpen] = useState(false);
+    const [confirmation, setConfirmation] = useState('');
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const confirmed = !!user?.email && confirmation.trim().toLowerCase() === user.email.toLowerCase();
+
+    const handleDelete = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setBusy(true);
+        setError(null);
+        try {
+            await deleteAccount(confirmation);
+            // Leave the app before the session goes, so nobody is asked to sign in again.
+            // Only the local session is left: the user no longer exists on the server.
+            navigate('/', { replace: true });
+            await supabase?.auth.signOut({ scope: 'local' });
+        } catch (err: any) {
+            setError(err.message);
+            setBusy(false);
+        }
+    };
+
+    return (
+        <div className="bg-[#111] border border-[#FF0050]/30 rounded-xl p-5 space-y-3">
+            <div className="flex items-center justify-between">
+                <div>
+                    <div className="text-xs text-[#FF0050] uppercase font-mono mb-1">Delete account</div>
+                    <p className="text-xs text-gray-500">Permanently removes your account, uploaded videos and reports.</p>
+                </div>
+                {!open && <button onClick={() => setOpen(true)} className="text-sm text-gray-400 hover:text-[#FF0050]">Delete…</button>}
+            </div>
+            {open && (
+                <form onSubmit={handleDelete} className="space-y-3">
+                    <ul className="text-xs text-gray-400 list-disc pl-5 space-y-1">
+                        <li>Your audits, stored videos, presets, comparisons, benchmarks, script variants, share links and ad performance imports are deleted. Share links stop working.</li>
+                        <li>Team workspaces you own are deleted for everyone in them, with their audits and videos.</li>
+                        <li>A paid subscription is cancelled first; the rest of the period isn't refunded.</li>
+                        <li>This can't be undone. Download your data above first if you want to keep it.</li>
+                    </ul>
+                    <div>
+                        <label className="block text-xs text-gray-500 mb-1">Type <span className="text-white">{user?.email}</span> to confirm</label>
+                        <input value={confirmation} onChange={(e) => setConfirmation(e.target.value)} autoComplete="off" className="w-full bg-[#0a0a0a] border border-[#333] rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-[#FF0050]/50" />
+                    </div>
+                    {error && <p className="text-[#FF0050] text-xs bg-[#FF0050]/10 p-2 rounded">{error}</p>}
+                    <div className="flex items-center gap-4">
+                        <button type="submit" disabled={!confirmed || busy} className="bg-[#FF0050] text-white text-sm font-bold px-4 py-2 rounded-lg hover:bg-red-600 disabled:opacity-50">
+                            {busy ? <i className="fa-solid fa-circle-notch fa-spin"></i> : 'Delete My Account'}
+                        </button>
+                        <button type="button" onClick={() => { setOpen(false); setConfirmation(''); setError(null); }} disabled={busy} className="text-sm text-gray-400 hover:text-white">Cancel</button>
+                    </div>
+                </form>
+            )}
+        </div>
+    );
+};
+
+/** The active workspace's people and settings, and creating team workspaces. */
+const WorkspacePanel = () => {
+    const { user, workspace, entitlements, refreshEntitlements } = useAuth();
+    const [members, setMembers] = useState<WorkspaceMember[] | null>(null);
+    const [invites, setInvites] = useState<WorkspaceInvite[]>([]);
+    const [inviteEmail, setInviteEmail] = useState('');
+    const [inviteRole, setInviteRole] = useState<AssignableRole>('member');
+    const [newName, setNewName] = useState('');
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const canManage = canManageWorkspace(workspace?.role);
+    const isOwner = workspace?.role === 'owner';
+    const canCreate = hasFeature(entitlements, 'team_workspaces');
+
+    useEffect(() => {
+        if (!workspace || workspace.personal) return;
+        listMembers(workspace.id).then(setMembers).catch(err => setError(err.message));
+        if (canManage) listInvites(workspace.id).then(setInvites).catch(err => setError(err.message));
+    }, [workspace?.id, canManage]);
+
+    if (!workspace) return null;
+
+    const run = async (action: () => Promise<void>) => {
+        setBusy(true);
+        setError(null);
+        try {
+            await action();
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleInvite = (e: React.FormEvent) => {
+        e.preventDefault();
+        run(async () => {
+            await inviteMember(workspace.id, inviteEmail, inviteRole);
+            setInviteEmail('');
+            setInvites(await listInvites(workspace.id));
+        });
+    };
+
+    const handleRevoke = (invite: WorkspaceInvite) => run(async () => {
+        await revokeInvite(invite.id);
+        setInvites(list => list.filter(i => i.id !== invite.id));
+    });
+
+    const handleRole = (member: WorkspaceMember, role: AssignableRole) => run(async () => {
+        await setMemberRole(workspace.id, member.userId, role);
+        setMembers(list => (list ?? []).map(m => m.userId === member.userId ? { ...m, role } : m));
+    });
+
+    const handleRemove = (member: WorkspaceMember) => {
+        const leaving = member.userId === user?.id;
+        const question = leaving
+            ? `Leave "${workspace.name}"? You'll lose access to its audits until someone invites you again.`
+            : `Remove ${member.email} from "${workspace.name}"? The audits they ran stay in the workspace.`;
+        if (!confirm(question)) return;
+        run(async () => {
+            await removeMember(workspace.id, member.userId);
+            // Leaving drops back to the personal workspace
+            if (leaving) await refreshEntitlements();
+            else setMembers(list => (list ?? []).filter(m => m.userId !== member.userId));
+        });
+    };
+
+    const handleRename = () => {
+        const name = prompt("Workspace name", workspace.name);
+        if (!name || name.trim() === workspace.name) return;
+        run(async () => {
+            await renameWorkspace(workspace.id, name);
+            await refreshEntitlements();
+        });
+    };
+
+    const handleDelete = () => {
+        if (!confirm(`Delete "${workspace.name}" with all of its audits, presets and benchmarks? Everyone in it loses access. This can't be undone.`)) return;
+        run(async () => {
+            await deleteWorkspace(workspace.id);
+            await refreshEntitlements();
+        });
+    };
+
+    const handleCreate = (e: React.FormEvent) => {
+        e.preventDefault();
+        run(async () => {
+            // Creating switches to the new workspace
+            await createWorkspace(newName);
+            setNewName('');
+            await refreshEntitlements();
+        });
+    };
+
+    const inputClass = "bg-[#0a0a0a] border border-[#333] rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-white/30";
+
+    return (
+        <div className="bg-[#111] border border-[#333] rounded-xl p-5 space-y-5">
+            <div className="flex items-start justify-between gap-4">
+                <div>
+                    <div className="text-xs text-gray-500 uppercase font-mono mb-1">Workspace</div>
+                    <div className="text-white text-lg font-bold">{workspace.personal ? 'Personal' : workspace.name}</div>
+                    <div className="text-xs text-gray-500">
+                        {workspace.personal ? 'Only you can see the audits here.' : `You're ${isOwner ? 'the owner' : workspace.role === 'admin' ? 'an admin' : 'a member'}. Audits use the owner's plan and quota.`}
+                    </div>
+                </div>
+                {!workspace.personal && (
+                    <div className="flex items-center gap-4 text-sm">
+                        {canManage && <button onClick={handleRename} disabled={busy} className="text-gray-400 hover:text-white disabled:opacity-50">Rename</button>}
+                        {isOwner && <button onClick={handleDelete} disabled={busy} className="text-gray-400 hover:text-[#FF0050] disabled:opacity-50">Delete</button>}
+                    </div>
+                )}
+            </div>
+
+            {!workspace.personal && (
+                <div>
+                    <h4 className="text-xs text-gray-500 uppercase font-mono mb-2">People</h4>
+                    {!members ? (
+                        <div className="text-center py-4 text-gray-500 text-sm"><i className="fa-solid fa-circle-notch fa-spin"></i></div>
+                    ) : (
+                        <ul className="space-y-2">
+                            {members.map(member => (
+                                <li key={member.userId} className="bg-[#1a1a1a] border border-[#333] rounded-lg p-3 text-xs flex items-center gap-3">
+                                    <span className="flex-1 min-w-0 truncate text-gray-300">
+                                        {member.email}{member.userId === user?.id && <span className="text-gray-500"> (you)</span>}
+                                    </span>
+                                    {isOwner && member.role !== 'owner' ? (
+                                        <select value={member.role} onChange={(e) => handleRole(member, e.target.value as AssignableRole)} disabled={busy} className="bg-[#0a0a0a] border border-[#333] rounded px-2 py-1 text-xs text-white">
+                                            {ASSIGNABLE_ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                                        </select>
+                                    ) : (
+                                        <span className="text-gray-500">{ROLE_LABELS[member.role]}</span>
+                                    )}
+                                    {member.userId === user?.id ? (
+                                        member.role !== 'owner' && <button onClick={() => handleRemove(member)} disabled={busy} className="text-gray-400 hover:text-[#FF0050] disabled:opacity-50">Leave</button>
+                                    ) : (
+                                        canRemoveMember(workspace.role, member.role) && <button onClick={() => handleRemove(member)} disabled={busy} className="text-gray-400 hover:text-[#FF0050] disabled:opacity-50">Remove</button>
+                                    )}
+                                </li>
+                            ))}
+                            {invites.map(invite => (
+                                <li key={invite.id} className="bg-[#1a1a1a] border border-dashed border-[#333] rounded-lg p-3 text-xs flex items-center gap-3">
+                                    <span className="flex-1 min-w-0 truncate text-gray-400">{invite.email}</span>
+                                    <span className="text-gray-500">Invited as {ROLE_LABELS[invite.role].toLowerCase()}</span>
+                                    <button onClick={() => handleRevoke(invite)} disabled={busy} className="text-gray-400 hover:text-[#FF0050] disabled:opacity-50">Revoke</button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+
+            {!workspace.personal && canManage && (
+                <form onSubmit={handleInvite} className="space-y-2">
+                    <div className="flex gap-2">
+                        <input type="email" required value={inviteEmail} onChange={(e) => setInviteEmail(e.target.value)} placeholder="teammate@agency.com" className={`${inputClass} flex-1 min-w-0`} />
+                        <select value={inviteRole} onChange={(e) => setInviteRole(e.target.value as AssignableRole)} className={inputClass}>
+                            {ASSIGNABLE_ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                        </select>
+                        <button type="submit" disabled={busy} className="bg-white text-black text-sm font-bold px-4 py-2 rounded-lg hover:bg-gray-200 disabled:opacity-50">Invite</button>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                        {ROLE_DESCRIPTIONS[inviteRole]} They'll see the invite when they sign in with this address; no email is sent.
+                    </p>
+                </form>
+            )}
+
+            <div className={workspace.personal ? '' : 'border-t border-[#333] pt-5'}>
+                <h4 className="text-xs text-gray-500 uppercase font-mono mb-2">New team workspace</h4>
+                {canCreate ? (
+                    <form onSubmit={handleCreate} className="flex gap-2">
+                        <input value={newName} onChange={(e) => setNewName(e.target.value)} maxLength={WORKSPACE_LIMITS.name} required placeholder="Client or team name" className={`${inputClass} flex-1 min-w-0`} />
+                        <button type="submit" disabled={busy} className="bg-white text-black text-sm font-bold px-4 py-2 rounded-lg hover:bg-gray-200 disabled:opacity-50">Create</button>
+                    </form>
+                ) : (
+                    <p className="text-xs text-gray-500">
+                        Share audits, presets and benchmarks with up to {WORKSPACE_LIMITS.members} people on one subscription.{' '}
+                        <Link to="/pricing" className="text-white underline">Professional</Link> includes team workspaces.
+                    </p>
+                )}
+            </div>
+
+            {error && <p className="text-[#FF0050] text-xs bg-[#FF0050]/10 p-2 rounded">{error}</p>}
+        </div>
+    );
+};
+
+/** API keys for the public API: create (shown once), list and revoke. */
+const ApiKeysPanel = () => {
+    const { workspace } = useAuth();
+    const emptyDraft: ApiKeyDraft = { name: '', scopes: [...API_SCOPES], rateLimit: API_KEY_LIMITS.defaultRateLimit, webhookUrl: '' };
+    const [keys, setKeys] = useState<ApiKey[] | null>(null);
+    const [draft, setDraft] = useState<ApiKeyDraft>(emptyDraft);
+    const [creating, setCreating] = useState(false);
+    const [created, setCreated] = useState<CreatedApiKey | null>(null);
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [copied, setCopied] = useState<string | null>(null);
+
+    useEffect(() => {
+        listApiKeys().then(setKeys).catch(err => { setError(err.message); setKeys([]); });
+    }, []);
+
+    const copy = async (label: string, text: string) => {
+        await navigator.clipboard.writeText(text);
+        setCopied(label);
+        setTimeout(() => setCopied(c => c === label ? null : c), 2000);
+    };
+
+    const toggleScope = (scope: ApiScope) => setDraft(d => ({
+        ...d,
+        scopes: d.scopes.includes(scope) ? d.scopes.filter(s => s !== scope) : [...d.scopes, scope],
+    }));
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setBusy(true);
+        setError(null);
+        try {
+            setCreated(await createApiKey(draft));
+            setKeys(await listApiKeys());
+            setDraft(emptyDraft);
+            setCreating(false);
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleRevoke = async (key: ApiKey) => {
+        if (!confirm(`Revoke "${key.name}"? Scripts using it will stop working right away.`)) return;
+        try {
+            const revoked = await revokeApiKey(key.id);
+            setKeys(k => (k ?? []).map(x => x.id === revoked.id ? revoked : x));
+        } catch (err: any) {
+            setError(err.message);
+        }
+    };
+
+    const curlExample = `curl -X POST "${PUBLIC_API_URL}/audits?fileName=ad.mp4" \\
+  -H "Authorization: Bearer ${created?.apiKey ?? 'va_...'}" \\
+  -H "Content-Type: video/mp4" \\
+  --data-binary @ad.mp4`;
+
+    const inputClass = "w-full bg-[#0a0a0a] border border-[#333] rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-white/30";
+    const labelClass = "block text-xs text-gray-500 mb-1";
+
+    return (
+        <div className="bg-[#111] border border-[#333] rounded-xl p-5 space-y-4">
+            <div className="flex items-center justify-between">
+                <div>
+                    <div className="text-xs text-gray-500 uppercase font-mono mb-1">API keys</div>
+                    <p className="text-xs text-gray-500">
+                        Submit audits from your own pipeline. Audits run with a key count against the quota of the workspace it was created in
+                        {workspace ? <> (new keys: <span className="text-gray-300">{workspace.name}</span>)</> : null}.
+                    </p>
+                </div>
+                {!creating && <button onClick={() => { setCreating(true); setCreated(null); }} className="text-sm text-gray-400 hover:text-white whitespace-nowrap"><i className="fa-solid fa-plus mr-1"></i>New key</button>}
+            </div>
+
+            {created && (
+                <div className="bg-[#00F2EA]/5 border border-[#00F2EA]/30 rounded-lg p-3 space-y-2 text-xs">
+                    <p className="text-[#00F2EA]"><i className="fa-solid fa-triangle-exclamation mr-1"></i>Copy the key and webhook secret now. They won't be shown again.</p>
+                    {([['key', 'API key', created.apiKey], ['secret', 'Webhook signing secret', created.webhookSecret]] as const).map(([label, title, value]) => (
+                        <div key={label}>
+                            <div className="text-gray-500 mb-1">{title}</div>
+                            <div className="flex items-center gap-2">
+                                <code className="flex-1 min-w-0 truncate bg-[#0a0a0a] border border-[#333] rounded px-2 py-1 text-gray-200">{value}</code>
+                                <button onClick={() => copy(label, value)} className="text-gray-400 hover:text-white"><i className={`fa-solid ${copied === label ? 'fa-check' : 'fa-copy'} mr-1`}></i>{copied === label ? 'Copied' : 'Copy'}</button>
+                            </div>
+                        </div>
+                    ))}
+                    <button onClick={() => setCreated(null)} className="text-gray-400 hover:text-white underline">I've saved them</button>
+                </div>
+            )}
+
+            {creating && (
+                <form onSubmit={handleCreate} className="bg-[#1a1a1a] border border-[#333] rounded-xl p-4 space-y-3">
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className={labelClass}>Name</label>
+                            <input value={draft.name} onChange={(e) => setDraft(d => ({ ...d, name: e.target.value }))} maxLength={API_KEY_LIMITS.name} placeholder="Asset pipeline" required className={inputClass} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>Audits per minute</label>
+                            <input type="number" min={1} max={API_KEY_LIMITS.rateLimitMax} value={draft.rateLimit} onChange={(e) => setDraft(d => ({ ...d, rateLimit: Number(e.target.value) }))} className={inputClass} />
+                        </div>
+                    </div>
+                    <div>
+                        <label className={labelClass}>Permissions</label>
+                        <div className="flex flex-wrap gap-4">
+                            {API_SCOPES.map(scope => (
+                                <label key={scope} className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                                    <input type="checkbox" checked={draft.scopes.includes(scope)} onChange={() => toggleScope(scope)} className="accent-[#FF0050]" />
+                                    <span><span className="font-mono">{scope}</span> <span className="text-gray-500">· {API_SCOPE_DESCRIPTIONS[scope]}</span></span>
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                    <div>
+                        <label className={labelClass}>Webhook URL (optional)</label>
+                        <input type="url" value={draft.webhookUrl} onChange={(e) => setDraft(d => ({ ...d, webhookUrl: e.target.value }))} placeholder="https://example.com/viralaudit-webhook" className={inputClass} />
+                        <p className="text-[11px] text-gray-600 mt-1">Gets a signed <span className="font-mono">audit.succeeded</span> or <span className="font-mono">audit.failed</span> event when an audit finishes.</p>
+                    </div>
+                    <div className="flex items-center gap-4">
+                        <button type="submit" disabled={busy || !draft.name.trim() || draft.scopes.length === 0} className="bg-white text-black text-sm font-bold px-4 py-2 rounded-lg hover:bg-gray-200 disabled:opacity-50">
+                            {busy ? <i className="fa-solid fa-circle-notch fa-spin"></i> : 'Create Key'}
+                        </button>
+                        <button type="button" onClick={() => { setCreating(false); setDraft(emptyDraft); setError(null); }} className="text-sm text-gray-400 hover:text-white">Cancel</button>
+                    </div>
+                </form>
+            )}
+
+            {error && <p className="text-[#FF0050] text-xs bg-[#FF0050]/10 p-2 rounded">{error}</p>}
+
+            {!keys ? (
+                <div className="text-center py-4 text-gray-500 text-sm"><i className="fa-solid fa-circle-notch fa-spin"></i></div>
+            ) : keys.length === 0 ? (
+                <p className="text-gray-600 text-xs">No API keys yet.</p>
+            ) : (
+                <ul className="space-y-2">
+                    {keys.map(key => (
+                        <li key={key.id} className={`bg-[#1a1a1a] border border-[#333] rounded-lg p-3 text-xs flex items-center gap-3 ${key.revokedAt ? 'opacity-50' : ''}`}>
+                            <div className="flex-1 min-w-0">
+                                <div className="text-gray-200">
+                                    {key.name} <span className="font-mono text-gray-500">{key.prefix}…</span>
+                                    {workspace && key.workspaceId !== workspace.id && <span className="ml-2 text-[10px] uppercase text-gray-500 border border-[#333] rounded px-1">Other workspace</span>}
+                                </div>
+                                <div className="text-gray-500">
+                                    {key.scopes.join(', ')} · {key.rateLimit}/min
+                                    {key.webhookUrl && <> · <i className="fa-solid fa-bell"></i> Webhook</>}
+                                    {' · '}{key.revokedAt
+                                        ? `Revoked ${new Date(key.revokedAt).toLocaleDateString()}`
+                                        : key.lastUsedAt ? `Last used ${new Date(key.lastUsedAt).toLocaleString()}` : 'Never used'}
+                                </div>
+                            </div>
+                            {!key.revokedAt && <button onClick={() => handleRevoke(key)} className="text-gray-600 hover:text-[#FF0050]">Revoke</button>}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <details className="text-xs text-gray-500">
+                <summary className="cursor-pointer hover:text-white">Example request</summary>
+                <pre className="mt-2 bg-[#0a0a0a] border border-[#333] rounded-lg p-3 text-gray-300 overflow-x-auto">{curlExample}</pre>
+                <p className="mt-2">
+                    Answers <span className="font-mono">202</span> with the audit's id. Poll <span className="font-mono">GET /v1/audits/:id</span>, then fetch <span className="font-mono">GET /v1/audits/:id/report</span>. See the README for the full reference.
+                </p>
+            </details>
+        </div>
+    );
+};
+
+/** Where email and Google sign-in links land (lib/auth). supabase-js picks up the session by itself. */
+const AuthCallbackPage = () => {
+    const { user, isLoading, promptLogin } = useAuth();
+    // Read once, before anything tidies the URL
+    const [problem] = useState(() => supabase ? authCallbackError(window.location) : "Sign-in isn't configured on this deployment.");
+
+    useEffect(() => {
+        if (!problem && !isLoading && user) navigate(takeReturnTo() ?? '/app', { replace: true });
+    }, [problem, isLoading, user]);
+
+    const retry = () => {
+        navigate('/', { replace: true });
+        promptLogin(takeReturnTo());
+    };
+
+    const failed = problem ?? (!isLoading && !user ? "This link didn't sign you in. It may have expired or already been used." : null);
+
+    return (
+        <section className="relative z-10 min-h-[70vh] flex flex-col items-center justify-center text-center px-6">
+            {failed ? (
+                <>
+                    <i className="fa-solid fa-link-slash text-3xl text-gray-600 mb-4"></i>
+                    <p className="text-gray-300 mb-8 max-w-sm">{failed}</p>
+                    <button onClick={retry} className="bg-white text-black px-6 py-3 rounded-lg font-bold hover:bg-gray-200">Back to Sign In</button>
+                </>
+            ) : (
+                <p className="text-gray-400"><i className="fa-solid fa-circle-notch fa-spin mr-2"></i>Signing you in...</p>
+            )}
+        </section>
+    );
+};
+
+const NotFound = () => (
+    <section className="relative z-10 min-h-[70vh] flex flex-col items-center justify-center text-center px-6">
+        <h1 className="text-5xl font-bold font-heading mb-4">404</h1>
+        <p className="text-gray-400 mb-8">There's nothing at this address.</p>
+        <Link to="/" className="bg-white text-black px-6 py-3 rounded-lg font-bold hover:bg-gray-200">Go Home</Link>
+    </section>
+);
+
+// ==========================================
+// ⚠️ AUDIT ERRORS
+// ==========================================
+
+const AUDIT_ERROR_META: Record<AuditErrorKind, { title: string; icon: string; tone: string }> = {
+    quota: { title: "Out of audits", icon: 'fa-ban', tone: 'text-[#FF0050] bg-[#FF0050]/10 border-[#FF0050]/30' },
+    file: { title: "Problem with this file", icon: 'fa-file-circle-xmark', tone: 'text-[#FF0050] bg-[#FF0050]/10 border-[#FF0050]/30' },
+    network: { title: "Connection problem", icon: 'fa-wifi', tone: 'text-orange-400 bg-orange-500/10 border-orange-500/30' },
+    timeout: { title: "Analysis timed out", icon: 'fa-hourglass-end', tone: 'text-orange-400 bg-orange-500/10 border-orange-500/30' },
+    model: { title: "The AI couldn't finish this audit", icon: 'fa-robot', tone: 'text-yellow-400 bg-yellow-500/10 border-yellow-500/30' },
+    cancelled: { title: "Audit cancelled", icon: 'fa-circle-stop', tone: 'text-gray-400 bg-white/5 border-white/10' },
+};
+
+const AuditErrorNotice = ({ error, onUpgrade }: { error: AuditError, onUpgrade?: () => void }) => {
+    const meta = AUDIT_ERROR_META[error.kind];
+    // Credits are only taken once the upload is done and refunded on any failure
+    const creditNote = error.kind === 'quota' ? null : "Your audit credit was not used.";
+    return (
+        <div className={`text-left text-sm mt-4 p-3 rounded border ${meta.tone}`}>
+            <div className="font-bold flex items-center gap-2"><i className={`fa-solid ${meta.icon}`}></i>{meta.title}</div>
+            {error.kind !== 'cancelled' && <p className="text-gray-300 mt-1">{error.message}</p>}
+            {creditNote && <p className="text-gray-500 text-xs mt-1">{creditNote}</p>}
+            {error.kind === 'quota' && onUpgrade && (
+                <button onClick={onUpgrade} className="mt-2 text-xs bg-[#FF0050] text-white px-3 py-1 rounded font-bold hover:bg-red-600 transition-colors">UPGRADE</button>
+            )}
+        </div>
+    );
+};
+
+// ==========================================
+// 🎯 AUDIT PRESETS
+// ==========================================
+
+const splitRules = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+const PresetEditor = ({ initial, onSaved, onDeleted, onCancel }: {
+    initial: PresetDraft,
+    onSaved: (preset: AuditPreset) => void,
+    onDeleted: (id: string) => void,
+    onCancel: () => void,
+}) => {
+    const { user } = useAuth();
+    const [draft, setDraft] = useState(initial);
+    // Rules are edited as one-per-line text and split on save
+    const [dos, setDos] = useState(initial.dos.join('\n'));
+    const [donts, setDonts] = useState(initial.donts.join('\n'));
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const update = (fields: Partial<PresetDraft>) => setDraft(d => ({ ...d, ...fields }));
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!user) return;
+        setSaving(true);
+        setError(null);
+        try {
+            onSaved(await savePreset(user.id, { ...draft, dos: splitRules(dos), donts: splitRules(donts) }));
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!draft.id || !confirm(`Delete the preset "${initial.name}"? Past reports keep their copy.`)) return;
+        try {
+            await deletePreset(draft.id);
+            onDeleted(draft.id);
+        } catch (err: any) {
+            setError(err.message);
+        }
+    };
+
+    const inputClass = "w-full bg-[#0a0a0a] border border-[#333] rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-white/30";
+    const labelClass = "block text-xs text-gray-500 mb-1";
+
+    return (
+        <form onSubmit={handleSave} className="text-left bg-[#1a1a1a] border border-[#333] rounded-xl p-4 mb-4 space-y-3">
+            <div>
+                <label className={labelClass}>Preset name</label>
+                <input value={draft.name} onChange={(e) => update({ name: e.target.value })} maxLength={PRESET_LIMITS.nameLength} placeholder="e.g. Summer sale – TikTok" className={inputClass} />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <label className={labelClass}>Platform</label>
+                    <select value={draft.platform ?? ''} onChange={(e) => update({ platform: (e.target.value || null) as PlatformId | null })} className={inputClass}>
+                        <option value="">Any</option>
+                        {PLATFORM_IDS.map(id => <option key={id} value={id}>{PLATFORMS[id].label}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className={labelClass}>Objective</label>
+                    <select value={draft.objective ?? ''} onChange={(e) => update({ objective: (e.target.value || null) as ObjectiveId | null })} className={inputClass}>
+                        <option value="">Any</option>
+                        {OBJECTIVE_IDS.map(id => <option key={id} value={id}>{OBJECTIVES[id].label}</option>)}
+                    </select>
+                </div>
+            </div>
+            <div>
+                <label className={labelClass}>Target audience</label>
+                <input value={draft.audience} onChange={(e) => update({ audience: e.target.value })} maxLength={PRESET_LIMITS.textLength} placeholder="e.g. UK women 25–34 into skincare" className={inputClass} />
+            </div>
+            <div>
+                <label className={labelClass}>Brand voice</label>
+                <textarea value={draft.brandVoice} onChange={(e) => update({ brandVoice: e.target.value })} maxLength={PRESET_LIMITS.textLength} rows={2} placeholder="e.g. Warm, witty, never salesy" className={inputClass} />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <label className={labelClass}><i className="fa-solid fa-check text-[#00F2EA] mr-1"></i>Do (one per line)</label>
+                    <textarea value={dos} onChange={(e) => setDos(e.target.value)} rows={3} placeholder="Show the product in the first second" className={inputClass} />
+                </div>
+                <div>
+                    <label className={labelClass}><i className="fa-solid fa-xmark text-[#FF0050] mr-1"></i>Don't (one per line)</label>
+                    <textarea value={donts} onChange={(e) => setDonts(e.target.value)} rows={3} placeholder="Mention competitors by name" className={inputClass} />
+                </div>
+            </div>
+
+            {error && <p className="text-[#FF0050] text-xs bg-[#FF0050]/10 p-2 rounded">{error}</p>}
+
+            <div className="flex items-center gap-3 pt-1">
+                <button type="submit" disabled={saving} className="bg-white text-black text-sm font-bold px-4 py-2 rounded-lg hover:bg-gray-200 disabled:opacity-50">
+                    {saving ? <i className="fa-solid fa-circle-notch fa-spin"></i> : 'Save Preset'}
+                </button>
+                <button type="button" onClick={onCancel} className="text-xs text-gray-500 hover:text-white">Cancel</button>
+                {draft.id && <button type="button" onClick={handleDelete} className="ml-auto text-xs text-gray-600 hover:text-[#FF0050]"><i className="fa-solid fa-trash mr-1"></i>Delete</button>}
+            </div>
+        </form>
+    );
+};
+
+/** Picks the preset for the next audit and reports it as an AuditContext. */
+const PresetPicker = ({ onChange, disabled }: { onChange: (context: AuditContext | null) => void, disabled?: boolean }) => {
+    const { workspace } = useAuth();
+    const [presets, setPresets] = useState<AuditPreset[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(getLastPresetId());
+    const [editing, setEditing] = useState<PresetDraft | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        listPresets(workspace?.id ?? null).then(setPresets).catch(err => setError(err.message));
+    }, [workspace?.id]);
+
+    const selected = presets.find(p => p.id === selectedId) ?? null;
+    useEffect(() => { onChange(selected ? presetToContext(selected) : null); }, [selected]);
+
+    const select = (id: string | null) => {
+        setSelectedId(id);
+        setLastPresetId(id);
+    };
+
+    const handleSaved = (preset: AuditPreset) => {
+        setPresets(ps => [...ps.filter(p => p.id !== preset.id), preset].sort((a, b) => a.name.localeCompare(b.name)));
+        select(preset.id);
+        setEditing(null);
+    };
+
+    const handleDeleted = (id: string) => {
+        setPresets(ps => ps.filter(p => p.id !== id));
+        if (selectedId === id) select(null);
+        setEditing(null);
+    };
+
+    if (editing) {
+        return <PresetEditor key={editing.id ?? 'new'} initial={editing} onSaved={handleSaved} onDeleted={handleDeleted} onCancel={() => setEditing(null)} />;
+    }
+
+    return (
+        <div className="text-left mb-4">
+            <div className="flex items-center gap-2">
+                <select
+                    value={selected?.id ?? ''}
+                    onChange={(e) => select(e.target.value || null)}
+                    disabled={disabled}
+                    className="flex-1 bg-[#1a1a1a] border border-[#333] rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-white/30"
+                >
+                    <option value="">Generic audit (no preset)</option>
+                    {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+                {selected && (
+                    <button onClick={() => setEditing(selected)} disabled={disabled} className="text-gray-500 hover:text-white px-2" title="Edit preset"><i className="fa-solid fa-pen"></i></button>
+                )}
+                <button onClick={() => setEditing(EMPTY_PRESET)} disabled={disabled} className="text-xs text-gray-400 hover:text-white border border-[#333] rounded-lg px-3 py-2 whitespace-nowrap">
+                    <i className="fa-solid fa-plus mr-1"></i>New Preset
+                </button>
+            </div>
+            {selected && <ContextSummary context={presetToContext(selected)} />}
+            {error && <p className="text-[#FF0050] text-xs mt-2">{error}</p>}
+        </div>
+    );
+};
+
+/** Chips describing what an audit is judged against. */
+const ContextSummary = ({ context }: { context: AuditContext }) => {
+    const ruleCount = context.dos.length + context.donts.length;
+    const chipClass = "inline-flex items-center gap-1 text-[11px] bg-[#0a0a0a] border border-[#333] text-gray-400 px-2 py-0.5 rounded-full";
+    return (
+        <div className="flex flex-wrap gap-1.5 mt-2">
+            {context.platform && <span className={chipClass}><i className={PLATFORMS[context.platform].icon}></i>{PLATFORMS[context.platform].label}</span>}
+            {context.objective && <span className={chipClass}><i className="fa-solid fa-bullseye"></i>{OBJECTIVES[context.objective].label}</span>}
+            {context.audience && <span className={`${chipClass} max-w-[14rem] truncate`} title={context.audience}><i className="fa-solid fa-users"></i>{context.audience}</span>}
+            {context.brandVoice && <span className={chipClass} title={context.brandVoice}><i className="fa-solid fa-comment"></i>Brand voice</span>}
+            {ruleCount > 0 && <span className={chipClass}><i className="fa-solid fa-list-check"></i>{ruleCount} rule{ruleCount === 1 ? '' : 's'}</span>}
+        </div>
+    );
+};
+
+// ==========================================
+// 🗂️ AUDIT HISTORY
+// ==========================================
+
+const SCORE_FILTERS: { label: string; min?: number; max?: number }[] = [
+    { label: 'Any score' },
+    { label: '75+', min: 75 },
+    { label: '50–74', min: 50, max: 74.9 },
+    { label: 'Under 50', max: 49.9 },
+];
+
+const formatFileSize = (bytes: number) => {
+    if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const AuditHistory = ({ onOpen, onOpenComparison }: { onOpen: (record: AuditRecord) => void, onOpenComparison: (record: ComparisonRecord) => void }) => {
+    const { workspace } = useAuth();
+    const [kind, setKind] = useState<'audits' | 'comparisons'>('audits');
+    const [records, setRecords] = useState<AuditRecord[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [search, setSearch] = useState("");
+    const [from, setFrom] = useState("");
+    const [to, setTo] = useState("");
+    const [scoreFilter, setScoreFilter] = useState(0);
+
+    useEffect(() => {
+        let cancelled = false;
+        const { min, max } = SCORE_FILTERS[scoreFilter];
+        const filters: AuditFilters = { search, from: from || undefined, to: to || undefined, minScore: min, maxScore: max };
+
+        setLoading(true);
+        // Debounce typing in the search box
+        const timer = setTimeout(() => {
+            listAudits(workspace?.id ?? null, filters)
+                .then(data => { if (!cancelled) { setRecords(data); setError(null); } })
+                .catch(err => { if (!cancelled) setError(err.message); })
+                .finally(() => { if (!cancelled) setLoading(false); });
+        }, 250);
+        return () => { cancelled = true; clearTimeout(timer); };
+    }, [search, from, to, scoreFilter, workspace?.id]);
+
+    const handleDelete = async (record: AuditRecord) => {
+        if (!confirm(`Delete the audit for "${record.fileName}"? This can't be undone.`)) return;
+        try {
+            await deleteAudit(record.id);
+            setRecords(rs => rs.filter(r => r.id !== record.id));
+        } catch (err: any) {
+            setError(err.message);
+        }
+    };
+
+    const inputClass = "bg-[#0a0a0a] border border-[#333] rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-white/30";
+
+    const kindToggle = (
+        <div className="flex gap-4 mb-4 text-xs">
+            {(['audits', 'comparisons'] as const).map(k => (
+                <button key={k} onClick={() => setKind(k)} className={kind === k ? 'text-white font-bold' : 'text-gray-500 hover:text-white'}>
+                    {k === 'audits' ? 'Audits' : 'A/B Tests'}
+                </button>
+            ))}
+        </div>
+    );
+
+    if (kind === 'comparisons') {
+        return <div>{kindToggle}<ComparisonHistory onOpen={onOpenComparison} /></div>;
+    }
+
+    return (
+        <div>
+            {kindToggle}
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-4">
+                <input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search file name" className={`${inputClass} col-span-2 sm:col-span-4`} />
+                <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClass} title="From" />
+                <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputClass} title="To" />
+                <select value={scoreFilter} onChange={(e) => setScoreFilter(Number(e.target.value))} className={`${inputClass} col-span-2`}>
+                    {SCORE_FILTERS.map((f, i) => <option key={f.label} value={i}>{f.label}</option>)}
+                </select>
+            </div>
+
+            {error && <p className="text-[#FF0050] text-sm mb-4 bg-[#FF0050]/10 p-3 rounded">{error}</p>}
+
+            {loading ? (
+                <div className="text-center py-10 text-gray-500"><i className="fa-solid fa-circle-notch fa-spin"></i></div>
+            ) : records.length === 0 ? (
+                <div className="text-center py-10 text-gray-500 text-sm">No audits found.</div>
+            ) : (
+                <ul className="space-y-2">
+                    {records.map(record => (
+                        <li key={record.id} className="flex items-center gap-3 bg-[#1a1a1a] border border-[#333] rounded-lg p-3 hover:border-gray-500 transition-colors">
+                            <button onClick={() => onOpen(record)} className="flex-1 flex items-center gap-3 text-left min-w-0">
+                                <span className={`w-12 text-xl font-bold font-mono ${scoreColor(record.overallScore, 100)}`}>{record.overallScore}</span>
+                                <span className="min-w-0">
+                                    <span className="block text-white text-sm font-medium truncate">{record.fileName}</span>
+                                    <span className="block text-xs text-gray-500">{new Date(record.createdAt).toLocaleString()} · {formatFileSize(record.fileSize)}</span>
+                                </span>
+                            </button>
+                            <button onClick={() => handleDelete(record)} className="text-gray-600 hover:text-[#FF0050] px-2" title="Delete"><i className="fa-solid fa-trash"></i></button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+// ==========================================
+// 📊 REPORT VIEW
+// ==========================================
+
+const SEVERITY_STYLES: Record<Severity, string> = {
+    low: 'bg-gray-500/10 text-gray-400 border-gray-500/30',
+    medium: 'bg-yellow-500/10 text-yellow-400 border-yellow-500/30',
+    high: 'bg-orange-500/10 text-orange-400 border-orange-500/30',
+    critical: 'bg-[#FF0050]/10 text-[#FF0050] border-[#FF0050]/30',
+};
+
+const scoreColor = (score: number, max: number) => {
+    const ratio = score / max;
+    if (ratio >= 0.75) return 'text-emerald-400';
+    if (ratio >= 0.5) return 'text-yellow-400';
+    return 'text-[#FF0050]';
+};
+
+// Model output is untrusted: raw HTML is dropped, images are not loaded and
+// only http(s)/mailto links survive. Everything renders as React elements.
+const SAFE_URL = /^(https?:|mailto:|#t=\d)/i;
+const safeUrl = (url: string) => SAFE_URL.test(url.trim()) ? url : '';
+
+/** Seeks the report's video player; null when the report is shown without one. */
+const SeekContext = createContext<((seconds: number) => void) | null>(null);
+
+// "0:03" or "1:02:03" in free text, not part of a longer number, link, ratio or `code`
+const INLINE_TIMESTAMP = /(?<![\w:.\[/`])(\d{1,2}:)?\d{1,2}:[0-5]\d(?![\w:\]`])/g;
+
+// Formats ads are talked about in, which read like m:ss
+const ASPECT_RATIOS = new Set(['9:16', '16:9', '4:5', '1:1', '4:3', '3:4', '2:3', '21:9']);
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+
+/** Turns timestamps in markdown into `#t=<seconds>` links that the player understands, outside fenced code. */
+const linkTimestamps = (text: string) => {
+    let fence: string | null = null;
+    return text.split('\n').map(line => {
+        const marker = line.match(FENCE)?.[1];
+        if (marker && !fence) fence = marker;
+        else if (marker && fence && marker[0] === fence[0] && marker.length >= fence.length) fence = null;
+        if (marker || fence) return line;
+        return line.replace(INLINE_TIMESTAMP, (match) => {
+            const seconds = ASPECT_RATIOS.has(match) ? null : parseTimestamp(match, '');
+            return seconds === null ? match : `[${match}](#t=${seconds})`;
+        });
+    }).join('\n');
+};
+
+// Older reports mark sections as "#HOOK" (no space), which isn't a markdown heading.
+const LEGACY_SECTION_MARKER = new RegExp(`^#(${SECTION_IDS.join('|')})\\b`, 'gim');
+
+const SECTION_HEADING_CLASS = "text-[#00F2EA] border-b border-[#333] pb-1 mt-6 mb-2 text-lg font-bold";
+
+const sectionHeading = (children: React.ReactNode) => {
+    const text = React.Children.toArray(children).join('').trim().toLowerCase();
+    const id = SECTION_IDS.find(s => s === text);
+    return id ? <h3 className={SECTION_HEADING_CLASS}>{SECTION_META[id].icon} {SECTION_META[id].label}</h3> : null;
+};
+
+const MARKDOWN_COMPONENTS: Components = {
+    h1: ({ children }) => sectionHeading(children) || <h3 className="text-white text-lg font-bold mt-4 mb-2">{children}</h3>,
+    h2: ({ children }) => sectionHeading(children) || <h4 className="text-white font-bold mt-4 mb-2">{children}</h4>,
+    h3: ({ children }) => sectionHeading(children) || <h5 className="text-white font-semibold mt-3 mb-1">{children}</h5>,
+    h4: ({ children }) => <h6 className="text-gray-200 font-semibold mt-3 mb-1">{children}</h6>,
+    p: ({ children }) => <p className="my-2">{children}</p>,
+    strong: ({ children }) => <strong className="text-white">{children}</strong>,
+    ul: ({ children }) => <ul className="list-disc pl-5 my-2 space-y-1">{children}</ul>,
+    ol: ({ children }) => <ol className="list-decimal pl-5 my-2 space-y-1">{children}</ol>,
+    a: ({ href, children }) => href?.startsWith('#t=')
+        ? <Timestamp at={Number(href.slice(3))} />
+        : href
+            ? <a href={href} target="_blank" rel="noopener noreferrer nofollow" className="text-[#00F2EA] underline">{children}</a>
+            : <span>{children}</span>,
+    blockquote: ({ children }) => <blockquote className="border-l-2 border-[#00F2EA] pl-3 my-2 text-gray-400">{children}</blockquote>,
+    code: ({ className, children }) => <code className={`${className || ''} font-mono text-xs bg-[#1a1a1a] text-[#00F2EA] px-1 py-0.5 rounded`}>{children}</code>,
+    pre: ({ children }) => <pre className="bg-[#0a0a0a] border border-[#333] rounded-lg p-3 my-2 overflow-x-auto [&>code]:bg-transparent [&>code]:p-0 [&>code]:text-gray-300">{children}</pre>,
+    table: ({ children }) => <div className="overflow-x-auto my-3"><table className="w-full text-left border-collapse">{children}</table></div>,
+    th: ({ children }) => <th className="border-b border-[#333] px-2 py-1 text-white font-semibold">{children}</th>,
+    td: ({ children }) => <td className="border-b border-[#222] px-2 py-1 align-top">{children}</td>,
+    hr: () => <hr className="border-[#333] my-4" />,
+};
+
+const ReportMarkdown = ({ text }: { text: string }) => (
+    <div className="max-w-none text-sm text-gray-300 leading-relaxed">
+        <Markdown
+            remarkPlugins={[remarkGfm]}
+            components={MARKDOWN_COMPONENTS}
+            skipHtml
+            disallowedElements={['img']}
+            unwrapDisallowed
+            urlTransform={safeUrl}
+        >
+            {linkTimestamps(text.replace(LEGACY_SECTION_MARKER, (_, id: string) => `## ${id.toUpperCase()}`))}
+        </Markdown>
+    </div>
+);
+
+const Timestamp = ({ at }: { at: number | null }) => {
+    const seek = useContext(SeekContext);
+    if (at === null || !Number.isFinite(at)) return null;
+    const className = "font-mono text-[11px] text-[#00F2EA] bg-[#00F2EA]/10 px-1.5 py-0.5 rounded";
+    return seek
+        ? <button onClick={() => seek(at)} className={`${className} hover:bg-[#00F2EA]/25`} title="Jump to this moment"><i className="fa-solid fa-play text-[8px] mr-1"></i>{formatTimestamp(at)}</button>
+        : <span className={className}>{formatTimestamp(at)}</span>;
+};
+
+const ReportSection = ({ section }: { section: AuditSection }) => {
+    const meta = SECTION_META[section.id];
+    return (
+        <div>
+            <h3 className={`${SECTION_HEADING_CLASS} flex items-center justify-between`}>
+                <span>{meta.icon} {meta.label}</span>
+                <span className={`text-sm font-mono ${scoreColor(section.score, 10)}`}>{section.score}/10</span>
+            </h3>
+            <ReportMarkdown text={section.summary} />
+            {section.issues.length > 0 && (
+                <ul className="mt-3 space-y-2">
+                    {section.issues.map((issue, i) => (
+                        <li key={i} className="bg-[#1a1a1a] border border-[#333] rounded-lg p-3 text-sm">
+                            <div className="flex items-center gap-2 mb-1">
+                                <span className={`text-[10px] uppercase font-bold px-2 py-0.5 rounded border ${SEVERITY_STYLES[issue.severity]}`}>{issue.severity}</span>
+                                <Timestamp at={issue.at} />
+                                <span className="text-white font-medium">{issue.title}</span>
+                            </div>
+                            {issue.detail && <p className="text-gray-400">{issue.detail}</p>}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+const POLICY_VERDICT_STYLES: Record<PolicyVerdict, string> = {
+    pass: 'text-green-400 bg-green-500/10 border-green-500/30',
+    warn: 'text-yellow-400 bg-yellow-500/10 border-yellow-500/30',
+    fail: 'text-[#FF0050] bg-[#FF0050]/10 border-[#FF0050]/30',
+};
+
+const PolicySection = ({ policy }: { policy: PolicyReport }) => {
+    const verdict = POLICY_VERDICT_META[policy.verdict];
+    return (
+        <div>
+            <h3 className={`${SECTION_HEADING_CLASS} flex items-center justify-between`}>
+                <span>🛡️ POLICY CHECK{policy.platform && <span className="text-xs text-gray-500 font-normal ml-2">{PLATFORMS[policy.platform].label}</span>}</span>
+                <span className={`text-xs font-bold px-2 py-0.5 rounded border ${POLICY_VERDICT_STYLES[policy.verdict]}`}>
+                    <i className={`fa-solid ${verdict.icon} mr-1`}></i>{verdict.label}
+                </span>
+            </h3>
+            {policy.summary && <p className="text-gray-300">{policy.summary}</p>}
+            {policy.findings.length > 0 && (
+                <ul className="mt-3 space-y-2">
+                    {policy.findings.map((finding, i) => (
+                        <li key={i} className="bg-[#1a1a1a] border border-[#333] rounded-lg p-3 text-sm">
+                            <div className="flex items-center gap-2 mb-1 flex-wrap">
+                                <span className={`text-[10px] uppercase font-bold px-2 py-0.5 rounded border ${SEVERITY_STYLES[finding.severity]}`}>{finding.severity}</span>
+                                <Timestamp at={finding.at} />
+                                <span className="text-[10px] uppercase text-gray-500 font-mono">{POLICY_RULES[finding.rule].label}</span>
+                                <span className="text-white font-medium">{finding.title}</span>
+                            </div>
+                            {finding.detail && <p className="text-gray-400">{finding.detail}</p>}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+const CaptionsSection = ({ report }: { report: AuditReport }) => {
+    const issues = captionIssues(report.captions, report.transcript);
+    const burnedIn = report.captions?.burnedIn ?? null;
+    return (
+        <div>
+            <h3 className={`${SECTION_HEADING_CLASS} flex items-center justify-between`}>
+                <span>💬 CAPTIONS</span>
+                {burnedIn !== null && (
+                    <span className={`text-[10px] uppercase font-bold px-2 py-0.5 rounded border ${burnedIn ? 'text-green-400 border-green-500/30' : 'text-[#FF0050] border-[#FF0050]/30'}`}>
+                        {burnedIn ? 'Burned in' : 'No burned-in captions'}
+                    </span>
+                )}
+            </h3>
+            {issues.length === 0 ? (
+                <p className="text-gray-500 text-sm">No caption problems found.</p>
+            ) : (
+                <ul className="space-y-2">
+                    {issues.map((issue, i) => (
+                        <li key={i} className="bg-[#1a1a1a] border border-[#333] rounded-lg p-3 text-sm">
+                            <div className="flex items-center gap-2 mb-1 flex-wrap">
+                                <span className={`text-[10px] uppercase font-bold px-2 py-0.5 rounded border ${SEVERITY_STYLES[issue.severity]}`}>{issue.severity}</span>
+                                <Timestamp at={issue.at} />
+                                <span className="text-[10px] uppercase text-gray-500 font-mono">{CAPTION_RULES[issue.rule].label}</span>
+                                <span className="text-white font-medium">{issue.title}</span>
+                            </div>
+                            {issue.detail && <p className="text-gray-400">{issue.detail}</p>}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+type CaptionExportKinds = CueKind | 'all';
+
+const TranscriptSection = ({ transcript, onSave }: { transcript: TranscriptCue[], onSave?: (cues: TranscriptCue[]) => Promise<void> }) => {
+    const [draft, setDraft] = useState<TranscriptCue[] | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [exportKinds, setExportKinds] = useState<CaptionExportKinds>('speech');
+
+    const cues = draft ?? transcript;
+    const updateCue = (index: number, fields: Partial<TranscriptCue>) =>
+        setDraft(d => (d ?? transcript).map((cue, i) => i === index ? { ...cue, ...fields } : cue));
+
+    const addCue = () => {
+        const last = cues[cues.length - 1];
+        const start = last ? last.end : 0;
+        setDraft(d => [...(d ?? transcript), { start, end: start + 2, kind: 'speech', text: '' }]);
+    };
+
+    const save = async () => {
+        if (!draft || !onSave) return;
+        setSaving(true);
+        setError(null);
+        try {
+            await onSave(sortCues(draft));
+            setDraft(null);
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const exportCues = (format: 'srt' | 'vtt') => {
+        const selected = cues.filter(cue => exportKinds === 'all' || cue.kind === exportKinds);
+        downloadText(`captions.${format}`, format === 'srt' ? toSrt(selected) : toVtt(selected), format === 'srt' ? 'application/x-subrip' : 'text/vtt');
+    };
+
+    const timeInput = (value: number, onChange: (seconds: number) => void) => (
+        <input
+            key={value}
+            defaultValue={formatCueTime(value)}
+            onBlur={(e) => {
+                const seconds = parseCueTime(e.target.value);
+                if (seconds === null) e.target.value = formatCueTime(value);
+                else onChange(seconds);
+            }}
+            className="w-16 bg-[#0a0a0a] border border-[#333] rounded px-1 py-0.5 font-mono text-[11px] text-white focus:outline-none focus:border-white/30"
+        />
+    );
+
+    return (
+        <div>
+            <h3 className={`${SECTION_HEADING_CLASS} flex items-center justify-between`}>
+                <span>🗒️ TRANSCRIPT</span>
+                {onSave && !draft && <button onClick={() => setDraft(transcript)} className="text-xs text-gray-500 hover:text-white font-normal"><i className="fa-solid fa-pen mr-1"></i>Edit</button>}
+            </h3>
+
+            {cues.length === 0 && !draft ? (
+                <p className="text-gray-500 text-sm">No speech or on-screen text was found.</p>
+            ) : (
+                <ul className="space-y-1.5">
+                    {cues.map((cue, i) => (
+                        <li key={i} className="flex items-start gap-2 text-sm">
+                            {draft ? (
+                                <>
+                                    {timeInput(cue.start, (start) => updateCue(i, { start }))}
+                                    {timeInput(cue.end, (end) => updateCue(i, { end }))}
+                                    <select value={cue.kind} onChange={(e) => updateCue(i, { kind: e.target.value as CueKind })} className="bg-[#0a0a0a] border border-[#333] rounded px-1 py-0.5 text-[11px] text-gray-300">
+                                        {CUE_KINDS.map(kind => <option key={kind} value={kind}>{CUE_KIND_LABELS[kind]}</option>)}
+                                    </select>
+                                    <textarea
+                                        value={cue.text}
+                                        onChange={(e) => updateCue(i, { text: e.target.value })}
+                                        rows={1}
+                                        className="flex-1 bg-[#0a0a0a] border border-[#333] rounded px-2 py-0.5 text-white focus:outline-none focus:border-white/30 resize-y"
+                                    />
+                                    <button onClick={() => setDraft(d => (d ?? transcript).filter((_, j) => j !== i))} className="text-gray-600 hover:text-[#FF0050] px-1" title="Delete line"><i className="fa-solid fa-xmark"></i></button>
+                                </>
+                            ) : (
+                                <>
+                                    <Timestamp at={cue.start} />
+                                    <span className={`text-[10px] uppercase font-mono mt-0.5 w-16 shrink-0 ${cue.kind === 'speech' ? 'text-gray-500' : 'text-yellow-400/80'}`}>{CUE_KIND_LABELS[cue.kind]}</span>
+                                    <span className={cue.kind === 'speech' ? 'text-gray-300' : 'text-gray-400 italic'}>{cue.text}</span>
+                                </>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {error && <p className="text-[#FF0050] text-xs bg-[#FF0050]/10 p-2 rounded mt-2">{error}</p>}
+
+            <div className="flex items-center gap-3 mt-3 text-xs">
+                {draft ? (
+                    <>
+                        <button onClick={addCue} className="text-gray-400 hover:text-white"><i className="fa-solid fa-plus mr-1"></i>Add line</button>
+                        <span className="flex-1" />
+                        <button onClick={() => { setDraft(null); setError(null); }} className="text-gray-500 hover:text-white underline">Cancel</button>
+                        <button onClick={save} disabled={saving} className="bg-white text-black font-bold px-3 py-1.5 rounded disabled:opacity-50">{saving ? 'Saving...' : 'Save Transcript'}</button>
+                    </>
+                ) : cues.length > 0 && (
+                    <>
+                        <select value={exportKinds} onChange={(e) => setExportKinds(e.target.value as CaptionExportKinds)} className="bg-[#0a0a0a] border border-[#333] rounded px-2 py-1 text-gray-300">
+                            <option value="speech">Spoken audio</option>
+                            <option value="onscreen">On-screen text</option>
+                            <option value="all">Both</option>
+                        </select>
+                        <button onClick={() => exportCues('srt')} className="text-gray-400 hover:text-white"><i className="fa-solid fa-closed-captioning mr-1"></i>Export SRT</button>
+                        <button onClick={() => exportCues('vtt')} className="text-gray-400 hover:text-white"><i className="fa-solid fa-closed-captioning mr-1"></i>Export VTT</button>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+const AuditReportView = ({ report, onSaveTranscript }: { report: AuditReport, onSaveTranscript?: (cues: TranscriptCue[]) => Promise<void> }) => (
+    <div className="text-sm text-gray-300">
+        <div className="flex items-center gap-4 bg-[#1a1a1a] p-4 rounded-lg border border-[#333]">
+            <div className={`text-4xl font-bold font-mono ${scoreColor(report.overallScore, 100)}`}>{report.overallScore}</div>
+            <div>
+                <div className="text-xs text-gray-500 uppercase font-mono">Viral Score / 100</div>
+                {report.verdict && <p className="text-white mt-1">{report.verdict}</p>}
+            </div>
+        </div>
+
+        {report.context && (
+            <div className="mt-3 text-xs text-gray-500">
+                Audited against {report.context.presetName ? <span className="text-white">"{report.context.presetName}"</span> : 'a custom brief'}
+                <ContextSummary context={report.context} />
+            </div>
+        )}
+
+        {report.sections.map(section => <ReportSection key={section.id} section={section} />)}
+
+        {report.policy && <PolicySection policy={report.policy} />}
+
+        {(report.captions || report.transcript) && <CaptionsSection report={report} />}
+
+        {report.fixes.length > 0 && (
+            <div>
+                <h3 className={SECTION_HEADING_CLASS}>🛠️ FIX LIST</h3>
+                <ol className="space-y-2">
+                    {report.fixes.map((fix, i) => (
+                        <li key={i} className="flex gap-3 items-start">
+                            <span className="w-6 h-6 shrink-0 rounded-full bg-white text-black text-xs font-bold flex items-center justify-center">{i + 1}</span>
+                            <div className="flex-1 pt-0.5">
+                                <span className="text-white">{fix.action}</span>
+                                <span className="ml-2 inline-flex gap-2 align-middle">
+                                    {fix.section && <span className="text-[10px] uppercase text-gray-500 font-mono">{SECTION_META[fix.section].label}</span>}
+                                    <Timestamp at={fix.at} />
+                                </span>
+                            </div>
+                        </li>
+                    ))}
+                </ol>
+            </div>
+        )}
+
+        {report.transcript && <TranscriptSection transcript={report.transcript} onSave={onSaveTranscript} />}
+    </div>
+);
+
+/** Where a report's video can be played from: the file just audited, its stored upload, or a signed URL (share links). */
+type VideoSource = { file: File } | { storagePath: string } | { url: string };
+
+const MARKER_STYLES: Record<TimelineMarker['kind'], string> = {
+    issue: 'bg-yellow-400',
+    fix: 'bg-[#00F2EA]',
+    policy: 'bg-[#FF0050]',
+    caption: 'bg-purple-400',
+};
+
+const useVideoUrl = (source: VideoSource) => {
+    const [url, setUrl] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setUrl(null);
+        setError(null);
+        if ('file' in source) {
+            const objectUrl = URL.createObjectURL(source.file);
+            setUrl(objectUrl);
+            return () => URL.revokeObjectURL(objectUrl);
+        }
+        if ('url' in source) {
+            setUrl(source.url);
+            return;
+        }
+        let cancelled = false;
+        getVideoUrl(source.storagePath)
+            .then(signed => { if (!cancelled) setUrl(signed); })
+            .catch(err => { if (!cancelled) setError(err.message); });
+        return () => { cancelled = true; };
+    }, ['file' in source ? source.file : 'url' in source ? source.url : source.storagePath]);
+
+    return { url, error };
+};
+
+const VideoTimeline = ({ url, duration, currentTime, markers, onSeek }: {
+    url: string, duration: number, currentTime: number, markers: TimelineMarker[], onSeek: (seconds: number) => void,
+}) => {
+    const [frames, setFrames] = useState<Keyframe[]>([]);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        setFrames([]);
+        extractKeyframes(url, controller.signal).then(result => { if (!controller.signal.aborted) setFrames(result); });
+        return () => controller.abort();
+    }, [url]);
+
+    const position = (seconds: number) => `${Math.min(100, (seconds / duration) * 100)}%`;
+    const seekFromClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        onSeek(((e.clientX - rect.left) / rect.width) * duration);
+    };
+
+    return (
+        <div className="relative mt-2 select-none">
+            <div onClick={seekFromClick} className="flex h-12 bg-[#0a0a0a] border border-[#333] rounded overflow-hidden cursor-pointer">
+                {frames.map(frame => <img key={frame.at} src={frame.src} alt="" className="h-full flex-1 min-w-0 object-cover opacity-70" />)}
+            </div>
+            <div className="absolute top-0 bottom-0 w-0.5 bg-white pointer-events-none" style={{ left: position(currentTime) }} />
+            {markers.map((marker, i) => (
+                <button
+                    key={i}
+                    onClick={() => onSeek(marker.at)}
+                    title={`${formatTimestamp(marker.at)} · ${marker.label}`}
+                    className={`absolute -top-1 w-2 h-2 -ml-1 rounded-full ring-2 ring-black hover:scale-150 transition-transform ${MARKER_STYLES[marker.kind]}`}
+                    style={{ left: position(marker.at) }}
+                />
+            ))}
+        </div>
+    );
+};
+
+/**
+ * The report next to its video: timestamps anywhere in the report seek the
+ * player, and findings are markers on a keyframe timeline.
+ */
+const SyncedReport = ({ report, source, onSaveTranscript }: {
+    report: AuditReport, source: VideoSource | null, onSaveTranscript?: (cues: TranscriptCue[]) => Promise<void>,
+}) => {
+    if (!source) return <AuditReportView report={report} onSaveTranscript={onSaveTranscript} />;
+    return <SyncedReportWithVideo report={report} source={source} onSaveTranscript={onSaveTranscript} />;
+};
+
+const SyncedReportWithVideo = ({ report, source, onSaveTranscript }: {
+    report: AuditReport, source: VideoSource, onSaveTranscript?: (cues: TranscriptCue[]) => Promise<void>,
+}) => {
+    const { url, error } = useVideoUrl(source);
+    const videoRef = useRef<HTMLVideoElement | null>(null);
+    const [duration, setDuration] = useState(0);
+    const [currentTime, setCurrentTime] = useState(0);
+    const markers = reportMarkers(report);
+
+    const seek = (seconds: number) => {
+        const video = videoRef.current;
+        if (!video) return;
+        video.currentTime = Math.max(0, Math.min(seconds, duration || seconds));
+        video.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    };
+
+    return (
+        <div>
+            <div className="sticky top-[var(--sticky-top,0px)] z-10 bg-black pb-3 pt-1 mb-2 border-b border-[#222]">
+                {error ? (
+                    <p className="text-xs text-gray-500 py-2"><i className="fa-solid fa-video-slash mr-1"></i>{error} Timestamps still show where each finding is.</p>
+                ) : !url ? (
+                    <div className="h-40 flex items-center justify-center text-gray-500"><i className="fa-solid fa-circle-notch fa-spin"></i></div>
+                ) : (
+                    <>
+                        <video
+                            ref={videoRef}
+                            src={url}
+                            controls
+                            playsInline
+                            onLoadedMetadata={(e) => setDuration(e.currentTarget.duration)}
+                            onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+                            className="w-full max-h-56 bg-black rounded-lg"
+                        />
+                        {duration > 0 && <VideoTimeline url={url} duration={duration} currentTime={currentTime} markers={markers} onSeek={seek} />}
+                        {markers.length > 0 && (
+                            <div className="flex gap-3 mt-2 text-[10px] text-gray-500">
+                                <span><span className={`inline-block w-2 h-2 rounded-full mr-1 ${MARKER_STYLES.issue}`}></span>Issue</span>
+                                <span><span className={`inline-block w-2 h-2 rounded-full mr-1 ${MARKER_STYLES.fix}`}></span>Fix</span>
+                                {report.policy && <span><span className={`inline-block w-2 h-2 rounded-full mr-1 ${MARKER_STYLES.policy}`}></span>Policy</span>}
+                                {(report.captions || report.transcript) && <span><span className={`inline-block w-2 h-2 rounded-full mr-1 ${MARKER_STYLES.caption}`}></span>Captions</span>}
+                            </div>
+                        )}
+                    </>
+                )}
+            </div>
+            <SeekContext.Provider value={url && !error ? seek : null}>
+                <AuditReportView report={report} onSaveTranscript={onSaveTranscript} />
+            </SeekContext.Provider>
+        </div>
+    );
+};
+
+// ==========================================
+// 📤 REPORT EXPORT
+// ==========================================
+
+const PrintMarkdown = ({ text }: { text: string }) => (
+    <Markdown remarkPlugins={[remarkGfm]} skipHtml disallowedElements={['img']} unwrapDisallowed urlTransform={safeUrl}>
+        {text.replace(LEGACY_SECTION_MARKER, (_, id: string) => `### ${id.toUpperCase()}`)}
+    </Markdown>
+);
+
+const PrintAt = ({ at }: { at: number | null }) => at === null ? null : <span className="at">{formatTimestamp(at)}</span>;
+
+const PrintFindings = ({ rows }: { rows: { severity: Severity, at: number | null, title: string, detail: string, rule?: string }[] }) => (
+    <table>
+        <tbody>
+            {rows.map((row, i) => (
+                <tr key={i}>
+                    <td style={{ width: '18%' }}><span className={`pill sev-${row.severity}`}>{row.severity}</span> <PrintAt at={row.at} /></td>
+                    <td>
+                        <strong>{row.rule && `${row.rule}: `}{row.title}</strong>
+                        {row.detail && <div>{row.detail}</div>}
+                    </td>
+                </tr>
+            ))}
+        </tbody>
+    </table>
+);
+
+/** The report as static markup for the PDF; styled by PRINT_STYLES in lib/exports. */
+const PrintableReport = ({ report, fileName, branding }: { report: AuditReport, fileName: string | null, branding: ExportBranding | null }) => {
+    const date = new Date(report.createdAt).toLocaleDateString(undefined, { day: 'numeric', month: 'long', year: 'numeric' });
+    const author = branding?.companyName || 'ViralAudit AI';
+    const captions = captionIssues(report.captions, report.transcript);
+    return (
+        <>
+            {branding && (
+                <section className="cover">
+                    {branding.logo && <img src={branding.logo} alt="" />}
+                    <p className="muted">Ad creative audit · {date}</p>
+                    <h1>{fileName ?? 'Creative audit'}</h1>
+                    <p>Prepared by {author}</p>
+                    {branding.coverNote && <div className="note">{branding.coverNote}</div>}
+                </section>
+            )}
+
+            <div className="masthead">
+                {branding?.logo ? <img src={branding.logo} alt="" /> : <strong>{author}</strong>}
+                <span className="muted">{fileName && `${fileName} · `}{date}</span>
+            </div>
+
+            <div className="score">
+                <div className="value">{report.overallScore}</div>
+                <div>
+                    <div className="muted">VIRAL SCORE / 100</div>
+                    {report.verdict && <p>{report.verdict}</p>}
+                </div>
+            </div>
+            {report.context && (
+                <p className="muted">Audited against {report.context.presetName ? `"${report.context.presetName}"` : 'a custom brief'}: {describeContext(report.context) || 'brand rules'}</p>
+            )}
+
+            {report.sections.map(section => (
+                <section key={section.id}>
+                    <h2><span>{SECTION_META[section.id].label}</span><span>{section.score}/10</span></h2>
+                    <PrintMarkdown text={section.summary} />
+                    {section.issues.length > 0 && <PrintFindings rows={section.issues} />}
+                </section>
+            ))}
+
+            {report.policy && (
+                <section>
+                    <h2>
+                        <span>POLICY CHECK{report.policy.platform && ` · ${PLATFORMS[report.policy.platform].label}`}</span>
+                        <span>{POLICY_VERDICT_META[report.policy.verdict].label}</span>
+                    </h2>
+                    {report.policy.summary && <p>{report.policy.summary}</p>}
+                    <PrintFindings rows={report.policy.findings.map(f => ({ ...f, rule: POLICY_RULES[f.rule].label }))} />
+                </section>
+            )}
+
+            {(report.captions || report.transcript) && (
+                <section>
+                    <h2><span>CAPTIONS</span><span>{captions.length ? `${captions.length} problem(s)` : 'OK'}</span></h2>
+                    {report.captions?.burnedIn === false && <p>No burned-in captions.</p>}
+                    <PrintFindings rows={captions.map(c => ({ ...c, rule: CAPTION_RULES[c.rule].label }))} />
+                </section>
+            )}
+
+            {report.fixes.length > 0 && (
+                <section>
+                    <h2><span>FIX LIST</span></h2>
+                    <ol>
+                        {report.fixes.map((fix, i) => (
+                            <li key={i}>{fix.action} {fix.section && <span className="muted">({SECTION_META[fix.section].label})</span>} <PrintAt at={fix.at} /></li>
+                        ))}
+                    </ol>
+                </section>
+            )}
+
+            {report.transcript && report.transcript.length > 0 && (
+                <section>
+                    <h2><span>TRANSCRIPT</span></h2>
+                    <table>
+                        <tbody>
+                            {report.transcript.map((cue, i) => (
+                                <tr key={i}>
+                                    <td style={{ width: '12%' }}><PrintAt at={cue.start} /></td>
+                                    <td style={{ width: '14%' }} className="muted">{CUE_KIND_LABELS[cue.kind]}</td>
+                                    <td>{cue.text}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </section>
+            )}
+
+            <footer className="muted">Prepared by {author}{branding?.companyName && ' with ViralAudit AI'} · {date}</footer>
+        </>
+    );
+};
+
+const ExportMenu = ({ report, fileName, auditId, onEditBranding }: {
+    report: AuditReport, fileName: string | null, auditId: string | null, onEditBranding: () => void,
+}) => {
+    const { entitlements } = useAuth();
+    const [open, setOpen] = useState(false);
+    const [busy, setBusy] = useState(false);
+    const [copied, setCopied] = useState(false);
+    const canBrand = hasFeature(entitlements, 'branded_exports');
+
+    const exportPdf = async () => {
+        setBusy(true);
+        try {
+            // Saved branding only applies while the plan includes it
+            const branding = canBrand ? await getBranding() : null;
+            const body = renderToStaticMarkup(<PrintableReport report={report} fileName={fileName} branding={branding} />);
+            const title = exportFileName(fileName, 'pdf').replace(/\.pdf$/, '');
+            await printDocument(printableDocument(title, body, branding ?? DEFAULT_BRANDING));
+        } catch (err: any) {
+            alert(err.message);
+        } finally {
+            setBusy(false);
+            setOpen(false);
+        }
+    };
+
+    const exportText = (format: 'md' | 'json') => {
+        if (format === 'md') downloadText(exportFileName(fileName, 'md'), reportToMarkdown(report), 'text/markdown');
+        else downloadText(exportFileName(fileName, 'json'), reportToJson(report, { fileName, auditId }), 'application/json');
+        setOpen(false);
+    };
+
+    const copyMarkdown = async () => {
+        await navigator.clipboard.writeText(reportToMarkdown(report));
+        setCopied(true);
+        setTimeout(() => { setCopied(false); setOpen(false); }, 1000);
+    };
+
+    const itemClass = "w-full text-left px-3 py-2 text-xs text-gray-300 hover:bg-white/5 hover:text-white disabled:opacity-50";
+
+    return (
+        <div className="relative">
+            <button onClick={() => setOpen(o => !o)} className="text-xs text-gray-500 hover:text-white">
+                <i className="fa-solid fa-file-export mr-1"></i>Export<i className={`fa-solid fa-chevron-${open ? 'up' : 'down'} text-[8px] ml-1`}></i>
+            </button>
+            {open && (
+                <>
+                    <div className="fixed inset-0 z-10" onClick={() => setOpen(false)} />
+                    <div className="absolute right-0 mt-2 w-52 bg-[#1a1a1a] border border-[#333] rounded-lg shadow-xl z-20 py-1">
+                        <button onClick={exportPdf} disabled={busy} className={itemClass}>
+                            <i className={`fa-solid ${busy ? 'fa-circle-notch fa-spin' : 'fa-file-pdf'} w-4 mr-2`}></i>PDF{canBrand && ' (branded)'}
+                        </button>
+                        <button onClick={() => exportText('md')} className={itemClass}><i className="fa-brands fa-markdown w-4 mr-2"></i>Markdown</button>
+                        <button onClick={() => exportText('json')} className={itemClass}><i className="fa-solid fa-code w-4 mr-2"></i>JSON</button>
+                        <button onClick={copyMarkdown} className={itemClass}><i className={`fa-solid ${copied ? 'fa-check' : 'fa-copy'} w-4 mr-2`}></i>{copied ? 'Copied' : 'Copy Markdown'}</button>
+                        <div className="border-t border-[#333] my-1" />
+                        <button onClick={() => { setOpen(false); onEditBranding(); }} className={itemClass}>
+                            <i className="fa-solid fa-palette w-4 mr-2"></i>PDF branding
+                            {!canBrand && <i className="fa-solid fa-lock ml-1 text-[#FF0050]"></i>}
+                        </button>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+/** Logo, colours and cover note for PDF exports (Professional). */
+const BrandingEditor = ({ onClose }: { onClose: () => void }) => {
+    const { user } = useAuth();
+    const [draft, setDraft] = useState<ExportBranding | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [saved, setSaved] = useState(false);
+
+    useEffect(() => {
+        getBranding()
+            .then(branding => setDraft(branding ?? DEFAULT_BRANDING))
+            .catch(err => { setError(err.message); setDraft(DEFAULT_BRANDING); });
+    }, []);
+
+    const update = (fields: Partial<ExportBranding>) => {
+        setDraft(d => d && { ...d, ...fields });
+        setSaved(false);
+    };
+
+    const handleLogo = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setError(null);
+        try {
+            update({ logo: await readLogo(file) });
+        } catch (err: any) {
+            setError(err.message);
+        }
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!user || !draft) return;
+        setSaving(true);
+        setError(null);
+        try {
+            setDraft(await saveBranding(user.id, draft));
+            setSaved(true);
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const inputClass = "w-full bg-[#0a0a0a] border border-[#333] rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-white/30";
+    const labelClass = "block text-xs text-gray-500 mb-1";
+
+    return (
+        <div className="space-y-4 animate-in fade-in">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h3 className="text-white font-bold text-lg">PDF Branding</h3>
+                    <p className="text-xs text-gray-500">Added to every PDF you export: a cover page and your logo and colours throughout.</p>
+                </div>
+                <button onClick={onClose} className="text-xs text-gray-500 hover:text-white underline">Back to Report</button>
+            </div>
+
+            {!draft ? (
+                <div className="text-center py-8 text-gray-500 text-sm"><i className="fa-solid fa-circle-notch fa-spin"></i></div>
+            ) : (
+                <form onSubmit={handleSave} className="text-left bg-[#1a1a1a] border border-[#333] rounded-xl p-4 space-y-3">
+                    <div>
+                        <label className={labelClass}>Company name</label>
+                        <input value={draft.companyName} onChange={(e) => update({ companyName: e.target.value })} maxLength={BRANDING_LIMITS.companyName} placeholder="e.g. Northside Creative" className={inputClass} />
+                    </div>
+                    <div>
+                        <label className={labelClass}>Logo (PNG, JPEG or WebP, up to {Math.round(BRANDING_LIMITS.logoBytes / 1000)} KB)</label>
+                        <div className="flex items-center gap-3">
+                            <div className="w-32 h-14 bg-white rounded-lg flex items-center justify-center overflow-hidden">
+                                {draft.logo ? <img src={draft.logo} alt="Logo" className="max-w-full max-h-full object-contain" /> : <span className="text-[10px] text-gray-400">No logo</span>}
+                            </div>
+                            <label className="text-xs text-gray-400 hover:text-white cursor-pointer">
+                                <i className="fa-solid fa-upload mr-1"></i>Upload
+                                <input type="file" accept={LOGO_TYPES.join(',')} onChange={handleLogo} className="hidden" />
+                            </label>
+                            {draft.logo && <button type="button" onClick={() => update({ logo: null })} className="text-xs text-gray-600 hover:text-[#FF0050]">Remove</button>}
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                        {(['primaryColor', 'accentColor'] as const).map(key => (
+                            <div key={key}>
+                                <label className={labelClass}>{key === 'primaryColor' ? 'Primary colour' : 'Accent colour'}</label>
+                                <div className="flex items-center gap-2">
+                                    <input type="color" value={draft[key]} onChange={(e) => update({ [key]: e.target.value })} className="w-10 h-9 bg-transparent border border-[#333] rounded cursor-pointer" />
+                                    <input value={draft[key]} onChange={(e) => update({ [key]: e.target.value })} maxLength={7} className={`${inputClass} font-mono`} />
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                    <div>
+                        <label className={labelClass}>Cover note</label>
+                        <textarea value={draft.coverNote} onChange={(e) => update({ coverNote: e.target.value })} maxLength={BRANDING_LIMITS.coverNote} rows={4} placeholder="e.g. Hi Sam, here's our review of the new spring creative, with the fixes we'd make before launch." className={inputClass} />
+                    </div>
+
+                    {error && <p className="text-[#FF0050] text-xs bg-[#FF0050]/10 p-2 rounded">{error}</p>}
+
+                    <div className="flex items-center gap-3 pt-1">
+                        <button type="submit" disabled={saving} className="bg-white text-black text-sm font-bold px-4 py-2 rounded-lg hover:bg-gray-200 disabled:opacity-50">
+                            {saving ? <i className="fa-solid fa-circle-notch fa-spin"></i> : 'Save Branding'}
+                        </button>
+                        {saved && <span className="text-xs text-green-400"><i className="fa-solid fa-check mr-1"></i>Saved</span>}
+                    </div>
+                </form>
+            )}
+        </div>
+    );
+};
+
+// ==========================================
+// 🔗 SHARE LINKS
+// ==========================================
+
+const SHARE_STATE_STYLES: Record<ShareState, string> = {
+    active: 'text-green-400 border-green-500/30',
+    expired: 'text-gray-500 border-white/10',
+    revoked: 'text-[#FF0050] border-[#FF0050]/30',
+};
+
+/** Creates, lists and revokes the public links of one saved audit. */
+const SharePanel = ({ auditId, hasVideo, onClose }: { auditId: string, hasVideo: boolean, onClose: () => void }) => {
+    const [links, setLinks] = useState<ShareLink[] | null>(null);
+    const [expiresInDays, setExpiresInDays] = useState<number | null>(7);
+    const [password, setPassword] = useState('');
+    const [includeVideo, setIncludeVideo] = useState(false);
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [copiedId, setCopiedId] = useState<string | null>(null);
+
+    useEffect(() => {
+        listShares(auditId).then(setLinks).catch(err => { setError(err.message); setLinks([]); });
+    }, [auditId]);
+
+    const copy = async (link: ShareLink) => {
+        await navigator.clipboard.writeText(shareUrl(link.token));
+        setCopiedId(link.id);
+        setTimeout(() => setCopiedId(id => id === link.id ? null : id), 2000);
+    };
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setBusy(true);
+        setError(null);
+        try {
+            const link = await createShare(auditId, { includeVideo, expiresInDays, password });
+            setLinks(l => [link, ...(l ?? [])]);
+            setPassword('');
+            await copy(link);
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleRevoke = async (link: ShareLink) => {
+        if (!confirm("Revoke this link? Anyone who has it will no longer be able to open the report.")) return;
+        try {
+            const revoked = await revokeShare(link.id);
+            setLinks(l => (l ?? []).map(x => x.id === revoked.id ? revoked : x));
+        } catch (err: any) {
+            setError(err.message);
+        }
+    };
+
+    const inputClass = "w-full bg-[#0a0a0a] border border-[#333] rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-white/30";
+    const labelClass = "block text-xs text-gray-500 mb-1";
+
+    return (
+        <div className="space-y-4 animate-in fade-in">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h3 className="text-white font-bold text-lg">Share Report</h3>
+                    <p className="text-xs text-gray-500">Anyone with the link can read this report without an account. They can't edit it.</p>
+                </div>
+                <button onClick={onClose} className="text-xs text-gray-500 hover:text-white underline">Back to Report</button>
+            </div>
+
+            <form onSubmit={handleCreate} className="text-left bg-[#1a1a1a] border border-[#333] rounded-xl p-4 space-y-3">
+                <div className="grid grid-cols-2 gap-3">
+                    <div>
+                        <label className={labelClass}>Expires</label>
+                        <select value={expiresInDays ?? ''} onChange={(e) => setExpiresInDays(e.target.value ? Number(e.target.value) : null)} className={inputClass}>
+                            {SHARE_EXPIRY_OPTIONS.map(o => <option key={o.label} value={o.days ?? ''}>{o.label}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className={labelClass}>Password (optional)</label>
+                        <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} maxLength={SHARE_LIMITS.passwordMax} autoComplete="new-password" placeholder="No password" className={inputClass} />
+                    </div>
+                </div>
+                <label className={`flex items-start gap-2 text-xs ${hasVideo ? 'text-gray-300 cursor-pointer' : 'text-gray-600'}`}>
+                    <input type="checkbox" checked={includeVideo} disabled={!hasVideo} onChange={(e) => setIncludeVideo(e.target.checked)} className="mt-0.5 accent-[#FF0050]" />
+                    <span>
+                        Include the video
+                        <span className="block text-gray-500">
+                            {hasVideo ? "Off by default: your creative stays private unless you choose to share it." : "The video for this audit is no longer stored."}
+                        </span>
+                    </span>
+                </label>
+
+                {error && <p className="text-[#FF0050] text-xs bg-[#FF0050]/10 p-2 rounded">{error}</p>}
+
+                <button type="submit" disabled={busy} className="bg-white text-black text-sm font-bold px-4 py-2 rounded-lg hover:bg-gray-200 disabled:opacity-50">
+                    {busy ? <i className="fa-solid fa-circle-notch fa-spin"></i> : <><i className="fa-solid fa-link mr-2"></i>Create & Copy Link</>}
+                </button>
+            </form>
+
+            <div>
+                <h4 className="text-xs text-gray-500 uppercase font-mono mb-2">Links for this report</h4>
+                {!links ? (
+                    <div className="text-center py-6 text-gray-500 text-sm"><i className="fa-solid fa-circle-notch fa-spin"></i></div>
+                ) : links.length === 0 ? (
+                    <p className="text-gray-600 text-xs">No links yet.</p>
+                ) : (
+                    <ul className="space-y-2">
+                        {links.map(link => {
+                            const state = shareState(link);
+                            return (
+                                <li key={link.id} className="bg-[#1a1a1a] border border-[#333] rounded-lg p-3 text-xs flex items-center gap-3">
+                                    <span className={`uppercase font-bold px-2 py-0.5 rounded border text-[10px] ${SHARE_STATE_STYLES[state]}`}>{state}</span>
+                                    <div className="flex-1 min-w-0">
+                                        <div className="font-mono text-gray-300 truncate">…{link.token.slice(-8)}</div>
+                                        <div className="text-gray-500">
+                                            {link.expiresAt ? `${state === 'expired' ? 'Expired' : 'Expires'} ${new Date(link.expiresAt).toLocaleDateString()}` : 'No expiry'}
+                                            {link.hasPassword && <> · <i className="fa-solid fa-lock"></i> Password</>}
+                                            {link.includeVideo && <> · <i className="fa-solid fa-video"></i> Video</>}
+                                            {' · '}{link.viewCount} view{link.viewCount === 1 ? '' : 's'}
+                                        </div>
+                                    </div>
+                                    {state === 'active' && (
+                                        <>
+                                            <button onClick={() => copy(link)} className="text-gray-400 hover:text-white"><i className={`fa-solid ${copiedId === link.id ? 'fa-check' : 'fa-copy'} mr-1`}></i>{copiedId === link.id ? 'Copied' : 'Copy'}</button>
+                                            <button onClick={() => handleRevoke(link)} className="text-gray-600 hover:text-[#FF0050]">Revoke</button>
+                                        </>
+                                    )}
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
+
+/** The public, read-only page behind a share link. */
+const SharedReportPage = ({ token }: { token: string }) => {
+    const [shared, setShared] = useState<SharedReport | null>(null);
+    const [error, setError] = useState<ShareError | null>(null);
+    const [password, setPassword] = useState('');
+    const [loading, setLoading] = useState(true);
+
+    const open = async (withPassword: string | null) => {
+        setLoading(true);
+        try {
+            setShared(await openSharedReport(token, withPassword));
+            setError(null);
+        } catch (err) {
+            setError(err instanceof ShareError ? err : new ShareError('unavailable', (err as Error).message));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        setShared(null);
+        void open(null);
+    }, [token]);
+
+    const needsPassword = error?.code === 'password_required' || error?.code === 'wrong_password' || error?.code === 'locked';
+
+    return (
+        <div className="relative z-10 max-w-3xl mx-auto px-4 py-10">
+            <div className="flex items-center justify-between mb-8">
+                <a href="/" className="flex items-center gap-2">
+                    <div className="w-8 h-8 bg-white rounded-lg flex items-center justify-center"><i className="fa-solid fa-bolt text-black text-sm"></i></div>
+                    <span className="font-heading font-bold text-xl tracking-tight text-white">ViralAudit</span>
+                </a>
+                <span className="text-[10px] uppercase font-mono text-gray-500 border border-white/10 rounded px-2 py-0.5"><i className="fa-solid fa-eye mr-1"></i>Read-only</span>
+            </div>
+
+            {shared ? (
+                <div className="bg-[#111] border border-[#333] rounded-2xl p-6">
+                    <div className="mb-4">
+                        <h1 className="text-white font-bold text-lg">Analysis Report</h1>
+                        <p className="text-xs text-gray-500">
+                            {shared.fileName}
+                            {shared.expiresAt && ` · Link expires ${new Date(shared.expiresAt).toLocaleDateString()}`}
+                        </p>
+                    </div>
+                    <SyncedReport report={shared.report} source={shared.videoUrl ? { url: shared.videoUrl } : null} />
+                </div>
+            ) : loading && !error ? (
+                <div className="text-center py-20 text-gray-500"><i className="fa-solid fa-circle-notch fa-spin text-2xl"></i></div>
+            ) : needsPassword ? (
+                <form onSubmit={(e) => { e.preventDefault(); void open(password); }} className="max-w-sm mx-auto bg-[#111] border border-[#333] rounded-2xl p-6 text-center">
+                    <i className="fa-solid fa-lock text-2xl text-[#FF0050] mb-3"></i>
+                    <p className="text-white font-bold mb-1">{SHARE_ERROR_MESSAGES.password_required}</p>
+                    {error && error.code !== 'password_required' && <p className="text-[#FF0050] text-xs mb-2">{error.message}</p>}
+                    <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} autoFocus placeholder="Password" className="w-full bg-[#0a0a0a] border border-[#333] rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-white/30 my-3" />
+                    <button type="submit" disabled={loading || !password} className="w-full bg-white text-black font-bold py-2 rounded-lg hover:bg-gray-200 disabled:opacity-50">
+                        {loading ? <i className="fa-solid fa-circle-notch fa-spin"></i> : 'Open Report'}
+                    </button>
+                </form>
+            ) : (
+                <div className="max-w-sm mx-auto text-center py-16">
+                    <i className="fa-solid fa-link-slash text-2xl text-gray-600 mb-3"></i>
+                    <p className="text-gray-300">{error?.message}</p>
+                    <a href="/" className="inline-block mt-6 text-xs text-gray-500 hover:text-white underline">Go to ViralAudit</a>
+                </div>
+            )}
+        </div>
+    );
+};
+
+// ==========================================
+// ✍️ SCRIPT STUDIO
+// ==========================================
+
+type StudioDraft = GeneratedVariant & {
+    key: string;
+    /** Row id once saved. */
+    savedId: string | null;
+    edited: boolean;
+    /** Changed since the last save. */
+    dirty: boolean;
+};
+
+const ORIGINAL_KEY = 'original';
+const MAX_COMPARE = 2;
+
+const ScriptStudio = ({ report, auditId, onClose }: { report: AuditReport, auditId: string | null, onClose: () => void }) => {
+    const { user } = useAuth();
+    const [styles, setStyles] = useState<RewriteStyleId[]>(['ugc', 'problem_solution']);
+    const [drafts, setDrafts] = useState<StudioDraft[]>([]);
+    const [compare, setCompare] = useState<string[]>([]);
+    const [generating, setGenerating] = useState(false);
+    const [busyKey, setBusyKey] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const jobRef = useRef<AbortController | null>(null);
+
+    // Saving needs a stored audit; the offline demo doesn't keep any
+    const canSave = !!auditId && !!supabase;
+
+    useEffect(() => {
+        if (!canSave) return;
+        listVariants(auditId!)
+            .then(saved => setDrafts(saved.map(v => ({ ...v, key: v.id, savedId: v.id, dirty: false }))))
+            .catch(err => setError(err.message));
+    }, [auditId]);
+
+    // Leaving the studio cancels a generation in flight
+    useEffect(() => () => jobRef.current?.abort(), []);
+
+    const toggleStyle = (style: RewriteStyleId) =>
+        setStyles(s => s.includes(style) ? s.filter(x => x !== style) : [...s, style]);
+
+    const toggleCompare = (key: string) =>
+        setCompare(c => c.includes(key) ? c.filter(k => k !== key) : [...c, key].slice(-MAX_COMPARE));
+
+    const updateDraft = (key: string, fields: Partial<StudioDraft>) =>
+        setDrafts(ds => ds.map(d => d.key === key ? { ...d, ...fields } : d));
+
+    const generate = async () => {
+        const controller = new AbortController();
+        jobRef.current = controller;
+        setGenerating(true);
+        setError(null);
+        try {
+            const variants = await analysisProvider.rewriteScript(
+                { script: report.script, styles, verdict: report.verdict, context: report.context },
+                controller.signal,
+            );
+            setDrafts(ds => [...ds, ...variants.map(v => ({ ...v, key: crypto.randomUUID(), savedId: null, edited: false, dirty: true }))]);
+        } catch (err) {
+            const auditError = toAuditError(err);
+            if (auditError.kind !== 'cancelled') setError(auditError.message);
+        } finally {
+            setGenerating(false);
+        }
+    };
+
+    const save = async (draft: StudioDraft) => {
+        if (!user || !canSave) return;
+        setBusyKey(draft.key);
+        setError(null);
+        try {
+            const saved = draft.savedId
+                ? await updateVariantText(draft.savedId, draft.text)
+                : await saveVariant(user.id, auditId!, draft);
+            updateDraft(draft.key, { savedId: saved.id, edited: saved.edited, dirty: false });
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setBusyKey(null);
+        }
+    };
+
+    const remove = async (draft: StudioDraft) => {
+        setBusyKey(draft.key);
+        try {
+            if (draft.savedId) await deleteVariant(draft.savedId);
+            setDrafts(ds => ds.filter(d => d.key !== draft.key));
+            setCompare(c => c.filter(k => k !== draft.key));
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setBusyKey(null);
+        }
+    };
+
+    const compared = compare.flatMap(key => {
+        if (key === ORIGINAL_KEY) return [{ key, title: 'Original', text: report.script }];
+        const draft = drafts.find(d => d.key === key);
+        return draft ? [{ key, title: `${REWRITE_STYLES[draft.style].label} ${draft.kind}`, text: draft.text }] : [];
+    });
+
+    const chipClass = (on: boolean) => `text-xs px-3 py-1.5 rounded-full border transition-colors ${on ? 'bg-white text-black border-white' : 'border-[#333] text-gray-400 hover:text-white'}`;
+
+    return (
+        <div className="space-y-4 text-sm">
+            <div className="flex items-center justify-between">
+                <h3 className="text-white font-bold text-lg">✍️ Script Studio</h3>
+                <button onClick={onClose} className="text-xs text-gray-500 hover:text-white underline">Back to Report</button>
+            </div>
+
+            {/* ORIGINAL */}
+            <div className="bg-[#1a1a1a] border border-[#333] rounded-lg p-3">
+                <div className="flex items-center justify-between mb-2">
+                    <span className="text-[10px] uppercase text-gray-500 font-mono">Original script</span>
+                    <label className="text-xs text-gray-500 flex items-center gap-1 cursor-pointer">
+                        <input type="checkbox" checked={compare.includes(ORIGINAL_KEY)} onChange={() => toggleCompare(ORIGINAL_KEY)} className="accent-[#00F2EA]" />Compare
+                    </label>
+                </div>
+                <p className="text-gray-300 whitespace-pre-line">{report.script}</p>
+            </div>
+
+            {/* STYLES + GENERATE */}
+            <div className="flex flex-wrap items-center gap-2">
+                {REWRITE_STYLE_IDS.map(id => (
+                    <button key={id} onClick={() => toggleStyle(id)} title={REWRITE_STYLES[id].description} className={chipClass(styles.includes(id))}>
+                        {REWRITE_STYLES[id].label}
+                    </button>
+                ))}
+                <button
+                    onClick={generate}
+                    disabled={generating || !styles.length}
+                    className="ml-auto bg-gradient-to-r from-[#FF0050] to-[#00F2EA] text-white font-bold px-4 py-2 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {generating ? <><i className="fa-solid fa-circle-notch fa-spin mr-1"></i>Writing...</> : <><i className="fa-solid fa-wand-magic-sparkles mr-1"></i>Generate</>}
+                </button>
+            </div>
+
+            {error && <p className="text-[#FF0050] text-xs bg-[#FF0050]/10 p-2 rounded">{error}</p>}
+            {!canSave && <p className="text-xs text-gray-600">Versions can't be saved for this report, copy the ones you want to keep.</p>}
+
+            {/* SIDE BY SIDE */}
+            {compared.length > 0 && (
+                <div className="grid grid-cols-2 gap-3">
+                    {compared.map(c => (
+                        <div key={c.key} className="bg-[#0a0a0a] border border-[#00F2EA]/30 rounded-lg p-3">
+                            <div className="text-[10px] uppercase text-[#00F2EA] font-mono mb-2">{c.title}</div>
+                            <p className="text-gray-300 whitespace-pre-line">{c.text}</p>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* VERSIONS */}
+            {drafts.length === 0 ? (
+                <div className="text-center py-8 text-gray-500 text-xs">Pick one or more styles and generate hooks and rewrites.</div>
+            ) : (
+                <ul className="space-y-3">
+                    {drafts.map(draft => (
+                        <li key={draft.key} className="bg-[#1a1a1a] border border-[#333] rounded-lg p-3">
+                            <div className="flex items-center gap-2 mb-2 text-xs">
+                                <span className={`text-[10px] uppercase font-bold px-2 py-0.5 rounded border ${draft.kind === 'hook' ? 'text-[#00F2EA] border-[#00F2EA]/30' : 'text-[#FF0050] border-[#FF0050]/30'}`}>{draft.kind}</span>
+                                <span className="text-gray-400">{REWRITE_STYLES[draft.style].label}</span>
+                                {draft.edited && <span className="text-gray-600">· edited</span>}
+                                <span className="ml-auto flex items-center gap-3">
+                                    <label className="text-gray-500 flex items-center gap-1 cursor-pointer">
+                                        <input type="checkbox" checked={compare.includes(draft.key)} onChange={() => toggleCompare(draft.key)} className="accent-[#00F2EA]" />Compare
+                                    </label>
+                                    {canSave && (
+                                        <button onClick={() => save(draft)} disabled={!draft.dirty || busyKey === draft.key} className="text-gray-400 hover:text-white disabled:opacity-40">
+                                            <i className={`fa-solid ${draft.dirty ? 'fa-floppy-disk' : 'fa-check'} mr-1`}></i>{draft.dirty ? 'Save' : 'Saved'}
+                                        </button>
+                                    )}
+                                    <button onClick={() => remove(draft)} disabled={busyKey === draft.key} className="text-gray-600 hover:text-[#FF0050]" title="Delete"><i className="fa-solid fa-trash"></i></button>
+                                </span>
+                            </div>
+                            <textarea
+                                value={draft.text}
+                                onChange={(e) => updateDraft(draft.key, { text: e.target.value, edited: true, dirty: true })}
+                                rows={draft.kind === 'hook' ? 1 : Math.min(8, draft.text.split('\n').length + 1)}
+                                className="w-full bg-[#0a0a0a] border border-[#333] rounded-lg px-3 py-2 text-white focus:outline-none focus:border-white/30 resize-y"
+                            />
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+// ==========================================
+// 🏁 COMPETITOR BENCHMARKS
+// ==========================================
+
+/** Where the next audit goes when it's a competitor's ad rather than the user's. */
+type CompetitorTarget = { setId: string; setName: string; competitor: string };
+
+const BenchmarkLibrary = ({ onAuditCompetitor }: { onAuditCompetitor: (target: CompetitorTarget) => void }) => {
+    const { user, workspace } = useAuth();
+    const [sets, setSets] = useState<BenchmarkSet[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [entries, setEntries] = useState<BenchmarkEntry[]>([]);
+    const [audits, setAudits] = useState<AuditRecord[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [newName, setNewName] = useState("");
+    const [newNiche, setNewNiche] = useState("");
+    const [competitor, setCompetitor] = useState("");
+    const [tagAuditId, setTagAuditId] = useState("");
+    const [busy, setBusy] = useState(false);
+
+    useEffect(() => {
+        if (!supabase) { setLoading(false); return; }
+        Promise.all([listSets(workspace?.id ?? null), listAudits(workspace?.id ?? null)])
+            .then(([s, a]) => { setSets(s); setAudits(a); setSelectedId(s[0]?.id ?? null); })
+            .catch(err => setError(err.message))
+            .finally(() => setLoading(false));
+    }, [workspace?.id]);
+
+    useEffect(() => {
+        setEntries([]);
+        if (!selectedId) return;
+        let cancelled = false;
+        listEntries(selectedId)
+            .then(data => { if (!cancelled) setEntries(data); })
+            .catch(err => { if (!cancelled) setError(err.message); });
+        return () => { cancelled = true; };
+    }, [selectedId]);
+
+    const run = async (fn: () => Promise<void>) => {
+        setBusy(true);
+        setError(null);
+        try {
+            await fn();
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleCreate = () => run(async () => {
+        if (!user) return;
+        const created = await createSet(user.id, newName, newNiche);
+        setSets(s => [...s, created].sort((a, b) => a.name.localeCompare(b.name)));
+        setSelectedId(created.id);
+        setNewName("");
+        setNewNiche("");
+    });
+
+    const handleDeleteSet = (set: BenchmarkSet) => {
+        if (!confirm(`Delete the "${set.name}" benchmark? The audits themselves stay in your history.`)) return;
+        run(async () => {
+            await deleteSet(set.id);
+            const rest = sets.filter(s => s.id !== set.id);
+            setSets(rest);
+            setSelectedId(rest[0]?.id ?? null);
+        });
+    };
+
+    const handleTag = () => run(async () => {
+        if (!user || !selectedId) return;
+        const entry = await addEntry(user.id, selectedId, tagAuditId, competitor);
+        setEntries(es => [...es, entry]);
+        setTagAuditId("");
+        setCompetitor("");
+    });
+
+    const handleRemove = (entry: BenchmarkEntry) => run(async () => {
+        await removeEntry(entry.id);
+        setEntries(es => es.filter(e => e.id !== entry.id));
+    });
+
+    const selected = sets.find(s => s.id === selectedId) ?? null;
+    const tagged = new Set(entries.map(e => e.auditId));
+    const inputClass = "bg-[#0a0a0a] border border-[#333] rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-white/30";
+
+    if (!supabase) {
+        return <div className="text-center py-10 text-gray-500 text-sm">Benchmarks are saved to your account, so they aren't available in the offline demo.</div>;
+    }
+    if (loading) {
+        return <div className="text-center py-10 text-gray-500"><i className="fa-solid fa-circle-notch fa-spin"></i></div>;
+    }
+
+    return (
+        <div className="space-y-4 text-sm">
+            <p className="text-xs text-gray-500">Collect competitor ads for a brand or niche, then compare any of your audits against the set.</p>
+
+            {error && <p className="text-[#FF0050] text-xs bg-[#FF0050]/10 p-2 rounded">{error}</p>}
+
+            {/* SETS */}
+            <div className="flex flex-wrap gap-2">
+                {sets.map(set => (
+                    <button key={set.id} onClick={() => setSelectedId(set.id)} title={set.niche || undefined} className={`text-xs px-3 py-1.5 rounded-full border transition-colors ${set.id === selectedId ? 'bg-white text-black border-white' : 'border-[#333] text-gray-400 hover:text-white'}`}>
+                        {set.name}
+                    </button>
+                ))}
+            </div>
+            <div className="grid grid-cols-5 gap-2">
+                <input value={newName} onChange={(e) => setNewName(e.target.value)} maxLength={BENCHMARK_LIMITS.name} placeholder="New benchmark, e.g. Skincare DTC" className={`${inputClass} col-span-2`} />
+                <input value={newNiche} onChange={(e) => setNewNiche(e.target.value)} maxLength={BENCHMARK_LIMITS.niche} placeholder="Niche or brand (optional)" className={`${inputClass} col-span-2`} />
+                <button onClick={handleCreate} disabled={busy || !newName.trim()} className="bg-white text-black font-bold rounded-lg disabled:opacity-50">Create</button>
+            </div>
+
+            {selected && (
+                <div className="bg-[#1a1a1a] border border-[#333] rounded-lg p-3 space-y-3">
+                    <div className="flex items-center justify-between">
+                        <div>
+                            <div className="text-white font-medium">{selected.name}</div>
+                            {selected.niche && <div className="text-xs text-gray-500">{selected.niche}</div>}
+                        </div>
+                        <button onClick={() => handleDeleteSet(selected)} disabled={busy} className="text-gray-600 hover:text-[#FF0050] text-xs"><i className="fa-solid fa-trash mr-1"></i>Delete benchmark</button>
+                    </div>
+
+                    {/* ENTRIES */}
+                    {entries.length === 0 ? (
+                        <p className="text-xs text-gray-500 py-2">No competitor ads yet.</p>
+                    ) : (
+                        <ul className="space-y-2">
+                            {entries.map(entry => {
+                                const metrics = reportMetrics(entry.report);
+                                return (
+                                    <li key={entry.id} className="flex items-center gap-3 bg-[#0a0a0a] border border-[#333] rounded-lg p-2">
+                                        <span className={`w-10 text-lg font-bold font-mono ${scoreColor(entry.report.overallScore, 100)}`}>{entry.report.overallScore}</span>
+                                        <span className="flex-1 min-w-0">
+                                            <span className="block text-white truncate">{entry.competitor}</span>
+                                            <span className="block text-xs text-gray-500 truncate">{entry.fileName}</span>
+                                        </span>
+                                        <span className="hidden sm:flex gap-2 text-[10px] font-mono text-gray-500">
+                                            {METRIC_IDS.map(id => <span key={id} title={METRIC_META[id].label}>{METRIC_META[id].label.split(' ')[0]} {metrics[id]}</span>)}
+                                        </span>
+                                        <button onClick={() => handleRemove(entry)} disabled={busy} className="text-gray-600 hover:text-[#FF0050] px-2" title="Remove from benchmark"><i className="fa-solid fa-xmark"></i></button>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+
+                    {/* ADD */}
+                    <div className="border-t border-[#333] pt-3 space-y-2">
+                        <input value={competitor} onChange={(e) => setCompetitor(e.target.value)} maxLength={BENCHMARK_LIMITS.competitor} placeholder="Competitor name" className={`${inputClass} w-full`} />
+                        <div className="flex gap-2">
+                            <select value={tagAuditId} onChange={(e) => setTagAuditId(e.target.value)} className={`${inputClass} flex-1 min-w-0`}>
+                                <option value="">Tag an audit from history…</option>
+                                {audits.filter(a => !tagged.has(a.id)).map(a => <option key={a.id} value={a.id}>{a.fileName} ({a.overallScore})</option>)}
+                            </select>
+                            <button onClick={handleTag} disabled={busy || !tagAuditId || !competitor.trim()} className="bg-white text-black font-bold px-4 rounded-lg disabled:opacity-50">Tag</button>
+                        </div>
+                        <button
+                            onClick={() => onAuditCompetitor({ setId: selected.id, setName: selected.name, competitor: competitor.trim() })}
+                            disabled={!competitor.trim()}
+                            className="w-full border border-[#333] text-gray-300 hover:text-white hover:border-gray-500 rounded-lg py-2 disabled:opacity-50"
+                        >
+                            <i className="fa-solid fa-cloud-arrow-up mr-1"></i>Upload and audit a competitor ad
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const BenchmarkComparisonView = ({ report, auditId, onClose }: { report: AuditReport, auditId: string | null, onClose: () => void }) => {
+    const { workspace } = useAuth();
+    const [sets, setSets] = useState<BenchmarkSet[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [entries, setEntries] = useState<BenchmarkEntry[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!supabase) return;
+        listSets(workspace?.id ?? null)
+            .then(s => { setSets(s); setSelectedId(s[0]?.id ?? null); })
+            .catch(err => setError(err.message));
+    }, [workspace?.id]);
+
+    useEffect(() => {
+        setEntries(null);
+        if (!selectedId) return;
+        let cancelled = false;
+        listEntries(selectedId)
+            .then(data => { if (!cancelled) setEntries(data); })
+            .catch(err => { if (!cancelled) setError(err.message); });
+        return () => { cancelled = true; };
+    }, [selectedId]);
+
+    // A competitor ad opened from history shouldn't be compared against itself
+    const competitors = (entries ?? []).filter(e => e.auditId !== auditId);
+    const comparison = competitors.length ? compareToBenchmark(report, competitors) : null;
+
+    return (
+        <div className="space-y-4 text-sm">
+            <div className="flex items-center justify-between">
+                <h3 className="text-white font-bold text-lg">🏁 Benchmark</h3>
+                <button onClick={onClose} className="text-xs text-gray-500 hover:text-white underline">Back to Report</button>
+            </div>
+
+            {error && <p className="text-[#FF0050] text-xs bg-[#FF0050]/10 p-2 rounded">{error}</p>}
+
+            {!supabase ? (
+                <div className="text-center py-8 text-gray-500 text-xs">Benchmarks aren't available in the offline demo.</div>
+            ) : sets.length === 0 ? (
+                <div className="text-center py-8 text-gray-500 text-xs">No benchmarks yet. Create one in the Benchmarks tab and add competitor ads to it.</div>
+            ) : (
+                <>
+                    <select value={selectedId ?? ''} onChange={(e) => setSelectedId(e.target.value)} className="w-full bg-[#0a0a0a] border border-[#333] rounded-lg px-3 py-2 text-white focus:outline-none focus:border-white/30">
+                        {sets.map(set => <option key={set.id} value={set.id}>{set.name}{set.niche ? ` · ${set.niche}` : ''}</option>)}
+                    </select>
+
+                    {entries === null ? (
+                        <div className="text-center py-8 text-gray-500"><i className="fa-solid fa-circle-notch fa-spin"></i></div>
+                    ) : !comparison ? (
+                        <div className="text-center py-8 text-gray-500 text-xs">This benchmark has no other ads to compare against.</div>
+                    ) : (
+                        <>
+                            <div className="flex items-center justify-between bg-[#1a1a1a] border border-[#333] rounded-lg p-3">
+                                <span className="text-gray-400">Overall: <span className={`font-bold font-mono ${scoreColor(comparison.overall.own, 100)}`}>{comparison.overall.own}</span> vs average <span className="font-mono text-white">{comparison.overall.average}</span></span>
+                                <span className="text-xs text-gray-500">Rank {comparison.overall.rank} of {comparison.overall.of}</span>
+                            </div>
+
+                            <table className="w-full text-left">
+                                <thead className="text-[10px] uppercase text-gray-500 font-mono">
+                                    <tr>
+                                        <th className="py-2 font-normal">Metric</th>
+                                        <th className="py-2 font-normal text-center">You</th>
+                                        <th className="py-2 font-normal text-center">Avg</th>
+                                        <th className="py-2 font-normal">Best competitor</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {comparison.metrics.map(m => (
+                                        <tr key={m.metric} className={`border-t border-[#222] ${m.behind ? 'bg-[#FF0050]/5' : ''}`}>
+                                            <td className="py-2 pr-2">
+                                                <div className="text-white">{METRIC_META[m.metric].label}</div>
+                                                {m.behind && <div className="text-[10px] text-[#FF0050]"><i className="fa-solid fa-arrow-down mr-1"></i>Behind the set</div>}
+                                            </td>
+                                            <td className={`py-2 text-center font-mono font-bold ${scoreColor(m.own, 10)}`}>{m.own}</td>
+                                            <td className="py-2 text-center font-mono text-gray-400">
+                                                {m.average}
+                                                <span className={`block text-[10px] ${m.gap < 0 ? 'text-[#FF0050]' : 'text-[#00F2EA]'}`}>{m.gap > 0 ? '+' : ''}{m.gap}</span>
+                                            </td>
+                                            <td className="py-2 text-gray-300">
+                                                {m.best && <><span className="font-mono text-white mr-1">{m.best.score}</span>{m.best.competitor}</>}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            <p className="text-xs text-gray-600">Compared against {competitors.length} competitor ad{competitors.length === 1 ? '' : 's'}. Rows in red are where the best competitor beats you by a point or more.</p>
+                        </>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+const PERFORMANCE_PAGE_SIZE = 50;
+
+const VERDICT_STYLES: Record<TrustVerdict, string> = {
+    predictive: 'text-[#00F2EA] border-[#00F2EA]/40',
+    misleading: 'text-[#FF0050] border-[#FF0050]/40',
+    unproven: 'text-gray-400 border-[#333]',
+    too_little_data: 'text-gray-600 border-[#333]',
+};
+
+/** Imported ad results, matched to audits, and how each score relates to them. */
+const PerformancePanel = () => {
+    const { workspace } = useAuth();
+    const [imports, setImports] = useState<PerformanceImport[]>([]);
+    const [rows, setRows] = useState<PerformanceRow[]>([]);
+    const [audits, setAudits] = useState<AuditOption[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+    const [pending, setPending] = useState<{ fileName: string; parsed: ParsedPerformance } | null>(null);
+    const [unlinkedOnly, setUnlinkedOnly] = useState(false);
+    const [showAll, setShowAll] = useState(false);
+    const fileInput = useRef<HTMLInputElement>(null);
+    const workspaceId = workspace?.id ?? null;
+
+    const reload = async () => {
+        const [i, r, a] = await Promise.all([listImports(workspaceId), listPerformanceRows(workspaceId), listAuditOptions(workspaceId)]);
+        setImports(i);
+        setRows(r);
+        setAudits(a);
+    };
+
+    useEffect(() => {
+        if (!supabase) { setLoading(false); return; }
+        reload().catch(err => setError(err.message)).finally(() => setLoading(false));
+    }, [workspaceId]);
+
+    const run = async (fn: () => Promise<void>) => {
+        setBusy(true);
+        setError(null);
+        setNotice(null);
+        try {
+            await fn();
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setError(null);
+        setNotice(null);
+        if (file.size > PERFORMANCE_LIMITS.fileBytes) {
+            setError("The file is larger than 10 MB. Export fewer columns or a shorter date range.");
+            return;
+        }
+        try {
+            setPending({ fileName: file.name, parsed: parsePerformanceCsv(await file.text()) });
+        } catch (err: any) {
+            setError(err instanceof PerformanceImportError ? err.message : "Couldn't read the file. Export it as CSV.");
+        }
+    };
+
+    const handleImport = () => run(async () => {
+        if (!pending) return;
+        await importPerformance(pending.fileName, pending.parsed, audits);
+        setPending(null);
+        await reload();
+        setNotice(`Imported ${pending.parsed.rows.length} ads from ${pending.fileName}.`);
+    });
+
+    const handleDeleteImport = (imported: PerformanceImport) => {
+        if (!confirm(`Delete the results imported from "${imported.fileName}"? The audits stay in your history.`)) return;
+        run(async () => {
+            await deleteImport(imported.id);
+            setImports(list => list.filter(i => i.id !== imported.id));
+            setRows(list => list.filter(r => r.importId !== imported.id));
+        });
+    };
+
+    const handleRematch = () => run(async () => {
+        const linked = await rematchRows(rows, audits);
+        setRows(await listPerformanceRows(workspaceId));
+        setNotice(linked ? `Linked ${linked} more ad${linked === 1 ? '' : 's'} by file name.` : "No new matches. Link the rest by hand below.");
+    });
+
+    const handleLink = (row: PerformanceRow, auditId: string) => run(async () => {
+        const updated = await linkRow(row.id, auditId || null);
+        setRows(list => list.map(r => r.id === updated.id ? updated : r));
+    });
+
+    const outcomes = outcomesByAudit(rows.map(row => ({ ...row, scores: row.audit?.scores ?? null })));
+    const correlations = correlate(outcomes);
+    const verdicts = trustVerdicts(correlations);
+    const unlinkedCount = rows.filter(r => !r.auditId).length;
+    const visibleRows = rows.filter(r => !unlinkedOnly || !r.auditId);
+    const pendingMatches = pending ? matchByFileName(pending.parsed.rows.map(r => r.creativeName), audits).filter(Boolean).length : 0;
+    const inputClass = "bg-[#0a0a0a] border border-[#333] rounded-lg px-2 py-1 text-xs text-white focus:outline-none focus:border-white/30";
+    const formatOutcome = (metric: OutcomeMetric, value: number | null) => value === null ? '–' : OUTCOME_META[metric].format(value);
+
+    if (!supabase) {
+        return <div className="text-center py-10 text-gray-500 text-sm">Performance data is saved to your account, so it isn't available in the offline demo.</div>;
+    }
+    if (loading) {
+        return <div className="text-center py-10 text-gray-500"><i className="fa-solid fa-circle-notch fa-spin"></i></div>;
+    }
+
+    return (
+        <div className="space-y-4 text-sm">
+            <p className="text-xs text-gray-500">Import results from Meta Ads Manager or TikTok Ads to see which audit scores actually go with better CTR, hook rate and ROAS.</p>
+
+            {/* IMPORT */}
+            <div className="bg-[#1a1a1a] border border-[#333] rounded-lg p-3 space-y-3">
+                <div className="flex items-center justify-between gap-3">
+                    <p className="text-xs text-gray-500">
+                        Export an ad-level report as CSV with the ad name, spend, impressions and the results you track.
+                        Ads named after the video file are matched to its audit automatically.
+                    </p>
+                    <input ref={fileInput} type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+                    <button onClick={() => fileInput.current?.click()} disabled={busy} className="bg-white text-black font-bold px-4 py-2 rounded-lg hover:bg-gray-200 disabled:opacity-50 whitespace-nowrap">
+                        <i className="fa-solid fa-file-csv mr-2"></i>Import CSV
+                    </button>
+                </div>
+
+                {pending && (
+                    <div className="border-t border-[#333] pt-3 space-y-2 text-xs">
+                        <div className="flex items-center gap-2">
+                            <span className="text-white truncate">{pending.fileName}</span>
+                            <select
+                                value={pending.parsed.source}
+                                onChange={(e) => setPending({ ...pending, parsed: { ...pending.parsed, source: e.target.value as PerformanceSource } })}
+                                className={inputClass}
+                            >
+                                {PERFORMANCE_SOURCES.map(s => <option key={s} value={s}>{PERFORMANCE_SOURCE_LABELS[s]}</option>)}
+                            </select>
+                        </div>
+                        <p className="text-gray-400">
+                            {pending.parsed.rows.length} ad{pending.parsed.rows.length === 1 ? '' : 's'} · {pendingMatches} match an audit by file name
+                            {pending.parsed.skipped > 0 && <> · {pending.parsed.skipped} row{pending.parsed.skipped === 1 ? '' : 's'} without a name or results skipped</>}
+                        </p>
+                        <p className="text-gray-500">
+                            Found: {OUTCOME_METRICS.filter(m => pending.parsed.rows.some(r => r[m] !== null)).map(m => OUTCOME_META[m].label).join(', ') || 'no results'}
+                        </p>
+                        <div className="flex items-center gap-4">
+                            <button onClick={handleImport} disabled={busy} className="bg-white text-black font-bold px-4 py-1.5 rounded-lg hover:bg-gray-200 disabled:opacity-50">
+                                {busy ? <i className="fa-solid fa-circle-notch fa-spin"></i> : 'Import'}
+                            </button>
+                            <button onClick={() => setPending(null)} disabled={busy} className="text-gray-400 hover:text-white">Cancel</button>
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            {error && <p className="text-[#FF0050] text-xs bg-[#FF0050]/10 p-2 rounded">{error}</p>}
+            {notice && <p className="text-[#00F2EA] text-xs bg-[#00F2EA]/10 p-2 rounded">{notice}</p>}
+
+            {/* CORRELATION */}
+            {rows.length > 0 && (
+                <div className="bg-[#1a1a1a] border border-[#333] rounded-lg p-3 space-y-3">
+                    <div className="flex items-center justify-between">
+                        <h4 className="text-xs text-gray-500 uppercase font-mono">Scores vs results</h4>
+                        <span className="text-xs text-gray-500">{outcomes.length} audited ad{outcomes.length === 1 ? '' : 's'} with results</span>
+                    </div>
+                    {outcomes.length < CORRELATION_MIN_SAMPLES ? (
+                        <p className="text-xs text-gray-500">
+                            Link at least {CORRELATION_MIN_SAMPLES} audited ads to their results to see how the scores relate to them.
+                        </p>
+                    ) : (
+                        <>
+                            <table className="w-full text-xs">
+                                <thead>
+                                    <tr className="text-gray-500 text-left">
+                                        <th className="font-normal pb-2"></th>
+                                        {OUTCOME_METRICS.map(m => <th key={m} className="font-normal pb-2 text-center">{OUTCOME_META[m].label}</th>)}
+                                        <th className="font-normal pb-2 text-right">Verdict</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {verdicts.map(({ score, verdict }) => (
+                                        <tr key={score} className="border-t border-[#333]">
+                                            <td className="py-2 text-gray-300">{SCORE_DIMENSION_LABELS[score]}</td>
+                                            {OUTCOME_METRICS.map(metric => {
+                                                const c = correlations.find(x => x.score === score && x.metric === metric)!;
+                                                const color = c.rho === null ? 'text-gray-600'
+                                                    : c.significant ? (c.rho > 0 ? 'text-[#00F2EA] font-bold' : 'text-[#FF0050] font-bold')
+                                                    : 'text-gray-400';
+                                                return (
+                                                    <td key={metric} className={`py-2 text-center font-mono ${color}`} title={`${c.strength === 'none' ? 'No' : c.strength[0].toUpperCase() + c.strength.slice(1)} correlation over ${c.n} ads${c.significant ? ', unlikely to be chance' : ''}`}>
+                                                        {c.rho === null ? '–' : `${c.rho > 0 ? '+' : ''}${c.rho.toFixed(2)}`}
+                                                        <span className="text-[10px] text-gray-600 font-normal ml-1">n={c.n}</span>
+                                                    </td>
+                                                );
+                                            })}
+                                            <td className="py-2 text-right">
+                                                <span title={TRUST_META[verdict].description} className={`uppercase font-bold px-2 py-0.5 rounded border text-[10px] ${VERDICT_STYLES[verdict]}`}>{TRUST_META[verdict].label}</span>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            <p className="text-[11px] text-gray-600">
+                                Rank correlation (−1 to +1) between each score and the ads' results; ads in several imports are combined.
+                                Bold values are unlikely to be chance at this sample size. Correlation isn't causation: treat it as a hint about which findings to act on first.
+                            </p>
+                        </>
+                    )}
+                </div>
+            )}
+
+            {/* IMPORTS */}
+            {imports.length > 0 && (
+                <div>
+                    <h4 className="text-xs text-gray-500 uppercase font-mono mb-2">Imports</h4>
+                    <ul className="space-y-2">
+                        {imports.map(imported => (
+                            <li key={imported.id} className="bg-[#1a1a1a] border border-[#333] rounded-lg p-2 text-xs flex items-center gap-3">
+                                <span className="flex-1 min-w-0">
+                                    <span className="block text-gray-200 truncate">{imported.fileName}</span>
+                                    <span className="block text-gray-500">{PERFORMANCE_SOURCE_LABELS[imported.source]} · {imported.rowCount} ads · {new Date(imported.createdAt).toLocaleDateString()}</span>
+                                </span>
+                                <button onClick={() => handleDeleteImport(imported)} disabled={busy} className="text-gray-600 hover:text-[#FF0050] px-2" title="Delete import"><i className="fa-solid fa-trash"></i></button>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {/* ROWS */}
+            {rows.length > 0 && (
+                <div>
+                    <div className="flex items-center justify-between mb-2">
+                        <h4 className="text-xs text-gray-500 uppercase font-mono">Ads</h4>
+                        <div className="flex items-center gap-4 text-xs">
+                            <label className="flex items-center gap-2 text-gray-400 cursor-pointer">
+                                <input type="checkbox" checked={unlinkedOnly} onChange={(e) => setUnlinkedOnly(e.target.checked)} className="accent-[#FF0050]" />
+                                Unlinked only ({unlinkedCount})
+                            </label>
+                            {unlinkedCount > 0 && <button onClick={handleRematch} disabled={busy} className="text-gray-400 hover:text-white"><i className="fa-solid fa-link mr-1"></i>Match again</button>}
+                        </div>
+                    </div>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-xs">
+                            <thead>
+                                <tr className="text-gray-500 text-left">
+                                    <th className="font-normal pb-2">Ad</th>
+                                    <th className="font-normal pb-2 text-right">Spend</th>
+                                    {OUTCOME_METRICS.map(m => <th key={m} className="font-normal pb-2 text-right">{OUTCOME_META[m].label}</th>)}
+                                    <th className="font-normal pb-2 pl-3">Audit</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {(showAll ? visibleRows : visibleRows.slice(0, PERFORMANCE_PAGE_SIZE)).map(row => (
+                                    <tr key={row.id} className="border-t border-[#222]">
+                                        <td className="py-2 text-gray-300 max-w-[14rem] truncate" title={row.creativeName}>{row.creativeName}</td>
+                                        <td className="py-2 text-right text-gray-400 font-mono">{row.spend === null ? '–' : row.spend.toLocaleString(undefined, { maximumFractionDigits: 0 })}</td>
+                                        {OUTCOME_METRICS.map(m => <td key={m} className="py-2 text-right text-gray-400 font-mono">{formatOutcome(m, row[m])}</td>)}
+                                        <td className="py-2 pl-3">
+                                            <div className="flex items-center gap-2">
+                                                {row.audit?.scores.overall != null && <span className={`font-mono font-bold ${scoreColor(row.audit.scores.overall, 100)}`}>{row.audit.scores.overall}</span>}
+                                                <select value={row.auditId ?? ''} onChange={(e) => handleLink(row, e.target.value)} disabled={busy} className={`${inputClass} max-w-[12rem]`}>
+                                                    <option value="">Not linked</option>
+                                                    {audits.map(a => <option key={a.id} value={a.id}>{a.fileName} ({new Date(a.createdAt).toLocaleDateString()})</option>)}
+                                                </select>
+                                                {row.match === 'file_name' && <span className="text-[10px] text-gray-600" title="Matched by file name">auto</span>}
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    {!showAll && visibleRows.length > PERFORMANCE_PAGE_SIZE && (
+                        <button onClick={() => setShowAll(true)} className="mt-2 text-xs text-gray-400 hover:text-white">Show all {visibleRows.length} ads</button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+// ==========================================
+// 🆚 A/B TESTS
+// ==========================================
+
+const ABTestPanel = ({ onDone }: { onDone: (comparison: AbComparison) => void }) => {
+    const { user, entitlements, refreshEntitlements, triggerUpgrade } = useAuth();
+    const [variants, setVariants] = useState<{ file: File; info: VideoInfo }[]>([]);
+    const [validating, setValidating] = useState(false);
+    const [context, setContext] = useState<AuditContext | null>(null);
+    const [running, setRunning] = useState(false);
+    const [stage, setStage] = useState<ComparisonStage | null>(null);
+    const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+    const [retryInfo, setRetryInfo] = useState<RetryInfo | null>(null);
+    const [error, setError] = useState<AuditError | null>(null);
+    const jobRef = useRef<AbortController | null>(null);
+
+    // Closing the modal cancels the run (the variant in flight is refunded)
+    useEffect(() => () => jobRef.current?.abort(), []);
+
+    // Validate on pick, like single audits, so a bad file never costs a credit
+    const addFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const picked = Array.from(e.target.files ?? []).slice(0, COMPARE_LIMITS.maxVariants - variants.length);
+        e.target.value = "";
+        setError(null);
+        setValidating(true);
+        try {
+            for (const file of picked) {
+                const info = await validateVideo(file);
+                setVariants(vs => [...vs, { file, info }]);
+            }
+        } catch (err) {
+            setError(toAuditError(err));
+        } finally {
+            setValidating(false);
+        }
+    };
+
+    const run = async () => {
+        if (!user || variants.length < COMPARE_LIMITS.minVariants) return;
+
+        const controller = new AbortController();
+        jobRef.current = controller;
+        setRunning(true);
+        setError(null);
+        setRetryInfo(null);
+
+        try {
+            const { audits, auditIds, verdict } = await runComparisonJob({
+                variants,
+                userId: user.id,
+                context,
+                signal: controller.signal,
+                onStage: (s) => { setStage(s); setUploadProgress(s.stage === 'uploading' ? 0 : null); },
+                onUploadProgress: setUploadProgress,
+                onRetry: setRetryInfo,
+                onAudited: (index, { report, video }) => {
+                    refreshEntitlements();
+                    // Each variant is a normal audit in history, saved as soon as it's paid for
+                    return OFFLINE_DEMO
+                        ? Promise.resolve(null)
+                        : saveAudit(user.id, variants[index].file, report, video)
+                            .then(record => record.id)
+                            .catch(err => { console.error("Failed to save audit", err); return null; });
+                },
+            });
+
+            refreshEntitlements();
+            const comparison: AbComparison = {
+                version: 1,
+                variants: audits.map((audit, i) => ({ label: VARIANT_LABELS[i], fileName: variants[i].file.name, auditId: auditIds[i], report: audit.report })),
+                verdict,
+                createdAt: new Date().toISOString(),
+            };
+            if (!OFFLINE_DEMO) {
+                saveComparison(user.id, comparison).catch(err => console.error("Failed to save comparison", err));
+            }
+            onDone(comparison);
+        } catch (err) {
+            setError(toAuditError(err));
+            refreshEntitlements();
+        } finally {
+            if (jobRef.current === controller) jobRef.current = null;
+            setRunning(false);
+            setStage(null);
+            setUploadProgress(null);
+            setRetryInfo(null);
+        }
+    };
 
-// ==========================================
-// 🔐 AUTH CONTEXT
-// ==========================================
+    const remaining = entitlements?.remaining ?? null;
+    // One credit per variant, and one for the comparison
+    const notEnough = remaining !== null && remaining < variants.length + 1;
+    const stageLabel = !stage ? null
+        : stage.stage === 'comparing' ? "Comparing variants..."
+        : `${stage.stage === 'uploading' ? 'Uploading' : 'Auditing'} variant ${VARIANT_LABELS[stage.index]} (${stage.index + 1} of ${variants.length})...`;
 
-type User = {
-    email: string;
-    id: string;
-};
+    return (
+        <div className="text-center">
+            <p className="text-xs text-gray-500 mb-4 text-left">
+                Upload {COMPARE_LIMITS.minVariants}–{COMPARE_LIMITS.maxVariants} variants of the same ad. Each one is audited (one audit each), then compared side by side with a recommended winner (one more audit).
+            </p>
 
-interface AuthContextType {
-    user: User | null;
-    isLoading: boolean;
-    login: (e: string, p: string) => Promise<any>;
-    signup: (e: string, p: string) => Promise<any>;
-    logout: () => void;
-    showAuthModal: boolean;
-    setShowAuthModal: (show: boolean) => void;
-    authView: 'login' | 'signup';
-    setAuthView: (view: 'login' | 'signup') => void;
-    openTool: () => void;
-    triggerUpgrade: () => void; // New helper to scroll to pricing
-}
+            <PresetPicker onChange={setContext} disabled={running} />
 
-const AuthContext = createContext<AuthContextType>({} as AuthContextType);
+            {variants.length > 0 && (
+                <ul className="space-y-2 mb-4 text-left">
+                    {variants.map((v, i) => (
+                        <li key={`${v.file.name}-${i}`} className="flex items-center gap-3 bg-[#1a1a1a] border border-[#333] rounded-lg p-3">
+                            <span className="w-8 h-8 rounded-full bg-white text-black font-bold flex items-center justify-center">{VARIANT_LABELS[i]}</span>
+                            <span className="flex-1 min-w-0">
+                                <span className="block text-white text-sm truncate">{v.file.name}</span>
+                                <span className="block text-xs text-gray-500">{v.info.width}×{v.info.height} · {Math.round(v.info.durationSeconds)}s · {formatFileSize(v.info.sizeBytes)}</span>
+                            </span>
+                            {stage && stage.index === i && <i className="fa-solid fa-circle-notch fa-spin text-[#00F2EA]"></i>}
+                            {!running && (
+                                <button onClick={() => setVariants(vs => vs.filter((_, j) => j !== i))} className="text-gray-600 hover:text-[#FF0050] px-2" title="Remove"><i className="fa-solid fa-xmark"></i></button>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
 
-const AuthProvider = ({ children }: { children: React.ReactNode }) => {
-    const [user, setUser] = useState<User | null>(null);
-    const [isLoading, setIsLoading] = useState(true);
-    const [showAuthModal, setShowAuthModal] = useState(false);
-    const [showToolModal, setShowToolModal] = useState(false);
-    const [authView, setAuthView] = useState<'login' | 'signup'>('signup');
+            {variants.length < COMPARE_LIMITS.maxVariants && !running && (
+                <div
+                    onClick={() => document.getElementById('ab-file-upload')?.click()}
+                    className="border-2 border-dashed border-[#333] hover:border-gray-500 hover:bg-[#1a1a1a] rounded-xl p-6 cursor-pointer transition-all"
+                >
+                    <input type="file" id="ab-file-upload" className="hidden" multiple accept="video/mp4,video/quicktime,video/webm" onChange={addFiles} />
+                    <i className={`fa-solid ${validating ? 'fa-circle-notch fa-spin' : 'fa-plus'} text-2xl text-gray-500 mb-2`}></i>
+                    <h4 className="text-white font-medium">{validating ? "Checking video..." : `Add variant ${VARIANT_LABELS[variants.length]}`}</h4>
+                </div>
+            )}
 
-    useEffect(() => {
-        const checkSession = async () => {
-            if(!supabase) {
-                console.warn("Supabase not configured");
-                setIsLoading(false);
-                return;
-            }
-            const { data: { session } } = await supabase.auth.getSession();
-            if (session?.user) {
-                setUser({ email: session.user.email!, id: session.user.id });
-            }
-            setIsLoading(false);
-        };
-        checkSession();
+            {uploadProgress !== null && (
+                <div className="mt-4 h-2 bg-[#1a1a1a] rounded-full overflow-hidden border border-[#333]">
+                    <div className="h-full bg-gradient-to-r from-[#FF0050] to-[#00F2EA] transition-[width] duration-200" style={{ width: `${uploadProgress * 100}%` }} />
+                </div>
+            )}
 
-        const { data: { subscription } } = supabase?.auth.onAuthStateChange((_event, session) => {
-            if (session?.user) {
-                setUser({ email: session.user.email!, id: session.user.id });
-            } else {
-                setUser(null);
-            }
-        }) || { data: { subscription: null } };
+            {retryInfo && (
+                <p className="text-yellow-400 text-xs mt-4">
+                    <i className="fa-solid fa-rotate mr-1"></i>
+                    {retryInfo.error.message} Retry {retryInfo.attempt} of {retryInfo.maxRetries} in {Math.ceil(retryInfo.delayMs / 1000)}s...
+                </p>
+            )}
 
-        return () => subscription?.unsubscribe();
-    }, []);
+            {notEnough && !running && (
+                <p className="text-xs text-[#FF0050] mt-4">
+                    This test needs {variants.length + 1} audits and you have {remaining} left.
+                    {entitlements?.plan !== 'professional' && <button onClick={triggerUpgrade} className="underline ml-1">Upgrade</button>}
+                </p>
+            )}
 
-    const login = async (email: string, password: string) => {
-        if(!supabase) return { error: { message: "Supabase not configured" } };
-        const result = await supabase.auth.signInWithPassword({ email, password });
-        if (!result.error) setShowAuthModal(false);
-        return result;
-    };
+            {error && <AuditErrorNotice error={error} onUpgrade={triggerUpgrade} />}
 
-    const signup = async (email: string, password: string) => {
-        if(!supabase) return { error: { message: "Supabase not configured" } };
-        const result = await supabase.auth.signUp({ email, password });
-        if (!result.error) setShowAuthModal(false);
-        return result;
-    };
+            <button
+                onClick={run}
+                disabled={running || validating || notEnough || variants.length < COMPARE_LIMITS.minVariants}
+                className="w-full mt-6 bg-gradient-to-r from-[#FF0050] to-[#00F2EA] text-white font-bold py-4 rounded-xl disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+                {running ? <><i className="fa-solid fa-circle-notch fa-spin"></i> {stageLabel ?? 'Starting...'}</> : `Run A/B Audit (${variants.length} audits)`}
+            </button>
+            {running && (
+                <button onClick={() => jobRef.current?.abort()} className="mt-3 text-xs text-gray-500 hover:text-white underline">Cancel</button>
+            )}
+        </div>
+    );
+};
 
-    const logout = async () => {
-        if(supabase) await supabase.auth.signOut();
-        setUser(null);
-    };
+const ComparisonView = ({ comparison, onClose, closeLabel }: { comparison: AbComparison, onClose: () => void, closeLabel: string }) => {
+    const [expanded, setExpanded] = useState<string | null>(null);
+    const { variants, verdict } = comparison;
+    const winner = variants.find(v => v.label === verdict.winner)!;
+    const cellClass = (label: string) => `py-2 text-center font-mono ${label === verdict.winner ? 'bg-[#00F2EA]/5' : ''}`;
+    const expandedVariant = variants.find(v => v.label === expanded);
 
-    const openTool = () => {
-        setShowToolModal(true);
-    };
+    return (
+        <div className="space-y-4 text-sm animate-in fade-in slide-in-from-bottom-4">
+            <div className="flex items-center justify-between">
+                <h3 className="text-white font-bold text-lg">🆚 A/B Comparison</h3>
+                <button onClick={onClose} className="text-xs text-gray-500 hover:text-white underline">{closeLabel}</button>
+            </div>
+
+            {/* WINNER */}
+            <div className="bg-[#00F2EA]/5 border border-[#00F2EA]/30 rounded-lg p-4">
+                <div className="text-[10px] uppercase text-[#00F2EA] font-mono mb-1"><i className="fa-solid fa-trophy mr-1"></i>Recommended winner</div>
+                <div className="text-white font-bold mb-2">Variant {winner.label} <span className="text-gray-500 font-normal">· {winner.fileName}</span></div>
+                <ReportMarkdown text={verdict.reasoning} />
+            </div>
+
+            {/* SCORES SIDE BY SIDE */}
+            <table className="w-full text-left">
+                <thead className="text-[10px] uppercase text-gray-500 font-mono">
+                    <tr>
+                        <th className="py-2 font-normal"></th>
+                        {variants.map(v => (
+                            <th key={v.label} className={`${cellClass(v.label)} font-normal`} title={v.fileName}>
+                                <button onClick={() => setExpanded(e => e === v.label ? null : v.label)} className="hover:text-white">{v.label}</button>
+                            </th>
+                        ))}
+                    </tr>
+                </thead>
+                <tbody>
+                    <tr className="border-t border-[#222]">
+                        <td className="py-2 text-white">Overall</td>
+                        {variants.map(v => <td key={v.label} className={`${cellClass(v.label)} font-bold ${scoreColor(v.report.overallScore, 100)}`}>{v.report.overallScore}</td>)}
+                    </tr>
+                    {SECTION_IDS.map(id => (
+                        <tr key={id} className="border-t border-[#222]">
+                            <td className="py-2 text-gray-300">{SECTION_META[id].icon} {SECTION_META[id].label}</td>
+                            {variants.map(v => {
+                                const score = sectionScore(v.report, id);
+                                return <td key={v.label} className={`${cellClass(v.label)} ${score === null ? 'text-gray-600' : scoreColor(score, 10)}`}>{score ?? '–'}</td>;
+                            })}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+
+            {/* WHAT DIFFERS */}
+            <div className="bg-[#1a1a1a] border border-[#333] rounded-lg p-3">
+                <div className="text-[10px] uppercase text-gray-500 font-mono mb-1">🪝 Hook</div>
+                <ReportMarkdown text={verdict.hook} />
+            </div>
+            <div className="bg-[#1a1a1a] border border-[#333] rounded-lg p-3">
+                <div className="text-[10px] uppercase text-gray-500 font-mono mb-1">👉 Call to action</div>
+                <ReportMarkdown text={verdict.cta} />
+            </div>
+
+            {/* FULL REPORTS */}
+            <div className="flex flex-wrap gap-2">
+                {variants.map(v => (
+                    <button key={v.label} onClick={() => setExpanded(e => e === v.label ? null : v.label)} className={`text-xs px-3 py-1.5 rounded-full border transition-colors ${expanded === v.label ? 'bg-white text-black border-white' : 'border-[#333] text-gray-400 hover:text-white'}`}>
+                        {v.label}: {v.fileName}
+                    </button>
+                ))}
+            </div>
+            {expandedVariant && <AuditReportView report={expandedVariant.report} />}
+        </div>
+    );
+};
 
-    const triggerUpgrade = () => {
-        setShowToolModal(false);
-        const pricing = document.getElementById('pricing');
-        if(pricing) pricing.scrollIntoView({ behavior: 'smooth' });
+const ComparisonHistory = ({ onOpen }: { onOpen: (record: ComparisonRecord) => void }) => {
+    const [records, setRecords] = useState<ComparisonRecord[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [search, setSearch] = useState("");
+
+    useEffect(() => {
+        let cancelled = false;
+        setLoading(true);
+        const timer = setTimeout(() => {
+            listComparisons(search)
+                .then(data => { if (!cancelled) { setRecords(data); setError(null); } })
+                .catch(err => { if (!cancelled) setError(err.message); })
+                .finally(() => { if (!cancelled) setLoading(false); });
+        }, 250);
+        return () => { cancelled = true; clearTimeout(timer); };
+    }, [search]);
+
+    const handleDelete = async (record: ComparisonRecord) => {
+        if (!confirm(`Delete the comparison "${record.name}"? The audits stay in your history.`)) return;
+        try {
+            await deleteComparison(record.id);
+            setRecords(rs => rs.filter(r => r.id !== record.id));
+        } catch (err: any) {
+            setError(err.message);
+        }
     };
 
     return (
-        <AuthContext.Provider value={{ 
-            user, isLoading, login, signup, logout,
-            showAuthModal, setShowAuthModal,
-            authView, setAuthView, openTool, triggerUpgrade
-        }}>
-            {children}
-            <ViralAuditTool isOpen={showToolModal} onClose={() => setShowToolModal(false)} />
-        </AuthContext.Provider>
+        <div>
+            <input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search file names" className="w-full mb-4 bg-[#0a0a0a] border border-[#333] rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-white/30" />
+
+            {error && <p className="text-[#FF0050] text-sm mb-4 bg-[#FF0050]/10 p-3 rounded">{error}</p>}
+
+            {loading ? (
+                <div className="text-center py-10 text-gray-500"><i className="fa-solid fa-circle-notch fa-spin"></i></div>
+            ) : records.length === 0 ? (
+                <div className="text-center py-10 text-gray-500 text-sm">No A/B tests yet.</div>
+            ) : (
+                <ul className="space-y-2">
+                    {records.map(record => (
+                        <li key={record.id} className="flex items-center gap-3 bg-[#1a1a1a] border border-[#333] rounded-lg p-3 hover:border-gray-500 transition-colors">
+                            <button onClick={() => onOpen(record)} className="flex-1 flex items-center gap-3 text-left min-w-0">
+                                <span className="w-12 text-center text-[10px] font-mono text-[#00F2EA]"><i className="fa-solid fa-trophy block text-lg"></i>{record.winner}</span>
+                                <span className="min-w-0">
+                                    <span className="block text-white text-sm font-medium truncate">{record.name}</span>
+                                    <span className="block text-xs text-gray-500">{new Date(record.createdAt).toLocaleString()} · {record.comparison.variants.length} variants</span>
+                                </span>
+                            </button>
+                            <button onClick={() => handleDelete(record)} className="text-gray-600 hover:text-[#FF0050] px-2" title="Delete"><i className="fa-solid fa-trash"></i></button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
     );
 };
 
-const useAuth = () => useContext(AuthContext);
-
 // ==========================================
-// 🚀 THE APP COMPONENT (VIDEO ANALYZER)
+// 📚 BATCH AUDITS
 // ==========================================
 
-const ViralAuditTool = ({ isOpen, onClose }: { isOpen: boolean, onClose: () => void }) => {
-    const { user, setShowAuthModal, setAuthView, triggerUpgrade } = useAuth();
-    const [file, setFile] = useState<File | null>(null);
-    const [analyzing, setAnalyzing] = useState(false);
-    const [result, setResult] = useState<string | null>(null);
-    const [error, setError] = useState<string | null>(null);
-    
-    // 🆕 Usage State
-    const [auditCount, setAuditCount] = useState<number>(0);
-    const [loadingUsage, setLoadingUsage] = useState(false);
-    const FREE_LIMIT = 3;
-
-    // Load usage when tool opens
-    useEffect(() => { 
-        if(!isOpen) { 
-            setFile(null); 
-            setResult(null); 
-            setError(null); 
-        } else if (user && supabase) {
-            loadUsage();
-        }
-    }, [isOpen, user]);
-
-    const loadUsage = async () => {
-        if(!user || !supabase) return;
-        setLoadingUsage(true);
-        // Fetch profile
-        const { data, error } = await supabase
-            .from('profiles')
-            .select('audit_count')
-            .eq('id', user.id)
-            .single();
-        
-        if(data) setAuditCount(data.audit_count);
-        // If error (profile missing), we assume 0 (it will be created by trigger usually)
-        setLoadingUsage(false);
-    };
-
-    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        if (e.target.files && e.target.files[0]) {
-            setFile(e.target.files[0]);
-            setError(null);
-        }
-    };
+const BATCH_STATUS_STYLES: Record<BatchStatus, { label: string; className: string }> = {
+    validating: { label: 'Checking', className: 'text-gray-400 border-gray-500/30' },
+    queued: { label: 'Queued', className: 'text-gray-300 border-gray-500/30' },
+    uploading: { label: 'Uploading', className: 'text-yellow-400 border-yellow-500/30' },
+    analyzing: { label: 'Analyzing', className: 'text-[#00F2EA] border-[#00F2EA]/30' },
+    done: { label: 'Done', className: 'text-green-400 border-green-500/30' },
+    failed: { label: 'Failed', className: 'text-[#FF0050] border-[#FF0050]/30' },
+};
 
-    const runAnalysis = async () => {
-        if (!file || !user || !supabase) return;
+type BatchContextType = {
+    queue: BatchQueue | null;
+    items: BatchItem[];
+    started: boolean;
+    setStarted: (started: boolean) => void;
+};
 
-        // 🛑 1. CHECK LIMIT
-        if (auditCount >= FREE_LIMIT) {
-            return; // UI handles the display, we just stop logic here
-        }
+const BatchContext = createContext<BatchContextType>({} as BatchContextType);
 
-        setAnalyzing(true);
-        setError(null);
+/**
+ * Holds the batch queue above the routes, so a running batch carries on while
+ * the user looks at pricing or the landing page. Signing out stops it (what's
+ * in flight is refunded).
+ */
+const BatchProvider = ({ children }: { children: React.ReactNode }) => {
+    const { user, refreshEntitlements } = useAuth();
+    const [queue, setQueue] = useState<BatchQueue | null>(null);
+    const [items, setItems] = useState<BatchItem[]>([]);
+    const [started, setStarted] = useState(false);
 
-        try {
-            const toBase64 = (f: File) => new Promise<string>((resolve, reject) => {
-                const reader = new FileReader();
-                reader.readAsDataURL(f);
-                reader.onload = () => resolve((reader.result as string).split(',')[1]);
-                reader.onerror = error => reject(error);
-            });
+    useEffect(() => {
+        if (!user) return;
+        const next = createBatchQueue({
+            userId: user.id,
+            onChange: setItems,
+            onAudited: (item, { report, video }) => {
+                refreshEntitlements();
+                // Same as single audits: keep the report even if saving fails
+                if (!OFFLINE_DEMO) saveAudit(user.id, item.file, report, video).catch(err => console.error("Failed to save audit", err));
+            },
+        });
+        setQueue(next);
+        return () => {
+            next.stop();
+            setQueue(null);
+            setItems([]);
+            setStarted(false);
+        };
+    }, [user?.id]);
 
-            const base64Data = await toBase64(file);
-
-            const response = await fetch(WORKER_URL, {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                    base64Data: base64Data,
-                    mimeType: file.type,
-                    licenseKey: user.email, 
-                    systemPrompt: "" 
-                })
-            });
+    return <BatchContext.Provider value={{ queue, items, started, setStarted }}>{children}</BatchContext.Provider>;
+};
 
-            const json = await response.json();
+const useBatch = () => useContext(BatchContext);
 
-            if (json.error) throw new Error(json.error.message || "Analysis failed");
-            if (!json.candidates?.[0]?.content?.parts?.[0]?.text) throw new Error("No analysis returned");
+const BatchAuditPanel = () => {
+    const { entitlements, triggerUpgrade } = useAuth();
+    const { queue, items, started, setStarted } = useBatch();
+    const [dropped, setDropped] = useState(0);
+    const [dragging, setDragging] = useState(false);
+    const [openId, setOpenId] = useState<string | null>(null);
 
-            setResult(json.candidates[0].content.parts[0].text);
-            
-            // ✅ 2. INCREMENT COUNT ON SUCCESS
-            const newCount = auditCount + 1;
-            setAuditCount(newCount);
-            await supabase.from('profiles').update({ audit_count: newCount }).eq('id', user.id);
+    const addFiles = async (files: File[]) => {
+        if (!queue || !files.length) return;
+        setDropped(await queue.add(files));
+    };
 
-        } catch (err: any) {
-            setError(err.message);
-        } finally {
-            setAnalyzing(false);
-        }
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setDragging(false);
+        addFiles(Array.from(e.dataTransfer.files));
     };
 
-    const formatText = (text: string) => {
-        return text
-            .replace(/\*\*(.*?)\*\*/g, '<strong class="text-white">$1</strong>')
-            .replace(/#HOOK/g, '<h3 class="text-[#00F2EA] border-b border-[#333] pb-1 mt-6 mb-2 text-lg font-bold">🪝 HOOK</h3>')
-            .replace(/#BODY/g, '<h3 class="text-[#00F2EA] border-b border-[#333] pb-1 mt-6 mb-2 text-lg font-bold">📹 BODY</h3>')
-            .replace(/#AUDIO/g, '<h3 class="text-[#00F2EA] border-b border-[#333] pb-1 mt-6 mb-2 text-lg font-bold">🔊 AUDIO</h3>')
-            .replace(/#SCRIPT/g, '<h3 class="text-[#00F2EA] border-b border-[#333] pb-1 mt-6 mb-2 text-lg font-bold">📝 SCRIPT</h3>')
-            .replace(/\n/g, '<br>');
+    const start = () => {
+        setStarted(true);
+        queue?.start();
     };
 
-    // 🎨 UI HELPERS
-    const isLimitReached = auditCount >= FREE_LIMIT;
-    const remaining = Math.max(0, FREE_LIMIT - auditCount);
+    const reset = () => {
+        queue?.clear();
+        setStarted(false);
+        setDropped(0);
+        setOpenId(null);
+    };
+
+    const pending = pendingCount(items);
+    const active = items.some(i => isActive(i.status));
+    const validating = items.some(i => i.status === 'validating');
+    const remaining = entitlements?.remaining ?? null;
+    const overQuota = remaining !== null && pending > remaining;
+    const done = items.filter(i => i.status === 'done');
+    const failed = items.filter(i => i.status === 'failed');
+    const finished = started && !active && !pending && !validating && items.length > 0;
+    const openItem = items.find(i => i.id === openId && i.report);
 
     return (
-        <AnimatePresence>
-            {isOpen && (
-                <>
-                    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} onClick={onClose} className="fixed inset-0 bg-black/80 backdrop-blur-md z-[150]" />
-                    <motion.div initial={{ opacity: 0, scale: 0.95, y: 20 }} animate={{ opacity: 1, scale: 1, y: 0 }} exit={{ opacity: 0, scale: 0.95, y: 20 }} className="fixed inset-0 z-[151] flex items-center justify-center p-4 pointer-events-none">
-                        <div className="bg-[#111] border border-[#333] w-full max-w-2xl max-h-[90vh] rounded-2xl shadow-2xl overflow-hidden flex flex-col pointer-events-auto">
-                            
-                            {/* Header */}
-                            <div className="p-5 border-b border-[#222] flex justify-between items-center bg-[#161616]">
-                                <h2 className="text-xl font-bold flex items-center gap-2">
-                                    <span className="bg-gradient-to-r from-[#FF0050] to-[#00F2EA] bg-clip-text text-transparent">ViralAudit AI</span>
-                                </h2>
-                                <button onClick={onClose} className="text-gray-500 hover:text-white"><i className="fa-solid fa-xmark text-xl"></i></button>
-                            </div>
+        <div className="text-sm">
+            {/* The picker reports its preset again when the panel remounts; a running batch keeps the one it started with */}
+            <PresetPicker onChange={(context) => { if (!active) queue?.setContext(context); }} disabled={active} />
 
-                            <div className="p-6 overflow-y-auto flex-1 custom-scrollbar relative">
-                                {!user ? (
-                                    <div className="text-center py-10">
-                                        <div className="w-16 h-16 rounded-full bg-[#1a1a1a] flex items-center justify-center border border-[#333] mb-4 mx-auto">
-                                            <i className="fa-solid fa-lock text-2xl text-[#FF0050]"></i>
-                                        </div>
-                                        <h3 className="text-xl font-bold text-white mb-2">Login Required</h3>
-                                        <p className="text-gray-400 mb-6">You must be logged in to use the Deep Audit tool.</p>
-                                        <button onClick={() => { onClose(); setShowAuthModal(true); setAuthView('login'); }} className="bg-white text-black font-bold px-6 py-3 rounded-lg hover:bg-gray-200">Log In / Sign Up</button>
+            {/* DROP ZONE */}
+            {items.length < BATCH_LIMITS.maxFiles && (
+                <div
+                    onClick={() => document.getElementById('batch-file-upload')?.click()}
+                    onDragOver={(e) => { e.preventDefault(); setDragging(true); }}
+                    onDragLeave={() => setDragging(false)}
+                    onDrop={handleDrop}
+                    className={`border-2 border-dashed rounded-xl p-6 text-center cursor-pointer transition-all ${dragging ? 'border-[#00F2EA] bg-[#00F2EA]/5' : 'border-[#333] hover:border-gray-500 hover:bg-[#1a1a1a]'}`}
+                >
+                    <input
+                        type="file" id="batch-file-upload" className="hidden" multiple accept="video/mp4,video/quicktime,video/webm"
+                        onChange={(e) => { const files = Array.from(e.target.files ?? []); e.target.value = ""; addFiles(files); }}
+                    />
+                    <i className="fa-solid fa-layer-group text-3xl text-gray-500 mb-2"></i>
+                    <h4 className="text-white font-medium">Drop up to {BATCH_LIMITS.maxFiles} creatives</h4>
+                    <p className="text-xs text-gray-500 mt-1">{items.length} of {BATCH_LIMITS.maxFiles} added · {BATCH_LIMITS.concurrency} audited at a time</p>
+                </div>
+            )}
+            {dropped > 0 && <p className="text-xs text-yellow-400 mt-2">{dropped} file{dropped === 1 ? ' was' : 's were'} left out: a batch holds {BATCH_LIMITS.maxFiles} creatives.</p>}
+
+            {/* ITEMS */}
+            {items.length > 0 && (
+                <ul className="space-y-2 mt-4">
+                    {items.map(item => {
+                        const status = BATCH_STATUS_STYLES[item.status];
+                        return (
+                            <li key={item.id} className="bg-[#1a1a1a] border border-[#333] rounded-lg p-3">
+                                <div className="flex items-center gap-3">
+                                    <span className={`text-[10px] uppercase font-bold px-2 py-0.5 rounded border w-20 text-center ${status.className}`}>
+                                        {isActive(item.status) || item.status === 'validating' ? <i className="fa-solid fa-circle-notch fa-spin mr-1"></i> : null}{status.label}
+                                    </span>
+                                    <span className="flex-1 min-w-0 text-white truncate">{item.file.name}</span>
+                                    {item.report && (
+                                        <button onClick={() => setOpenId(id => id === item.id ? null : item.id)} className={`font-mono font-bold ${scoreColor(item.report.overallScore, 100)}`}>{item.report.overallScore}</button>
+                                    )}
+                                    {item.status === 'failed' && item.retryable && (
+                                        <button onClick={() => queue?.retry(item.id)} className="text-xs text-gray-400 hover:text-white"><i className="fa-solid fa-rotate-right mr-1"></i>Retry</button>
+                                    )}
+                                    {!isActive(item.status) && (
+                                        <button onClick={() => queue?.remove(item.id)} className="text-gray-600 hover:text-[#FF0050] px-1" title="Remove"><i className="fa-solid fa-xmark"></i></button>
+                                    )}
+                                </div>
+                                {item.status === 'uploading' && item.progress !== null && (
+                                    <div className="mt-2 h-1 bg-[#0a0a0a] rounded-full overflow-hidden">
+                                        <div className="h-full bg-gradient-to-r from-[#FF0050] to-[#00F2EA] transition-[width] duration-200" style={{ width: `${item.progress * 100}%` }} />
                                     </div>
-                                ) : (
-                                    <>
-                                        {/* USAGE BAR */}
-                                        {!result && (
-                                            <div className="mb-6 flex items-center justify-between bg-[#1a1a1a] p-3 rounded-lg border border-[#333]">
-                                                <div className="text-sm text-gray-400">
-                                                    Free Audits: <span className={remaining === 0 ? "text-red-500 font-bold" : "text-white font-bold"}>{remaining}</span> / {FREE_LIMIT} left
-                                                </div>
-                                                {remaining === 0 && (
-                                                    <button onClick={triggerUpgrade} className="text-xs bg-[#FF0050] text-white px-3 py-1 rounded font-bold hover:bg-red-600 transition-colors">
-                                                        UPGRADE
-                                                    </button>
-                                                )}
-                                            </div>
-                                        )}
+                                )}
+                                {item.error && <p className="text-xs text-[#FF0050] mt-2">{item.error.message}</p>}
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
 
-                                        {/* LIMIT REACHED STATE */}
-                                        {isLimitReached && !result ? (
-                                             <div className="text-center py-8">
-                                                <div className="w-16 h-16 rounded-full bg-red-900/20 flex items-center justify-center border border-red-500/30 mb-4 mx-auto">
-                                                    <i className="fa-solid fa-ban text-2xl text-red-500"></i>
-                                                </div>
-                                                <h3 className="text-xl font-bold text-white mb-2">Free Limit Reached</h3>
-                                                <p className="text-gray-400 mb-6 max-w-sm mx-auto">You've used all 3 free audits. Upgrade to Pro for unlimited access and deep analysis.</p>
-                                                <button onClick={triggerUpgrade} className="bg-white text-black font-bold px-8 py-3 rounded-lg hover:bg-gray-200 w-full sm:w-auto">
-                                                    View Plans
-                                                </button>
-                                            </div>
-                                        ) : !result ? (
-                                            // UPLOAD STATE
-                                            <div className="text-center">
-                                                <div 
-                                                    onClick={() => document.getElementById('app-file-upload')?.click()}
-                                                    className={`border-2 border-dashed rounded-xl p-10 cursor-pointer transition-all ${file ? 'border-[#00F2EA] bg-[#00F2EA]/5' : 'border-[#333] hover:border-gray-500 hover:bg-[#1a1a1a]'}`}
-                                                >
-                                                    <input type="file" id="app-file-upload" className="hidden" accept="video/mp4,video/quicktime,video/webm" onChange={handleFileChange} />
-                                                    <i className={`fa-solid ${file ? 'fa-check-circle text-[#00F2EA]' : 'fa-cloud-arrow-up text-gray-500'} text-4xl mb-4`}></i>
-                                                    <h4 className="text-white font-medium text-lg">{file ? file.name : "Upload Video Ad"}</h4>
-                                                    <p className="text-sm text-gray-500 mt-2">{file ? "Ready to analyze" : "MP4, MOV or WEBM (Max 20MB)"}</p>
-                                                </div>
+            {/* QUOTA + CONTROLS */}
+            {overQuota && (
+                <p className="text-xs text-[#FF0050] mt-4">
+                    This batch needs {pending} audits and you have {remaining} left. Remove {pending - remaining!} or upgrade.
+                    {entitlements?.plan !== 'professional' && <button onClick={triggerUpgrade} className="underline ml-1">Upgrade</button>}
+                </p>
+            )}
+            <div className="flex gap-3 mt-4">
+                {active ? (
+                    <button onClick={() => queue?.stop()} className="flex-1 border border-[#333] text-gray-300 hover:text-white rounded-xl py-3">Stop</button>
+                ) : (
+                    <button
+                        onClick={start}
+                        disabled={!pending || overQuota || validating}
+                        className="flex-1 bg-gradient-to-r from-[#FF0050] to-[#00F2EA] text-white font-bold py-3 rounded-xl disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Audit {pending || ''} Creative{pending === 1 ? '' : 's'}
+                    </button>
+                )}
+                {items.length > 0 && !active && <button onClick={reset} className="text-xs text-gray-500 hover:text-white underline px-2">Clear</button>}
+            </div>
 
-                                                {error && <p className="text-[#FF0050] text-sm mt-4 bg-[#FF0050]/10 p-3 rounded">{error}</p>}
+            {/* SUMMARY */}
+            {finished && done.length > 0 && (
+                <div className="mt-6">
+                    <h4 className="text-white font-bold mb-2">Batch Summary <span className="text-xs text-gray-500 font-normal">{done.length} done{failed.length ? ` · ${failed.length} failed` : ''}</span></h4>
+                    <table className="w-full text-left">
+                        <thead className="text-[10px] uppercase text-gray-500 font-mono">
+                            <tr>
+                                <th className="py-2 font-normal">Creative</th>
+                                <th className="py-2 font-normal text-center">Score</th>
+                                {SECTION_IDS.map(id => <th key={id} className="py-2 font-normal text-center" title={SECTION_META[id].label}>{SECTION_META[id].icon}</th>)}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {[...done].sort((a, b) => b.report!.overallScore - a.report!.overallScore).map(item => (
+                                <tr key={item.id} onClick={() => setOpenId(item.id)} className="border-t border-[#222] cursor-pointer hover:bg-[#1a1a1a]">
+                                    <td className="py-2 pr-2 text-gray-300 truncate max-w-[12rem]">{item.file.name}</td>
+                                    <td className={`py-2 text-center font-mono font-bold ${scoreColor(item.report!.overallScore, 100)}`}>{item.report!.overallScore}</td>
+                                    {SECTION_IDS.map(id => {
+                                        const score = sectionScore(item.report!, id);
+                                        return <td key={id} className={`py-2 text-center font-mono ${score === null ? 'text-gray-600' : scoreColor(score, 10)}`}>{score ?? '–'}</td>;
+                                    })}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    {!OFFLINE_DEMO && <p className="text-xs text-gray-600 mt-2">Every report is also in your History.</p>}
+                </div>
+            )}
 
-                                                <button 
-                                                    onClick={runAnalysis} 
-                                                    disabled={!file || analyzing || loadingUsage}
-                                                    className="w-full mt-6 bg-gradient-to-r from-[#FF0050] to-[#00F2EA] text-white font-bold py-4 rounded-xl disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
-                                                >
-                                                    {analyzing ? <><i className="fa-solid fa-circle-notch fa-spin"></i> Analyzing...</> : "Run Deep Audit"}
-                                                </button>
-                                            </div>
-                                        ) : (
-                                            // RESULTS VIEW
-                                            <div className="space-y-4 animate-in fade-in slide-in-from-bottom-4">
-                                                <div className="flex items-center justify-between mb-4">
-                                                    <h3 className="text-white font-bold text-lg">Analysis Report</h3>
-                                                    <button onClick={() => setResult(null)} className="text-xs text-gray-500 hover:text-white underline">Audit Another</button>
-                                                </div>
-                                                <div 
-                                                    className="prose prose-invert max-w-none text-sm text-gray-300 leading-relaxed"
-                                                    dangerouslySetInnerHTML={{ __html: formatText(result) }}
-                                                />
-                                            </div>
-                                        )}
-                                    </>
-                                )}
-                            </div>
-                        </div>
-                    </motion.div>
-                </>
+            {openItem && (
+                <div className="mt-6">
+                    <div className="flex items-center justify-between mb-2">
+                        <span className="text-xs text-gray-500 truncate">{openItem.file.name}</span>
+                        <button onClick={() => setOpenId(null)} className="text-xs text-gray-500 hover:text-white underline">Hide report</button>
+                    </div>
+                    <AuditReportView report={openItem.report!} />
+                </div>
             )}
-        </AnimatePresence>
+        </div>
     );
-}
+};
 
 // ==========================================
 // 🧩 UI COMPONENTS
 // ==========================================
 
+const AUTH_TITLES: Record<AuthView, string> = {
+    login: 'Welcome Back',
+    signup: 'Create Account',
+    magic: 'Sign In by Email',
+    forgot: 'Reset Password',
+    reset: 'Set a New Password',
+};
+
+const AUTH_SUBMIT_LABELS: Record<AuthView, string> = {
+    login: 'Sign In',
+    signup: 'Create Free Account',
+    magic: 'Send Sign-In Link',
+    forgot: 'Send Reset Link',
+    reset: 'Update Password',
+};
+
+type SentEmail = { kind: 'confirm' | 'magic' | 'reset'; email: string };
+
+const SENT_MESSAGES: Record<SentEmail['kind'], (email: string) => string> = {
+    confirm: (email) => `We sent a confirmation link to ${email}. Open it to finish creating your account and you'll be signed in.`,
+    magic: (email) => `We sent a sign-in link to ${email}. It works once and expires after an hour.`,
+    reset: (email) => `If ${email} has an account, we sent it a link to choose a new password.`,
+};
+
 const AuthModal = () => {
-    const { showAuthModal, setShowAuthModal, login, signup, authView, setAuthView } = useAuth();
+    const {
+        showAuthModal, setShowAuthModal, login, signup, sendMagicLink, sendPasswordReset, resendConfirmation,
+        updatePassword, signInWithGoogle, authView, setAuthView
+    } = useAuth();
     const [email, setEmail] = useState("");
     const [password, setPassword] = useState("");
+    const [confirmPassword, setConfirmPassword] = useState("");
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState("");
+    const [unconfirmed, setUnconfirmed] = useState(false);
+    const [sent, setSent] = useState<SentEmail | null>(null);
+    const [cooldown, setCooldown] = useState(0);
+
+    // Every view starts clean
+    useEffect(() => {
+        setError("");
+        setUnconfirmed(false);
+        setSent(null);
+        setPassword("");
+        setConfirmPassword("");
+    }, [showAuthModal, authView]);
+
+    useEffect(() => {
+        if (cooldown <= 0) return;
+        const timer = setTimeout(() => setCooldown(c => c - 1), 1000);
+        return () => clearTimeout(timer);
+    }, [cooldown]);
 
     if (!showAuthModal) return null;
 
+    const showSent = (kind: SentEmail['kind']) => {
+        setSent({ kind, email });
+        setCooldown(RESEND_COOLDOWN_SECONDS);
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
-        setLoading(true);
         setError("");
-        
-        let res;
+        setUnconfirmed(false);
+        if (authView === 'reset' && password !== confirmPassword) {
+            setError("The passwords don't match.");
+            return;
+        }
+        setLoading(true);
+
+        let res: AuthResult;
         if (authView === 'login') {
             res = await login(email, password);
-        } else {
+            if (res.error?.code === 'email_not_confirmed') setUnconfirmed(true);
+        } else if (authView === 'signup') {
             res = await signup(email, password);
+            if (res.needsConfirmation) showSent('confirm');
+        } else if (authView === 'magic') {
+            res = await sendMagicLink(email);
+            if (!res.error) showSent('magic');
+        } else if (authView === 'forgot') {
+            res = await sendPasswordReset(email);
+            if (!res.error) showSent('reset');
+        } else {
+            res = await updatePassword(password);
         }
 
         if (res.error) {
@@ -374,6 +4272,33 @@ const AuthModal = () => {
         setLoading(false);
     };
 
+    const resend = async (kind: SentEmail['kind'], to: string) => {
+        setLoading(true);
+        setError("");
+        const res = kind === 'confirm' ? await resendConfirmation(to) : kind === 'magic' ? await sendMagicLink(to) : await sendPasswordReset(to);
+        if (res.error) setError(res.error.message);
+        else {
+            setUnconfirmed(false);
+            setSent({ kind, email: to });
+            setCooldown(RESEND_COOLDOWN_SECONDS);
+        }
+        setLoading(false);
+    };
+
+    const google = async () => {
+        setLoading(true);
+        setError("");
+        const res = await signInWithGoogle();
+        // On success the browser is already on its way to Google
+        if (res.error) {
+            setError(res.error.message);
+            setLoading(false);
+        }
+    };
+
+    const inputClass = "w-full bg-[#0a0a0a] border border-white/10 rounded-lg px-4 py-3 text-white focus:outline-none focus:border-white/30 transition-colors";
+    const linkClass = "text-white hover:underline font-medium";
+
     return (
         <AnimatePresence>
             {showAuthModal && (
@@ -382,27 +4307,79 @@ const AuthModal = () => {
                     <div className="fixed inset-0 z-[201] flex items-center justify-center pointer-events-none p-4">
                         <motion.div initial={{ scale: 0.95, opacity: 0, y: 20 }} animate={{ scale: 1, opacity: 1, y: 0 }} exit={{ scale: 0.95, opacity: 0, y: 20 }} className="bg-[#111] w-full max-w-md rounded-2xl border border-white/10 shadow-2xl pointer-events-auto overflow-hidden">
                             <div className="p-6 border-b border-white/5 flex justify-between items-center bg-[#151515]">
-                                <h3 className="font-heading font-bold text-xl">{authView === 'login' ? 'Welcome Back' : 'Create Account'}</h3>
+                                <h3 className="font-heading font-bold text-xl">{sent ? 'Check Your Inbox' : AUTH_TITLES[authView]}</h3>
                                 <button onClick={() => setShowAuthModal(false)} className="text-gray-500 hover:text-white transition-colors"><i className="fa-solid fa-xmark text-lg"></i></button>
                             </div>
                             <div className="p-8">
-                                <form onSubmit={handleSubmit} className="space-y-4">
-                                    <div>
-                                        <label className="block text-xs font-mono text-gray-500 uppercase mb-2">Email Address</label>
-                                        <input type="email" required value={email} onChange={(e) => setEmail(e.target.value)} className="w-full bg-[#0a0a0a] border border-white/10 rounded-lg px-4 py-3 text-white focus:outline-none focus:border-white/30 transition-colors" placeholder="name@company.com" />
-                                    </div>
-                                    <div>
-                                        <label className="block text-xs font-mono text-gray-500 uppercase mb-2">Password</label>
-                                        <input type="password" required value={password} onChange={(e) => setPassword(e.target.value)} className="w-full bg-[#0a0a0a] border border-white/10 rounded-lg px-4 py-3 text-white focus:outline-none focus:border-white/30 transition-colors" placeholder="••••••••" />
+                                {sent ? (
+                                    // CHECK YOUR INBOX
+                                    <div className="text-center">
+                                        <div className="w-16 h-16 rounded-full bg-[#1a1a1a] flex items-center justify-center border border-[#333] mb-4 mx-auto">
+                                            <i className="fa-solid fa-envelope-open-text text-2xl text-[#00F2EA]"></i>
+                                        </div>
+                                        <p className="text-gray-300 text-sm mb-6">{SENT_MESSAGES[sent.kind](sent.email)}</p>
+                                        {error && <p className="text-[#FF0050] text-sm mb-4">{error}</p>}
+                                        <button onClick={() => resend(sent.kind, sent.email)} disabled={loading || cooldown > 0} className="w-full bg-white text-black font-bold py-3 rounded-lg hover:bg-gray-200 transition-all disabled:opacity-50 flex items-center justify-center gap-2">
+                                            {loading ? <i className="fa-solid fa-circle-notch fa-spin"></i> : cooldown > 0 ? `Resend in ${cooldown}s` : 'Resend Email'}
+                                        </button>
+                                        <p className="mt-6 text-sm text-gray-500">
+                                            Wrong address? <button onClick={() => setSent(null)} className={linkClass}>Use a different email</button>
+                                        </p>
                                     </div>
-                                    {error && <p className="text-[#FF0050] text-sm">{error}</p>}
-                                    <button type="submit" disabled={loading} className="w-full bg-white text-black font-bold py-3.5 rounded-lg hover:bg-gray-200 transition-all mt-4 flex items-center justify-center gap-2">
-                                        {loading ? <i className="fa-solid fa-circle-notch fa-spin"></i> : (authView === 'login' ? 'Sign In' : 'Create Free Account')}
-                                    </button>
-                                </form>
-                                <div className="mt-6 text-center text-sm text-gray-500">
-                                    {authView === 'login' ? <>Don't have an account? <button onClick={() => setAuthView('signup')} className="text-white hover:underline font-medium">Sign up</button></> : <>Already have an account? <button onClick={() => setAuthView('login')} className="text-white hover:underline font-medium">Sign in</button></>}
-                                </div>
+                                ) : (
+                                    <>
+                                        {(authView === 'login' || authView === 'signup') && (
+                                            <>
+                                                <button onClick={google} disabled={loading} className="w-full bg-[#1a1a1a] border border-white/10 text-white font-medium py-3 rounded-lg hover:bg-[#222] transition-colors flex items-center justify-center gap-2 disabled:opacity-50">
+                                                    <i className="fa-brands fa-google"></i> Continue with Google
+                                                </button>
+                                                <div className="flex items-center gap-3 my-6 text-xs text-gray-600 uppercase font-mono">
+                                                    <div className="flex-1 h-px bg-white/10"></div>or<div className="flex-1 h-px bg-white/10"></div>
+                                                </div>
+                                            </>
+                                        )}
+                                        {authView === 'forgot' && <p className="text-sm text-gray-400 mb-4">Enter your account's email and we'll send you a link to choose a new password.</p>}
+                                        {authView === 'magic' && <p className="text-sm text-gray-400 mb-4">We'll email you a link that signs you in, no password needed.</p>}
+                                        <form onSubmit={handleSubmit} className="space-y-4">
+                                            {authView !== 'reset' && (
+                                                <div>
+                                                    <label className="block text-xs font-mono text-gray-500 uppercase mb-2">Email Address</label>
+                                                    <input type="email" required value={email} onChange={(e) => setEmail(e.target.value)} className={inputClass} placeholder="name@company.com" />
+                                                </div>
+                                            )}
+                                            {(authView === 'login' || authView === 'signup' || authView === 'reset') && (
+                                                <div>
+                                                    <div className="flex justify-between items-baseline mb-2">
+                                                        <label className="block text-xs font-mono text-gray-500 uppercase">{authView === 'reset' ? 'New Password' : 'Password'}</label>
+                                                        {authView === 'login' && <button type="button" onClick={() => setAuthView('forgot')} className="text-xs text-gray-500 hover:text-white">Forgot password?</button>}
+                                                    </div>
+                                                    <input type="password" required minLength={authView === 'login' ? undefined : PASSWORD_MIN_LENGTH} value={password} onChange={(e) => setPassword(e.target.value)} className={inputClass} placeholder="••••••••" autoComplete={authView === 'login' ? 'current-password' : 'new-password'} />
+                                                </div>
+                                            )}
+                                            {authView === 'reset' && (
+                                                <div>
+                                                    <label className="block text-xs font-mono text-gray-500 uppercase mb-2">Repeat Password</label>
+                                                    <input type="password" required value={confirmPassword} onChange={(e) => setConfirmPassword(e.target.value)} className={inputClass} placeholder="••••••••" autoComplete="new-password" />
+                                                </div>
+                                            )}
+                                            {error && (
+                                                <p className="text-[#FF0050] text-sm">
+                                                    {error}
+                                                    {unconfirmed && <> <button type="button" onClick={() => resend('confirm', email)} disabled={loading} className="underline text-white">Resend the confirmation email</button></>}
+                                                </p>
+                                            )}
+                                            <button type="submit" disabled={loading} className="w-full bg-white text-black font-bold py-3.5 rounded-lg hover:bg-gray-200 transition-all mt-4 flex items-center justify-center gap-2">
+                                                {loading ? <i className="fa-solid fa-circle-notch fa-spin"></i> : AUTH_SUBMIT_LABELS[authView]}
+                                            </button>
+                                        </form>
+                                        <div className="mt-6 text-center text-sm text-gray-500 space-y-2">
+                                            {authView === 'login' && <p><button onClick={() => setAuthView('magic')} className={linkClass}>Email me a sign-in link instead</button></p>}
+                                            {authView === 'login' || authView === 'magic'
+                                                ? <p>Don't have an account? <button onClick={() => setAuthView('signup')} className={linkClass}>Sign up</button></p>
+                                                : authView !== 'reset' && <p>{authView === 'forgot' ? 'Remembered it?' : 'Already have an account?'} <button onClick={() => setAuthView('login')} className={linkClass}>Sign in</button></p>}
+                                        </div>
+                                    </>
+                                )}
                             </div>
                         </motion.div>
                     </div>
@@ -414,7 +4391,8 @@ const AuthModal = () => {
 
 const Navbar = () => {
   const [scrolled, setScrolled] = useState(false);
-  const { user, logout, setShowAuthModal, setAuthView } = useAuth();
+  const { user, logout, promptLogin } = useAuth();
+  const onLanding = useRoute().name === 'landing';
 
   useEffect(() => {
     const handleScroll = () => setScrolled(window.scrollY > 20);
@@ -425,24 +4403,39 @@ const Navbar = () => {
   return (
     <nav className={`fixed w-full z-50 transition-all duration-300 ${scrolled ? "bg-black/80 backdrop-blur-xl border-b border-white/10 py-3" : "bg-transparent py-6"}`}>
       <div className="max-w-7xl mx-auto px-6 flex items-center justify-between h-10">
-        <a href="#" className="flex items-center gap-2 z-10 group" onClick={(e) => { e.preventDefault(); window.scrollTo({ top: 0, behavior: 'smooth' }); }}>
-            <div className="w-8 h-8 bg-white rounded-lg flex items-center justify-center group-hover:scale-110 transition-transform"><i className="fa-solid fa-bolt text-black text-sm"></i></div>
-            <span className="font-heading font-bold text-xl tracking-tight text-white group-hover:text-gray-200 transition-colors">ViralAudit</span>
-        </a>
+        {onLanding ? (
+            <a href="/" className="flex items-center gap-2 z-10 group" onClick={(e) => { e.preventDefault(); window.scrollTo({ top: 0, behavior: 'smooth' }); }}>
+                <div className="w-8 h-8 bg-white rounded-lg flex items-center justify-center group-hover:scale-110 transition-transform"><i className="fa-solid fa-bolt text-black text-sm"></i></div>
+                <span className="font-heading font-bold text-xl tracking-tight text-white group-hover:text-gray-200 transition-colors">ViralAudit</span>
+            </a>
+        ) : (
+            <Link to="/" className="flex items-center gap-2 z-10 group">
+                <div className="w-8 h-8 bg-white rounded-lg flex items-center justify-center group-hover:scale-110 transition-transform"><i className="fa-solid fa-bolt text-black text-sm"></i></div>
+                <span className="font-heading font-bold text-xl tracking-tight text-white group-hover:text-gray-200 transition-colors">ViralAudit</span>
+            </Link>
+        )}
         <div className="hidden md:flex absolute left-1/2 -translate-x-1/2 gap-8 text-sm font-medium text-gray-400">
-          <a href="#features" onClick={(e) => scrollToSection(e, "features")} className="hover:text-white transition-colors">Features</a>
-          <a href="#pricing" onClick={(e) => scrollToSection(e, "pricing")} className="hover:text-white transition-colors">Pricing</a>
+          {onLanding ? (
+            <>
+              <a href="#features" onClick={(e) => scrollToSection(e, "features")} className="hover:text-white transition-colors">Features</a>
+              <a href="#pricing" onClick={(e) => scrollToSection(e, "pricing")} className="hover:text-white transition-colors">Pricing</a>
+            </>
+          ) : (
+            <Link to="/pricing" className="hover:text-white transition-colors">Pricing</Link>
+          )}
         </div>
         <div className="z-10 flex items-center gap-4">
           {user ? (
              <>
-                 <span className="text-xs text-gray-400 hidden sm:block">{user.email}</span>
-                 <button onClick={logout} className="text-sm font-medium text-white hover:text-gray-300 transition-colors">Logout</button>
+                 <Link to="/account" title="Account" className="text-xs text-gray-400 hover:text-white transition-colors hidden sm:block">{user.email}</Link>
+                 <WorkspaceSwitcher />
+                 <Link to="/app" className="text-sm font-medium text-white hover:text-gray-300 transition-colors">Dashboard</Link>
+                 <button onClick={logout} className="text-sm font-medium text-gray-400 hover:text-white transition-colors">Logout</button>
              </>
           ) : (
              <>
-                <button onClick={() => { setAuthView('login'); setShowAuthModal(true); }} className="text-sm font-medium text-gray-300 hover:text-white transition-colors hidden sm:block">Login</button>
-                <button onClick={() => { setAuthView('signup'); setShowAuthModal(true); }} className="bg-white text-black px-6 py-2.5 rounded-lg font-bold text-sm hover:bg-gray-200 transition-all shadow-lg">Get Started</button>
+                <button onClick={() => promptLogin('/app')} className="text-sm font-medium text-gray-300 hover:text-white transition-colors hidden sm:block">Login</button>
+                <button onClick={() => promptLogin('/audit/new', 'signup')} className="bg-white text-black px-6 py-2.5 rounded-lg font-bold text-sm hover:bg-gray-200 transition-all shadow-lg">Get Started</button>
              </>
           )}
         </div>
@@ -505,7 +4498,7 @@ const Features = () => {
                 <div className="grid md:grid-cols-3 gap-6">
                     <FeatureCard icon="fa-solid fa-list-check" title="Frame-by-Frame Audit" desc="Detailed breakdown of your hook, body, and CTA." delay={0.1} />
                     <FeatureCard icon="fa-solid fa-wand-magic-sparkles" title="Actionable Fixes" desc="Don't just get a score. Get a 'Fix List' to improve ROAS." delay={0.2} />
-                    <FeatureCard icon="fa-solid fa-shield-halved" title="Secure & Private" desc="Your creatives are analyzed and discarded. We don't train on your data." delay={0.3} />
+                    <FeatureCard icon="fa-solid fa-shield-halved" title="Secure & Private" desc="We don't train on your data. Export everything or delete your account, videos and reports at any time." delay={0.3} />
                 </div>
             </div>
         </section>
@@ -516,16 +4509,25 @@ const Features = () => {
 // 💲 PRICING COMPONENTS
 // ==========================================
 
-const PricingCard = ({ plan, price, description, features, isPro, delay }: any) => {
-    const { user, setShowAuthModal, setAuthView } = useAuth();
-    
-    const handleAction = () => {
-        if (user) {
-            // Placeholder: In a real app, this would redirect to checkout
-            alert("You are logged in! Redirecting to checkout...");
-        } else {
-            setAuthView('signup');
-            setShowAuthModal(true);
+const PricingCard = ({ planId, plan, price, description, features, isPro, delay }: any) => {
+    const { user, promptLogin, entitlements } = useAuth();
+    const [redirecting, setRedirecting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const isCurrent = entitlements?.plan === planId;
+
+    const handleAction = async () => {
+        if (!user) {
+            // Back to the plans once signed up, to finish choosing one
+            promptLogin('/pricing', 'signup');
+            return;
+        }
+        setRedirecting(true);
+        setError(null);
+        try {
+            await startCheckout(planId as PlanId);
+        } catch (err: any) {
+            setError(err.message);
+            setRedirecting(false);
         }
     };
 
@@ -560,14 +4562,16 @@ const PricingCard = ({ plan, price, description, features, isPro, delay }: any)
                 ))}
             </ul>
 
+            {error && <p className="text-[#FF0050] text-xs mb-3 text-center">{error}</p>}
             <button 
                 onClick={handleAction}
-                className={`block w-full text-center py-4 rounded-xl font-bold text-sm transition-all ${
+                disabled={redirecting || isCurrent}
+                className={`block w-full text-center py-4 rounded-xl font-bold text-sm transition-all disabled:opacity-60 disabled:cursor-not-allowed disabled:hover:scale-100 ${
                 isPro 
                 ? 'bg-white text-black hover:bg-gray-200 hover:scale-[1.02]' 
                 : 'border border-white/20 text-white hover:bg-white/5'
             }`}>
-                {isPro ? 'Start Pro Trial' : 'Get Started'}
+                {redirecting ? <i className="fa-solid fa-circle-notch fa-spin"></i> : isCurrent ? 'Current Plan' : (isPro ? 'Start Pro Trial' : 'Get Started')}
             </button>
         </motion.div>
     );
@@ -584,33 +4588,39 @@ const Pricing = () => {
 
                 <div className="grid md:grid-cols-2 gap-8 max-w-3xl mx-auto">
                     <PricingCard 
-                        plan="Starter"
-                        price="£29"
+                        planId="starter"
+                        plan={PLANS.starter.name}
+                        price={PLANS.starter.price}
                         description="For solo media buyers testing waters."
                         delay={0.1}
                         isPro={false}
                         features={[
-                            { text: "50 Video Audits / Month", included: true },
+                            { text: `${PLANS.starter.audits} Video Audits / Month`, included: true },
                             { text: "Deep Think Analysis", included: true },
                             { text: "Detailed Fix Reports", included: true },
                             { text: "Viral Script Rewrites", included: false },
                             { text: "Policy Violation Check", included: false },
                             { text: "Competitor Benchmarking", included: false },
+                            { text: "Branded PDF Reports", included: false },
+                            { text: "Team Workspaces", included: false },
                         ]}
                     />
                     <PricingCard 
-                        plan="Professional"
-                        price="£49"
+                        planId="professional"
+                        plan={PLANS.professional.name}
+                        price={PLANS.professional.price}
                         description="For agencies and scaling brands."
                         delay={0.2}
                         isPro={true}
                         features={[
-                            { text: "500 Video Audits / Month", included: true },
+                            { text: `${PLANS.professional.audits} Video Audits / Month`, included: true },
                             { text: "Deep Think Analysis", included: true },
                             { text: "Detailed Fix Reports", included: true },
                             { text: "Viral Script Rewrites", included: true },
                             { text: "Policy Violation Check", included: true },
                             { text: "Competitor Benchmarking", included: true },
+                            { text: "Branded PDF Reports", included: true },
+                            { text: "Team Workspaces", included: true },
                         ]}
                     />
                 </div>
@@ -657,18 +4667,63 @@ const Footer = () => (
 );
 
 const App = () => {
+  const [shareToken, setShareToken] = useState(() => shareTokenFromHash(window.location.hash));
+  const route = useRoute();
+
+  useEffect(() => {
+    const onHashChange = () => setShareToken(shareTokenFromHash(window.location.hash));
+    window.addEventListener("hashchange", onHashChange);
+    return () => window.removeEventListener("hashchange", onHashChange);
+  }, []);
+
+  // Share links are public: no account, no landing page around them
+  if (shareToken) {
+    return (
+      <div className="min-h-screen bg-black text-white selection:bg-pink-500/30 selection:text-white">
+        <Background />
+        <SharedReportPage token={shareToken} />
+      </div>
+    );
+  }
+
+  // The app pages scroll with sticky elements inside, so only the marketing pages clip overflow
   return (
     <AuthProvider>
-        <div className="min-h-screen bg-black text-white selection:bg-pink-500/30 selection:text-white overflow-hidden">
+      <BatchProvider>
+        <div className={`min-h-screen bg-black text-white selection:bg-pink-500/30 selection:text-white ${isProtected(route) ? '' : 'overflow-hidden'}`}>
             <Background />
-            <Navbar />
-            <Hero />
-            <Features />
-            <Pricing />
-            <Footer />
-            <FloatingActionButton />
+            {isProtected(route) ? (
+                <AppShell route={route} />
+            ) : route.name === 'pricing' ? (
+                <>
+                    <Navbar />
+                    <div className="pt-12"><Pricing /></div>
+                    <Footer />
+                </>
+            ) : route.name === 'authCallback' ? (
+                <>
+                    <Navbar />
+                    <AuthCallbackPage />
+                </>
+            ) : route.name === 'notFound' ? (
+                <>
+                    <Navbar />
+                    <NotFound />
+                    <Footer />
+                </>
+            ) : (
+                <>
+                    <Navbar />
+                    <Hero />
+                    <Features />
+                    <Pricing />
+                    <Footer />
+                    <FloatingActionButton />
+                </>
+            )}
             <AuthModal /> 
         </div>
+      </BatchProvider>
     </AuthProvider>
   );
 };
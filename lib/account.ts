@@ -0,0 +1,233 @@
+import { supabase } from "./supabase";
+import { parseTranscript, reportToMarkdown, validateAuditReport } from "./report";
+import { exportFileName } from "./exports";
+import { VIDEO_BUCKET } from "./upload";
+import { MAX_ZIP_BYTES, ZipEntry, createZip } from "./zip";
+
+// ==========================================
+// 👤 ACCOUNT (usage history, data export, deletion)
+// ==========================================
+// The export gathers everything the user created, in every workspace they're
+// in, straight from the tables RLS lets them read. Deleting the account needs
+// the service role (storage and auth.users), so it goes through
+// /api/account.
+
+export type UsagePeriod = {
+    start: string;
+    /** When the period ended, or for the current one when it resets (null if it never does). */
+    end: string | null;
+    planName: string;
+    quota: number;
+    used: number;
+    /** Audits the user ran themselves. */
+    byYou: number;
+    /** Audits teammates ran in the user's team workspaces. */
+    byTeam: number;
+    current: boolean;
+};
+
+const requireClient = () => {
+    if (!supabase) throw new Error("Supabase not configured");
+    return supabase;
+};
+
+export const getUsageHistory = async (): Promise<UsagePeriod[]> => {
+    const { data, error } = await requireClient().rpc('get_usage_history');
+    if (error) throw new Error(error.message);
+    return ((data as any[]) || []).map(row => ({
+        start: row.period_start,
+        end: row.period_end ?? null,
+        planName: row.plan_name,
+        quota: row.quota,
+        used: row.used,
+        byYou: row.by_you,
+        byTeam: row.by_team,
+        current: row.is_current,
+    }));
+};
+
+// ------------------------------------------
+// Export
+// ------------------------------------------
+
+export type AccountProfile = {
+    id: string;
+    email: string | null;
+    createdAt: string | null;
+    /** Auth providers linked to the account ('email', 'google'). */
+    signInMethods: string[];
+};
+
+export const ACCOUNT_EXPORT_FORMAT = 'viralaudit.account';
+
+/** Rows as stored, so the export doesn't depend on what the app currently shows. */
+export type AccountExport = {
+    format: typeof ACCOUNT_EXPORT_FORMAT;
+    version: 1;
+    exportedAt: string;
+    account: AccountProfile;
+    usage: UsagePeriod[];
+    audits: any[];
+    presets: any[];
+    comparisons: any[];
+    benchmarkSets: any[];
+    benchmarkEntries: any[];
+    scriptVariants: any[];
+    shareLinks: any[];
+    performanceImports: any[];
+    performanceRows: any[];
+    branding: any | null;
+};
+
+const PAGE_SIZE = 500;
+
+/** Every row of `table` the user created, paged past PostgREST's row limit. */
+const selectOwn = async (table: string, columns: string, userId: string) => {
+    const rows: any[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await requireClient()
+            .from(table)
+            .select(columns)
+            .eq('user_id', userId)
+            .order('created_at')
+            .range(from, from + PAGE_SIZE - 1);
+        if (error) throw new Error(error.message);
+        rows.push(...(data || []));
+        if (!data || data.length < PAGE_SIZE) return rows;
+    }
+};
+
+export const collectAccountData = async (account: AccountProfile): Promise<AccountExport> => {
+    const userId = account.id;
+    const [usage, audits, presets, comparisons, benchmarkSets, benchmarkEntries, scriptVariants, shareLinks, performanceImports, performanceRows, branding] = await Promise.all([
+        getUsageHistory(),
+        selectOwn('audits', 'id, workspace_id, file_name, mime_type, file_size, storage_path, overall_score, report, transcript, transcript_updated_at, created_at', userId),
+        selectOwn('audit_presets', 'id, workspace_id, name, platform, objective, audience, brand_voice, dos, donts, created_at, updated_at', userId),
+        selectOwn('audit_comparisons', 'id, name, audit_ids, winner, comparison, created_at', userId),
+        selectOwn('benchmark_sets', 'id, workspace_id, name, niche, created_at', userId),
+        selectOwn('benchmark_entries', 'id, set_id, audit_id, competitor, created_at', userId),
+        selectOwn('script_variants', 'id, audit_id, kind, style, text, edited, created_at, updated_at', userId),
+        selectOwn('report_shares', 'id, token, audit_id, include_video, has_password, expires_at, revoked_at, view_count, last_viewed_at, created_at', userId),
+        selectOwn('performance_imports', 'id, workspace_id, source, file_name, row_count, created_at', userId),
+        selectOwn('performance_rows', 'id, import_id, creative_name, audit_id, match_method, spend, impressions, clicks, hook_views, purchase_value, ctr, hook_rate, roas, date_start, date_end, created_at', userId),
+        requireClient().from('export_branding').select('company_name, logo, primary_color, accent_color, cover_note, updated_at').eq('user_id', userId).maybeSingle(),
+    ]);
+    if (branding.error) throw new Error(branding.error.message);
+
+    return {
+        format: ACCOUNT_EXPORT_FORMAT,
+        version: 1,
+        exportedAt: new Date().toISOString(),
+        account,
+        usage,
+        audits,
+        presets,
+        comparisons,
+        benchmarkSets,
+        benchmarkEntries,
+        scriptVariants,
+        shareLinks,
+        performanceImports,
+        performanceRows,
+        branding: branding.data,
+    };
+};
+
+export const accountExportToJson = (data: AccountExport) => JSON.stringify(data, null, 2) + '\n';
+
+/** "2026-10-19-Summer-Promo-v2-audit-1a2b3c4d": dated and unique, as audits often share file names. */
+const auditBaseName = (audit: any) =>
+    `${String(audit.created_at).slice(0, 10)}-${exportFileName(audit.file_name, '').replace(/\.$/, '')}-${String(audit.id).slice(0, 8)}`;
+
+/** One audit per stored video: the same upload can be audited twice, or in more than one workspace. */
+const storedVideos = (data: AccountExport) => {
+    const byPath = new Map<string, any>();
+    for (const audit of data.audits) {
+        if (audit.storage_path && !byPath.has(audit.storage_path)) byPath.set(audit.storage_path, audit);
+    }
+    return [...byPath.values()];
+};
+
+/** What the stored videos add up to, from the audit rows, so it's known before anything is downloaded. */
+export const storedVideoBytes = (data: AccountExport) =>
+    storedVideos(data).reduce((sum, audit) => sum + (Number(audit.file_size) || 0), 0);
+
+/** The videos won't fit in one ZIP; the export can still be made without them. */
+export class ExportTooLargeError extends Error {
+    constructor(readonly videoBytes: number) {
+        super("Your videos are too large for one ZIP file (4 GB at most). Download the export without them; each video is still in your history.");
+        this.name = 'ExportTooLargeError';
+    }
+}
+
+export type ZipExportOptions = {
+    /** Adds the stored creatives, which can make the archive very large. */
+    includeVideos: boolean;
+    onProgress?: (message: string) => void;
+};
+
+/**
+ * account.json plus a Markdown report per audit and, optionally, the videos.
+ * Throws ExportTooLargeError before downloading any video when they wouldn't fit.
+ */
+export const accountExportToZip = async (data: AccountExport, { includeVideos, onProgress }: ZipExportOptions): Promise<Blob> => {
+    const entries: ZipEntry[] = [{ name: 'viralaudit-export/account.json', data: accountExportToJson(data) }];
+
+    for (const audit of data.audits) {
+        try {
+            const report = validateAuditReport(audit.report);
+            const transcript = audit.transcript ? parseTranscript(audit.transcript) : null;
+            entries.push({
+                name: `viralaudit-export/reports/${auditBaseName(audit)}.md`,
+                data: reportToMarkdown(transcript ? { ...report, transcript } : report),
+                modified: new Date(audit.created_at),
+            });
+        } catch (err) {
+            // Still in account.json, just not rendered
+            console.error(`Skipping the Markdown for audit ${audit.id}`, err);
+        }
+    }
+
+    if (includeVideos) {
+        const videoBytes = storedVideoBytes(data);
+        const textBytes = entries.reduce((sum, entry) => sum + new Blob([entry.data]).size, 0);
+        if (videoBytes + textBytes > MAX_ZIP_BYTES) throw new ExportTooLargeError(videoBytes);
+
+        const stored = storedVideos(data);
+        for (const [i, audit] of stored.entries()) {
+            onProgress?.(`Downloading video ${i + 1} of ${stored.length}...`);
+            const { data: video, error } = await requireClient().storage.from(VIDEO_BUCKET).download(audit.storage_path);
+            // Removed uploads are skipped; the report is still there
+            if (error || !video) continue;
+            const extension = String(audit.storage_path).split('.').pop();
+            entries.push({ name: `viralaudit-export/creatives/${auditBaseName(audit)}.${extension}`, data: video, modified: new Date(audit.created_at) });
+        }
+    }
+
+    onProgress?.("Building the ZIP...");
+    return createZip(entries);
+};
+
+// ------------------------------------------
+// Deletion
+// ------------------------------------------
+
+/**
+ * Deletes the signed-in account for good. `confirmEmail` must be the account's
+ * email. The session is left for the caller to clear (locally: the user is gone).
+ */
+export const deleteAccount = async (confirmEmail: string) => {
+    const { data: { session } } = await requireClient().auth.getSession();
+    if (!session) throw new Error("Your session has expired, please log in again.");
+
+    const response = await fetch('/api/account', {
+        method: 'DELETE',
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ confirm: confirmEmail }),
+    });
+    const json = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(json.error?.message || "Could not delete the account");
+};
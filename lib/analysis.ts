@@ -0,0 +1,261 @@
+import { AuditReport } from "./report";
+import { StoredVideo, VideoInfo, uploadVideo } from "./upload";
+import { AuditContext } from "./presets";
+import { AuditError, toAuditError } from "./errors";
+import { AbVerdict, CompareVariantsRequest, VARIANT_LABELS } from "./comparisons";
+import { AnalysisProvider, AnalysisRequest, analysisProvider } from "./providers";
+
+// ==========================================
+// 🧠 ANALYSIS JOB
+// ==========================================
+// One audit = upload → call the analysis provider. The worker takes the
+// credit and settles or refunds it (see worker/src/analyze.ts). The whole job
+// is abortable (aborting hangs up on the worker, which refunds), each provider
+// call has a timeout, and transient failures are retried with backoff. A
+// timeout isn't retried: a run that slow will likely be slow again. An
+// idempotency key travels with the job so a retried request never charges
+// twice.
+
+export type AnalysisOptions = {
+    /** Per provider attempt. */
+    timeoutMs: number;
+    /** Retries after the first attempt, for transient failures only. */
+    maxRetries: number;
+    /** First backoff delay; doubles every retry. */
+    baseDelayMs: number;
+};
+
+export const DEFAULT_ANALYSIS_OPTIONS: AnalysisOptions = {
+    // Past the worker's own limit (ANALYSIS_TIME_LIMIT_MS, 5 minutes), so by the
+    // time we give up the worker has too, and its credit is refunded
+    timeoutMs: Number(process.env.ANALYSIS_TIMEOUT_MS) || 330_000,
+    maxRetries: 3,
+    baseDelayMs: 1_000,
+};
+
+// ------------------------------------------
+// Abort / timeout / backoff helpers
+// ------------------------------------------
+
+const withTimeout = (parent: AbortSignal | undefined, ms: number) => {
+    const controller = new AbortController();
+    let timedOut = false;
+    const onAbort = () => controller.abort();
+    const timer = setTimeout(() => { timedOut = true; controller.abort(); }, ms);
+    if (parent?.aborted) controller.abort();
+    parent?.addEventListener('abort', onAbort, { once: true });
+    return {
+        signal: controller.signal,
+        timedOut: () => timedOut,
+        clear: () => { clearTimeout(timer); parent?.removeEventListener('abort', onAbort); },
+    };
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+    const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+    const onAbort = () => { clearTimeout(timer); reject(new DOMException('Aborted', 'AbortError')); };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const backoffDelay = (attempt: number, base: number) =>
+    base * 2 ** attempt + Math.round(Math.random() * base);
+
+export type RetryInfo = { attempt: number; maxRetries: number; delayMs: number; error: AuditError };
+
+/** Runs `fn` until it succeeds, fails permanently, or runs out of retries. */
+const withRetry = async <T>(
+    fn: () => Promise<T>,
+    options: AnalysisOptions,
+    signal: AbortSignal | undefined,
+    onRetry?: (info: RetryInfo) => void,
+): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await fn();
+        } catch (raw) {
+            const err = toAuditError(raw);
+            if (!err.retryable || attempt >= options.maxRetries || signal?.aborted) throw err;
+            const delayMs = err.retryAfterMs ?? backoffDelay(attempt, options.baseDelayMs);
+            onRetry?.({ attempt: attempt + 1, maxRetries: options.maxRetries, delayMs, error: err });
+            await sleep(delayMs, signal);
+        }
+    }
+};
+
+// ------------------------------------------
+// Provider call
+// ------------------------------------------
+
+const analyzeWithTimeout = async (provider: AnalysisProvider, request: AnalysisRequest, timeoutMs: number, signal?: AbortSignal) => {
+    const attempt = withTimeout(signal, timeoutMs);
+    try {
+        return await provider.analyze(request, attempt.signal);
+    } catch (err) {
+        if (attempt.timedOut()) throw new AuditError('timeout', `No response after ${Math.round(timeoutMs / 1000)}s.`);
+        throw err;
+    } finally {
+        attempt.clear();
+    }
+};
+
+const compareWithTimeout = async (provider: AnalysisProvider, request: CompareVariantsRequest, timeoutMs: number, signal?: AbortSignal) => {
+    const attempt = withTimeout(signal, timeoutMs);
+    try {
+        return await provider.compareVariants(request, attempt.signal);
+    } catch (err) {
+        if (attempt.timedOut()) throw new AuditError('timeout', `No response after ${Math.round(timeoutMs / 1000)}s.`);
+        throw err;
+    } finally {
+        attempt.clear();
+    }
+};
+
+// ------------------------------------------
+// Job
+// ------------------------------------------
+
+export const newIdempotencyKey = () => crypto.randomUUID();
+
+export type AuditJob = {
+    file: File;
+    info: VideoInfo;
+    userId: string;
+    /** Reuse a finished upload of the same file. */
+    stored?: StoredVideo | null;
+    idempotencyKey: string;
+    /** Preset to audit against; omit for a generic audit. */
+    context?: AuditContext | null;
+    /** Run the policy check too (Pro). */
+    policyCheck?: boolean;
+    signal?: AbortSignal;
+    options?: Partial<AnalysisOptions>;
+    /** Defaults to the provider picked by ANALYSIS_PROVIDER. */
+    provider?: AnalysisProvider;
+    onStage?: (stage: 'uploading' | 'analyzing') => void;
+    onUploadProgress?: (fraction: number) => void;
+    onUploaded?: (video: StoredVideo) => void;
+    onRetry?: (info: RetryInfo) => void;
+};
+
+export type AuditJobResult = { report: AuditReport; video: StoredVideo };
+
+/** Runs one audit end to end. Always rejects with an AuditError. */
+export const runAuditJob = async (job: AuditJob): Promise<AuditJobResult> => {
+    const options = { ...DEFAULT_ANALYSIS_OPTIONS, ...job.options };
+    const provider = job.provider ?? analysisProvider;
+    const { signal } = job;
+
+    const analyze = (video: StoredVideo) => withRetry(
+        () => analyzeWithTimeout(provider, {
+            video,
+            fileName: job.file.name,
+            idempotencyKey: job.idempotencyKey,
+            context: job.context ?? null,
+            policyCheck: !!job.policyCheck,
+        }, options.timeoutMs, signal),
+        options,
+        signal,
+        job.onRetry,
+    );
+
+    // 🧪 Offline providers skip storage entirely
+    if (provider.offline) {
+        const video: StoredVideo = { bucket: 'local', path: job.file.name, mimeType: job.info.mimeType };
+        job.onStage?.('analyzing');
+        try {
+            return { report: await analyze(video), video };
+        } catch (err) {
+            throw toAuditError(err);
+        }
+    }
+
+    // 📤 1. UPLOAD (resumable; no credit spent yet)
+    let video = job.stored ?? null;
+    if (!video) {
+        job.onStage?.('uploading');
+        try {
+            video = await uploadVideo(job.file, { userId: job.userId, info: job.info, onProgress: job.onUploadProgress, signal });
+        } catch (err) {
+            throw toAuditError(err);
+        }
+        job.onUploaded?.(video);
+    }
+
+    // 🧠 2. ANALYZE. Same key on every try, so a lost response can't double-charge.
+    job.onStage?.('analyzing');
+    try {
+        return { report: await analyze(video), video };
+    } catch (err) {
+        throw toAuditError(err);
+    }
+};
+
+// ------------------------------------------
+// A/B comparison job
+// ------------------------------------------
+
+export type ComparisonStage = { index: number; stage: 'uploading' | 'analyzing' } | { index: null; stage: 'comparing' };
+
+export type ComparisonJob = {
+    /** In label order: A, B, ... */
+    variants: { file: File; info: VideoInfo }[];
+    userId: string;
+    context?: AuditContext | null;
+    signal?: AbortSignal;
+    options?: Partial<AnalysisOptions>;
+    provider?: AnalysisProvider;
+    onStage?: (stage: ComparisonStage) => void;
+    onUploadProgress?: (fraction: number) => void;
+    /**
+     * Saves each variant's audit as soon as it's done, so it's kept even if a
+     * later step fails. Resolves to its id in history, or null if it wasn't saved.
+     */
+    onAudited: (index: number, result: AuditJobResult) => Promise<string | null>;
+    onRetry?: (info: RetryInfo) => void;
+};
+
+export type ComparisonJobResult = { audits: AuditJobResult[]; auditIds: (string | null)[]; verdict: AbVerdict };
+
+/**
+ * Audits every variant in turn (one credit each), then asks the provider to
+ * compare the saved reports (one more). Always rejects with an AuditError.
+ */
+export const runComparisonJob = async (job: ComparisonJob): Promise<ComparisonJobResult> => {
+    const options = { ...DEFAULT_ANALYSIS_OPTIONS, ...job.options };
+    const provider = job.provider ?? analysisProvider;
+    const { signal } = job;
+
+    const audits: AuditJobResult[] = [];
+    const saves: Promise<string | null>[] = [];
+    for (const [index, variant] of job.variants.entries()) {
+        const result = await runAuditJob({
+            file: variant.file,
+            info: variant.info,
+            userId: job.userId,
+            idempotencyKey: newIdempotencyKey(),
+            context: job.context,
+            signal,
+            options: job.options,
+            provider,
+            onStage: (stage) => job.onStage?.({ index, stage }),
+            onUploadProgress: job.onUploadProgress,
+            onRetry: job.onRetry,
+        });
+        audits.push(result);
+        saves.push(job.onAudited(index, result));
+    }
+
+    job.onStage?.({ index: null, stage: 'comparing' });
+    const auditIds = await Promise.all(saves);
+    const request: CompareVariantsRequest = {
+        variants: audits.map((a, i) => ({ label: VARIANT_LABELS[i], auditId: auditIds[i], report: a.report })),
+        idempotencyKey: newIdempotencyKey(),
+    };
+    try {
+        const verdict = await withRetry(() => compareWithTimeout(provider, request, options.timeoutMs, signal), options, signal, job.onRetry);
+        return { audits, auditIds, verdict };
+    } catch (err) {
+        throw toAuditError(err);
+    }
+};
@@ -0,0 +1,71 @@
+import { supabase } from "./supabase";
+import { API_KEY_LIMITS, ApiKey, ApiKeyDraft, CreatedApiKey } from "./apiKeys";
+
+// ==========================================
+// 🔑 API KEYS (public.api_keys)
+// ==========================================
+// Keys are created by create_api_key() so only their hash is stored; the key
+// and its webhook secret come back once, from that call.
+
+const COLUMNS = 'id, workspace_id, name, prefix, scopes, rate_limit, webhook_url, last_used_at, revoked_at, created_at';
+
+const CREATE_ERRORS: Record<string, string> = {
+    invalid_name: `Key names need 1 to ${API_KEY_LIMITS.name} characters.`,
+    invalid_scopes: "Pick at least one permission.",
+    invalid_rate_limit: `The rate limit must be between 1 and ${API_KEY_LIMITS.rateLimitMax} audits a minute.`,
+    invalid_webhook_url: "The webhook URL must start with https:// (or http:// for local testing).",
+    too_many_keys: `You can have up to ${API_KEY_LIMITS.activeKeys} active keys. Revoke one first.`,
+};
+
+const toKey = (row: any): ApiKey => ({
+    id: row.id,
+    name: row.name,
+    prefix: row.prefix,
+    scopes: row.scopes,
+    rateLimit: row.rate_limit,
+    webhookUrl: row.webhook_url ?? null,
+    workspaceId: row.workspace_id,
+    lastUsedAt: row.last_used_at ?? null,
+    revokedAt: row.revoked_at ?? null,
+    createdAt: row.created_at,
+});
+
+const requireClient = () => {
+    if (!supabase) throw new Error("Supabase not configured");
+    return supabase;
+};
+
+/** The user's keys across workspaces, active first. */
+export const listApiKeys = async (): Promise<ApiKey[]> => {
+    const { data, error } = await requireClient()
+        .from('api_keys')
+        .select(COLUMNS)
+        .order('revoked_at', { ascending: false, nullsFirst: true })
+        .order('created_at', { ascending: false });
+    if (error) throw new Error(error.message);
+    return (data || []).map(toKey);
+};
+
+/** Creates a key in the current workspace. */
+export const createApiKey = async (draft: ApiKeyDraft): Promise<CreatedApiKey> => {
+    const { data, error } = await requireClient().rpc('create_api_key', {
+        p_name: draft.name.trim(),
+        p_scopes: draft.scopes,
+        p_rate_limit: draft.rateLimit,
+        p_webhook_url: draft.webhookUrl.trim() || null,
+    });
+    if (error) throw new Error(CREATE_ERRORS[error.message] ?? error.message);
+    const row = Array.isArray(data) ? data[0] : data;
+    return { id: row.id, apiKey: row.api_key, webhookSecret: row.webhook_secret };
+};
+
+export const revokeApiKey = async (id: string): Promise<ApiKey> => {
+    const { data, error } = await requireClient()
+        .from('api_keys')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', id)
+        .select(COLUMNS)
+        .single();
+    if (error) throw new Error(error.message);
+    return toKey(data);
+};
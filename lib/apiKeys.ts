@@ -0,0 +1,132 @@
+import { AuditReport } from "./report";
+
+// ==========================================
+// 🔑 PUBLIC API (keys, jobs, webhooks)
+// ==========================================
+// Shared by the app (managing keys), the worker (serving /v1, see
+// worker/src/api.ts) and the local webhook receiver. A key is a bearer token
+// (`va_...`) with scopes and its own rate limit; the audits it submits spend
+// the same quota as audits run in the app.
+
+export const API_SCOPES = ['audits:write', 'audits:read'] as const;
+export type ApiScope = typeof API_SCOPES[number];
+
+export const API_SCOPE_DESCRIPTIONS: Record<ApiScope, string> = {
+    'audits:write': 'Submit videos for audit',
+    'audits:read': 'Check status and fetch reports',
+};
+
+/** Keep in step with the api_keys migration. */
+export const API_KEY_LIMITS = {
+    name: 60,
+    activeKeys: 10,
+    /** Audits submitted per minute, per key. */
+    rateLimitMax: 60,
+    defaultRateLimit: 10,
+    /** Status and report requests per minute, per key and worker instance (best effort). */
+    readsPerMinute: 120,
+};
+
+export type ApiKey = {
+    id: string;
+    name: string;
+    /** `va_` and the first characters of the key. */
+    prefix: string;
+    scopes: ApiScope[];
+    rateLimit: number;
+    webhookUrl: string | null;
+    workspaceId: string;
+    lastUsedAt: string | null;
+    revokedAt: string | null;
+    createdAt: string;
+};
+
+export type ApiKeyDraft = {
+    name: string;
+    scopes: ApiScope[];
+    rateLimit: number;
+    webhookUrl: string;
+};
+
+/** Returned once, when the key is created. */
+export type CreatedApiKey = {
+    id: string;
+    apiKey: string;
+    webhookSecret: string;
+};
+
+// ------------------------------------------
+// Jobs
+// ------------------------------------------
+
+export type ApiAuditStatus = 'queued' | 'processing' | 'succeeded' | 'failed';
+
+/** GET /v1/audits/:id, and the `data` of webhook events. */
+export type ApiAudit = {
+    id: string;
+    status: ApiAuditStatus;
+    fileName: string;
+    createdAt: string;
+    startedAt: string | null;
+    completedAt: string | null;
+    /** The audit in the app's history, once it succeeded. */
+    auditId: string | null;
+    overallScore: number | null;
+    error: { code: string; message: string } | null;
+};
+
+/** GET /v1/audits/:id/report */
+export type ApiAuditReport = {
+    id: string;
+    auditId: string;
+    report: AuditReport;
+};
+
+// ------------------------------------------
+// Webhooks
+// ------------------------------------------
+
+export const WEBHOOK_EVENTS = ['audit.succeeded', 'audit.failed'] as const;
+export type WebhookEventType = typeof WEBHOOK_EVENTS[number];
+
+export type WebhookEvent = {
+    id: string;
+    type: WebhookEventType;
+    createdAt: string;
+    data: ApiAudit;
+};
+
+export const WEBHOOK_SIGNATURE_HEADER = 'ViralAudit-Signature';
+
+/** Deliveries older than this are refused by verifyWebhookSignature, against replays. */
+export const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+const toHex = (buffer: ArrayBuffer) =>
+    Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+
+const hmac = async (secret: string, message: string) => {
+    const key = await crypto.subtle.importKey(
+        'raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'],
+    );
+    return toHex(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message)));
+};
+
+/** The `ViralAudit-Signature` header: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`. */
+export const signWebhook = async (secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)) =>
+    `t=${timestamp},v1=${await hmac(secret, `${timestamp}.${body}`)}`;
+
+const timingSafeEqual = (a: string, b: string) => {
+    if (a.length !== b.length) return false;
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    return diff === 0;
+};
+
+/** Checks a delivery's signature header against the raw body. */
+export const verifyWebhookSignature = async (secret: string, body: string, header: string | null, now = Date.now()) => {
+    const parts = Object.fromEntries((header ?? '').split(',').map(part => part.trim().split('=') as [string, string]));
+    const timestamp = Number(parts.t);
+    if (!parts.v1 || !Number.isInteger(timestamp)) return false;
+    if (Math.abs(now / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS) return false;
+    return timingSafeEqual(await hmac(secret, `${timestamp}.${body}`), parts.v1);
+};
@@ -0,0 +1,131 @@
+import { supabase } from "./supabase";
+import { AuditReport, parseTranscript, sectionScore, validateAuditReport } from "./report";
+import { TranscriptCue, checkCues } from "./captions";
+import { StoredVideo } from "./upload";
+
+// ==========================================
+// 🗂️ AUDIT HISTORY (public.audits)
+// ==========================================
+
+export type AuditRecord = {
+    id: string;
+    fileName: string;
+    mimeType: string;
+    fileSize: number;
+    overallScore: number;
+    createdAt: string;
+    /** Object in the creatives bucket, when the upload is still kept. */
+    storagePath: string | null;
+    /** With the editor's transcript in place of the model's, when there is one. */
+    report: AuditReport;
+    transcriptEdited: boolean;
+};
+
+export type AuditFilters = {
+    search?: string;
+    /** ISO date (yyyy-mm-dd), inclusive. */
+    from?: string;
+    /** ISO date (yyyy-mm-dd), inclusive. */
+    to?: string;
+    minScore?: number;
+    maxScore?: number;
+};
+
+const COLUMNS = 'id, file_name, mime_type, file_size, overall_score, created_at, storage_path, report, transcript';
+
+const toRecord = (row: any): AuditRecord => {
+    const report = validateAuditReport(row.report);
+    const edited = row.transcript ? parseTranscript(row.transcript) : null;
+    return {
+        id: row.id,
+        fileName: row.file_name,
+        mimeType: row.mime_type,
+        fileSize: row.file_size,
+        overallScore: Number(row.overall_score),
+        createdAt: row.created_at,
+        storagePath: row.storage_path ?? null,
+        report: edited ? { ...report, transcript: edited } : report,
+        transcriptEdited: !!edited,
+    };
+};
+
+const requireClient = () => {
+    if (!supabase) throw new Error("Supabase not configured");
+    return supabase;
+};
+
+export const saveAudit = async (userId: string, file: File, report: AuditReport, video?: StoredVideo): Promise<AuditRecord> => {
+    const { data, error } = await requireClient()
+        .from('audits')
+        .insert({
+            user_id: userId,
+            file_name: file.name,
+            mime_type: video?.mimeType ?? file.type,
+            file_size: file.size,
+            storage_path: video?.path ?? null,
+            overall_score: report.overallScore,
+            hook_score: sectionScore(report, 'hook'),
+            body_score: sectionScore(report, 'body'),
+            audio_score: sectionScore(report, 'audio'),
+            script_score: sectionScore(report, 'script'),
+            report,
+        })
+        .select(COLUMNS)
+        .single();
+    if (error) throw new Error(error.message);
+    return toRecord(data);
+};
+
+/** A workspace's audits, newest first. RLS lets members read every workspace they're in, hence the filter. */
+export const listAudits = async (workspaceId: string | null, filters: AuditFilters = {}): Promise<AuditRecord[]> => {
+    let query = requireClient()
+        .from('audits')
+        .select(COLUMNS)
+        .order('created_at', { ascending: false })
+        .limit(100);
+
+    if (workspaceId) query = query.eq('workspace_id', workspaceId);
+    const search = filters.search?.trim();
+    if (search) query = query.ilike('file_name', `%${search.replace(/[%_\\]/g, '\\$&')}%`);
+    if (filters.from) query = query.gte('created_at', new Date(`${filters.from}T00:00:00`).toISOString());
+    if (filters.to) query = query.lte('created_at', new Date(`${filters.to}T23:59:59.999`).toISOString());
+    if (filters.minScore !== undefined) query = query.gte('overall_score', filters.minScore);
+    if (filters.maxScore !== undefined) query = query.lte('overall_score', filters.maxScore);
+
+    const { data, error } = await query;
+    if (error) throw new Error(error.message);
+
+    // A row whose report no longer validates shouldn't take the whole list down.
+    return (data || []).flatMap(row => {
+        try {
+            return [toRecord(row)];
+        } catch (err) {
+            console.error(`Skipping unreadable audit ${row.id}`, err);
+            return [];
+        }
+    });
+};
+
+export const getAudit = async (id: string): Promise<AuditRecord> => {
+    const { data, error } = await requireClient().from('audits').select(COLUMNS).eq('id', id).single();
+    if (error) throw new Error(error.message);
+    return toRecord(data);
+};
+
+/** Saves an editor's corrected transcript; the report's own copy is left untouched. */
+export const saveTranscript = async (id: string, cues: TranscriptCue[]): Promise<TranscriptCue[]> => {
+    checkCues(cues);
+    const { data, error } = await requireClient()
+        .from('audits')
+        .update({ transcript: cues, transcript_updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select('transcript')
+        .single();
+    if (error) throw new Error(error.message);
+    return parseTranscript(data.transcript);
+};
+
+export const deleteAudit = async (id: string) => {
+    const { error } = await requireClient().from('audits').delete().eq('id', id);
+    if (error) throw new Error(error.message);
+};
@@ -0,0 +1,45 @@
+// ==========================================
+// 🔐 AUTH REDIRECTS
+// ==========================================
+// Email confirmation, magic links, password resets and Google sign-in all
+// leave the app and come back to AUTH_CALLBACK_PATH. supabase-js reads the
+// session out of the URL by itself (and reports a recovery link as
+// PASSWORD_RECOVERY through onAuthStateChange); what's left to us is showing
+// failed or expired links and remembering where the user was headed, which
+// has to survive the round trip, often into a new tab.
+
+export const AUTH_CALLBACK_PATH = '/auth/callback';
+
+/** Supabase's default minimum; the project setting must not be stricter. */
+export const PASSWORD_MIN_LENGTH = 6;
+
+/** Supabase only lets the same email be sent once a minute. */
+export const RESEND_COOLDOWN_SECONDS = 60;
+
+export const authRedirectUrl = () => `${window.location.origin}${AUTH_CALLBACK_PATH}`;
+
+/** Why a link didn't sign the user in, from the callback URL (hash or query). Null when it did. */
+export const authCallbackError = (location: { hash: string; search: string }): string | null => {
+    for (const params of [new URLSearchParams(location.hash.replace(/^#/, '')), new URLSearchParams(location.search)]) {
+        const code = params.get('error_code');
+        if (code === 'otp_expired') return "This link has expired or was already used. Request a new one.";
+        const description = params.get('error_description') ?? params.get('error');
+        if (description) return description;
+    }
+    return null;
+};
+
+const RETURN_TO_KEY = 'viralaudit:returnTo';
+
+/** Where to go after a sign-in that leaves the app. */
+export const rememberReturnTo = (path: string | null) => {
+    if (path) localStorage.setItem(RETURN_TO_KEY, path);
+    else localStorage.removeItem(RETURN_TO_KEY);
+};
+
+/** Reads and clears it. Only in-app paths are honoured. */
+export const takeReturnTo = (): string | null => {
+    const path = localStorage.getItem(RETURN_TO_KEY);
+    localStorage.removeItem(RETURN_TO_KEY);
+    return path && path.startsWith('/') && !path.startsWith('//') ? path : null;
+};
@@ -0,0 +1,174 @@
+import { AuditReport } from "./report";
+import { StoredVideo, VideoInfo, validateVideo } from "./upload";
+import { AuditContext } from "./presets";
+import { AuditError, toAuditError } from "./errors";
+import { AuditJobResult, newIdempotencyKey, runAuditJob } from "./analysis";
+import { AnalysisProvider } from "./providers";
+
+// ==========================================
+// 📚 BATCH AUDIT QUEUE
+// ==========================================
+// Agencies audit creatives in batches. Each file is validated when it's
+// added, then audited by runAuditJob with a few running at once. The queue
+// holds no React state: it reports an immutable snapshot of its items on
+// every change. A failed item keeps its finished upload, so retrying it
+// only repeats the analysis.
+
+export const BATCH_LIMITS = {
+    maxFiles: 30,
+    concurrency: 3,
+};
+
+export type BatchStatus = 'validating' | 'queued' | 'uploading' | 'analyzing' | 'done' | 'failed';
+
+export type BatchItem = {
+    id: string;
+    file: File;
+    status: BatchStatus;
+    info: VideoInfo | null;
+    /** 0–1 while uploading. */
+    progress: number | null;
+    error: AuditError | null;
+    /** False when the file itself can't be audited (remove it instead). */
+    retryable: boolean;
+    report: AuditReport | null;
+};
+
+type Entry = BatchItem & { stored: StoredVideo | null; controller: AbortController | null };
+
+export type BatchQueueOptions = {
+    userId: string;
+    concurrency?: number;
+    provider?: AnalysisProvider;
+    onChange: (items: BatchItem[]) => void;
+    /** Each finished audit, e.g. to save it to history. */
+    onAudited?: (item: BatchItem, result: AuditJobResult) => void;
+};
+
+export const isActive = (status: BatchStatus) => status === 'uploading' || status === 'analyzing';
+
+export const createBatchQueue = (options: BatchQueueOptions) => {
+    const concurrency = options.concurrency ?? BATCH_LIMITS.concurrency;
+    let entries: Entry[] = [];
+    let running = false;
+    let context: AuditContext | null = null;
+
+    const emit = () => options.onChange(entries.map(({ stored, controller, ...item }) => item));
+
+    const update = (id: string, fields: Partial<Entry>) => {
+        entries = entries.map(e => e.id === id ? { ...e, ...fields } : e);
+        emit();
+    };
+
+    const get = (id: string) => entries.find(e => e.id === id);
+
+    const runItem = async (entry: Entry) => {
+        const controller = new AbortController();
+        update(entry.id, { status: entry.stored ? 'analyzing' : 'uploading', progress: null, error: null, controller });
+        try {
+            const result = await runAuditJob({
+                file: entry.file,
+                info: entry.info!,
+                userId: options.userId,
+                stored: entry.stored,
+                idempotencyKey: newIdempotencyKey(),
+                context,
+                provider: options.provider,
+                signal: controller.signal,
+                onStage: (stage) => update(entry.id, { status: stage, progress: stage === 'uploading' ? 0 : null }),
+                onUploadProgress: (progress) => update(entry.id, { progress }),
+                onUploaded: (stored) => update(entry.id, { stored }),
+            });
+            update(entry.id, { status: 'done', report: result.report, progress: null, controller: null });
+            options.onAudited?.(get(entry.id)!, result);
+        } catch (raw) {
+            const error = toAuditError(raw);
+            // A quota error means the rest of the batch would fail the same way
+            if (error.kind === 'quota') running = false;
+            update(entry.id, { status: 'failed', error, retryable: error.kind !== 'file', progress: null, controller: null });
+        } finally {
+            pump();
+        }
+    };
+
+    const pump = () => {
+        if (!running) return;
+        const active = entries.filter(e => isActive(e.status)).length;
+        const next = entries.filter(e => e.status === 'queued').slice(0, Math.max(0, concurrency - active));
+        for (const entry of next) void runItem(entry);
+        if (!active && !next.length) running = false;
+    };
+
+    const stop = () => {
+        running = false;
+        for (const entry of entries) entry.controller?.abort();
+    };
+
+    return {
+        /** Validates and queues files, up to BATCH_LIMITS.maxFiles in total. Returns how many were dropped. */
+        async add(files: File[]) {
+            const room = BATCH_LIMITS.maxFiles - entries.length;
+            const accepted = files.slice(0, Math.max(0, room));
+            const added: Entry[] = accepted.map(file => ({
+                id: crypto.randomUUID(), file, status: 'validating', info: null, progress: null,
+                error: null, retryable: true, report: null, stored: null, controller: null,
+            }));
+            entries = [...entries, ...added];
+            emit();
+
+            for (const entry of added) {
+                try {
+                    const info = await validateVideo(entry.file);
+                    if (get(entry.id)) update(entry.id, { status: 'queued', info });
+                } catch (err) {
+                    if (get(entry.id)) update(entry.id, { status: 'failed', error: toAuditError(err), retryable: false });
+                }
+            }
+            pump();
+            return files.length - accepted.length;
+        },
+
+        /** Preset for items that haven't started yet. */
+        setContext(next: AuditContext | null) {
+            context = next;
+        },
+
+        start() {
+            running = true;
+            pump();
+        },
+
+        /** Runs one failed item again: straight away when the queue is idle, else in turn. */
+        retry(id: string) {
+            const entry = get(id);
+            if (!entry || entry.status !== 'failed' || !entry.retryable) return;
+            if (running) {
+                update(id, { status: 'queued', error: null });
+                pump();
+            } else {
+                void runItem(entry);
+            }
+        },
+
+        remove(id: string) {
+            const entry = get(id);
+            if (!entry || isActive(entry.status)) return;
+            entries = entries.filter(e => e.id !== id);
+            emit();
+        },
+
+        /** Cancels audits in flight (their credits are refunded) and pauses the queue. */
+        stop,
+
+        clear() {
+            stop();
+            entries = [];
+            emit();
+        },
+    };
+};
+
+export type BatchQueue = ReturnType<typeof createBatchQueue>;
+
+/** Items that will cost an audit if the batch is started now. */
+export const pendingCount = (items: BatchItem[]) => items.filter(i => i.status === 'queued').length;
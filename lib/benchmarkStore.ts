@@ -0,0 +1,109 @@
+import { supabase } from "./supabase";
+import { AuditReport, validateAuditReport } from "./report";
+import { BenchmarkCompetitor } from "./benchmarks";
+
+// ==========================================
+// 🏁 BENCHMARK LIBRARY (public.benchmark_sets / benchmark_entries)
+// ==========================================
+// Competitor ads are ordinary audits tagged into a set, so they are uploaded,
+// analysed and stored exactly like the user's own.
+
+export type BenchmarkSet = {
+    id: string;
+    name: string;
+    niche: string;
+    createdAt: string;
+};
+
+export type BenchmarkEntry = BenchmarkCompetitor & {
+    auditId: string;
+    fileName: string;
+    createdAt: string;
+};
+
+export const BENCHMARK_LIMITS = {
+    name: 60,
+    niche: 120,
+    competitor: 80,
+};
+
+const SET_COLUMNS = 'id, name, niche, created_at';
+const ENTRY_COLUMNS = 'id, audit_id, competitor, created_at, audits (file_name, report)';
+
+const toSet = (row: any): BenchmarkSet => ({
+    id: row.id,
+    name: row.name,
+    niche: row.niche,
+    createdAt: row.created_at,
+});
+
+const toEntry = (row: any): BenchmarkEntry => ({
+    id: row.id,
+    auditId: row.audit_id,
+    competitor: row.competitor,
+    createdAt: row.created_at,
+    fileName: row.audits.file_name,
+    report: validateAuditReport(row.audits.report) as AuditReport,
+});
+
+const requireClient = () => {
+    if (!supabase) throw new Error("Supabase not configured");
+    return supabase;
+};
+
+export const listSets = async (workspaceId: string | null): Promise<BenchmarkSet[]> => {
+    let query = requireClient().from('benchmark_sets').select(SET_COLUMNS).order('name');
+    if (workspaceId) query = query.eq('workspace_id', workspaceId);
+    const { data, error } = await query;
+    if (error) throw new Error(error.message);
+    return (data || []).map(toSet);
+};
+
+export const createSet = async (userId: string, name: string, niche: string): Promise<BenchmarkSet> => {
+    const { data, error } = await requireClient()
+        .from('benchmark_sets')
+        .insert({ user_id: userId, name: name.trim().slice(0, BENCHMARK_LIMITS.name), niche: niche.trim().slice(0, BENCHMARK_LIMITS.niche) })
+        .select(SET_COLUMNS)
+        .single();
+    if (error) throw new Error(error.code === '23505' ? "This workspace already has a benchmark with that name." : error.message);
+    return toSet(data);
+};
+
+export const deleteSet = async (id: string) => {
+    const { error } = await requireClient().from('benchmark_sets').delete().eq('id', id);
+    if (error) throw new Error(error.message);
+};
+
+export const listEntries = async (setId: string): Promise<BenchmarkEntry[]> => {
+    const { data, error } = await requireClient()
+        .from('benchmark_entries')
+        .select(ENTRY_COLUMNS)
+        .eq('set_id', setId)
+        .order('created_at');
+    if (error) throw new Error(error.message);
+
+    // Same as history: one unreadable report shouldn't hide the rest of the set.
+    return (data || []).flatMap(row => {
+        try {
+            return [toEntry(row)];
+        } catch (err) {
+            console.error(`Skipping unreadable benchmark entry ${row.id}`, err);
+            return [];
+        }
+    });
+};
+
+export const addEntry = async (userId: string, setId: string, auditId: string, competitor: string): Promise<BenchmarkEntry> => {
+    const { data, error } = await requireClient()
+        .from('benchmark_entries')
+        .insert({ user_id: userId, set_id: setId, audit_id: auditId, competitor: competitor.trim().slice(0, BENCHMARK_LIMITS.competitor) })
+        .select(ENTRY_COLUMNS)
+        .single();
+    if (error) throw new Error(error.code === '23505' ? "That ad is already in this benchmark." : error.message);
+    return toEntry(data);
+};
+
+export const removeEntry = async (id: string) => {
+    const { error } = await requireClient().from('benchmark_entries').delete().eq('id', id);
+    if (error) throw new Error(error.message);
+};
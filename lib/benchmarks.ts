@@ -0,0 +1,70 @@
+import { AuditMetrics, AuditReport, METRIC_IDS, MetricId, reportMetrics } from "./report";
+
+// ==========================================
+// 🏁 COMPETITOR BENCHMARKING
+// ==========================================
+// A benchmark set is a library of audited competitor ads for one brand or
+// niche (stored by lib/benchmarkStore). Comparing an audit against it scores
+// each craft metric against the set's average and its best competitor.
+
+export type BenchmarkCompetitor = {
+    /** Entry id. */
+    id: string;
+    competitor: string;
+    report: AuditReport;
+};
+
+export type MetricComparison = {
+    metric: MetricId;
+    own: number;
+    average: number;
+    best: { competitor: string; score: number } | null;
+    /** own − average; negative means behind the set. */
+    gap: number;
+    /** Where the set's best does better by at least a point. */
+    behind: boolean;
+};
+
+export type BenchmarkComparison = {
+    metrics: MetricComparison[];
+    overall: { own: number; average: number; rank: number; of: number };
+};
+
+const round = (n: number) => Math.round(n * 10) / 10;
+const mean = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+/** A gap smaller than this is noise in a model's 0–10 score. */
+const BEHIND_THRESHOLD = 1;
+
+export const compareToBenchmark = (own: AuditReport, competitors: BenchmarkCompetitor[]): BenchmarkComparison => {
+    const ownMetrics = reportMetrics(own);
+    const theirs = competitors.map(c => ({ competitor: c.competitor, metrics: reportMetrics(c.report), overall: c.report.overallScore }));
+
+    const metrics = METRIC_IDS.map((metric): MetricComparison => {
+        const scores = theirs.map(t => t.metrics[metric]);
+        const average = round(mean(scores));
+        const top = theirs.reduce<{ competitor: string; metrics: AuditMetrics } | null>(
+            (best, t) => !best || t.metrics[metric] > best.metrics[metric] ? t : best, null,
+        );
+        const best = top ? { competitor: top.competitor, score: top.metrics[metric] } : null;
+        return {
+            metric,
+            own: ownMetrics[metric],
+            average,
+            best,
+            gap: round(ownMetrics[metric] - average),
+            behind: !!best && best.score - ownMetrics[metric] >= BEHIND_THRESHOLD,
+        };
+    });
+
+    const overallScores = theirs.map(t => t.overall);
+    return {
+        metrics,
+        overall: {
+            own: own.overallScore,
+            average: round(mean(overallScores)),
+            rank: overallScores.filter(score => score > own.overallScore).length + 1,
+            of: overallScores.length + 1,
+        },
+    };
+};
@@ -0,0 +1,53 @@
+import { supabase } from "./supabase";
+import { Entitlements, PlanId } from "./plans";
+
+// ==========================================
+// 💳 BILLING (entitlements + checkout)
+// ==========================================
+
+const requireClient = () => {
+    if (!supabase) throw new Error("Supabase not configured");
+    return supabase;
+};
+
+export const getEntitlements = async (): Promise<Entitlements | null> => {
+    const { data, error } = await requireClient().rpc('get_entitlements');
+    if (error) throw new Error(error.message);
+    const row = Array.isArray(data) ? data[0] : data;
+    if (!row) return null;
+    return {
+        plan: row.plan,
+        planName: row.plan_name,
+        used: row.used,
+        quota: row.quota,
+        remaining: row.remaining,
+        period: row.period,
+        periodEnd: row.period_end,
+        subscriptionStatus: row.subscription_status,
+        features: row.features || {},
+        workspace: row.workspace_id
+            ? { id: row.workspace_id, name: row.workspace_name, role: row.workspace_role, personal: row.workspace_personal }
+            : null,
+    };
+};
+
+/**
+ * Creates a Lemon Squeezy checkout for the signed-in user and navigates to it.
+ * A subscriber's plan is changed in place instead, and they land on /account.
+ */
+export const startCheckout = async (plan: PlanId) => {
+    const { data: { session } } = await requireClient().auth.getSession();
+    if (!session) throw new Error("You need to be logged in to subscribe");
+
+    const response = await fetch('/api/checkout', {
+        method: 'POST',
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ plan, redirectUrl: `${window.location.origin}/account?checkout=success` }),
+    });
+    const json = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(json.error?.message || "Could not start checkout");
+    window.location.assign(json.url);
+};
@@ -0,0 +1,55 @@
+import { supabase } from "./supabase";
+import { DEFAULT_BRANDING, ExportBranding, validateBranding } from "./exports";
+
+// ==========================================
+// 🎨 EXPORT BRANDING (public.export_branding)
+// ==========================================
+// One row per user. Without Supabase (offline demo) it lives in localStorage
+// instead, like presets.
+
+const COLUMNS = 'company_name, logo, primary_color, accent_color, cover_note';
+const LOCAL_KEY = 'viralaudit:branding';
+
+const toBranding = (row: any): ExportBranding => ({
+    companyName: row.company_name ?? '',
+    logo: row.logo ?? null,
+    primaryColor: row.primary_color ?? DEFAULT_BRANDING.primaryColor,
+    accentColor: row.accent_color ?? DEFAULT_BRANDING.accentColor,
+    coverNote: row.cover_note ?? '',
+});
+
+/** Null until the user has saved their branding. */
+export const getBranding = async (): Promise<ExportBranding | null> => {
+    if (!supabase) {
+        try {
+            const saved = localStorage.getItem(LOCAL_KEY);
+            return saved ? { ...DEFAULT_BRANDING, ...JSON.parse(saved) } : null;
+        } catch {
+            return null;
+        }
+    }
+    const { data, error } = await supabase.from('export_branding').select(COLUMNS).maybeSingle();
+    if (error) throw new Error(error.message);
+    return data ? toBranding(data) : null;
+};
+
+/** Throws BrandingValidationError for bad input. */
+export const saveBranding = async (userId: string, draft: ExportBranding): Promise<ExportBranding> => {
+    const branding = validateBranding(draft);
+
+    if (!supabase) {
+        localStorage.setItem(LOCAL_KEY, JSON.stringify(branding));
+        return branding;
+    }
+
+    const { data, error } = await supabase.from('export_branding').upsert({
+        user_id: userId,
+        company_name: branding.companyName,
+        logo: branding.logo,
+        primary_color: branding.primaryColor,
+        accent_color: branding.accentColor,
+        cover_note: branding.coverNote,
+    }).select(COLUMNS).single();
+    if (error) throw new Error(error.message);
+    return toBranding(data);
+};
@@ -0,0 +1,134 @@
+import { Severity } from "./report";
+
+// ==========================================
+// 💬 TRANSCRIPT + CAPTION CHECKS
+// ==========================================
+// Every audit asks the model for a timestamped transcript of the spoken audio
+// and on-screen text, plus caption problems it can only see in the video
+// (no burned-in captions, text under the platform's UI). Reading speed is
+// measured here from the transcript instead, so it stays right after an
+// editor fixes the transcript. Edits are stored next to the report
+// (audits.transcript) and export as SRT or WebVTT.
+
+export const CUE_KINDS = ['speech', 'onscreen'] as const;
+export type CueKind = typeof CUE_KINDS[number];
+
+export const CUE_KIND_LABELS: Record<CueKind, string> = {
+    speech: 'Speech',
+    onscreen: 'On-screen',
+};
+
+export type TranscriptCue = {
+    /** Seconds into the video. */
+    start: number;
+    end: number;
+    kind: CueKind;
+    text: string;
+};
+
+export const CAPTION_RULE_IDS = ['missing_captions', 'unsafe_zone', 'reading_speed'] as const;
+export type CaptionRuleId = typeof CAPTION_RULE_IDS[number];
+
+export const CAPTION_RULES: Record<CaptionRuleId, { label: string; description: string }> = {
+    missing_captions: {
+        label: 'Missing captions',
+        description: "Speech with no burned-in captions, so sound-off viewers miss it.",
+    },
+    unsafe_zone: {
+        label: 'Outside safe zone',
+        description: "Text under the platform's UI: the top bar, the caption and CTA area at the bottom, or the action buttons on the right.",
+    },
+    reading_speed: {
+        label: 'Reading speed',
+        description: "Text on screen for too short a time to read comfortably.",
+    },
+};
+
+export const CAPTION_LIMITS = {
+    /** Common subtitling guidance for adult viewers. */
+    maxCharsPerSecond: 20,
+    cueTextLength: 500,
+    maxCues: 300,
+};
+
+export type CaptionIssue = {
+    rule: CaptionRuleId;
+    severity: Severity;
+    title: string;
+    detail: string;
+    at: number | null;
+};
+
+/** What the model saw; reading speed is never taken from here (see captionIssues). */
+export type CaptionReport = {
+    /** Null when the model couldn't tell. */
+    burnedIn: boolean | null;
+    issues: CaptionIssue[];
+};
+
+export const charsPerSecond = (cue: TranscriptCue) =>
+    cue.text.replace(/\s+/g, ' ').trim().length / Math.max(cue.end - cue.start, 0.1);
+
+/** On-screen text only: speech sets its own pace, and viewers hear it rather than read it. */
+export const readingSpeedIssues = (cues: TranscriptCue[]): CaptionIssue[] => cues
+    .filter(cue => cue.kind === 'onscreen' && charsPerSecond(cue) > CAPTION_LIMITS.maxCharsPerSecond)
+    .map(cue => {
+        const cps = charsPerSecond(cue);
+        return {
+            rule: 'reading_speed',
+            severity: cps > CAPTION_LIMITS.maxCharsPerSecond * 1.5 ? 'high' : 'medium',
+            title: `${Math.round(cps)} characters per second`,
+            detail: `"${cue.text}" is on screen for ${(cue.end - cue.start).toFixed(1)}s. Keep it under ${CAPTION_LIMITS.maxCharsPerSecond} characters per second: hold it longer or cut words.`,
+            at: cue.start,
+        };
+    });
+
+/** The model's caption findings plus reading speed measured from the transcript, in time order. */
+export const captionIssues = (captions: CaptionReport | null, transcript: TranscriptCue[] | null): CaptionIssue[] =>
+    [...(captions?.issues ?? []), ...readingSpeedIssues(transcript ?? [])]
+        .sort((a, b) => (a.at ?? Infinity) - (b.at ?? Infinity));
+
+/** Throws a user-facing message when an edited transcript can't be saved. */
+export const checkCues = (cues: TranscriptCue[]) => {
+    if (cues.length > CAPTION_LIMITS.maxCues) throw new Error(`Transcripts are limited to ${CAPTION_LIMITS.maxCues} lines.`);
+    cues.forEach((cue, i) => {
+        if (!cue.text.trim()) throw new Error(`Line ${i + 1} is empty.`);
+        if (cue.text.length > CAPTION_LIMITS.cueTextLength) throw new Error(`Line ${i + 1} is longer than ${CAPTION_LIMITS.cueTextLength} characters.`);
+        if (!(cue.end > cue.start)) throw new Error(`Line ${i + 1} ends before it starts.`);
+    });
+};
+
+/** `m:ss.s` for the transcript editor. */
+export const formatCueTime = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+
+/** Reads `m:ss.s`, `m:ss` or plain seconds back; null when it isn't a time. */
+export const parseCueTime = (text: string): number | null => {
+    const match = text.trim().match(/^(?:(\d+):)?(\d+(?:\.\d+)?)$/);
+    if (!match) return null;
+    const seconds = Number(match[1] ?? 0) * 60 + Number(match[2]);
+    return Number.isFinite(seconds) ? Math.round(seconds * 1000) / 1000 : null;
+};
+
+export const sortCues = (cues: TranscriptCue[]) => [...cues].sort((a, b) => a.start - b.start || a.end - b.end);
+
+// ------------------------------------------
+// Export
+// ------------------------------------------
+
+const clock = (seconds: number, separator: ',' | '.') => {
+    const ms = Math.round(seconds * 1000);
+    const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+    return `${pad(Math.floor(ms / 3_600_000))}:${pad(Math.floor(ms / 60_000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+/** SubRip captions. Cue text can't contain blank lines, so they're collapsed. */
+export const toSrt = (cues: TranscriptCue[]) => sortCues(cues)
+    .map((cue, i) => `${i + 1}\n${clock(cue.start, ',')} --> ${clock(cue.end, ',')}\n${cue.text.trim().replace(/\n\s*\n/g, '\n')}\n`)
+    .join('\n');
+
+/** WebVTT captions. `-->` and `&`/`<` would break a cue, so they're escaped. */
+export const toVtt = (cues: TranscriptCue[]) => ['WEBVTT', '', ...sortCues(cues).map(cue => {
+    const text = cue.text.trim().replace(/\n\s*\n/g, '\n').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/-->/g, '→');
+    return `${clock(cue.start, '.')} --> ${clock(cue.end, '.')}\n${text}\n`;
+})].join('\n');
@@ -0,0 +1,75 @@
+import { supabase } from "./supabase";
+import { AbComparison, validateComparison } from "./comparisons";
+
+// ==========================================
+// 🆚 SAVED A/B COMPARISONS (public.audit_comparisons)
+// ==========================================
+
+export type ComparisonRecord = {
+    id: string;
+    name: string;
+    winner: string;
+    createdAt: string;
+    comparison: AbComparison;
+};
+
+const COLUMNS = 'id, name, winner, created_at, comparison';
+
+const toRecord = (row: any): ComparisonRecord => ({
+    id: row.id,
+    name: row.name,
+    winner: row.winner,
+    createdAt: row.created_at,
+    comparison: validateComparison(row.comparison),
+});
+
+const requireClient = () => {
+    if (!supabase) throw new Error("Supabase not configured");
+    return supabase;
+};
+
+/** "a.mp4 vs b.mp4", for the history list. */
+export const comparisonName = (comparison: AbComparison) =>
+    comparison.variants.map(v => v.fileName).join(' vs ').slice(0, 200);
+
+export const saveComparison = async (userId: string, comparison: AbComparison): Promise<ComparisonRecord> => {
+    const { data, error } = await requireClient()
+        .from('audit_comparisons')
+        .insert({
+            user_id: userId,
+            name: comparisonName(comparison),
+            audit_ids: comparison.variants.flatMap(v => v.auditId ? [v.auditId] : []),
+            winner: comparison.verdict.winner,
+            comparison,
+        })
+        .select(COLUMNS)
+        .single();
+    if (error) throw new Error(error.message);
+    return toRecord(data);
+};
+
+export const listComparisons = async (search = ''): Promise<ComparisonRecord[]> => {
+    let query = requireClient()
+        .from('audit_comparisons')
+        .select(COLUMNS)
+        .order('created_at', { ascending: false })
+        .limit(50);
+    const term = search.trim();
+    if (term) query = query.ilike('name', `%${term.replace(/[%_\\]/g, '\\$&')}%`);
+
+    const { data, error } = await query;
+    if (error) throw new Error(error.message);
+    return (data || []).flatMap(row => {
+        try {
+            return [toRecord(row)];
+        } catch (err) {
+            console.error(`Skipping unreadable comparison ${row.id}`, err);
+            return [];
+        }
+    });
+};
+
+export const deleteComparison = async (id: string) => {
+    const { error } = await requireClient().from('audit_comparisons').delete().eq('id', id);
+    if (error) throw new Error(error.message);
+};
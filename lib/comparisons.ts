@@ -0,0 +1,121 @@
+import { AuditReport, ReportParseError, validateAuditReport } from "./report";
+
+// ==========================================
+// 🆚 A/B COMPARISON
+// ==========================================
+// Two to four variants of the same ad are audited one by one (each is an
+// ordinary audit and costs a credit), then the worker (POST /compare) loads
+// the saved reports by id and picks a winner, for one more credit. The
+// comparison is saved in public.audit_comparisons (lib/comparisonStore) as a
+// snapshot, so it still opens if one of the audits is deleted later.
+
+export const COMPARE_LIMITS = {
+    minVariants: 2,
+    maxVariants: 4,
+};
+
+/** Variants are always called A, B, C, D in upload order. */
+export const VARIANT_LABELS = ['A', 'B', 'C', 'D'] as const;
+
+/** The reports the model compares. */
+export type CompareRequest = {
+    variants: { label: string; report: AuditReport }[];
+};
+
+/** What the app asks a provider for. The worker only takes the audit ids and reads the reports itself. */
+export type CompareVariantsRequest = {
+    variants: { label: string; auditId: string | null; report: AuditReport }[];
+    /** The comparison's credit; the same on every retry. */
+    idempotencyKey: string;
+};
+
+/** The model's judgement. Free text is markdown. */
+export type AbVerdict = {
+    /** Label of the recommended variant. */
+    winner: string;
+    reasoning: string;
+    /** How the openings differ and which works better. */
+    hook: string;
+    /** How the calls to action differ and which is clearer. */
+    cta: string;
+};
+
+export type AbVariant = {
+    label: string;
+    fileName: string;
+    /** The audit in history, when it was saved. */
+    auditId: string | null;
+    report: AuditReport;
+};
+
+export type AbComparison = {
+    version: 1;
+    variants: AbVariant[];
+    verdict: AbVerdict;
+    createdAt: string;
+};
+
+export class CompareValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CompareValidationError';
+    }
+}
+
+const AUDIT_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Validates a `{ auditIds }` comparison request from an untrusted source. Ids are in label order. */
+export const parseCompareRequest = (raw: unknown): string[] => {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) throw new CompareValidationError("Body must be a JSON object.");
+    const ids = (raw as Record<string, unknown>).auditIds;
+    if (!Array.isArray(ids) || ids.length < COMPARE_LIMITS.minVariants || ids.length > COMPARE_LIMITS.maxVariants) {
+        throw new CompareValidationError(`Compare between ${COMPARE_LIMITS.minVariants} and ${COMPARE_LIMITS.maxVariants} audits.`);
+    }
+    ids.forEach((id, i) => {
+        if (typeof id !== 'string' || !AUDIT_ID.test(id)) throw new CompareValidationError(`Variant ${VARIANT_LABELS[i]}: expected an audit id.`);
+    });
+    const normalized = ids.map(id => (id as string).toLowerCase());
+    if (new Set(normalized).size !== normalized.length) throw new CompareValidationError("Compare different audits.");
+    return normalized;
+};
+
+const expectText = (o: Record<string, unknown>, key: string) => {
+    const value = typeof o[key] === 'string' ? (o[key] as string).trim() : '';
+    if (!value) throw new ReportParseError('expected a string', key);
+    return value;
+};
+
+/** Validates the model's `{ winner, reasoning, hook, cta }` answer. */
+export const parseCompareResult = (raw: unknown, labels: readonly string[]): AbVerdict => {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) throw new ReportParseError('expected an object');
+    const o = raw as Record<string, unknown>;
+    const winner = typeof o.winner === 'string' ? o.winner.trim().toUpperCase() : '';
+    if (!labels.includes(winner)) throw new ReportParseError(`expected one of ${labels.join(', ')}`, 'winner');
+    return {
+        winner,
+        reasoning: expectText(o, 'reasoning'),
+        hook: expectText(o, 'hook'),
+        cta: expectText(o, 'cta'),
+    };
+};
+
+/** Reads a saved comparison back; throws ReportParseError when it no longer validates. */
+export const validateComparison = (raw: unknown): AbComparison => {
+    if (typeof raw !== 'object' || raw === null) throw new ReportParseError('expected an object');
+    const o = raw as Record<string, any>;
+    if (!Array.isArray(o.variants) || o.variants.length < COMPARE_LIMITS.minVariants) {
+        throw new ReportParseError('expected at least two variants', 'variants');
+    }
+    const variants: AbVariant[] = o.variants.map((v: any, i: number) => ({
+        label: VARIANT_LABELS[i],
+        fileName: typeof v?.fileName === 'string' ? v.fileName : `Variant ${VARIANT_LABELS[i]}`,
+        auditId: typeof v?.auditId === 'string' ? v.auditId : null,
+        report: validateAuditReport(v?.report),
+    }));
+    return {
+        version: 1,
+        variants,
+        verdict: parseCompareResult(o.verdict, variants.map(v => v.label)),
+        createdAt: typeof o.createdAt === 'string' ? o.createdAt : new Date().toISOString(),
+    };
+};
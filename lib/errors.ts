@@ -0,0 +1,51 @@
+import { ReportParseError } from "./report";
+import { UploadError, VideoValidationError } from "./upload";
+
+// ==========================================
+// ⚠️ AUDIT ERRORS
+// ==========================================
+// Everything that can go wrong in an audit ends up as one of these kinds, so
+// the UI can tell quota, file, network and model failures apart.
+
+export type AuditErrorKind = 'quota' | 'file' | 'network' | 'timeout' | 'model' | 'cancelled';
+
+export class AuditError extends Error {
+    constructor(
+        public kind: AuditErrorKind,
+        message: string,
+        public retryable = false,
+        public retryAfterMs: number | null = null,
+    ) {
+        super(message);
+        this.name = 'AuditError';
+    }
+}
+
+export const isAbortError = (err: unknown) => err instanceof DOMException && err.name === 'AbortError';
+
+/** Normalises anything thrown during a job into an AuditError. */
+export const toAuditError = (err: unknown): AuditError => {
+    if (err instanceof AuditError) return err;
+    if (isAbortError(err)) return new AuditError('cancelled', "Audit cancelled.");
+    if (err instanceof VideoValidationError || err instanceof UploadError) return new AuditError('file', err.message);
+    if (err instanceof ReportParseError) {
+        console.error(err);
+        return new AuditError('model', "The AI returned a report we couldn't read. Please try again.");
+    }
+    // fetch() rejects with a TypeError when the request never got a response
+    if (err instanceof TypeError) return new AuditError('network', "We couldn't reach the analysis server. Check your connection.", true);
+    return new AuditError('network', (err as Error)?.message || "Something went wrong.", true);
+};
+
+/** Maps an HTTP status from the analysis backend to an AuditError. */
+export const fromHttpStatus = (status: number, message: string | undefined, retryAfter: string | null): AuditError => {
+    const retryAfterMs = retryAfter && Number.isFinite(Number(retryAfter)) ? Number(retryAfter) * 1000 : null;
+    if (status === 402) return new AuditError('quota', message || "You've used all your audits for this plan.");
+    if (status === 429) return new AuditError('network', "The analysis server is busy. Retrying shortly.", true, retryAfterMs);
+    if (status === 400 || status === 413 || status === 415 || status === 422) {
+        return new AuditError('file', message || "The analysis server rejected this file.");
+    }
+    if (status === 408 || status === 504) return new AuditError('timeout', message || "The analysis server took too long to respond.");
+    if (status >= 500) return new AuditError('network', "The analysis server had a problem.", true, retryAfterMs);
+    return new AuditError('model', message || `Analysis failed (HTTP ${status}).`);
+};
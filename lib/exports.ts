@@ -0,0 +1,170 @@
+import { AuditReport } from "./report";
+
+// ==========================================
+// 📤 REPORT EXPORT
+// ==========================================
+// A report leaves the app as Markdown (reportToMarkdown), as JSON in the same
+// shape as AuditReport, or as a PDF. The PDF is a print-styled HTML document
+// handed to the browser's print dialog ("Save as PDF"), so no PDF library
+// ships in the bundle. Professional accounts can put their own logo, colours
+// and a cover note on it (lib/brandingStore).
+
+export const REPORT_JSON_FORMAT = 'viralaudit.report';
+
+export type ReportExport = {
+    format: typeof REPORT_JSON_FORMAT;
+    version: 1;
+    fileName: string | null;
+    auditId: string | null;
+    exportedAt: string;
+    report: AuditReport;
+};
+
+export const reportToJson = (report: AuditReport, meta: { fileName: string | null; auditId: string | null }) => {
+    const doc: ReportExport = {
+        format: REPORT_JSON_FORMAT,
+        version: 1,
+        fileName: meta.fileName,
+        auditId: meta.auditId,
+        exportedAt: new Date().toISOString(),
+        report,
+    };
+    return JSON.stringify(doc, null, 2) + '\n';
+};
+
+/** "Summer Promo v2.mp4" → "Summer-Promo-v2-audit.pdf" */
+export const exportFileName = (fileName: string | null, extension: string) => {
+    const base = (fileName ?? '').replace(/\.[^.]+$/, '').replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+    return `${base || 'viralaudit'}-audit.${extension}`;
+};
+
+// ------------------------------------------
+// Branding (Professional)
+// ------------------------------------------
+
+export type ExportBranding = {
+    companyName: string;
+    /** A small PNG/JPEG/WebP as a data URL, so exports never fetch anything. */
+    logo: string | null;
+    primaryColor: string;
+    accentColor: string;
+    /** Plain text for the cover page. */
+    coverNote: string;
+};
+
+export const BRANDING_LIMITS = {
+    companyName: 80,
+    coverNote: 1500,
+    logoBytes: 200_000,
+};
+
+export const LOGO_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+export const DEFAULT_BRANDING: ExportBranding = {
+    companyName: '',
+    logo: null,
+    primaryColor: '#FF0050',
+    accentColor: '#00F2EA',
+    coverNote: '',
+};
+
+export class BrandingValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BrandingValidationError';
+    }
+}
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const LOGO_DATA_URL = /^data:image\/(png|jpeg|webp);base64,[A-Za-z0-9+/]+=*$/;
+
+/** Trims and checks branding before it is saved. Throws BrandingValidationError. */
+export const validateBranding = (draft: ExportBranding): ExportBranding => {
+    const companyName = draft.companyName.trim();
+    const coverNote = draft.coverNote.trim();
+    if (companyName.length > BRANDING_LIMITS.companyName) throw new BrandingValidationError(`Company name is limited to ${BRANDING_LIMITS.companyName} characters.`);
+    if (coverNote.length > BRANDING_LIMITS.coverNote) throw new BrandingValidationError(`The cover note is limited to ${BRANDING_LIMITS.coverNote} characters.`);
+    for (const color of [draft.primaryColor, draft.accentColor]) {
+        if (!HEX_COLOR.test(color)) throw new BrandingValidationError(`"${color}" is not a colour like #FF0050.`);
+    }
+    if (draft.logo !== null && !LOGO_DATA_URL.test(draft.logo)) throw new BrandingValidationError("The logo must be a PNG, JPEG or WebP image.");
+    return { ...draft, companyName, coverNote, primaryColor: draft.primaryColor.toUpperCase(), accentColor: draft.accentColor.toUpperCase() };
+};
+
+/** Reads an uploaded logo into a data URL. Throws BrandingValidationError for the wrong type or size. */
+export const readLogo = (file: File) => new Promise<string>((resolve, reject) => {
+    if (!LOGO_TYPES.includes(file.type)) return reject(new BrandingValidationError("Use a PNG, JPEG or WebP logo."));
+    if (file.size > BRANDING_LIMITS.logoBytes) return reject(new BrandingValidationError(`Logos are limited to ${Math.round(BRANDING_LIMITS.logoBytes / 1000)} KB.`));
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new BrandingValidationError("Couldn't read that image."));
+    reader.readAsDataURL(file);
+});
+
+// ------------------------------------------
+// PDF
+// ------------------------------------------
+
+const escapeHtml = (text: string) => text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+
+const PRINT_STYLES = `
+@page { size: A4; margin: 16mm 14mm; }
+* { box-sizing: border-box; }
+body { margin: 0; font: 10.5pt/1.5 -apple-system, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; color: #1a1a1a; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+h1, h2, h3 { margin: 0; line-height: 1.25; }
+h2 { font-size: 13pt; color: var(--primary); border-bottom: 2px solid var(--accent); padding-bottom: 3pt; margin: 18pt 0 8pt; display: flex; justify-content: space-between; break-after: avoid; }
+p { margin: 4pt 0; }
+ul, ol { margin: 4pt 0; padding-left: 16pt; }
+table { width: 100%; border-collapse: collapse; margin: 6pt 0; }
+th, td { text-align: left; vertical-align: top; padding: 3pt 6pt; border-bottom: 1px solid #e5e5e5; }
+th { font-size: 8.5pt; text-transform: uppercase; color: #666; }
+tr { break-inside: avoid; }
+code { font-family: ui-monospace, Menlo, monospace; font-size: 9pt; }
+.cover { height: 255mm; display: flex; flex-direction: column; justify-content: center; break-after: page; border-left: 8px solid var(--primary); padding-left: 14mm; }
+.cover img { max-height: 28mm; max-width: 80mm; object-fit: contain; align-self: flex-start; margin-bottom: 18mm; }
+.cover h1 { font-size: 28pt; }
+.cover .note { margin-top: 14mm; white-space: pre-wrap; max-width: 140mm; }
+.muted { color: #666; font-size: 9pt; }
+.masthead { display: flex; justify-content: space-between; align-items: center; border-bottom: 1px solid #ddd; padding-bottom: 6pt; margin-bottom: 12pt; }
+.masthead img { max-height: 10mm; max-width: 40mm; object-fit: contain; }
+.score { display: flex; gap: 14pt; align-items: center; background: #f6f6f6; border-left: 4px solid var(--accent); padding: 10pt 12pt; break-inside: avoid; }
+.score .value { font-size: 30pt; font-weight: 700; color: var(--primary); font-family: ui-monospace, Menlo, monospace; }
+.pill { display: inline-block; font-size: 7.5pt; font-weight: 700; text-transform: uppercase; border: 1px solid currentColor; border-radius: 3pt; padding: 0 4pt; }
+.sev-low { color: #2563eb; } .sev-medium { color: #b45309; } .sev-high { color: #ea580c; } .sev-critical { color: #dc2626; }
+.at { font-family: ui-monospace, Menlo, monospace; font-size: 9pt; color: var(--primary); white-space: nowrap; }
+footer { margin-top: 24pt; border-top: 1px solid #ddd; padding-top: 6pt; }
+`;
+
+/** Wraps a rendered report body in a standalone, print-styled page. */
+export const printableDocument = (title: string, body: string, branding: ExportBranding) => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>:root { --primary: ${branding.primaryColor}; --accent: ${branding.accentColor}; }${PRINT_STYLES}</style>
+</head>
+<body>${body}</body>
+</html>`;
+
+/**
+ * Opens the print dialog for a document without leaving the page. The frame
+ * is sandboxed: it may print but never run scripts.
+ */
+export const printDocument = (html: string) => new Promise<void>((resolve, reject) => {
+    const frame = document.createElement('iframe');
+    frame.setAttribute('sandbox', 'allow-same-origin allow-modals');
+    frame.style.cssText = 'position:fixed;right:0;bottom:0;width:0;height:0;border:0';
+    frame.onload = () => {
+        const win = frame.contentWindow;
+        if (!win) {
+            frame.remove();
+            return reject(new Error("Couldn't prepare the PDF."));
+        }
+        win.addEventListener('afterprint', () => frame.remove(), { once: true });
+        win.focus();
+        win.print();
+        resolve();
+    };
+    frame.srcdoc = html;
+    document.body.appendChild(frame);
+});
@@ -0,0 +1,74 @@
+// ==========================================
+// 🎞️ KEYFRAME EXTRACTION
+// ==========================================
+// Grabs evenly spaced thumbnails from a video in the browser, for the
+// timeline under the report's player. Nothing is uploaded. A remote video
+// served without CORS headers taints the canvas; then there are simply no
+// thumbnails and the timeline shows markers only.
+
+export type Keyframe = {
+    /** Seconds into the video. */
+    at: number;
+    /** JPEG data URL. */
+    src: string;
+};
+
+export const KEYFRAME_OPTIONS = {
+    count: 12,
+    width: 96,
+    /** Per seek; some browsers never fire `seeked` for broken files. */
+    seekTimeoutMs: 5000,
+};
+
+const waitFor = (video: HTMLVideoElement, event: 'loadedmetadata' | 'seeked', timeoutMs: number) =>
+    new Promise<void>((resolve, reject) => {
+        const cleanup = () => {
+            clearTimeout(timer);
+            video.removeEventListener(event, onDone);
+            video.removeEventListener('error', onError);
+        };
+        const onDone = () => { cleanup(); resolve(); };
+        const onError = () => { cleanup(); reject(new Error("Video could not be decoded")); };
+        const timer = setTimeout(() => { cleanup(); reject(new Error(`Timed out waiting for ${event}`)); }, timeoutMs);
+        video.addEventListener(event, onDone);
+        video.addEventListener('error', onError);
+    });
+
+/** Resolves to as many keyframes as could be read; never rejects. */
+export const extractKeyframes = async (src: string, signal?: AbortSignal, count = KEYFRAME_OPTIONS.count): Promise<Keyframe[]> => {
+    const video = document.createElement('video');
+    video.crossOrigin = 'anonymous';
+    video.muted = true;
+    video.preload = 'auto';
+    video.src = src;
+
+    const frames: Keyframe[] = [];
+    try {
+        await waitFor(video, 'loadedmetadata', KEYFRAME_OPTIONS.seekTimeoutMs);
+        const { duration, videoWidth, videoHeight } = video;
+        if (!Number.isFinite(duration) || !videoWidth) return frames;
+
+        const canvas = document.createElement('canvas');
+        canvas.width = KEYFRAME_OPTIONS.width;
+        canvas.height = Math.round(KEYFRAME_OPTIONS.width * videoHeight / videoWidth);
+        const context = canvas.getContext('2d');
+        if (!context) return frames;
+
+        for (let i = 0; i < count; i++) {
+            if (signal?.aborted) break;
+            // Middle of each slice, so the first frame isn't a black fade-in
+            const at = (duration * (i + 0.5)) / count;
+            video.currentTime = at;
+            await waitFor(video, 'seeked', KEYFRAME_OPTIONS.seekTimeoutMs);
+            context.drawImage(video, 0, 0, canvas.width, canvas.height);
+            frames.push({ at, src: canvas.toDataURL('image/jpeg', 0.6) });
+        }
+    } catch (err) {
+        // Tainted canvas, undecodable file or a stalled seek: keep what we have
+        console.warn("Keyframe extraction stopped early", err);
+    } finally {
+        video.removeAttribute('src');
+        video.load();
+    }
+    return frames;
+};
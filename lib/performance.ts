@@ -0,0 +1,447 @@
+import { SECTION_IDS, SECTION_META } from "./report";
+
+// ==========================================
+// 📈 AD PERFORMANCE (imports and correlation)
+// ==========================================
+// Results exported from Meta Ads Manager or TikTok Ads are parsed here, one
+// row per creative, and matched to audits by file name (stored by
+// lib/performanceStore). Correlating the matched audits' scores with those
+// results shows which parts of the audit actually predict performance.
+
+export const PERFORMANCE_SOURCES = ['meta', 'tiktok', 'other'] as const;
+export type PerformanceSource = typeof PERFORMANCE_SOURCES[number];
+
+export const PERFORMANCE_SOURCE_LABELS: Record<PerformanceSource, string> = {
+    meta: 'Meta Ads Manager',
+    tiktok: 'TikTok Ads',
+    other: 'Other CSV',
+};
+
+/** Keep in step with import_ad_performance(). */
+export const PERFORMANCE_LIMITS = {
+    fileBytes: 10 * 1024 * 1024,
+    rows: 5000,
+    creativeName: 300,
+};
+
+/** A creative's results. Rates are recomputed from the counts when rows are combined. */
+export type PerformanceFigures = {
+    spend: number | null;
+    impressions: number | null;
+    clicks: number | null;
+    /** 3-second plays (Meta) or 2-second views (TikTok). */
+    hookViews: number | null;
+    purchaseValue: number | null;
+    /** Percent, e.g. 1.5 for 1.5%. */
+    ctr: number | null;
+    /** Percent of impressions that watched past the hook. */
+    hookRate: number | null;
+    roas: number | null;
+    /** yyyy-mm-dd */
+    dateStart: string | null;
+    dateEnd: string | null;
+};
+
+export type PerformanceRowDraft = PerformanceFigures & { creativeName: string };
+
+export class PerformanceImportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PerformanceImportError';
+    }
+}
+
+// ------------------------------------------
+// CSV
+// ------------------------------------------
+
+/** Comma, semicolon (European Excel) or tab, whichever splits the header most. */
+const detectDelimiter = (header: string) =>
+    [',', ';', '\t'].reduce((best, d) => header.split(d).length > header.split(best).length ? d : best, ',');
+
+/** RFC 4180: quoted fields may hold delimiters, newlines and doubled quotes. Blank lines are dropped. */
+export const parseCsv = (text: string): string[][] => {
+    text = text.replace(/^\uFEFF/, '');
+    const delimiter = detectDelimiter(text.split(/\r?\n/, 1)[0]);
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if (quoted) {
+            if (c !== '"') field += c;
+            else if (text[i + 1] === '"') field += text[i++];
+            else quoted = false;
+        } else if (c === '"' && field === '') {
+            quoted = true;
+        } else if (c === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (c === '\n' || c === '\r') {
+            if (c === '\r' && text[i + 1] === '\n') i++;
+            rows.push([...row, field]);
+            row = [];
+            field = '';
+        } else {
+            field += c;
+        }
+    }
+    if (field || row.length) rows.push([...row, field]);
+    return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+/** Semicolon files come from Excel in locales that write decimals with a comma; comma files never do. */
+const decimalSeparator = (delimiter: string) => delimiter === ';' ? ',' : delimiter === ',' ? '.' : null;
+
+/**
+ * "$1,234.56", "1.234,56 €", "2.5%", "-" → numbers (or null). With the
+ * file's `decimal` separator known, "1.234" and "1,234" go by it; without,
+ * a lone "1,234" is read as thousands.
+ */
+export const parseNumber = (raw: string | undefined, decimal: ',' | '.' | null = null): number | null => {
+    let s = (raw ?? '').replace(/[\s %]/g, '').replace(/^[^\d.,-]+|[^\d.,]+$/g, '');
+    if (!s || s === '-') return null;
+    const comma = s.lastIndexOf(','), dot = s.lastIndexOf('.');
+    const commaDecimal = comma > dot
+        ? decimal === ',' || (decimal === null && !/^-?\d{1,3}(,\d{3})+$/.test(s))
+        : decimal === ',' && comma === -1 && /^-?\d{1,3}(\.\d{3})+$/.test(s);
+    s = commaDecimal ? s.replace(/\./g, '').replace(',', '.') : s.replace(/,/g, '');
+    const n = Number(s);
+    return Number.isFinite(n) ? n : null;
+};
+
+/** Results can't be negative; a refund or correction row shows up as a missing value instead. */
+const parseFigure = (raw: string | undefined, decimal: ',' | '.' | null) => {
+    const n = parseNumber(raw, decimal);
+    return n !== null && n >= 0 ? n : null;
+};
+
+/** yyyy-mm-dd. Other formats are read as the local calendar date, as the export meant it. */
+const parseDate = (raw: string | undefined) => {
+    const value = (raw ?? '').trim();
+    if (/^\d{4}-\d{2}-\d{2}/.test(value)) return value.slice(0, 10);
+    const date = new Date(value);
+    if (!value || Number.isNaN(date.getTime())) return null;
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// ------------------------------------------
+// Columns
+// ------------------------------------------
+
+type PerformanceField = keyof PerformanceRowDraft;
+
+/**
+ * Header names per field, most specific first. Exports add the currency to
+ * money columns ("Amount spent (EUR)"), so `<alias> (...)` matches too.
+ */
+const COLUMN_ALIASES: Record<PerformanceField, string[]> = {
+    creativeName: ['ad name', 'creative name', 'ad creative name', 'video name', 'creative', 'ad'],
+    spend: ['amount spent', 'spend', 'cost', 'total cost'],
+    impressions: ['impressions'],
+    clicks: ['link clicks', 'clicks (destination)', 'clicks', 'clicks (all)'],
+    hookViews: ['3-second video plays', '3-second video views', '2-second video views', 'video views at 2s'],
+    purchaseValue: ['purchases conversion value', 'website purchases conversion value', 'purchase value', 'total complete payment value', 'conversion value'],
+    ctr: ['ctr (link click-through rate)', 'ctr (destination)', 'ctr', 'ctr (all)'],
+    hookRate: ['hook rate', 'thumbstop rate', 'thumb-stop rate', 'thumbstop ratio'],
+    roas: ['purchase roas (return on ad spend)', 'website purchase roas (return on ad spend)', 'roas', 'purchase roas', 'complete payment roas', 'total roas'],
+    dateStart: ['reporting starts', 'start date', 'date', 'day', 'by day'],
+    dateEnd: ['reporting ends', 'end date'],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const findColumn = (headers: string[], aliases: string[]) => {
+    for (const alias of aliases) {
+        const index = headers.indexOf(alias);
+        if (index !== -1) return index;
+    }
+    for (const alias of aliases) {
+        const index = headers.findIndex(h => h.startsWith(`${alias} (`));
+        if (index !== -1) return index;
+    }
+    return -1;
+};
+
+const detectSource = (headers: string[]): PerformanceSource => {
+    if (headers.some(h => h === 'reporting starts' || h.startsWith('amount spent') || h.startsWith('3-second video plays'))) return 'meta';
+    if (headers.some(h => h === 'cost' || h.startsWith('video views at 2s') || h.startsWith('2-second video views') || h.includes('complete payment'))) return 'tiktok';
+    return 'other';
+};
+
+// ------------------------------------------
+// Combining rows
+// ------------------------------------------
+
+const RATES = [
+    { rate: 'ctr', num: 'clicks', den: 'impressions', scale: 100 },
+    { rate: 'hookRate', num: 'hookViews', den: 'impressions', scale: 100 },
+    { rate: 'roas', num: 'purchaseValue', den: 'spend', scale: 1 },
+] as const;
+
+const COUNTS = ['spend', 'impressions', 'clicks', 'hookViews', 'purchaseValue'] as const;
+
+const round = (n: number, digits = 4) => Math.round(n * 10 ** digits) / 10 ** digits;
+
+/**
+ * One creative's results from several rows (days, ad sets, or imports):
+ * counts are summed and rates recomputed from them, or, when an export only
+ * has the rates, averaged weighted by impressions (spend for ROAS).
+ */
+export const combineFigures = (figures: PerformanceFigures[]): PerformanceFigures => {
+    const combined = {} as PerformanceFigures;
+    for (const key of COUNTS) {
+        const values = figures.map(f => f[key]).filter((v): v is number => v !== null);
+        combined[key] = values.length ? round(values.reduce((a, b) => a + b, 0)) : null;
+    }
+    for (const { rate, num, den, scale } of RATES) {
+        const total = combined[den];
+        const fromCounts = figures.every(f => f[num] !== null && f[den] !== null) && total !== null && total > 0;
+        if (fromCounts && (figures.length > 1 || figures[0][rate] === null)) {
+            combined[rate] = round(combined[num]! / total * scale);
+            continue;
+        }
+        const rated = figures.filter(f => f[rate] !== null);
+        const weight = (f: PerformanceFigures) => f[den] ?? 1;
+        const weights = rated.reduce((sum, f) => sum + weight(f), 0);
+        combined[rate] = rated.length && weights > 0 ? round(rated.reduce((sum, f) => sum + f[rate]! * weight(f), 0) / weights) : null;
+    }
+    const starts = figures.map(f => f.dateStart).filter((d): d is string => !!d).sort();
+    const ends = figures.map(f => f.dateEnd ?? f.dateStart).filter((d): d is string => !!d).sort();
+    combined.dateStart = starts[0] ?? null;
+    combined.dateEnd = ends[ends.length - 1] ?? null;
+    return combined;
+};
+
+export type ParsedPerformance = {
+    source: PerformanceSource;
+    /** One per creative name. */
+    rows: PerformanceRowDraft[];
+    /** Fields found in the header, for the preview. */
+    fields: PerformanceField[];
+    /** Rows without a name (e.g. a totals row) or without any results. */
+    skipped: number;
+};
+
+/** Reads an Ads Manager / TikTok Ads export. Rows with the same ad name are combined. */
+export const parsePerformanceCsv = (text: string): ParsedPerformance => {
+    const [header, ...lines] = parseCsv(text);
+    if (!header || lines.length === 0) throw new PerformanceImportError("The file has no rows.");
+    const decimal = decimalSeparator(detectDelimiter(text.replace(/^\uFEFF/, '').split(/\r?\n/, 1)[0]));
+
+    const headers = header.map(normalizeHeader);
+    const columns = Object.fromEntries(
+        (Object.keys(COLUMN_ALIASES) as PerformanceField[]).map(field => [field, findColumn(headers, COLUMN_ALIASES[field])]),
+    ) as Record<PerformanceField, number>;
+    if (columns.creativeName === -1) {
+        throw new PerformanceImportError("Couldn't find the ad name column. Include \"Ad name\" (or \"Video name\") in the export.");
+    }
+    const fields = (Object.keys(columns) as PerformanceField[]).filter(field => columns[field] !== -1);
+    const canMeasure = RATES.some(({ rate, num, den }) => fields.includes(rate) || (fields.includes(num) && fields.includes(den)));
+    if (!canMeasure) {
+        throw new PerformanceImportError("Couldn't find CTR, hook rate or ROAS (or the counts to work them out) in the file.");
+    }
+
+    const byName = new Map<string, PerformanceFigures[]>();
+    let skipped = 0;
+    for (const line of lines) {
+        const cell = (field: PerformanceField) => columns[field] === -1 ? undefined : line[columns[field]];
+        const name = (cell('creativeName') ?? '').trim().slice(0, PERFORMANCE_LIMITS.creativeName);
+        const figures: PerformanceFigures = {
+            spend: parseFigure(cell('spend'), decimal),
+            impressions: parseFigure(cell('impressions'), decimal),
+            clicks: parseFigure(cell('clicks'), decimal),
+            hookViews: parseFigure(cell('hookViews'), decimal),
+            purchaseValue: parseFigure(cell('purchaseValue'), decimal),
+            ctr: parseFigure(cell('ctr'), decimal),
+            hookRate: parseFigure(cell('hookRate'), decimal),
+            roas: parseFigure(cell('roas'), decimal),
+            dateStart: parseDate(cell('dateStart')),
+            dateEnd: parseDate(cell('dateEnd')),
+        };
+        const hasResults = [...COUNTS, ...RATES.map(r => r.rate)].some(key => figures[key] !== null);
+        if (!name || /^totals?$/i.test(name) || !hasResults) {
+            skipped++;
+            continue;
+        }
+        byName.set(name, [...(byName.get(name) ?? []), figures]);
+    }
+
+    if (byName.size === 0) throw new PerformanceImportError("None of the rows has an ad name and results.");
+    if (byName.size > PERFORMANCE_LIMITS.rows) {
+        throw new PerformanceImportError(`The file has ${byName.size} ads; import at most ${PERFORMANCE_LIMITS.rows} at a time.`);
+    }
+
+    return {
+        source: detectSource(headers),
+        rows: [...byName].map(([creativeName, figures]) => ({ creativeName, ...combineFigures(figures) })),
+        fields,
+        skipped,
+    };
+};
+
+// ------------------------------------------
+// Matching rows to audits
+// ------------------------------------------
+
+export type AuditOption = {
+    id: string;
+    fileName: string;
+    createdAt: string;
+};
+
+/** "Summer_Promo V2.mp4" → "summer promo v2" */
+export const creativeKey = (name: string) =>
+    name.toLowerCase().replace(/\.(mp4|mov|webm|m4v)$/, '').replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+/** Shorter audit names are too generic ("ad 1") to find inside an ad name. */
+const MIN_CONTAINED_KEY = 6;
+
+/**
+ * The audit each row matches by file name, or null: the same name, or else
+ * the longest audit name found inside the ad name ("Summer Promo v2 – Copy").
+ * When several audits share a name, the newest wins.
+ */
+export const matchByFileName = (names: string[], audits: AuditOption[]): (string | null)[] => {
+    const byKey = new Map<string, AuditOption>();
+    for (const audit of [...audits].sort((a, b) => a.createdAt.localeCompare(b.createdAt))) {
+        const key = creativeKey(audit.fileName);
+        if (key) byKey.set(key, audit);
+    }
+    const keys = [...byKey.keys()].filter(key => key.length >= MIN_CONTAINED_KEY).sort((a, b) => b.length - a.length);
+
+    return names.map(name => {
+        const key = creativeKey(name);
+        const contained = byKey.has(key) ? key : keys.find(k => ` ${key} `.includes(` ${k} `));
+        return contained ? byKey.get(contained)!.id : null;
+    });
+};
+
+// ------------------------------------------
+// Correlation
+// ------------------------------------------
+
+export const SCORE_DIMENSIONS = ['overall', ...SECTION_IDS] as const;
+export type ScoreDimension = typeof SCORE_DIMENSIONS[number];
+
+export const SCORE_DIMENSION_LABELS: Record<ScoreDimension, string> = {
+    overall: 'Overall score',
+    ...Object.fromEntries(SECTION_IDS.map(id => [id, `${SECTION_META[id].icon} ${SECTION_META[id].label[0]}${SECTION_META[id].label.slice(1).toLowerCase()}`])) as Record<typeof SECTION_IDS[number], string>,
+};
+
+export const OUTCOME_METRICS = ['ctr', 'hookRate', 'roas'] as const;
+export type OutcomeMetric = typeof OUTCOME_METRICS[number];
+
+export const OUTCOME_META: Record<OutcomeMetric, { label: string; format: (value: number) => string }> = {
+    ctr: { label: 'CTR', format: v => `${v.toFixed(2)}%` },
+    hookRate: { label: 'Hook rate', format: v => `${v.toFixed(1)}%` },
+    roas: { label: 'ROAS', format: v => `${v.toFixed(2)}×` },
+};
+
+/** An audited creative with its results (all of its rows combined). */
+export type ScoredOutcome = {
+    auditId: string;
+    scores: Record<ScoreDimension, number | null>;
+    figures: PerformanceFigures;
+};
+
+export type CorrelationStrength = 'none' | 'weak' | 'moderate' | 'strong';
+
+export type Correlation = {
+    score: ScoreDimension;
+    metric: OutcomeMetric;
+    /** Audited creatives with both a score and this result. */
+    n: number;
+    /** Spearman's rank correlation, −1 to 1; null below the minimum sample. */
+    rho: number | null;
+    strength: CorrelationStrength;
+    /** Roughly p < 0.05: unlikely to be chance at this sample size. */
+    significant: boolean;
+};
+
+/** Below this many creatives a correlation says nothing. */
+export const CORRELATION_MIN_SAMPLES = 5;
+
+/** Ranks from 1, ties sharing their average rank. */
+const ranks = (values: number[]) => {
+    const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+    const result = new Array<number>(values.length);
+    for (let i = 0; i < order.length;) {
+        let j = i;
+        while (j + 1 < order.length && order[j + 1].value === order[i].value) j++;
+        for (let k = i; k <= j; k++) result[order[k].index] = (i + j) / 2 + 1;
+        i = j + 1;
+    }
+    return result;
+};
+
+const pearson = (x: number[], y: number[]) => {
+    const mx = x.reduce((a, b) => a + b, 0) / x.length;
+    const my = y.reduce((a, b) => a + b, 0) / y.length;
+    let cov = 0, vx = 0, vy = 0;
+    for (let i = 0; i < x.length; i++) {
+        cov += (x[i] - mx) * (y[i] - my);
+        vx += (x[i] - mx) ** 2;
+        vy += (y[i] - my) ** 2;
+    }
+    return vx && vy ? cov / Math.sqrt(vx * vy) : null;
+};
+
+/** Spearman's rho: Pearson on ranks, so one viral outlier can't carry the result. Null when either side is constant. */
+export const spearman = (x: number[], y: number[]) => pearson(ranks(x), ranks(y));
+
+const strengthOf = (rho: number | null): CorrelationStrength => {
+    const r = Math.abs(rho ?? 0);
+    return r >= 0.6 ? 'strong' : r >= 0.4 ? 'moderate' : r >= 0.2 ? 'weak' : 'none';
+};
+
+/** Combines the rows linked to the same audit. */
+export const outcomesByAudit = (rows: (PerformanceFigures & { auditId: string | null; scores: Record<ScoreDimension, number | null> | null })[]): ScoredOutcome[] => {
+    const groups = new Map<string, typeof rows>();
+    for (const row of rows) {
+        if (row.auditId && row.scores) groups.set(row.auditId, [...(groups.get(row.auditId) ?? []), row]);
+    }
+    return [...groups].map(([auditId, group]) => ({ auditId, scores: group[0].scores!, figures: combineFigures(group) }));
+};
+
+export const correlate = (outcomes: ScoredOutcome[]): Correlation[] =>
+    SCORE_DIMENSIONS.flatMap(score => OUTCOME_METRICS.map((metric): Correlation => {
+        const pairs = outcomes.filter(o => o.scores[score] !== null && o.figures[metric] !== null);
+        const n = pairs.length;
+        const rho = n >= CORRELATION_MIN_SAMPLES
+            ? spearman(pairs.map(p => p.scores[score]!), pairs.map(p => p.figures[metric]!))
+            : null;
+        return {
+            score,
+            metric,
+            n,
+            rho: rho === null ? null : round(rho, 2),
+            strength: strengthOf(rho),
+            // Spearman's standard error is about 1/√(n−1)
+            significant: rho !== null && Math.abs(rho) >= 1.96 / Math.sqrt(n - 1),
+        };
+    }));
+
+export type TrustVerdict = 'predictive' | 'misleading' | 'unproven' | 'too_little_data';
+
+export const TRUST_META: Record<TrustVerdict, { label: string; description: string }> = {
+    predictive: { label: 'Trust it', description: "Higher scores went with better results." },
+    misleading: { label: 'Be wary', description: "Higher scores went with worse results." },
+    unproven: { label: 'Unproven', description: "No clear link to results yet; more data may show one." },
+    too_little_data: { label: 'Not enough data', description: `Needs at least ${CORRELATION_MIN_SAMPLES} audited creatives with results.` },
+};
+
+/** How far each score can be trusted: its clearest significant correlation, if any. */
+export const trustVerdicts = (correlations: Correlation[]): { score: ScoreDimension; verdict: TrustVerdict; basis: Correlation | null }[] =>
+    SCORE_DIMENSIONS.map(score => {
+        const own = correlations.filter(c => c.score === score);
+        if (own.every(c => c.n < CORRELATION_MIN_SAMPLES)) return { score, verdict: 'too_little_data', basis: null };
+        const significant = own.filter(c => c.significant).sort((a, b) => Math.abs(b.rho!) - Math.abs(a.rho!));
+        const positive = significant.find(c => c.rho! > 0);
+        if (positive) return { score, verdict: 'predictive', basis: positive };
+        if (significant[0]) return { score, verdict: 'misleading', basis: significant[0] };
+        return { score, verdict: 'unproven', basis: null };
+    });
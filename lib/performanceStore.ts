@@ -0,0 +1,188 @@
+import { supabase } from "./supabase";
+import {
+    AuditOption, ParsedPerformance, PerformanceRowDraft, PerformanceSource, ScoreDimension, matchByFileName
+} from "./performance";
+
+// ==========================================
+// 📈 PERFORMANCE DATA (public.performance_imports / performance_rows)
+// ==========================================
+// An import and its rows are written together by import_ad_performance(), in
+// the current workspace. Afterwards members only change which audit a row is
+// linked to.
+
+export type PerformanceImport = {
+    id: string;
+    userId: string;
+    source: PerformanceSource;
+    fileName: string;
+    rowCount: number;
+    createdAt: string;
+};
+
+export type PerformanceMatch = 'file_name' | 'manual';
+
+export type PerformanceRow = PerformanceRowDraft & {
+    id: string;
+    importId: string;
+    auditId: string | null;
+    match: PerformanceMatch | null;
+    /** The linked audit's name and scores. */
+    audit: { fileName: string; scores: Record<ScoreDimension, number | null> } | null;
+};
+
+const IMPORT_COLUMNS = 'id, user_id, source, file_name, row_count, created_at';
+const ROW_COLUMNS = 'id, import_id, creative_name, audit_id, match_method, spend, impressions, clicks, hook_views, purchase_value, ctr, hook_rate, roas, date_start, date_end, '
+    + 'audits (file_name, overall_score, hook_score, body_score, audio_score, script_score)';
+
+const IMPORT_ERRORS: Record<string, string> = {
+    no_rows: "The file has no rows to import.",
+    too_many_rows: "Import at most 5000 ads at a time.",
+};
+
+const PAGE_SIZE = 1000;
+
+const toImport = (row: any): PerformanceImport => ({
+    id: row.id,
+    userId: row.user_id,
+    source: row.source,
+    fileName: row.file_name,
+    rowCount: row.row_count,
+    createdAt: row.created_at,
+});
+
+// numeric columns come back as strings
+const num = (value: unknown) => value === null || value === undefined ? null : Number(value);
+
+const toRow = (row: any): PerformanceRow => ({
+    id: row.id,
+    importId: row.import_id,
+    creativeName: row.creative_name,
+    auditId: row.audit_id ?? null,
+    match: row.match_method ?? null,
+    spend: num(row.spend),
+    impressions: num(row.impressions),
+    clicks: num(row.clicks),
+    hookViews: num(row.hook_views),
+    purchaseValue: num(row.purchase_value),
+    ctr: num(row.ctr),
+    hookRate: num(row.hook_rate),
+    roas: num(row.roas),
+    dateStart: row.date_start ?? null,
+    dateEnd: row.date_end ?? null,
+    audit: row.audits ? {
+        fileName: row.audits.file_name,
+        scores: {
+            overall: num(row.audits.overall_score),
+            hook: num(row.audits.hook_score),
+            body: num(row.audits.body_score),
+            audio: num(row.audits.audio_score),
+            script: num(row.audits.script_score),
+        },
+    } : null,
+});
+
+const requireClient = () => {
+    if (!supabase) throw new Error("Supabase not configured");
+    return supabase;
+};
+
+/** All pages of a query, past PostgREST's row limit. */
+const selectAll = async (build: (from: number, to: number) => PromiseLike<{ data: any[] | null; error: { message: string } | null }>) => {
+    const rows: any[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await build(from, from + PAGE_SIZE - 1);
+        if (error) throw new Error(error.message);
+        rows.push(...(data || []));
+        if (!data || data.length < PAGE_SIZE) return rows;
+    }
+};
+
+export const listImports = async (workspaceId: string | null): Promise<PerformanceImport[]> => {
+    let query = requireClient().from('performance_imports').select(IMPORT_COLUMNS).order('created_at', { ascending: false });
+    if (workspaceId) query = query.eq('workspace_id', workspaceId);
+    const { data, error } = await query;
+    if (error) throw new Error(error.message);
+    return (data || []).map(toImport);
+};
+
+export const listPerformanceRows = async (workspaceId: string | null): Promise<PerformanceRow[]> => {
+    const rows = await selectAll((from, to) => {
+        let query = requireClient().from('performance_rows').select(ROW_COLUMNS).order('created_at').order('id').range(from, to);
+        if (workspaceId) query = query.eq('workspace_id', workspaceId);
+        return query;
+    });
+    return rows.map(toRow);
+};
+
+/** Every audit in the workspace, light, for matching and the link picker. Newest first. */
+export const listAuditOptions = async (workspaceId: string | null): Promise<AuditOption[]> => {
+    const rows = await selectAll((from, to) => {
+        let query = requireClient().from('audits').select('id, file_name, created_at').order('created_at', { ascending: false }).range(from, to);
+        if (workspaceId) query = query.eq('workspace_id', workspaceId);
+        return query;
+    });
+    return rows.map(row => ({ id: row.id, fileName: row.file_name, createdAt: row.created_at }));
+};
+
+/** Stores a parsed export in the current workspace, matching rows to `audits` by file name. */
+export const importPerformance = async (fileName: string, parsed: ParsedPerformance, audits: AuditOption[]): Promise<string> => {
+    const matches = matchByFileName(parsed.rows.map(row => row.creativeName), audits);
+    const { data, error } = await requireClient().rpc('import_ad_performance', {
+        p_source: parsed.source,
+        p_file_name: fileName,
+        p_rows: parsed.rows.map((row, i) => ({
+            creative_name: row.creativeName,
+            audit_id: matches[i],
+            spend: row.spend,
+            impressions: row.impressions === null ? null : Math.round(row.impressions),
+            clicks: row.clicks === null ? null : Math.round(row.clicks),
+            hook_views: row.hookViews === null ? null : Math.round(row.hookViews),
+            purchase_value: row.purchaseValue,
+            ctr: row.ctr,
+            hook_rate: row.hookRate,
+            roas: row.roas,
+            date_start: row.dateStart,
+            date_end: row.dateEnd,
+        })),
+    });
+    if (error) throw new Error(IMPORT_ERRORS[error.message] ?? error.message);
+    return data as string;
+};
+
+export const deleteImport = async (id: string) => {
+    const { error } = await requireClient().from('performance_imports').delete().eq('id', id);
+    if (error) throw new Error(error.message);
+};
+
+/** Links a row to an audit by hand, or unlinks it (null). */
+export const linkRow = async (id: string, auditId: string | null): Promise<PerformanceRow> => {
+    const { data, error } = await requireClient()
+        .from('performance_rows')
+        .update({ audit_id: auditId, match_method: auditId ? 'manual' : null })
+        .eq('id', id)
+        .select(ROW_COLUMNS)
+        .single();
+    if (error) throw new Error(error.message);
+    return toRow(data);
+};
+
+/** Matches unlinked rows again, e.g. after the ads were audited. Returns how many were linked. */
+export const rematchRows = async (rows: PerformanceRow[], audits: AuditOption[]) => {
+    const unlinked = rows.filter(row => !row.auditId);
+    const matches = matchByFileName(unlinked.map(row => row.creativeName), audits);
+    const byAudit = new Map<string, string[]>();
+    unlinked.forEach((row, i) => {
+        if (matches[i]) byAudit.set(matches[i]!, [...(byAudit.get(matches[i]!) ?? []), row.id]);
+    });
+    for (const [auditId, ids] of byAudit) {
+        // Ids go in the URL, so long lists are sent in parts
+        for (let i = 0; i < ids.length; i += 200) {
+            const { error } = await requireClient()
+                .from('performance_rows')
+                .update({ audit_id: auditId, match_method: 'file_name' })
+                .in('id', ids.slice(i, i + 200));
+            if (error) throw new Error(error.message);
+        }
+    }
+    return [...byAudit.values()].reduce((sum, ids) => sum + ids.length, 0);
+};
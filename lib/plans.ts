@@ -0,0 +1,48 @@
+import { CurrentWorkspace } from "./workspaces";
+
+// ==========================================
+// 💳 PLAN CATALOGUE
+// ==========================================
+// Display data for the pricing page. What a plan actually allows is decided
+// server-side by the `plans` table; keep the two in step.
+
+export const PLAN_IDS = ['free', 'starter', 'professional'] as const;
+export type PlanId = typeof PLAN_IDS[number];
+
+/** Paid features that are switched on per plan (`plans.features`). */
+export type Feature = 'script_rewrites' | 'policy_check' | 'benchmarking' | 'branded_exports' | 'team_workspaces';
+
+export type PlanInfo = {
+    name: string;
+    price: string;
+    audits: number;
+    period: 'lifetime' | 'month';
+    features: Feature[];
+};
+
+export const PLANS: Record<PlanId, PlanInfo> = {
+    free: { name: 'Free', price: '£0', audits: 3, period: 'lifetime', features: [] },
+    starter: { name: 'Starter', price: '£29', audits: 50, period: 'month', features: [] },
+    professional: { name: 'Professional', price: '£49', audits: 500, period: 'month', features: ['script_rewrites', 'policy_check', 'benchmarking', 'branded_exports', 'team_workspaces'] },
+};
+
+export const isPlanId = (value: unknown): value is PlanId =>
+    typeof value === 'string' && (PLAN_IDS as readonly string[]).includes(value);
+
+export type Entitlements = {
+    plan: PlanId;
+    planName: string;
+    used: number;
+    quota: number;
+    remaining: number;
+    period: 'lifetime' | 'month';
+    /** When the monthly quota resets; null for lifetime quotas. */
+    periodEnd: string | null;
+    subscriptionStatus: string | null;
+    features: Partial<Record<Feature, boolean>>;
+    /** Plan, quota and features above are this workspace's (its owner's). Null offline. */
+    workspace: CurrentWorkspace | null;
+};
+
+export const hasFeature = (entitlements: Entitlements | null, feature: Feature) =>
+    !!entitlements?.features[feature];
@@ -0,0 +1,63 @@
+// ==========================================
+// 🛡️ AD POLICY RULES
+// ==========================================
+// The rules the policy check (a Pro feature) screens for. Shared by the worker
+// prompt and the report view; findings reference rules by id. Platform
+// policies differ in detail, so the worker also tells the model which
+// platform the ad is for (from the audit preset) when it is known.
+
+export const POLICY_RULE_IDS = [
+    'health_claims',
+    'financial_claims',
+    'before_after',
+    'restricted_products',
+    'personal_attributes',
+    'missing_disclosure',
+    'copyrighted_audio',
+    'misleading_content',
+] as const;
+export type PolicyRuleId = typeof POLICY_RULE_IDS[number];
+
+export const POLICY_VERDICTS = ['pass', 'warn', 'fail'] as const;
+export type PolicyVerdict = typeof POLICY_VERDICTS[number];
+
+export const POLICY_RULES: Record<PolicyRuleId, { label: string; description: string }> = {
+    health_claims: {
+        label: 'Health claims',
+        description: "Unverified medical, health or weight-loss claims (cures, guaranteed results, specific amounts lost).",
+    },
+    financial_claims: {
+        label: 'Financial claims',
+        description: "Unrealistic income or investment claims (get rich quick, guaranteed returns, 'quit your job').",
+    },
+    before_after: {
+        label: 'Before/after imagery',
+        description: "Side-by-side or sequential before/after shots of bodies, skin or health outcomes.",
+    },
+    restricted_products: {
+        label: 'Restricted products',
+        description: "Alcohol, tobacco or vapes, supplements, gambling, crypto, weapons, prescription drugs or adult products.",
+    },
+    personal_attributes: {
+        label: 'Personal attributes',
+        description: "Copy that asserts or implies the viewer's health, finances, ethnicity, religion or other personal traits ('Are you overweight?').",
+    },
+    missing_disclosure: {
+        label: 'Missing disclosure',
+        description: "Creator or affiliate content without a paid-partnership disclosure, or offers without visible terms.",
+    },
+    copyrighted_audio: {
+        label: 'Copyrighted audio',
+        description: "Commercial music or recognisable tracks that are unlikely to be licensed for advertising.",
+    },
+    misleading_content: {
+        label: 'Misleading content',
+        description: "Fake buttons or system UI, clickbait, shocking or sensational imagery, or claims the ad can't back up.",
+    },
+};
+
+export const POLICY_VERDICT_META: Record<PolicyVerdict, { label: string; icon: string }> = {
+    pass: { label: 'PASS', icon: 'fa-circle-check' },
+    warn: { label: 'WARN', icon: 'fa-triangle-exclamation' },
+    fail: { label: 'FAIL', icon: 'fa-circle-xmark' },
+};
@@ -0,0 +1,95 @@
+import { supabase } from "./supabase";
+import { AuditPreset, PresetDraft, validatePresetDraft } from "./presets";
+
+// ==========================================
+// 🎯 SAVED PRESETS (public.audit_presets)
+// ==========================================
+// Without Supabase (offline demo) presets live in localStorage instead, so the
+// editor works the same way.
+
+const COLUMNS = 'id, name, platform, objective, audience, brand_voice, dos, donts, updated_at';
+const LOCAL_KEY = 'viralaudit:presets';
+const LAST_USED_KEY = 'viralaudit:last-preset';
+
+const toPreset = (row: any): AuditPreset => ({
+    id: row.id,
+    name: row.name,
+    platform: row.platform ?? null,
+    objective: row.objective ?? null,
+    audience: row.audience ?? '',
+    brandVoice: row.brand_voice ?? '',
+    dos: row.dos ?? [],
+    donts: row.donts ?? [],
+    updatedAt: row.updated_at,
+});
+
+const readLocal = (): AuditPreset[] => {
+    try {
+        return JSON.parse(localStorage.getItem(LOCAL_KEY) || '[]');
+    } catch {
+        return [];
+    }
+};
+
+const writeLocal = (presets: AuditPreset[]) => localStorage.setItem(LOCAL_KEY, JSON.stringify(presets));
+
+/** A workspace's shared presets (all of them offline, where there are no workspaces). */
+export const listPresets = async (workspaceId: string | null): Promise<AuditPreset[]> => {
+    if (!supabase) return readLocal().sort((a, b) => a.name.localeCompare(b.name));
+    let query = supabase.from('audit_presets').select(COLUMNS).order('name');
+    if (workspaceId) query = query.eq('workspace_id', workspaceId);
+    const { data, error } = await query;
+    if (error) throw new Error(error.message);
+    return (data || []).map(toPreset);
+};
+
+/**
+ * Inserts into the current workspace or updates (when `draft.id` is set).
+ * Throws PresetValidationError for bad input.
+ */
+export const savePreset = async (userId: string, draft: PresetDraft): Promise<AuditPreset> => {
+    const preset = validatePresetDraft(draft);
+
+    if (!supabase) {
+        const saved: AuditPreset = { ...preset, id: preset.id ?? crypto.randomUUID(), updatedAt: new Date().toISOString() };
+        writeLocal([...readLocal().filter(p => p.id !== saved.id), saved]);
+        return saved;
+    }
+
+    const row = {
+        name: preset.name,
+        platform: preset.platform,
+        objective: preset.objective,
+        audience: preset.audience,
+        brand_voice: preset.brandVoice,
+        dos: preset.dos,
+        donts: preset.donts,
+    };
+    // Editing a teammate's preset keeps them as its author
+    const query = preset.id
+        ? supabase.from('audit_presets').update(row).eq('id', preset.id)
+        : supabase.from('audit_presets').insert({ ...row, user_id: userId });
+    const { data, error } = await query.select(COLUMNS).single();
+    if (error) {
+        if (error.code === '23505') throw new Error(`This workspace already has a preset called "${preset.name}".`);
+        throw new Error(error.message);
+    }
+    return toPreset(data);
+};
+
+export const deletePreset = async (id: string) => {
+    if (getLastPresetId() === id) setLastPresetId(null);
+    if (!supabase) {
+        writeLocal(readLocal().filter(p => p.id !== id));
+        return;
+    }
+    const { error } = await supabase.from('audit_presets').delete().eq('id', id);
+    if (error) throw new Error(error.message);
+};
+
+export const getLastPresetId = () => localStorage.getItem(LAST_USED_KEY);
+
+export const setLastPresetId = (id: string | null) => {
+    if (id) localStorage.setItem(LAST_USED_KEY, id);
+    else localStorage.removeItem(LAST_USED_KEY);
+};
@@ -0,0 +1,148 @@
+// ==========================================
+// 🎯 AUDIT PRESETS
+// ==========================================
+// A preset tells the auditor who the ad is for: platform, campaign objective,
+// audience and brand rules. The app sends a snapshot of it (an AuditContext)
+// with every audit; the worker folds it into the prompt and echoes it back so
+// the report records exactly what it was judged against.
+//
+// Pure module: shared by the app and the worker. Saved presets are read and
+// written through lib/presetStore.
+
+export const PLATFORM_IDS = ['tiktok', 'reels', 'shorts', 'meta_feed'] as const;
+export type PlatformId = typeof PLATFORM_IDS[number];
+
+export const OBJECTIVE_IDS = ['awareness', 'conversion', 'app_install'] as const;
+export type ObjectiveId = typeof OBJECTIVE_IDS[number];
+
+export const PLATFORMS: Record<PlatformId, { label: string; icon: string }> = {
+    tiktok: { label: 'TikTok', icon: 'fa-brands fa-tiktok' },
+    reels: { label: 'Instagram Reels', icon: 'fa-brands fa-instagram' },
+    shorts: { label: 'YouTube Shorts', icon: 'fa-brands fa-youtube' },
+    meta_feed: { label: 'Meta Feed', icon: 'fa-brands fa-meta' },
+};
+
+export const OBJECTIVES: Record<ObjectiveId, { label: string }> = {
+    awareness: { label: 'Awareness' },
+    conversion: { label: 'Conversion' },
+    app_install: { label: 'App Install' },
+};
+
+export const PRESET_LIMITS = {
+    nameLength: 60,
+    textLength: 500,
+    rules: 12,
+    ruleLength: 200,
+};
+
+/** What the audit is judged against. Every field is optional. */
+export type AuditContext = {
+    /** Set when the context came from a saved preset. */
+    presetId: string | null;
+    presetName: string | null;
+    platform: PlatformId | null;
+    objective: ObjectiveId | null;
+    audience: string;
+    brandVoice: string;
+    dos: string[];
+    donts: string[];
+};
+
+export type AuditPreset = {
+    id: string;
+    name: string;
+    platform: PlatformId | null;
+    objective: ObjectiveId | null;
+    audience: string;
+    brandVoice: string;
+    dos: string[];
+    donts: string[];
+    updatedAt: string;
+};
+
+export type PresetDraft = Omit<AuditPreset, 'id' | 'updatedAt'> & { id?: string };
+
+export const EMPTY_PRESET: PresetDraft = {
+    name: '',
+    platform: null,
+    objective: null,
+    audience: '',
+    brandVoice: '',
+    dos: [],
+    donts: [],
+};
+
+export class PresetValidationError extends Error {
+    constructor(message: string, public field: string) {
+        super(message);
+        this.name = 'PresetValidationError';
+    }
+}
+
+// ------------------------------------------
+// Validation
+// ------------------------------------------
+
+const optionalText = (value: unknown, field: string, max = PRESET_LIMITS.textLength) => {
+    if (value === undefined || value === null) return '';
+    if (typeof value !== 'string') throw new PresetValidationError(`${field} must be text.`, field);
+    const text = value.trim();
+    if (text.length > max) throw new PresetValidationError(`${field} is limited to ${max} characters.`, field);
+    return text;
+};
+
+const optionalEnum = <T extends string>(value: unknown, allowed: readonly T[], field: string): T | null => {
+    if (value === undefined || value === null || value === '') return null;
+    if (!allowed.includes(value as T)) throw new PresetValidationError(`${field} must be one of ${allowed.join(', ')}.`, field);
+    return value as T;
+};
+
+const rules = (value: unknown, field: string) => {
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value)) throw new PresetValidationError(`${field} must be a list.`, field);
+    const list = value.map(rule => optionalText(rule, field, PRESET_LIMITS.ruleLength)).filter(Boolean);
+    if (list.length > PRESET_LIMITS.rules) throw new PresetValidationError(`Up to ${PRESET_LIMITS.rules} rules per list.`, field);
+    return list;
+};
+
+/** Validates an AuditContext from an untrusted source (request body, stored report). */
+export const parseAuditContext = (raw: unknown): AuditContext | null => {
+    if (raw === undefined || raw === null) return null;
+    if (typeof raw !== 'object' || Array.isArray(raw)) throw new PresetValidationError("context must be an object.", 'context');
+    const o = raw as Record<string, unknown>;
+    const context: AuditContext = {
+        presetId: optionalText(o.presetId, 'presetId', 64) || null,
+        presetName: optionalText(o.presetName, 'presetName', PRESET_LIMITS.nameLength) || null,
+        platform: optionalEnum(o.platform, PLATFORM_IDS, 'platform'),
+        objective: optionalEnum(o.objective, OBJECTIVE_IDS, 'objective'),
+        audience: optionalText(o.audience, 'audience'),
+        brandVoice: optionalText(o.brandVoice, 'brandVoice'),
+        dos: rules(o.dos, 'dos'),
+        donts: rules(o.donts, 'donts'),
+    };
+    return isEmptyContext(context) ? null : context;
+};
+
+export const isEmptyContext = (context: AuditContext) =>
+    !context.platform && !context.objective && !context.audience && !context.brandVoice && !context.dos.length && !context.donts.length;
+
+/** Checks a preset before saving; returns it normalised. */
+export const validatePresetDraft = (draft: PresetDraft): PresetDraft => {
+    const name = optionalText(draft.name, 'name', PRESET_LIMITS.nameLength);
+    if (!name) throw new PresetValidationError("Give the preset a name.", 'name');
+    const context = parseAuditContext({ ...draft, presetId: null, presetName: null });
+    if (!context) throw new PresetValidationError("Pick a platform, objective or add some brand rules.", 'platform');
+    const { presetId, presetName, ...fields } = context;
+    return { ...fields, id: draft.id, name };
+};
+
+export const presetToContext = (preset: AuditPreset): AuditContext => ({
+    presetId: preset.id,
+    presetName: preset.name,
+    platform: preset.platform,
+    objective: preset.objective,
+    audience: preset.audience,
+    brandVoice: preset.brandVoice,
+    dos: preset.dos,
+    donts: preset.donts,
+});
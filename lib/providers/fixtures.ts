@@ -0,0 +1,262 @@
+import { RewriteStyleId } from "../rewrites";
+
+// ==========================================
+// 🧪 FIXTURE REPORTS (mock provider)
+// ==========================================
+// Raw model output in the shape the worker's prompt asks for, so the mock
+// exercises the same parsing and validation as real responses.
+
+export const FIXTURE_REPORTS: Record<string, unknown>[] = [
+    {
+        overallScore: 82,
+        verdict: "Strong pattern-interrupt hook; the offer lands late and the CTA is soft.",
+        sections: [
+            {
+                id: 'hook',
+                score: 9,
+                summary: "Opens on a **mid-action close-up** with a bold on-screen question. Motion in the first frame stops the scroll.\n\n- Face in frame at 0:00\n- Text readable without sound",
+                issues: [
+                    { severity: 'low', title: "Caption covers the product", detail: "The question overlay hides the bottle for the first second.", at: '0:01' },
+                ],
+            },
+            {
+                id: 'body',
+                score: 8,
+                summary: "Fast cuts (about 1.2s average) keep energy high. The demo is clear, but the price reveal comes at 0:18, after most viewers have dropped.",
+                issues: [
+                    { severity: 'medium', title: "Offer revealed too late", detail: "Move the discount into the first 5 seconds.", at: '0:18' },
+                ],
+            },
+            {
+                id: 'audio',
+                score: 8,
+                summary: "Trending track with a clean voiceover on top. The voice dips under the music at the end.",
+                issues: [
+                    { severity: 'low', title: "Voiceover ducking", detail: "Music is louder than the VO during the CTA.", at: '0:24' },
+                ],
+            },
+            {
+                id: 'script',
+                score: 7,
+                summary: "Benefit-led and conversational. The close (\"check it out\") is generic.",
+                issues: [
+                    { severity: 'medium', title: "Weak call to action", detail: "Say exactly what to do and why now.", at: '0:25' },
+                ],
+            },
+        ],
+        fixes: [
+            { priority: 1, action: "Show the 30% discount on screen within the first 5 seconds.", section: 'body', at: '0:03' },
+            { priority: 2, action: "Replace \"check it out\" with \"Tap Shop Now, 30% off ends Sunday\".", section: 'script', at: '0:25' },
+            { priority: 3, action: "Duck the music 6 dB under the final voiceover line.", section: 'audio', at: '0:24' },
+        ],
+        script: "Still paying for skincare that doesn't work?\nI switched to this three weeks ago.\nLook at the difference.\nIt's 30% off right now, check it out.",
+        metrics: { hookStrength: 9, pacing: 8, ctaClarity: 5, audioUsage: 7 },
+        transcript: [
+            { start: '0:00.0', end: '0:02.5', kind: 'onscreen', text: "Still paying for skincare that doesn't work?" },
+            { start: '0:00.3', end: '0:02.4', kind: 'speech', text: "Still paying for skincare that doesn't work?" },
+            { start: '0:02.6', end: '0:04.8', kind: 'speech', text: "I switched to this three weeks ago." },
+            { start: '0:09.0', end: '0:11.0', kind: 'speech', text: "Look at the difference." },
+            { start: '0:18.0', end: '0:21.0', kind: 'onscreen', text: "30% OFF" },
+            { start: '0:24.0', end: '0:25.5', kind: 'speech', text: "It's 30% off right now, check it out." },
+        ],
+        captions: {
+            burnedIn: true,
+            issues: [
+                { rule: 'unsafe_zone', severity: 'medium', title: "Discount badge under the CTA bar", detail: "The \"30% OFF\" badge sits in the bottom 20% of the frame, where the caption and Shop Now button cover it.", at: '0:18' },
+            ],
+        },
+    },
+    {
+        overallScore: 47,
+        verdict: "Polished but slow: the first three seconds are a logo, so most viewers never see the product.",
+        sections: [
+            {
+                id: 'hook',
+                score: 3,
+                summary: "Opens on an **animated logo** for 2.5 seconds. No human, no question, no motion that signals value.",
+                issues: [
+                    { severity: 'critical', title: "Logo intro", detail: "Brand intros are skipped; start with the problem or the result.", at: '0:00' },
+                    { severity: 'high', title: "No text hook", detail: "Sound-off viewers get no reason to stay.", at: '0:01' },
+                ],
+            },
+            {
+                id: 'body',
+                score: 5,
+                summary: "Good product shots but long static takes (4s+) make the middle drag.",
+                issues: [
+                    { severity: 'medium', title: "Static shots", detail: "Cut every 1.5–2s or add punch-ins.", at: '0:06' },
+                ],
+            },
+            {
+                id: 'audio',
+                score: 6,
+                summary: "Stock music fits the brand but has no beat drops to cut on. No voiceover.",
+                issues: [],
+            },
+            {
+                id: 'script',
+                score: 4,
+                summary: "On-screen text lists features, not outcomes.\n\n| Says | Should say |\n| --- | --- |\n| 20,000 mAh | Charges your phone 5 times |\n| USB-C PD | Full laptop charge in 2 hours |",
+                issues: [
+                    { severity: 'high', title: "Features, not benefits", detail: "Translate specs into what the buyer gets.", at: '0:08' },
+                ],
+            },
+        ],
+        fixes: [
+            { priority: 1, action: "Cut the logo intro; open on the phone dying at 1%.", section: 'hook', at: '0:00' },
+            { priority: 2, action: "Add a bold text hook: \"Never see 1% again\".", section: 'hook', at: '0:00' },
+            { priority: 3, action: "Rewrite spec callouts as benefits.", section: 'script', at: '0:08' },
+            { priority: 4, action: "Tighten shots to under 2 seconds each.", section: 'body', at: null },
+        ],
+        script: "PowerMax 20K\n20,000 mAh\nUSB-C PD\nAvailable now",
+        metrics: { hookStrength: 2, pacing: 4, ctaClarity: 3, audioUsage: 5 },
+        transcript: [
+            { start: '0:03.0', end: '0:05.0', kind: 'onscreen', text: "PowerMax 20K" },
+            { start: '0:05.0', end: '0:07.0', kind: 'onscreen', text: "20,000 mAh" },
+            { start: '0:08.0', end: '0:10.0', kind: 'onscreen', text: "USB-C PD" },
+            { start: '0:12.0', end: '0:15.0', kind: 'onscreen', text: "Available now" },
+        ],
+        captions: {
+            burnedIn: false,
+            issues: [],
+        },
+    },
+    {
+        overallScore: 68,
+        verdict: "Authentic UGC with a solid hook; audio quality and a rambling middle hold it back.",
+        sections: [
+            {
+                id: 'hook',
+                score: 7,
+                summary: "Creator talks straight to camera with a relatable complaint. Works, but the first line could be shorter.",
+                issues: [
+                    { severity: 'low', title: "Long first sentence", detail: "Get to the tension in under 2 seconds.", at: '0:00' },
+                ],
+            },
+            {
+                id: 'body',
+                score: 6,
+                summary: "One long take from 0:06 to 0:20. The *before/after* moment is strong but buried.",
+                issues: [
+                    { severity: 'medium', title: "Rambling middle", detail: "Trim 0:08–0:14, it repeats the hook.", at: '0:08' },
+                ],
+            },
+            {
+                id: 'audio',
+                score: 5,
+                summary: "Room echo and a noticeable hum. Captions are auto-generated and miss words.",
+                issues: [
+                    { severity: 'high', title: "Echoey voice", detail: "Re-record the VO or run noise reduction.", at: '0:00' },
+                ],
+            },
+            {
+                id: 'script',
+                score: 7,
+                summary: "Natural and believable. Ends with a clear, specific CTA.",
+                issues: [],
+            },
+        ],
+        fixes: [
+            { priority: 1, action: "Run noise reduction and de-reverb on the voice track.", section: 'audio', at: null },
+            { priority: 2, action: "Cut 0:08–0:14 and move the before/after reveal earlier.", section: 'body', at: '0:08' },
+            { priority: 3, action: "Fix the auto-captions by hand.", section: 'audio', at: null },
+        ],
+        script: "Okay so I've tried literally every meal kit and they all go bad before I cook them.\nThis one's different, look, everything's portioned.\nTwenty minutes, done.\nUse my code SAM for your first box free.",
+        metrics: { hookStrength: 7, pacing: 5, ctaClarity: 8, audioUsage: 4 },
+        transcript: [
+            { start: '0:00.0', end: '0:04.0', kind: 'speech', text: "Okay so I've tried literally every meal kit and they all go bad before I cook them." },
+            { start: '0:06.0', end: '0:09.5', kind: 'speech', text: "This one's different, look, everything's portioned." },
+            { start: '0:16.0', end: '0:18.0', kind: 'speech', text: "Twenty minutes, done." },
+            { start: '0:22.0', end: '0:25.0', kind: 'speech', text: "Use my code SAM for your first box free." },
+            { start: '0:22.0', end: '0:25.0', kind: 'onscreen', text: "Code SAM = first box free" },
+        ],
+        captions: {
+            burnedIn: false,
+            issues: [
+                { rule: 'missing_captions', severity: 'high', title: "Voiceover has no burned-in captions", detail: "Only the platform's auto-captions, which many viewers have switched off.", at: '0:00' },
+            ],
+        },
+    },
+];
+
+/** Policy check output, one per report above (same index). */
+export const FIXTURE_POLICY_REPORTS: Record<string, unknown>[] = [
+    {
+        platform: null,
+        summary: "Skincare results are shown as a before/after and described as guaranteed, which most platforms restrict.",
+        findings: [
+            { rule: 'before_after', severity: 'high', title: "Before/after skin comparison", detail: "Split-screen of the same face before and after three weeks.", at: '0:09' },
+            { rule: 'health_claims', severity: 'medium', title: "Implied guaranteed results", detail: "\"Look at the difference\" over a dramatic change reads as a promised outcome.", at: '0:10' },
+        ],
+    },
+    {
+        platform: null,
+        summary: "No policy problems found. The music is stock and the claims are product specs.",
+        findings: [],
+    },
+    {
+        platform: null,
+        summary: "Creator content with a personal discount code but no paid-partnership label.",
+        findings: [
+            { rule: 'missing_disclosure', severity: 'medium', title: "No paid-partnership disclosure", detail: "Add the platform's branded-content label or say \"ad\" on screen.", at: '0:22' },
+            { rule: 'copyrighted_audio', severity: 'low', title: "Background track may be commercial", detail: "A recognisable song plays quietly under the voiceover.", at: '0:04' },
+        ],
+    },
+];
+
+/** Rewrite studio output per style: three hooks and one full rewrite each. */
+const FIXTURE_REWRITES: Record<RewriteStyleId, { hooks: string[]; rewrite: string }> = {
+    ugc: {
+        hooks: [
+            "Okay I did not expect this to actually work.",
+            "POV: you finally found the one that doesn't end up in a drawer.",
+            "I've been gatekeeping this for three weeks. Sorry.",
+        ],
+        rewrite: "Okay I did not expect this to actually work.\nI've tried, like, everything.\nThree weeks in, look at this.\nIt's 30% off until Sunday, link's right there.",
+    },
+    founder_story: {
+        hooks: [
+            "I built this because nothing else worked for me.",
+            "Two years ago I was about to give up on this idea.",
+            "Every company in this space told me it couldn't be done.",
+        ],
+        rewrite: "I built this because nothing else worked for me.\nSo I spent two years getting it right.\nNow thousands of people use it every day.\nTry it for 30% off this week. If it doesn't work, I'll refund you myself.",
+    },
+    problem_solution: {
+        hooks: [
+            "Still paying for things that don't work?",
+            "This is why your routine isn't working.",
+            "Stop wasting money on the wrong fix.",
+        ],
+        rewrite: "Still paying for things that don't work?\nMost people never see results because they skip one step.\nThis does that step for you, in two minutes a day.\nTap Shop Now. 30% off ends Sunday.",
+    },
+    listicle: {
+        hooks: [
+            "3 things I wish I knew sooner.",
+            "5 reasons everyone's switching to this.",
+            "The 3-step routine that finally worked for me.",
+        ],
+        rewrite: "3 reasons I'm never going back.\nOne: it takes two minutes.\nTwo: results in the first week.\nThree: it's 30% off right now. Tap Shop Now.",
+    },
+};
+
+/** Raw model output in the shape the worker's rewrite prompt asks for. */
+export const fixtureRewriteOutput = (styles: RewriteStyleId[]) => ({
+    hooks: styles.flatMap(style => FIXTURE_REWRITES[style].hooks.map(text => ({ style, text }))),
+    rewrites: styles.map(style => ({ style, text: FIXTURE_REWRITES[style].rewrite })),
+});
+
+/**
+ * Raw model output in the shape the worker's compare prompt asks for. Picks
+ * the highest overall score, so fixtures always name a sensible winner.
+ */
+export const fixtureCompareOutput = (variants: { label: string; overallScore: number }[]) => {
+    const ranked = [...variants].sort((a, b) => b.overallScore - a.overallScore);
+    const [winner, runnerUp] = ranked;
+    return {
+        winner: winner.label,
+        reasoning: `**${winner.label}** scores ${winner.overallScore} against ${runnerUp.overallScore} for ${runnerUp.label}. Its opening earns attention faster and the offer is easier to act on. Before scaling, tighten the close so the CTA names the discount and the deadline.`,
+        hook: `${winner.label} opens on motion and a face in the first second; ${runnerUp.label} spends its first beat on setup, so more viewers scroll past before the product appears.`,
+        cta: `${winner.label} tells viewers exactly what to tap. ${runnerUp.label} ends on a generic "check it out" with no reason to act now.`,
+    };
+};
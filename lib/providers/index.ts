@@ -0,0 +1,30 @@
+import { AnalysisProvider } from "./types";
+import { createWorkerProvider } from "./worker";
+import { createMockProvider } from "./mock";
+
+export type { AnalysisProvider, AnalysisRequest } from "./types";
+
+// ==========================================
+// 🔌 PROVIDER SELECTION
+// ==========================================
+// ANALYSIS_PROVIDER=worker (default) | mock, injected by vite.config.ts.
+
+const DEFAULT_WORKER_URL = "https://damp-wind-775f.rusdumitru122.workers.dev/";
+
+/** The worker's public API (worker/src/api.ts), for the examples on the account page. */
+export const PUBLIC_API_URL = new URL('v1', process.env.ANALYSIS_WORKER_URL || DEFAULT_WORKER_URL).href;
+
+const createProvider = (): AnalysisProvider => {
+    const name = (process.env.ANALYSIS_PROVIDER || 'worker').toLowerCase();
+    switch (name) {
+        case 'mock':
+            return createMockProvider(Number(process.env.MOCK_LATENCY_MS) || undefined);
+        case 'worker':
+            return createWorkerProvider(process.env.ANALYSIS_WORKER_URL || DEFAULT_WORKER_URL);
+        default:
+            console.warn(`Unknown ANALYSIS_PROVIDER "${name}", using the worker`);
+            return createWorkerProvider(process.env.ANALYSIS_WORKER_URL || DEFAULT_WORKER_URL);
+    }
+};
+
+export const analysisProvider = createProvider();
@@ -0,0 +1,70 @@
+import { parseWorkerResponse } from "../report";
+import { AuditError } from "../errors";
+import { AnalysisProvider } from "./types";
+import { parseRewriteResult } from "../rewrites";
+import { parseCompareResult } from "../comparisons";
+import { FIXTURE_POLICY_REPORTS, FIXTURE_REPORTS, fixtureCompareOutput, fixtureRewriteOutput } from "./fixtures";
+
+// ==========================================
+// 🧪 MOCK PROVIDER (no network)
+// ==========================================
+// Returns a fixture report chosen by hashing the file name, so the same file
+// always gets the same report. File names can also trigger failures, to
+// exercise the error and retry UI:
+//
+//   *__fail_quota*    quota error          *__fail_file*   file rejected
+//   *__fail_model*    unreadable report    *__timeout*     never answers
+//   *__flaky*         network error on the first attempt, then succeeds
+
+const hash = (text: string) => {
+    let h = 2166136261;
+    for (let i = 0; i < text.length; i++) h = Math.imul(h ^ text.charCodeAt(i), 16777619);
+    return h >>> 0;
+};
+
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const abort = () => { clearTimeout(timer); reject(new DOMException('Aborted', 'AbortError')); };
+    const timer = setTimeout(() => { signal.removeEventListener('abort', abort); resolve(); }, ms);
+    if (signal.aborted) abort();
+    else signal.addEventListener('abort', abort, { once: true });
+});
+
+export const createMockProvider = (latencyMs = 1500): AnalysisProvider => {
+    const attempts = new Map<string, number>();
+
+    return {
+        name: 'mock',
+        offline: true,
+
+        async analyze({ fileName, idempotencyKey, context, policyCheck }, signal) {
+            const attempt = (attempts.get(idempotencyKey) ?? 0) + 1;
+            attempts.set(idempotencyKey, attempt);
+
+            // Longest delay setTimeout accepts; the job's timeout fires first
+            if (fileName.includes('__timeout')) await wait(2 ** 31 - 1, signal);
+            await wait(latencyMs, signal);
+
+            if (fileName.includes('__fail_quota')) throw new AuditError('quota', "You've used all your audits for this plan.");
+            if (fileName.includes('__fail_file')) throw new AuditError('file', "The analysis server rejected this file.");
+            if (fileName.includes('__flaky') && attempt === 1) {
+                throw new AuditError('network', "The analysis server had a problem.", true);
+            }
+
+            const index = hash(fileName) % FIXTURE_REPORTS.length;
+            const text = fileName.includes('__fail_model') ? "Sorry, I can't help with that." : JSON.stringify(FIXTURE_REPORTS[index]);
+            const policy = policyCheck ? { ...FIXTURE_POLICY_REPORTS[index], platform: context?.platform ?? null } : null;
+            return parseWorkerResponse({ candidates: [{ content: { parts: [{ text }] } }], auditContext: context, policy });
+        },
+
+        async rewriteScript({ styles }, signal) {
+            await wait(latencyMs, signal);
+            return parseRewriteResult(fixtureRewriteOutput(styles), styles);
+        },
+
+        async compareVariants({ variants }, signal) {
+            await wait(latencyMs, signal);
+            const output = fixtureCompareOutput(variants.map(v => ({ label: v.label, overallScore: v.report.overallScore })));
+            return parseCompareResult(output, variants.map(v => v.label));
+        },
+    };
+};
@@ -0,0 +1,35 @@
+import { AuditReport } from "../report";
+import { AuditContext } from "../presets";
+import { GeneratedVariant, RewriteRequest } from "../rewrites";
+import { AbVerdict, CompareVariantsRequest } from "../comparisons";
+import { StoredVideo } from "../upload";
+
+// ==========================================
+// 🔌 ANALYSIS PROVIDER CONTRACT
+// ==========================================
+
+export type AnalysisRequest = {
+    video: StoredVideo;
+    /** Original file name, for providers that care (the mock keys fixtures on it). */
+    fileName: string;
+    idempotencyKey: string;
+    /** Audit preset snapshot; null for a generic audit. */
+    context: AuditContext | null;
+    /** Also run the policy check (Pro; the worker enforces the plan). */
+    policyCheck: boolean;
+};
+
+export interface AnalysisProvider {
+    readonly name: string;
+    /**
+     * Offline providers never touch the network: the job skips the upload
+     * for them.
+     */
+    readonly offline: boolean;
+    /** Resolves to a validated report or rejects with an AuditError. */
+    analyze(request: AnalysisRequest, signal: AbortSignal): Promise<AuditReport>;
+    /** Script rewrite studio (Pro). Rejects with an AuditError. */
+    rewriteScript(request: RewriteRequest, signal: AbortSignal): Promise<GeneratedVariant[]>;
+    /** Picks the winner of an A/B test from its finished audits (one credit). Rejects with an AuditError. */
+    compareVariants(request: CompareVariantsRequest, signal: AbortSignal): Promise<AbVerdict>;
+}
@@ -0,0 +1,67 @@
+import { parseWorkerResponse } from "../report";
+import { parseRewriteResult } from "../rewrites";
+import { parseCompareResult } from "../comparisons";
+import { supabase } from "../supabase";
+import { AuditError, fromHttpStatus } from "../errors";
+import { AnalysisProvider } from "./types";
+
+// ==========================================
+// ☁️ WORKER PROVIDER
+// ==========================================
+// POSTs the storage reference to the analysis worker (worker/), which answers
+// with a Gemini `generateContent` payload. The worker identifies the caller by
+// their Supabase access token and takes the credit itself. Script rewrites and
+// A/B comparisons go to the worker's /rewrite and /compare routes next to it.
+
+const accessToken = async () => {
+    const { data: { session } } = supabase ? await supabase.auth.getSession() : { data: { session: null } };
+    if (!session) throw new AuditError('model', "Your session has expired, please log in again.");
+    return session.access_token;
+};
+
+const post = async (url: string, body: unknown, signal: AbortSignal, headers: Record<string, string> = {}) => {
+    const response = await fetch(url, {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            "Authorization": `Bearer ${await accessToken()}`,
+            ...headers,
+        },
+        body: JSON.stringify(body),
+        signal,
+    });
+
+    const json = await response.json().catch(() => null);
+    if (!response.ok) throw fromHttpStatus(response.status, json?.error?.message, response.headers.get('Retry-After'));
+    if (!json) throw new AuditError('network', "The analysis server sent an unreadable response.", true);
+    return json;
+};
+
+export const createWorkerProvider = (url: string): AnalysisProvider => ({
+    name: 'worker',
+    offline: false,
+
+    async analyze({ video, idempotencyKey, context, policyCheck }, signal) {
+        const json = await post(url, {
+            storageBucket: video.bucket,
+            storagePath: video.path,
+            mimeType: video.mimeType,
+            context,
+            policyCheck,
+        }, signal, { "Idempotency-Key": idempotencyKey });
+        return parseWorkerResponse(json);
+    },
+
+    async rewriteScript(request, signal) {
+        const json = await post(new URL('rewrite', url).href, request, signal);
+        return parseRewriteResult(json, request.styles);
+    },
+
+    async compareVariants({ variants, idempotencyKey }, signal) {
+        // The worker reads the reports from history, so every variant has to be saved
+        const unsaved = variants.find(v => !v.auditId);
+        if (unsaved) throw new AuditError('model', `Variant ${unsaved.label} couldn't be saved to your history, so it can't be compared.`);
+        const json = await post(new URL('compare', url).href, { auditIds: variants.map(v => v.auditId) }, signal, { "Idempotency-Key": idempotencyKey });
+        return parseCompareResult(json, variants.map(v => v.label));
+    },
+});
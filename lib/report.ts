@@ -0,0 +1,464 @@
+import { AuditContext, OBJECTIVES, PLATFORMS, PlatformId, PLATFORM_IDS, PresetValidationError, parseAuditContext } from "./presets";
+import { POLICY_RULE_IDS, POLICY_RULES, POLICY_VERDICT_META, PolicyRuleId, PolicyVerdict } from "./policy";
+import {
+    CAPTION_RULE_IDS, CAPTION_RULES, CUE_KINDS, CaptionIssue, CaptionReport, TranscriptCue, captionIssues, sortCues
+} from "./captions";
+
+// ==========================================
+// 📊 AUDIT REPORT MODEL
+// ==========================================
+// The worker returns a Gemini response whose text is the audit. We ask the
+// model for JSON (see worker/src/prompts.ts) and validate it here, so the UI
+// and every other feature work from one typed structure instead of regexes.
+
+export const SECTION_IDS = ['hook', 'body', 'audio', 'script'] as const;
+export type SectionId = typeof SECTION_IDS[number];
+
+export const SEVERITIES = ['low', 'medium', 'high', 'critical'] as const;
+export type Severity = typeof SEVERITIES[number];
+
+export const SECTION_META: Record<SectionId, { label: string; icon: string }> = {
+    hook: { label: 'HOOK', icon: '🪝' },
+    body: { label: 'BODY', icon: '📹' },
+    audio: { label: 'AUDIO', icon: '🔊' },
+    script: { label: 'SCRIPT', icon: '📝' },
+};
+
+/**
+ * Craft metrics (0–10) used to benchmark against competitors. Unlike section
+ * scores they isolate one skill each, e.g. CTA clarity rather than "script".
+ */
+export const METRIC_IDS = ['hookStrength', 'pacing', 'ctaClarity', 'audioUsage'] as const;
+export type MetricId = typeof METRIC_IDS[number];
+export type AuditMetrics = Record<MetricId, number>;
+
+export const METRIC_META: Record<MetricId, { label: string; description: string }> = {
+    hookStrength: { label: 'Hook strength', description: "How hard the first 3 seconds stop the scroll" },
+    pacing: { label: 'Pacing', description: "Cut rhythm and how well attention is held after the hook" },
+    ctaClarity: { label: 'CTA clarity', description: "How clearly the ad says what to do next and why now" },
+    audioUsage: { label: 'Audio usage', description: "Music, voiceover and captions working for the ad" },
+};
+
+export type AuditIssue = {
+    severity: Severity;
+    title: string;
+    detail: string;
+    /** Seconds into the video, when the issue is tied to a moment. */
+    at: number | null;
+};
+
+export type AuditSection = {
+    id: SectionId;
+    /** 0–10 */
+    score: number;
+    /** Markdown prose for the section. */
+    summary: string;
+    issues: AuditIssue[];
+};
+
+export type FixItem = {
+    /** 1 = do this first. */
+    priority: number;
+    action: string;
+    section: SectionId | null;
+    at: number | null;
+};
+
+export type PolicyFinding = {
+    rule: PolicyRuleId;
+    severity: Severity;
+    title: string;
+    detail: string;
+    at: number | null;
+};
+
+/** Result of the policy check (Pro). */
+export type PolicyReport = {
+    /** Derived from the findings, see policyVerdict. */
+    verdict: PolicyVerdict;
+    /** Platform whose policies were applied; null = the major platforms in general. */
+    platform: PlatformId | null;
+    summary: string;
+    findings: PolicyFinding[];
+};
+
+export type AuditReport = {
+    version: 1;
+    /** 0–100 */
+    overallScore: number;
+    verdict: string;
+    sections: AuditSection[];
+    fixes: FixItem[];
+    /** The spoken/on-screen script as extracted by the model. */
+    script: string;
+    /** The preset the ad was judged against, as recorded by the worker. */
+    context: AuditContext | null;
+    /** Present when the policy check ran. */
+    policy: PolicyReport | null;
+    /** Null on reports from before metrics were asked for; see reportMetrics. */
+    metrics: AuditMetrics | null;
+    /** Spoken and on-screen text with timings; null on older reports. */
+    transcript: TranscriptCue[] | null;
+    /** Caption problems seen in the video; null on older reports. */
+    captions: CaptionReport | null;
+    createdAt: string;
+};
+
+export class ReportParseError extends Error {
+    constructor(message: string, public path: string = '') {
+        super(path ? `Malformed report at "${path}": ${message}` : `Malformed report: ${message}`);
+        this.name = 'ReportParseError';
+    }
+}
+
+// ------------------------------------------
+// Timestamps
+// ------------------------------------------
+
+/** Accepts `"m:ss"`, `"h:mm:ss"` or a number of seconds. */
+export const parseTimestamp = (value: unknown, path: string): number | null => {
+    if (value === null || value === undefined || value === '') return null;
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 0) return value;
+    if (typeof value === 'string') {
+        const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2}(?:\.\d+)?)$/);
+        if (match) {
+            const [, h, m, s] = match;
+            return Number(h || 0) * 3600 + Number(m) * 60 + Number(s);
+        }
+    }
+    throw new ReportParseError(`expected a timestamp like "0:03", got ${JSON.stringify(value)}`, path);
+};
+
+export const formatTimestamp = (seconds: number) => {
+    const total = Math.floor(seconds);
+    const h = Math.floor(total / 3600);
+    const m = Math.floor((total % 3600) / 60);
+    const s = String(total % 60).padStart(2, '0');
+    return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+// ------------------------------------------
+// Validation helpers
+// ------------------------------------------
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+    typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const expectObject = (v: unknown, path: string) => {
+    if (!isObject(v)) throw new ReportParseError('expected an object', path);
+    return v;
+};
+
+const expectArray = (v: unknown, path: string) => {
+    if (!Array.isArray(v)) throw new ReportParseError('expected an array', path);
+    return v;
+};
+
+const expectString = (v: unknown, path: string, { optional = false } = {}) => {
+    if (optional && (v === undefined || v === null)) return '';
+    if (typeof v !== 'string') throw new ReportParseError('expected a string', path);
+    return v.trim();
+};
+
+const expectScore = (v: unknown, max: number, path: string) => {
+    const n = typeof v === 'string' ? Number(v) : v;
+    if (typeof n !== 'number' || !Number.isFinite(n) || n < 0 || n > max) {
+        throw new ReportParseError(`expected a score between 0 and ${max}`, path);
+    }
+    return Math.round(n * 10) / 10;
+};
+
+const expectEnum = <T extends string>(v: unknown, allowed: readonly T[], path: string): T => {
+    const normalized = typeof v === 'string' ? v.trim().toLowerCase() : v;
+    if (!allowed.includes(normalized as T)) {
+        throw new ReportParseError(`expected one of ${allowed.join(', ')}`, path);
+    }
+    return normalized as T;
+};
+
+// ------------------------------------------
+// Parsing
+// ------------------------------------------
+
+const parseIssue = (raw: unknown, path: string): AuditIssue => {
+    const o = expectObject(raw, path);
+    return {
+        severity: expectEnum(o.severity, SEVERITIES, `${path}.severity`),
+        title: expectString(o.title, `${path}.title`),
+        detail: expectString(o.detail, `${path}.detail`, { optional: true }),
+        at: parseTimestamp(o.at, `${path}.at`),
+    };
+};
+
+const parseSection = (raw: unknown, path: string): AuditSection => {
+    const o = expectObject(raw, path);
+    return {
+        id: expectEnum(o.id, SECTION_IDS, `${path}.id`),
+        score: expectScore(o.score, 10, `${path}.score`),
+        summary: expectString(o.summary, `${path}.summary`),
+        issues: o.issues === undefined ? [] : expectArray(o.issues, `${path}.issues`).map((issue, i) => parseIssue(issue, `${path}.issues[${i}]`)),
+    };
+};
+
+const parseFix = (raw: unknown, path: string, index: number): FixItem => {
+    const o = expectObject(raw, path);
+    return {
+        priority: o.priority === undefined ? index + 1 : expectScore(o.priority, Number.MAX_SAFE_INTEGER, `${path}.priority`),
+        action: expectString(o.action, `${path}.action`),
+        section: o.section === undefined || o.section === null ? null : expectEnum(o.section, SECTION_IDS, `${path}.section`),
+        at: parseTimestamp(o.at, `${path}.at`),
+    };
+};
+
+const parseMetrics = (raw: unknown): AuditMetrics => {
+    const o = expectObject(raw, 'metrics');
+    return Object.fromEntries(METRIC_IDS.map(id => [id, expectScore(o[id], 10, `metrics.${id}`)])) as AuditMetrics;
+};
+
+/** How long a cue stays up when the model gives only its start. */
+const DEFAULT_CUE_SECONDS = 2;
+
+const parseCue = (raw: unknown, path: string): TranscriptCue => {
+    const o = expectObject(raw, path);
+    const start = parseTimestamp(o.start, `${path}.start`);
+    if (start === null) throw new ReportParseError('expected a timestamp', `${path}.start`);
+    const end = parseTimestamp(o.end, `${path}.end`);
+    return {
+        start,
+        end: end !== null && end > start ? end : start + DEFAULT_CUE_SECONDS,
+        kind: expectEnum(o.kind, CUE_KINDS, `${path}.kind`),
+        text: expectString(o.text, `${path}.text`),
+    };
+};
+
+/** Validates a transcript, from the model or an editor. Empty lines are dropped. */
+export const parseTranscript = (raw: unknown, path = 'transcript'): TranscriptCue[] =>
+    sortCues(expectArray(raw, path).map((cue, i) => parseCue(cue, `${path}[${i}]`)).filter(cue => cue.text));
+
+const parseCaptionIssue = (raw: unknown, path: string): CaptionIssue => {
+    const o = expectObject(raw, path);
+    return {
+        rule: expectEnum(o.rule, CAPTION_RULE_IDS, `${path}.rule`),
+        severity: expectEnum(o.severity, SEVERITIES, `${path}.severity`),
+        title: expectString(o.title, `${path}.title`),
+        detail: expectString(o.detail, `${path}.detail`, { optional: true }),
+        at: parseTimestamp(o.at, `${path}.at`),
+    };
+};
+
+/** Reading speed is measured from the transcript (see captionIssues), so the model's own is dropped. */
+const parseCaptions = (raw: unknown): CaptionReport => {
+    const o = expectObject(raw, 'captions');
+    return {
+        burnedIn: typeof o.burnedIn === 'boolean' ? o.burnedIn : null,
+        issues: (o.issues === undefined ? [] : expectArray(o.issues, 'captions.issues'))
+            .map((issue, i) => parseCaptionIssue(issue, `captions.issues[${i}]`))
+            .filter(issue => issue.rule !== 'reading_speed'),
+    };
+};
+
+/** High or critical findings fail; anything else found is a warning. */
+export const policyVerdict = (findings: PolicyFinding[]): PolicyVerdict => {
+    if (findings.some(f => f.severity === 'high' || f.severity === 'critical')) return 'fail';
+    return findings.length ? 'warn' : 'pass';
+};
+
+const parsePolicyFinding = (raw: unknown, path: string): PolicyFinding => {
+    const o = expectObject(raw, path);
+    return {
+        rule: expectEnum(o.rule, POLICY_RULE_IDS, `${path}.rule`),
+        severity: expectEnum(o.severity, SEVERITIES, `${path}.severity`),
+        title: expectString(o.title, `${path}.title`),
+        detail: expectString(o.detail, `${path}.detail`, { optional: true }),
+        at: parseTimestamp(o.at, `${path}.at`),
+    };
+};
+
+/** Validates the policy check's JSON. The verdict is recomputed, not trusted. */
+export const validatePolicyReport = (raw: unknown, path = 'policy'): PolicyReport => {
+    const o = expectObject(raw, path);
+    const findings = (o.findings === undefined ? [] : expectArray(o.findings, `${path}.findings`))
+        .map((f, i) => parsePolicyFinding(f, `${path}.findings[${i}]`))
+        .sort((a, b) => SEVERITIES.indexOf(b.severity) - SEVERITIES.indexOf(a.severity));
+    return {
+        verdict: policyVerdict(findings),
+        platform: o.platform === undefined || o.platform === null ? null : expectEnum(o.platform, PLATFORM_IDS, `${path}.platform`),
+        summary: expectString(o.summary, `${path}.summary`, { optional: true }),
+        findings,
+    };
+};
+
+const parseContext = (raw: unknown) => {
+    try {
+        return parseAuditContext(raw);
+    } catch (err) {
+        if (err instanceof PresetValidationError) throw new ReportParseError(err.message, 'context');
+        throw err;
+    }
+};
+
+/** Validates an already-decoded JSON value into an AuditReport. */
+export const validateAuditReport = (raw: unknown): AuditReport => {
+    const o = expectObject(raw, '');
+    const sections = expectArray(o.sections, 'sections').map((s, i) => parseSection(s, `sections[${i}]`));
+
+    for (const id of SECTION_IDS) {
+        const count = sections.filter(s => s.id === id).length;
+        if (count !== 1) throw new ReportParseError(`expected exactly one "${id}" section, got ${count}`, 'sections');
+    }
+    sections.sort((a, b) => SECTION_IDS.indexOf(a.id) - SECTION_IDS.indexOf(b.id));
+
+    const fixes = (o.fixes === undefined ? [] : expectArray(o.fixes, 'fixes'))
+        .map((f, i) => parseFix(f, `fixes[${i}]`, i))
+        .sort((a, b) => a.priority - b.priority);
+
+    return {
+        version: 1,
+        overallScore: expectScore(o.overallScore, 100, 'overallScore'),
+        verdict: expectString(o.verdict, 'verdict', { optional: true }),
+        sections,
+        fixes,
+        script: expectString(o.script, 'script', { optional: true }),
+        context: parseContext(o.context),
+        policy: o.policy === undefined || o.policy === null ? null : validatePolicyReport(o.policy),
+        metrics: o.metrics === undefined || o.metrics === null ? null : parseMetrics(o.metrics),
+        transcript: o.transcript === undefined || o.transcript === null ? null : parseTranscript(o.transcript),
+        captions: o.captions === undefined || o.captions === null ? null : parseCaptions(o.captions),
+        createdAt: typeof o.createdAt === 'string' ? o.createdAt : new Date().toISOString(),
+    };
+};
+
+/** Pulls the JSON object out of model text, tolerating code fences and leading chatter. */
+const extractJson = (text: string): unknown => {
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+    const candidate = fenced ? fenced[1] : text;
+    const start = candidate.indexOf('{');
+    const end = candidate.lastIndexOf('}');
+    if (start === -1 || end <= start) throw new ReportParseError('the model did not return a JSON object');
+    try {
+        return JSON.parse(candidate.slice(start, end + 1));
+    } catch (err: any) {
+        throw new ReportParseError(`invalid JSON (${err.message})`);
+    }
+};
+
+/** The JSON object in a Gemini `generateContent` payload's text. */
+export const extractModelJson = (payload: any): Record<string, unknown> => {
+    const text = payload?.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (typeof text !== 'string' || !text.trim()) throw new ReportParseError('no analysis returned');
+    return expectObject(extractJson(text), '');
+};
+
+/**
+ * Parses the raw worker response: a Gemini `generateContent` payload plus the
+ * `auditContext` the worker prompted with and, when it ran, the `policy`
+ * check. The model's own text never sets either.
+ */
+export const parseWorkerResponse = (json: any): AuditReport =>
+    validateAuditReport({ ...extractModelJson(json), context: json.auditContext ?? null, policy: json.policy ?? null });
+
+/** One-line description of an AuditContext, e.g. "TikTok · Conversion · Gen Z gamers". */
+export const describeContext = (context: AuditContext) => [
+    context.platform && PLATFORMS[context.platform].label,
+    context.objective && OBJECTIVES[context.objective].label,
+    context.audience,
+].filter(Boolean).join(' · ');
+
+export const sectionScore = (report: AuditReport, id: SectionId) =>
+    report.sections.find(s => s.id === id)?.score ?? null;
+
+/** The report's metrics, or the closest section scores for older reports. */
+export const reportMetrics = (report: AuditReport): AuditMetrics => report.metrics ?? {
+    hookStrength: sectionScore(report, 'hook') ?? 0,
+    pacing: sectionScore(report, 'body') ?? 0,
+    ctaClarity: sectionScore(report, 'script') ?? 0,
+    audioUsage: sectionScore(report, 'audio') ?? 0,
+};
+
+/** A timestamped finding, placed on the video scrubber. */
+export type TimelineMarker = {
+    at: number;
+    kind: 'issue' | 'fix' | 'policy' | 'caption';
+    /** Fixes have no severity. */
+    severity: Severity | null;
+    section: SectionId | null;
+    label: string;
+};
+
+/** Every finding tied to a moment in the video, in time order. */
+export const reportMarkers = (report: AuditReport): TimelineMarker[] => {
+    const markers: TimelineMarker[] = [];
+    for (const section of report.sections) {
+        for (const issue of section.issues) {
+            if (issue.at !== null) markers.push({ at: issue.at, kind: 'issue', severity: issue.severity, section: section.id, label: issue.title });
+        }
+    }
+    for (const fix of report.fixes) {
+        if (fix.at !== null) markers.push({ at: fix.at, kind: 'fix', severity: null, section: fix.section, label: fix.action });
+    }
+    for (const finding of report.policy?.findings ?? []) {
+        if (finding.at !== null) markers.push({ at: finding.at, kind: 'policy', severity: finding.severity, section: null, label: finding.title });
+    }
+    for (const issue of captionIssues(report.captions, report.transcript)) {
+        if (issue.at !== null) markers.push({ at: issue.at, kind: 'caption', severity: issue.severity, section: null, label: issue.title });
+    }
+    return markers.sort((a, b) => a.at - b.at);
+};
+
+/** Markdown rendition of a report, for pasting into docs. */
+export const reportToMarkdown = (report: AuditReport) => {
+    const lines: string[] = [`# Viral Score: ${report.overallScore}/100`];
+    if (report.context) {
+        const preset = report.context.presetName ? ` (preset "${report.context.presetName}")` : '';
+        lines.push('', `**Audited for:** ${describeContext(report.context) || 'brand rules'}${preset}`);
+    }
+    if (report.verdict) lines.push('', report.verdict);
+
+    for (const section of report.sections) {
+        const meta = SECTION_META[section.id];
+        lines.push('', `## ${meta.icon} ${meta.label} (${section.score}/10)`, '', section.summary);
+        if (section.issues.length) {
+            lines.push('');
+            for (const issue of section.issues) {
+                const at = issue.at !== null ? ` @ ${formatTimestamp(issue.at)}` : '';
+                lines.push(`- **[${issue.severity.toUpperCase()}${at}] ${issue.title}**${issue.detail ? ` — ${issue.detail}` : ''}`);
+            }
+        }
+    }
+
+    if (report.policy) {
+        const { policy } = report;
+        const platform = policy.platform ? ` (${PLATFORMS[policy.platform].label})` : '';
+        lines.push('', `## 🛡️ Policy Check${platform}: ${POLICY_VERDICT_META[policy.verdict].label}`);
+        if (policy.summary) lines.push('', policy.summary);
+        if (policy.findings.length) {
+            lines.push('');
+            for (const finding of policy.findings) {
+                const at = finding.at !== null ? ` @ ${formatTimestamp(finding.at)}` : '';
+                lines.push(`- **[${finding.severity.toUpperCase()}${at}] ${POLICY_RULES[finding.rule].label}: ${finding.title}**${finding.detail ? ` — ${finding.detail}` : ''}`);
+            }
+        }
+    }
+
+    const captionProblems = captionIssues(report.captions, report.transcript);
+    if (report.captions || captionProblems.length) {
+        lines.push('', `## 💬 Captions: ${captionProblems.length ? `${captionProblems.length} problem(s)` : 'OK'}`);
+        if (report.captions?.burnedIn === false) lines.push('', 'No burned-in captions.');
+        if (captionProblems.length) {
+            lines.push('');
+            for (const issue of captionProblems) {
+                const at = issue.at !== null ? ` @ ${formatTimestamp(issue.at)}` : '';
+                lines.push(`- **[${issue.severity.toUpperCase()}${at}] ${CAPTION_RULES[issue.rule].label}: ${issue.title}**${issue.detail ? ` — ${issue.detail}` : ''}`);
+            }
+        }
+    }
+
+    if (report.fixes.length) {
+        lines.push('', '## 🛠️ Fix List', '');
+        report.fixes.forEach((fix, i) => {
+            const at = fix.at !== null ? ` (${formatTimestamp(fix.at)})` : '';
+            lines.push(`${i + 1}. ${fix.action}${at}`);
+        });
+    }
+    return lines.join('\n') + '\n';
+};
@@ -0,0 +1,112 @@
+import { ReportParseError } from "./report";
+import { AuditContext, PresetValidationError, parseAuditContext } from "./presets";
+
+// ==========================================
+// ✍️ SCRIPT REWRITES
+// ==========================================
+// The rewrite studio (a Pro feature) turns an audit's extracted script into
+// alternative hooks and full rewrites in a chosen style. Generation runs in
+// the worker (POST /rewrite); saved versions live in public.script_variants
+// next to the audit (lib/scriptVariants).
+
+export const REWRITE_STYLE_IDS = ['ugc', 'founder_story', 'problem_solution', 'listicle'] as const;
+export type RewriteStyleId = typeof REWRITE_STYLE_IDS[number];
+
+export const REWRITE_STYLES: Record<RewriteStyleId, { label: string; description: string }> = {
+    ugc: {
+        label: 'UGC',
+        description: "A real customer talking to their phone camera: casual, first person, a little imperfect.",
+    },
+    founder_story: {
+        label: 'Founder Story',
+        description: "The founder explains why they built it: personal origin, conviction, a direct ask.",
+    },
+    problem_solution: {
+        label: 'Problem / Solution',
+        description: "Name a painful problem in the first line, agitate it, then show the product solving it.",
+    },
+    listicle: {
+        label: 'Listicle',
+        description: "\"3 reasons...\" or \"Things I wish I knew...\": numbered, fast, one idea per beat.",
+    },
+};
+
+export const REWRITE_LIMITS = {
+    scriptLength: 5000,
+    hooksPerStyle: 3,
+};
+
+export type VariantKind = 'hook' | 'rewrite';
+
+export type GeneratedVariant = {
+    kind: VariantKind;
+    style: RewriteStyleId;
+    text: string;
+};
+
+export type RewriteRequest = {
+    script: string;
+    styles: RewriteStyleId[];
+    /** The audit's verdict, so rewrites address what it criticised. */
+    verdict?: string;
+    /** The audit's preset, for brand voice and rules. */
+    context?: AuditContext | null;
+};
+
+export class RewriteValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RewriteValidationError';
+    }
+}
+
+/** Validates a rewrite request from an untrusted source. */
+export const parseRewriteRequest = (raw: unknown): RewriteRequest => {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) throw new RewriteValidationError("Body must be a JSON object.");
+    const o = raw as Record<string, unknown>;
+
+    const script = typeof o.script === 'string' ? o.script.trim() : '';
+    if (!script) throw new RewriteValidationError("There is no script to rewrite.");
+    if (script.length > REWRITE_LIMITS.scriptLength) {
+        throw new RewriteValidationError(`Scripts are limited to ${REWRITE_LIMITS.scriptLength} characters.`);
+    }
+
+    const styles = Array.isArray(o.styles) ? [...new Set(o.styles)] : [];
+    if (!styles.length) throw new RewriteValidationError("Pick at least one style.");
+    for (const style of styles) {
+        if (!(REWRITE_STYLE_IDS as readonly unknown[]).includes(style)) throw new RewriteValidationError(`Unknown style "${style}".`);
+    }
+
+    const verdict = typeof o.verdict === 'string' ? o.verdict.trim().slice(0, 500) : undefined;
+    let context: AuditContext | null;
+    try {
+        context = parseAuditContext(o.context);
+    } catch (err) {
+        if (err instanceof PresetValidationError) throw new RewriteValidationError(`Preset: ${err.message}`);
+        throw err;
+    }
+    return { script, styles: styles as RewriteStyleId[], verdict, context };
+};
+
+/** Validates the model's `{ hooks, rewrites }` answer into a flat list of variants. */
+export const parseRewriteResult = (raw: unknown, styles: RewriteStyleId[]): GeneratedVariant[] => {
+    if (typeof raw !== 'object' || raw === null) throw new ReportParseError('expected an object');
+    const o = raw as Record<string, unknown>;
+    const variants: GeneratedVariant[] = [];
+
+    for (const kind of ['hook', 'rewrite'] as const) {
+        const key = kind === 'hook' ? 'hooks' : 'rewrites';
+        const list = o[key];
+        if (!Array.isArray(list)) throw new ReportParseError('expected an array', key);
+        list.forEach((item, i) => {
+            const style = item?.style;
+            const text = typeof item?.text === 'string' ? item.text.trim() : '';
+            if (!styles.includes(style)) throw new ReportParseError(`expected one of ${styles.join(', ')}`, `${key}[${i}].style`);
+            if (!text) throw new ReportParseError('expected a string', `${key}[${i}].text`);
+            variants.push({ kind, style, text });
+        });
+    }
+
+    if (!variants.some(v => v.kind === 'rewrite')) throw new ReportParseError('no rewrites returned', 'rewrites');
+    return variants;
+};
@@ -0,0 +1,92 @@
+import { AUTH_CALLBACK_PATH } from "./auth";
+
+// ==========================================
+// 🧭 ROUTES
+// ==========================================
+// A small History API router: the path is the source of truth, so pages can
+// be bookmarked, deep-linked and walked with the back button. Hosting must
+// serve index.html for every path outside /api (see vercel.json; the Vite dev
+// server already does). Share links stay in the hash (lib/shares).
+
+export const DASHBOARD_TABS = ['history', 'batch', 'ab', 'benchmarks', 'performance'] as const;
+export type DashboardTab = typeof DASHBOARD_TABS[number];
+
+export type Route =
+    | { name: 'landing' }
+    | { name: 'pricing' }
+    | { name: 'dashboard'; tab: DashboardTab }
+    | { name: 'newAudit' }
+    | { name: 'audit'; id: string }
+    | { name: 'account' }
+    | { name: 'authCallback' }
+    | { name: 'notFound' };
+
+const TAB_PATHS: Record<DashboardTab, string> = {
+    history: '/app',
+    batch: '/app/batch',
+    ab: '/app/ab-tests',
+    benchmarks: '/app/benchmarks',
+    performance: '/app/performance',
+};
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const parseRoute = (pathname: string): Route => {
+    const path = pathname.replace(/\/+$/, '') || '/';
+    if (path === '/') return { name: 'landing' };
+    if (path === '/pricing') return { name: 'pricing' };
+    if (path === '/account') return { name: 'account' };
+    if (path === '/audit/new') return { name: 'newAudit' };
+    if (path === AUTH_CALLBACK_PATH) return { name: 'authCallback' };
+
+    const tab = DASHBOARD_TABS.find(t => TAB_PATHS[t] === path);
+    if (tab) return { name: 'dashboard', tab };
+
+    const audit = path.match(/^\/audits\/([^/]+)$/);
+    if (audit && UUID.test(audit[1])) return { name: 'audit', id: audit[1].toLowerCase() };
+    return { name: 'notFound' };
+};
+
+export const routePath = (route: Route): string => {
+    switch (route.name) {
+        case 'landing': return '/';
+        case 'pricing': return '/pricing';
+        case 'dashboard': return TAB_PATHS[route.tab];
+        case 'newAudit': return '/audit/new';
+        case 'audit': return `/audits/${route.id}`;
+        case 'account': return '/account';
+        case 'authCallback': return AUTH_CALLBACK_PATH;
+        case 'notFound': return '/';
+    }
+};
+
+/** Routes that need a signed-in user. */
+export const isProtected = (route: Route) =>
+    route.name === 'dashboard' || route.name === 'newAudit' || route.name === 'audit' || route.name === 'account';
+
+// ------------------------------------------
+// Navigation
+// ------------------------------------------
+
+const NAVIGATE_EVENT = 'viralaudit:navigate';
+
+export const currentPath = () => window.location.pathname + window.location.search;
+
+/** Goes to an in-app path. `replace` swaps the current history entry instead of adding one. */
+export const navigate = (path: string, { replace = false } = {}) => {
+    if (path === currentPath()) return;
+    if (replace) window.history.replaceState(null, '', path);
+    else window.history.pushState(null, '', path);
+    window.dispatchEvent(new Event(NAVIGATE_EVENT));
+    if (!replace) window.scrollTo({ top: 0 });
+};
+
+/** Calls `listener` on every navigation, ours or the browser's back/forward. Returns an unsubscribe. */
+export const onNavigate = (listener: () => void) => {
+    window.addEventListener('popstate', listener);
+    window.addEventListener(NAVIGATE_EVENT, listener);
+    return () => {
+        window.removeEventListener('popstate', listener);
+        window.removeEventListener(NAVIGATE_EVENT, listener);
+    };
+};
@@ -0,0 +1,70 @@
+import { supabase } from "./supabase";
+import { GeneratedVariant, RewriteStyleId, VariantKind } from "./rewrites";
+
+// ==========================================
+// ✍️ SAVED SCRIPT VARIANTS (public.script_variants)
+// ==========================================
+
+export type ScriptVariant = {
+    id: string;
+    auditId: string;
+    kind: VariantKind;
+    style: RewriteStyleId;
+    text: string;
+    /** Changed by hand after generation. */
+    edited: boolean;
+    updatedAt: string;
+};
+
+const COLUMNS = 'id, audit_id, kind, style, text, edited, updated_at';
+
+const toVariant = (row: any): ScriptVariant => ({
+    id: row.id,
+    auditId: row.audit_id,
+    kind: row.kind,
+    style: row.style,
+    text: row.text,
+    edited: row.edited,
+    updatedAt: row.updated_at,
+});
+
+const requireClient = () => {
+    if (!supabase) throw new Error("Supabase not configured");
+    return supabase;
+};
+
+export const listVariants = async (auditId: string): Promise<ScriptVariant[]> => {
+    const { data, error } = await requireClient()
+        .from('script_variants')
+        .select(COLUMNS)
+        .eq('audit_id', auditId)
+        .order('created_at');
+    if (error) throw new Error(error.message);
+    return (data || []).map(toVariant);
+};
+
+export const saveVariant = async (userId: string, auditId: string, variant: GeneratedVariant & { edited: boolean }): Promise<ScriptVariant> => {
+    const { data, error } = await requireClient()
+        .from('script_variants')
+        .insert({ user_id: userId, audit_id: auditId, kind: variant.kind, style: variant.style, text: variant.text, edited: variant.edited })
+        .select(COLUMNS)
+        .single();
+    if (error) throw new Error(error.message);
+    return toVariant(data);
+};
+
+export const updateVariantText = async (id: string, text: string): Promise<ScriptVariant> => {
+    const { data, error } = await requireClient()
+        .from('script_variants')
+        .update({ text, edited: true })
+        .eq('id', id)
+        .select(COLUMNS)
+        .single();
+    if (error) throw new Error(error.message);
+    return toVariant(data);
+};
+
+export const deleteVariant = async (id: string) => {
+    const { error } = await requireClient().from('script_variants').delete().eq('id', id);
+    if (error) throw new Error(error.message);
+};
@@ -0,0 +1,89 @@
+import { supabase } from "./supabase";
+import { SHARE_LIMITS, ShareLink } from "./shares";
+
+// ==========================================
+// 🔗 SHARE LINKS (public.report_shares)
+// ==========================================
+// Links are created through create_report_share() so the password is hashed
+// in the database; the hash itself is never readable. They are revoked through
+// revoke_report_share(), which can't turn a link back on.
+
+const COLUMNS = 'id, token, audit_id, include_video, has_password, expires_at, revoked_at, view_count, last_viewed_at, created_at';
+
+const CREATE_ERRORS: Record<string, string> = {
+    audit_not_found: "Only audits saved in your history can be shared.",
+    expiry_in_past: "The expiry date has already passed.",
+    invalid_password: `Passwords need ${SHARE_LIMITS.passwordMin} to ${SHARE_LIMITS.passwordMax} characters.`,
+};
+
+const REVOKE_ERRORS: Record<string, string> = {
+    share_not_found: "This link no longer exists.",
+};
+
+const toLink = (row: any): ShareLink => ({
+    id: row.id,
+    token: row.token,
+    auditId: row.audit_id,
+    includeVideo: row.include_video,
+    hasPassword: row.has_password,
+    expiresAt: row.expires_at ?? null,
+    revokedAt: row.revoked_at ?? null,
+    viewCount: row.view_count,
+    lastViewedAt: row.last_viewed_at ?? null,
+    createdAt: row.created_at,
+});
+
+const requireClient = () => {
+    if (!supabase) throw new Error("Supabase not configured");
+    return supabase;
+};
+
+export const listShares = async (auditId: string): Promise<ShareLink[]> => {
+    const { data, error } = await requireClient()
+        .from('report_shares')
+        .select(COLUMNS)
+        .eq('audit_id', auditId)
+        .order('created_at', { ascending: false });
+    if (error) throw new Error(error.message);
+    return (data || []).map(toLink);
+};
+
+export type ShareOptions = {
+    includeVideo: boolean;
+    /** Null = never expires. */
+    expiresInDays: number | null;
+    /** Empty or null = no password. */
+    password: string | null;
+};
+
+export const createShare = async (auditId: string, options: ShareOptions): Promise<ShareLink> => {
+    const client = requireClient();
+    const password = options.password || null;
+    if (password !== null && (password.length < SHARE_LIMITS.passwordMin || password.length > SHARE_LIMITS.passwordMax)) {
+        throw new Error(CREATE_ERRORS.invalid_password);
+    }
+    const expiresAt = options.expiresInDays === null ? null : new Date(Date.now() + options.expiresInDays * 86_400_000).toISOString();
+
+    const { data: id, error } = await client.rpc('create_report_share', {
+        p_audit_id: auditId,
+        p_include_video: options.includeVideo,
+        p_expires_at: expiresAt,
+        p_password: password,
+    });
+    if (error) throw new Error(CREATE_ERRORS[error.message] ?? error.message);
+
+    const { data, error: readError } = await client.from('report_shares').select(COLUMNS).eq('id', id).single();
+    if (readError) throw new Error(readError.message);
+    return toLink(data);
+};
+
+/** Turns a link off for good; visitors see that it was revoked. */
+export const revokeShare = async (id: string): Promise<ShareLink> => {
+    const client = requireClient();
+    const { error } = await client.rpc('revoke_report_share', { p_id: id });
+    if (error) throw new Error(REVOKE_ERRORS[error.message] ?? error.message);
+
+    const { data, error: readError } = await client.from('report_shares').select(COLUMNS).eq('id', id).single();
+    if (readError) throw new Error(readError.message);
+    return toLink(data);
+};
@@ -0,0 +1,104 @@
+import { AuditReport, parseTranscript, validateAuditReport } from "./report";
+
+// ==========================================
+// 🔗 SHARE LINKS
+// ==========================================
+// A share link lets someone without an account read one report. The token
+// travels in the URL hash (/#share=<token>), so it never reaches server logs
+// or Referer headers. Visitors open it through POST /api/share (server/shares),
+// which checks expiry, revocation and the optional password in Postgres and
+// only signs a video URL when the owner chose to include the video.
+
+export const SHARE_LIMITS = {
+    passwordMin: 4,
+    passwordMax: 128,
+};
+
+export const SHARE_EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+    { label: 'Never expires', days: null },
+    { label: '1 day', days: 1 },
+    { label: '7 days', days: 7 },
+    { label: '30 days', days: 30 },
+];
+
+/** Why a link can't be opened (the API's error codes). */
+export const SHARE_ERROR_CODES = ['not_found', 'revoked', 'expired', 'locked', 'password_required', 'wrong_password'] as const;
+export type ShareErrorCode = typeof SHARE_ERROR_CODES[number];
+
+export const SHARE_ERROR_MESSAGES: Record<ShareErrorCode, string> = {
+    not_found: "This link doesn't exist. Check that it was copied in full.",
+    revoked: "The owner has turned this link off.",
+    expired: "This link has expired. Ask the owner for a new one.",
+    locked: "Too many wrong passwords. Wait a few minutes, then try again.",
+    password_required: "This report is password protected.",
+    wrong_password: "That password isn't right.",
+};
+
+export type ShareLink = {
+    id: string;
+    token: string;
+    auditId: string;
+    includeVideo: boolean;
+    hasPassword: boolean;
+    expiresAt: string | null;
+    revokedAt: string | null;
+    viewCount: number;
+    lastViewedAt: string | null;
+    createdAt: string;
+};
+
+export type ShareState = 'active' | 'expired' | 'revoked';
+
+export const shareState = (link: ShareLink, now = Date.now()): ShareState =>
+    link.revokedAt ? 'revoked' : link.expiresAt && new Date(link.expiresAt).getTime() <= now ? 'expired' : 'active';
+
+export const shareUrl = (token: string, origin = window.location.origin) => `${origin}/#share=${token}`;
+
+/** The token in a `#share=<token>` hash, or null. */
+export const shareTokenFromHash = (hash: string) => hash.match(/^#share=([0-9a-f]{48})$/)?.[1] ?? null;
+
+export class ShareError extends Error {
+    constructor(public code: ShareErrorCode | 'unavailable', message: string) {
+        super(message);
+        this.name = 'ShareError';
+    }
+}
+
+/** What a visitor sees. */
+export type SharedReport = {
+    fileName: string;
+    /** With the owner's edited transcript, when there is one. */
+    report: AuditReport;
+    /** Signed and short-lived; null unless the owner included the video. */
+    videoUrl: string | null;
+    expiresAt: string | null;
+};
+
+/** Opens a share link as a visitor. Throws ShareError. */
+export const openSharedReport = async (token: string, password: string | null): Promise<SharedReport> => {
+    let response: Response;
+    try {
+        response = await fetch('/api/share', {
+            method: 'POST',
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ token, password }),
+        });
+    } catch {
+        throw new ShareError('unavailable', "Couldn't reach ViralAudit. Check your connection and try again.");
+    }
+    const json = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        const code = json.error?.code;
+        if ((SHARE_ERROR_CODES as readonly string[]).includes(code)) throw new ShareError(code, SHARE_ERROR_MESSAGES[code as ShareErrorCode]);
+        throw new ShareError('unavailable', json.error?.message || "This report couldn't be loaded.");
+    }
+
+    const report = validateAuditReport(json.report);
+    const edited = json.transcript ? parseTranscript(json.transcript) : null;
+    return {
+        fileName: json.fileName,
+        report: edited ? { ...report, transcript: edited } : report,
+        videoUrl: typeof json.videoUrl === 'string' ? json.videoUrl : null,
+        expiresAt: json.expiresAt ?? null,
+    };
+};
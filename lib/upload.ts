@@ -0,0 +1,213 @@
+import * as tus from "tus-js-client";
+import { supabase, SUPABASE_URL } from "./supabase";
+
+// ==========================================
+// 📤 VIDEO VALIDATION + RESUMABLE UPLOAD
+// ==========================================
+// Files are checked in the browser before any credit is spent, then uploaded
+// in 6 MB chunks to Supabase Storage over TUS. An interrupted upload resumes
+// where it stopped, even after a page reload. The worker only ever receives
+// the storage path.
+
+export const VIDEO_BUCKET = 'creatives';
+
+export const UPLOAD_LIMITS = {
+    maxBytes: 250 * 1024 * 1024,
+    maxDurationSeconds: 180,
+    maxLongSide: 3840,
+    minShortSide: 240,
+};
+
+/** Supabase's resumable endpoint requires exactly this chunk size. */
+const CHUNK_SIZE = 6 * 1024 * 1024;
+
+export type Container = 'mp4' | 'mov' | 'webm';
+
+const CONTAINER_MIME: Record<Container, string> = {
+    mp4: 'video/mp4',
+    mov: 'video/quicktime',
+    webm: 'video/webm',
+};
+
+export type VideoInfo = {
+    container: Container;
+    mimeType: string;
+    durationSeconds: number;
+    width: number;
+    height: number;
+    sizeBytes: number;
+};
+
+export type StoredVideo = {
+    bucket: string;
+    path: string;
+    mimeType: string;
+};
+
+export class VideoValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'VideoValidationError';
+    }
+}
+
+export class UploadError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UploadError';
+    }
+}
+
+// ------------------------------------------
+// Validation
+// ------------------------------------------
+
+/** Identifies the container from its magic bytes rather than the file extension. */
+export const sniffContainer = async (file: Blob): Promise<Container | null> => {
+    const bytes = new Uint8Array(await file.slice(0, 16).arrayBuffer());
+    const ascii = (from: number, to: number) => String.fromCharCode(...bytes.slice(from, to));
+
+    // EBML header (Matroska / WebM)
+    if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) return 'webm';
+    // ISO base media: [size]['ftyp'][major brand]
+    if (ascii(4, 8) === 'ftyp') return ascii(8, 12) === 'qt  ' ? 'mov' : 'mp4';
+    // Older QuickTime files can start with other atoms
+    if (['moov', 'mdat', 'wide', 'free'].includes(ascii(4, 8))) return 'mov';
+    return null;
+};
+
+const probeMetadata = (file: File) => new Promise<{ duration: number; width: number; height: number }>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    const cleanup = () => {
+        clearTimeout(timer);
+        video.removeAttribute('src');
+        video.load();
+        URL.revokeObjectURL(url);
+    };
+    const timer = setTimeout(() => {
+        cleanup();
+        reject(new VideoValidationError("We couldn't read this video's metadata. Is the file complete?"));
+    }, 15000);
+
+    video.preload = 'metadata';
+    video.muted = true;
+    video.onloadedmetadata = () => {
+        const result = { duration: video.duration, width: video.videoWidth, height: video.videoHeight };
+        cleanup();
+        resolve(result);
+    };
+    video.onerror = () => {
+        cleanup();
+        reject(new VideoValidationError("Your browser can't decode this video. Try exporting it as H.264 MP4."));
+    };
+    video.src = url;
+});
+
+const formatMb = (bytes: number) => `${Math.round(bytes / (1024 * 1024))}MB`;
+
+/** Throws VideoValidationError with a user-facing message when the file can't be audited. */
+export const validateVideo = async (file: File): Promise<VideoInfo> => {
+    if (file.size === 0) throw new VideoValidationError("This file is empty.");
+    if (file.size > UPLOAD_LIMITS.maxBytes) {
+        throw new VideoValidationError(`This file is ${formatMb(file.size)}. The maximum is ${formatMb(UPLOAD_LIMITS.maxBytes)}.`);
+    }
+
+    const container = await sniffContainer(file);
+    if (!container) throw new VideoValidationError("This doesn't look like an MP4, MOV or WEBM video.");
+
+    const { duration, width, height } = await probeMetadata(file);
+    if (!Number.isFinite(duration) || duration <= 0) {
+        throw new VideoValidationError("We couldn't determine this video's length.");
+    }
+    if (duration > UPLOAD_LIMITS.maxDurationSeconds) {
+        throw new VideoValidationError(`This video is ${Math.round(duration)}s long. Ads up to ${UPLOAD_LIMITS.maxDurationSeconds / 60} minutes are supported.`);
+    }
+    if (!width || !height) throw new VideoValidationError("This file has no video track.");
+    if (Math.max(width, height) > UPLOAD_LIMITS.maxLongSide) {
+        throw new VideoValidationError(`${width}×${height} is above 4K. Please export at a lower resolution.`);
+    }
+    if (Math.min(width, height) < UPLOAD_LIMITS.minShortSide) {
+        throw new VideoValidationError(`${width}×${height} is too small to audit reliably (minimum ${UPLOAD_LIMITS.minShortSide}p).`);
+    }
+
+    return { container, mimeType: CONTAINER_MIME[container], durationSeconds: duration, width, height, sizeBytes: file.size };
+};
+
+// ------------------------------------------
+// Upload
+// ------------------------------------------
+
+/** Stable per file, so retrying the same file resumes the same object. */
+const fileFingerprint = async (file: File) => {
+    const source = `${file.name}:${file.size}:${file.lastModified}`;
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(source));
+    return Array.from(new Uint8Array(digest).slice(0, 12), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export type UploadOptions = {
+    userId: string;
+    info: VideoInfo;
+    /** 0–1 */
+    onProgress?: (fraction: number) => void;
+    signal?: AbortSignal;
+};
+
+/** Short-lived URL for playing back a stored creative. */
+export const getVideoUrl = async (path: string, expiresInSeconds = 3600): Promise<string> => {
+    if (!supabase) throw new UploadError("Supabase not configured");
+    const { data, error } = await supabase.storage.from(VIDEO_BUCKET).createSignedUrl(path, expiresInSeconds);
+    if (error || !data) throw new UploadError("This video is no longer stored.");
+    return data.signedUrl;
+};
+
+export const uploadVideo = async (file: File, { userId, info, onProgress, signal }: UploadOptions): Promise<StoredVideo> => {
+    if (!supabase) throw new UploadError("Supabase not configured");
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new UploadError("Your session has expired, please log in again.");
+
+    // Objects live under the owner's id; storage policies enforce that.
+    const path = `${userId}/${await fileFingerprint(file)}.${info.container}`;
+
+    return new Promise<StoredVideo>((resolve, reject) => {
+        // Cancelled while the session or fingerprint were being read
+        if (signal?.aborted) return reject(new DOMException('Upload cancelled', 'AbortError'));
+
+        const upload = new tus.Upload(file, {
+            endpoint: `${SUPABASE_URL}/storage/v1/upload/resumable`,
+            chunkSize: CHUNK_SIZE,
+            retryDelays: [0, 2000, 5000, 10000, 20000],
+            headers: {
+                authorization: `Bearer ${session.access_token}`,
+                'x-upsert': 'true',
+            },
+            uploadDataDuringCreation: true,
+            removeFingerprintOnSuccess: true,
+            metadata: {
+                bucketName: VIDEO_BUCKET,
+                objectName: path,
+                contentType: info.mimeType,
+                cacheControl: '3600',
+            },
+            onProgress: (sent, total) => onProgress?.(total ? sent / total : 0),
+            onSuccess: () => resolve({ bucket: VIDEO_BUCKET, path, mimeType: info.mimeType }),
+            onError: (err) => {
+                const status = (err as tus.DetailedError).originalResponse?.getStatus();
+                reject(new UploadError(status === 413
+                    ? "The file is larger than storage accepts."
+                    : `Upload failed (${err.message}). Try again to resume where it stopped.`));
+            },
+        });
+
+        signal?.addEventListener('abort', () => {
+            upload.abort();
+            reject(new DOMException('Upload cancelled', 'AbortError'));
+        }, { once: true });
+
+        // A failed lookup (e.g. storage blocked) only means starting from scratch
+        upload.findPreviousUploads()
+            .then(previous => { if (previous.length) upload.resumeFromPreviousUpload(previous[0]); })
+            .catch(err => console.warn("Could not look up previous uploads", err))
+            .then(() => { if (!signal?.aborted) upload.start(); });
+    });
+};
@@ -0,0 +1,150 @@
+import { supabase } from "./supabase";
+import {
+    AssignableRole, PendingInvite, WORKSPACE_LIMITS, Workspace, WorkspaceInvite, WorkspaceMember
+} from "./workspaces";
+
+// ==========================================
+// 👥 WORKSPACES (public.workspaces / workspace_members / workspace_invites)
+// ==========================================
+// Members read the tables directly; every change goes through a Postgres
+// function that checks the caller's role.
+
+const ERRORS: Record<string, string> = {
+    feature_not_in_plan: "Team workspaces are part of the Professional plan.",
+    not_allowed: "Only the workspace's owner or admins can do that.",
+    personal_workspace: "Your personal workspace can't be renamed, shared or deleted.",
+    invalid_name: `Workspace names need 1 to ${WORKSPACE_LIMITS.name} characters.`,
+    invalid_email: "That doesn't look like an email address.",
+    invalid_role: "Pick Member or Admin.",
+    already_member: "They're already in this workspace.",
+    workspace_full: `A workspace holds up to ${WORKSPACE_LIMITS.members} people, counting pending invites.`,
+    invite_not_found: "This invite was withdrawn or has already been used.",
+    owner_cannot_leave: "The owner can't leave. Delete the workspace instead.",
+    not_a_member: "They aren't in this workspace any more.",
+};
+
+const fail = (error: { message: string }): never => {
+    throw new Error(ERRORS[error.message] ?? error.message);
+};
+
+const requireClient = () => {
+    if (!supabase) throw new Error("Supabase not configured");
+    return supabase;
+};
+
+/** The workspaces the user belongs to, personal first. */
+export const listWorkspaces = async (userId: string): Promise<Workspace[]> => {
+    const { data, error } = await requireClient()
+        .from('workspace_members')
+        .select('role, workspaces (id, name, personal, owner_id)')
+        .eq('user_id', userId);
+    if (error) fail(error);
+    return (data || [])
+        .map((row: any) => ({
+            id: row.workspaces.id,
+            name: row.workspaces.name,
+            personal: row.workspaces.personal,
+            ownerId: row.workspaces.owner_id,
+            role: row.role,
+        }))
+        .sort((a, b) => Number(b.personal) - Number(a.personal) || a.name.localeCompare(b.name));
+};
+
+export const switchWorkspace = async (id: string) => {
+    const { error } = await requireClient().rpc('set_active_workspace', { p_workspace: id });
+    if (error) fail(error);
+};
+
+/** Creates a team workspace owned by the caller and switches to it. */
+export const createWorkspace = async (name: string): Promise<string> => {
+    const { data, error } = await requireClient().rpc('create_workspace', { p_name: name.trim() });
+    if (error) fail(error);
+    return data as string;
+};
+
+export const renameWorkspace = async (id: string, name: string) => {
+    const { error } = await requireClient().rpc('rename_workspace', { p_workspace: id, p_name: name.trim() });
+    if (error) fail(error);
+};
+
+/** Deletes the workspace with its audits, presets and benchmark libraries. */
+export const deleteWorkspace = async (id: string) => {
+    const { error } = await requireClient().rpc('delete_workspace', { p_workspace: id });
+    if (error) fail(error);
+};
+
+// ------------------------------------------
+// Members
+// ------------------------------------------
+
+export const listMembers = async (workspaceId: string): Promise<WorkspaceMember[]> => {
+    const { data, error } = await requireClient()
+        .from('workspace_members')
+        .select('user_id, email, role, created_at')
+        .eq('workspace_id', workspaceId)
+        .order('created_at');
+    if (error) fail(error);
+    return (data || []).map((row: any) => ({ userId: row.user_id, email: row.email, role: row.role, joinedAt: row.created_at }));
+};
+
+export const setMemberRole = async (workspaceId: string, userId: string, role: AssignableRole) => {
+    const { error } = await requireClient().rpc('set_member_role', { p_workspace: workspaceId, p_user: userId, p_role: role });
+    if (error) fail(error);
+};
+
+/** Removes someone; with the caller's own id, leaves the workspace. */
+export const removeMember = async (workspaceId: string, userId: string) => {
+    const { error } = await requireClient().rpc('remove_member', { p_workspace: workspaceId, p_user: userId });
+    if (error) fail(error);
+};
+
+// ------------------------------------------
+// Invites
+// ------------------------------------------
+
+/** Pending invites of a workspace (owners and admins only). */
+export const listInvites = async (workspaceId: string): Promise<WorkspaceInvite[]> => {
+    const { data, error } = await requireClient()
+        .from('workspace_invites')
+        .select('id, email, role, created_at')
+        .eq('workspace_id', workspaceId)
+        .order('created_at', { ascending: false });
+    if (error) fail(error);
+    return (data || []).map((row: any) => ({ id: row.id, email: row.email, role: row.role, createdAt: row.created_at }));
+};
+
+/** Inviting an address again updates its role. */
+export const inviteMember = async (workspaceId: string, email: string, role: AssignableRole) => {
+    const { error } = await requireClient().rpc('invite_member', { p_workspace: workspaceId, p_email: email.trim(), p_role: role });
+    if (error) fail(error);
+};
+
+export const revokeInvite = async (id: string) => {
+    const { error } = await requireClient().rpc('revoke_invite', { p_invite: id });
+    if (error) fail(error);
+};
+
+/** Invites waiting for the signed-in user's email address. */
+export const listMyInvites = async (): Promise<PendingInvite[]> => {
+    const { data, error } = await requireClient().rpc('my_invites');
+    if (error) fail(error);
+    return ((data as any[]) || []).map(row => ({
+        id: row.id,
+        workspaceId: row.workspace_id,
+        workspaceName: row.workspace_name,
+        role: row.role,
+        invitedBy: row.invited_by ?? null,
+        createdAt: row.created_at,
+    }));
+};
+
+/** Joins the workspace and makes it the active one. */
+export const acceptInvite = async (id: string) => {
+    const { error } = await requireClient().rpc('accept_invite', { p_invite: id });
+    if (error) fail(error);
+};
+
+export const declineInvite = async (id: string) => {
+    const { error } = await requireClient().rpc('decline_invite', { p_invite: id });
+    if (error) fail(error);
+};
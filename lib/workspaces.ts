@@ -0,0 +1,76 @@
+// ==========================================
+// 👥 TEAM WORKSPACES
+// ==========================================
+// Audits, presets and benchmark libraries belong to a workspace. Everyone has
+// a personal one; Professional users can create team workspaces and invite
+// people by email. A workspace runs on its owner's plan, so members spend the
+// owner's quota and get the owner's features. The active workspace is kept
+// server-side (see the workspaces migration), which is why switching is a
+// single call followed by reloading entitlements.
+
+export const WORKSPACE_ROLES = ['owner', 'admin', 'member'] as const;
+export type WorkspaceRole = typeof WORKSPACE_ROLES[number];
+
+/** Roles someone can be invited as or changed to; there is only one owner. */
+export const ASSIGNABLE_ROLES = ['member', 'admin'] as const;
+export type AssignableRole = typeof ASSIGNABLE_ROLES[number];
+
+export const ROLE_LABELS: Record<WorkspaceRole, string> = {
+    owner: 'Owner',
+    admin: 'Admin',
+    member: 'Member',
+};
+
+export const ROLE_DESCRIPTIONS: Record<AssignableRole, string> = {
+    member: 'Runs audits and uses the shared presets and benchmarks.',
+    admin: 'Also invites and removes members and renames the workspace.',
+};
+
+/** Keep in step with the workspaces migration. */
+export const WORKSPACE_LIMITS = {
+    name: 60,
+    /** People per workspace, counting pending invites. */
+    members: 10,
+};
+
+/** The workspace the user is working in, as reported with their entitlements. */
+export type CurrentWorkspace = {
+    id: string;
+    name: string;
+    role: WorkspaceRole;
+    personal: boolean;
+};
+
+export type Workspace = CurrentWorkspace & {
+    ownerId: string;
+};
+
+export type WorkspaceMember = {
+    userId: string;
+    email: string;
+    role: WorkspaceRole;
+    joinedAt: string;
+};
+
+export type WorkspaceInvite = {
+    id: string;
+    email: string;
+    role: AssignableRole;
+    createdAt: string;
+};
+
+/** An invite addressed to the signed-in user. */
+export type PendingInvite = {
+    id: string;
+    workspaceId: string;
+    workspaceName: string;
+    role: AssignableRole;
+    invitedBy: string | null;
+    createdAt: string;
+};
+
+export const canManageWorkspace = (role: WorkspaceRole | null | undefined) => role === 'owner' || role === 'admin';
+
+/** Whether `role` may remove someone with `target`'s role (removing yourself is leaving). */
+export const canRemoveMember = (role: WorkspaceRole | null | undefined, target: WorkspaceRole) =>
+    target !== 'owner' && (role === 'owner' || (role === 'admin' && target === 'member'));
@@ -0,0 +1,104 @@
+// ==========================================
+// 🗜️ ZIP (store only)
+// ==========================================
+// Just enough of the ZIP format for the account export: files are stored
+// uncompressed (the videos wouldn't shrink anyway), names are UTF-8, and the
+// archive is assembled as a Blob so large files aren't copied into one
+// buffer. No ZIP64, so the whole archive must stay under 4 GB.
+
+export type ZipEntry = {
+    /** Path inside the archive, with forward slashes. */
+    name: string;
+    data: Blob | string;
+    modified?: Date;
+};
+
+export const MAX_ZIP_BYTES = 0xffffffff;
+
+let crcTable: Uint32Array | null = null;
+
+const crc32 = (bytes: Uint8Array, crc = 0) => {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            crcTable[n] = c >>> 0;
+        }
+    }
+    crc = ~crc >>> 0;
+    for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    return ~crc >>> 0;
+};
+
+/** CRC of a Blob, read in chunks so a large video isn't held in memory twice. */
+const blobCrc32 = async (blob: Blob) => {
+    const CHUNK = 8 * 1024 * 1024;
+    let crc = 0;
+    for (let offset = 0; offset < blob.size; offset += CHUNK) {
+        crc = crc32(new Uint8Array(await blob.slice(offset, offset + CHUNK).arrayBuffer()), crc);
+    }
+    return crc;
+};
+
+/** MS-DOS date and time, as ZIP headers store them. */
+const dosDateTime = (date: Date) => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: (Math.max(0, date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+export const createZip = async (entries: ZipEntry[]): Promise<Blob> => {
+    const encoder = new TextEncoder();
+    const parts: BlobPart[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const data = typeof entry.data === 'string' ? new Blob([entry.data]) : entry.data;
+        const name = encoder.encode(entry.name);
+        const crc = await blobCrc32(data);
+        const { time, date } = dosDateTime(entry.modified ?? new Date());
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034b50, true);
+        local.setUint16(4, 20, true);           // version needed
+        local.setUint16(6, 0x0800, true);       // UTF-8 names
+        local.setUint16(8, 0, true);            // stored
+        local.setUint16(10, time, true);
+        local.setUint16(12, date, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, data.size, true);
+        local.setUint32(22, data.size, true);
+        local.setUint16(26, name.length, true);
+        local.setUint16(28, 0, true);
+
+        const header = new DataView(new ArrayBuffer(46));
+        header.setUint32(0, 0x02014b50, true);
+        header.setUint16(4, 20, true);          // version made by
+        header.setUint16(6, 20, true);
+        header.setUint16(8, 0x0800, true);
+        header.setUint16(10, 0, true);
+        header.setUint16(12, time, true);
+        header.setUint16(14, date, true);
+        header.setUint32(16, crc, true);
+        header.setUint32(20, data.size, true);
+        header.setUint32(24, data.size, true);
+        header.setUint16(28, name.length, true);
+        header.setUint32(42, offset, true);     // local header offset
+
+        parts.push(local.buffer, name, data);
+        central.push(new Uint8Array(header.buffer), name);
+        offset += 30 + name.length + data.size;
+        if (offset > MAX_ZIP_BYTES) throw new Error("The export is too large for a single ZIP file.");
+    }
+
+    const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    return new Blob([...parts, ...central, end.buffer], { type: 'application/zip' });
+};
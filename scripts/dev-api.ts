@@ -0,0 +1,58 @@
+import './env';
+import http from 'node:http';
+import path from 'node:path';
+import { existsSync } from 'node:fs';
+import { pathToFileURL } from 'node:url';
+
+// ==========================================
+// Local runner for the api/ routes
+// ==========================================
+// `npm run api:dev` serves /api/<name> from api/<name>.ts on port 3001; the
+// Vite dev server proxies /api here. Each module exports one function per
+// HTTP method taking a Request and returning a Response, as on Vercel.
+
+const PORT = Number(process.env.API_PORT || 3001);
+const API_DIR = path.resolve(process.cwd(), 'api');
+
+const readBody = (req: http.IncomingMessage) => new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+});
+
+const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || `localhost:${PORT}`}`);
+    const name = url.pathname.replace(/^\/api\//, '').replace(/\/$/, '');
+    const file = path.join(API_DIR, `${name}.ts`);
+
+    try {
+        if (!/^[\w\-/]+$/.test(name) || !existsSync(file)) {
+            res.writeHead(404).end('Not found');
+            return;
+        }
+        const mod = await import(pathToFileURL(file).href);
+        const handler = mod[req.method || 'GET'];
+        if (typeof handler !== 'function') {
+            res.writeHead(405).end('Method not allowed');
+            return;
+        }
+
+        const body = req.method === 'GET' || req.method === 'HEAD' ? undefined : await readBody(req);
+        const headers = new Headers();
+        for (const [key, value] of Object.entries(req.headers)) {
+            if (value !== undefined) headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+        }
+
+        const response: Response = await handler(new Request(url, { method: req.method, headers, body }));
+        res.writeHead(response.status, Object.fromEntries(response.headers));
+        res.end(Buffer.from(await response.arrayBuffer()));
+    } catch (err) {
+        console.error(err);
+        res.writeHead(500).end('Internal error');
+    } finally {
+        console.log(`${req.method} ${url.pathname} -> ${res.statusCode}`);
+    }
+});
+
+server.listen(PORT, () => console.log(`API routes on http://localhost:${PORT}/api`));
@@ -0,0 +1,8 @@
+import { loadEnv } from 'vite';
+
+// Same .env / .env.local files the Vite dev server reads, copied into
+// process.env so server code sees them the way it would on Vercel.
+const env = loadEnv(process.env.NODE_ENV || 'development', process.cwd(), '');
+for (const [key, value] of Object.entries(env)) {
+    if (process.env[key] === undefined) process.env[key] = value;
+}
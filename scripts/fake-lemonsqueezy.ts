@@ -0,0 +1,93 @@
+import './env';
+import { randomUUID } from 'node:crypto';
+import { signPayload } from '../server/lemonsqueezy';
+
+// ==========================================
+// Fake Lemon Squeezy webhook sender
+// ==========================================
+// Signs and posts subscription events the way Lemon Squeezy does, so the
+// webhook handler can be exercised locally:
+//
+//   npm run fake:lemonsqueezy -- created  --user <uuid> --plan professional
+//   npm run fake:lemonsqueezy -- renewed  --user <uuid> --subscription 1001
+//   npm run fake:lemonsqueezy -- cancelled --user <uuid> --subscription 1001
+//   npm run fake:lemonsqueezy -- expired  --user <uuid> --subscription 1001
+//
+// Options: --url (default http://localhost:3001/api/lemonsqueezy-webhook),
+// --bad-signature to check that unsigned deliveries are rejected.
+
+const EVENTS = {
+    created: 'subscription_created',
+    updated: 'subscription_updated',
+    renewed: 'subscription_payment_success',
+    cancelled: 'subscription_cancelled',
+    expired: 'subscription_expired',
+} as const;
+
+const args = process.argv.slice(2);
+const kind = args[0] as keyof typeof EVENTS;
+const option = (name: string, fallback?: string) => {
+    const index = args.indexOf(`--${name}`);
+    return index !== -1 ? args[index + 1] : fallback;
+};
+
+if (!EVENTS[kind]) {
+    console.error(`Usage: fake-lemonsqueezy <${Object.keys(EVENTS).join('|')}> --user <uuid> [--plan starter|professional] [--subscription <id>] [--url <webhook url>] [--bad-signature]`);
+    process.exit(1);
+}
+
+const userId = option('user');
+const plan = option('plan', 'starter') as 'starter' | 'professional';
+const subscriptionId = option('subscription', String(1000 + Math.floor(Math.random() * 9000)));
+const url = option('url', `http://localhost:${process.env.API_PORT || 3001}/api/lemonsqueezy-webhook`)!;
+const secret = process.env.LEMONSQUEEZY_WEBHOOK_SECRET;
+const variantId = process.env[plan === 'professional' ? 'LEMONSQUEEZY_PROFESSIONAL_VARIANT_ID' : 'LEMONSQUEEZY_STARTER_VARIANT_ID'];
+
+if (!userId || !secret || !variantId) {
+    console.error("Needs --user, LEMONSQUEEZY_WEBHOOK_SECRET and the plan's LEMONSQUEEZY_*_VARIANT_ID in .env.local");
+    process.exit(1);
+}
+
+const now = new Date();
+const inAMonth = new Date(now.getTime() + 30 * 24 * 3600 * 1000);
+const eventName = EVENTS[kind];
+const meta = { event_name: eventName, custom_data: { user_id: userId } };
+
+const status = { created: 'active', updated: 'active', renewed: 'active', cancelled: 'cancelled', expired: 'expired' }[kind];
+
+const payload = kind === 'renewed'
+    ? {
+        meta,
+        data: {
+            type: 'subscription-invoices',
+            id: randomUUID(),
+            attributes: { subscription_id: Number(subscriptionId), customer_id: 42, billing_reason: 'renewal', status: 'paid' },
+        },
+    }
+    : {
+        meta,
+        data: {
+            type: 'subscriptions',
+            id: subscriptionId,
+            attributes: {
+                customer_id: 42,
+                variant_id: Number(variantId),
+                status,
+                renews_at: inAMonth.toISOString(),
+                ends_at: kind === 'cancelled' ? inAMonth.toISOString() : kind === 'expired' ? now.toISOString() : null,
+                updated_at: now.toISOString(),
+            },
+        },
+    };
+
+const body = JSON.stringify(payload);
+const signature = args.includes('--bad-signature') ? 'deadbeef' : await signPayload(body, secret);
+
+const response = await fetch(url, {
+    method: 'POST',
+    headers: { "Content-Type": 'application/json', "X-Event-Name": eventName, "X-Signature": signature },
+    body,
+});
+
+console.log(`${eventName} (subscription ${subscriptionId}) -> ${response.status}`);
+console.log(await response.text());
@@ -0,0 +1,49 @@
+import http from 'node:http';
+import { WEBHOOK_SIGNATURE_HEADER, WebhookEvent, verifyWebhookSignature } from '../lib/apiKeys';
+
+// ==========================================
+// Local receiver for public API webhooks
+// ==========================================
+// Prints each delivery and whether its signature checks out, so an
+// integration can be tried before it has a server of its own:
+//
+//   npm run webhook:listen -- --secret whsec_... [--port 4000]
+//
+// then create an API key with the webhook URL http://localhost:4000 (the dev
+// worker allows plain http) or pass `webhookUrl` when submitting.
+
+const args = process.argv.slice(2);
+const option = (name: string, fallback?: string) => {
+    const index = args.indexOf(`--${name}`);
+    return index !== -1 ? args[index + 1] : fallback;
+};
+
+const secret = option('secret', process.env.WEBHOOK_SECRET);
+const port = Number(option('port', '4000'));
+
+if (!secret) {
+    console.error("Usage: webhook-receiver --secret <whsec_...> [--port 4000] (or set WEBHOOK_SECRET)");
+    process.exit(1);
+}
+
+const server = http.createServer(async (req, res) => {
+    if (req.method !== 'POST') return res.writeHead(405).end();
+    let body = '';
+    for await (const chunk of req) body += chunk;
+
+    const signature = req.headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()];
+    const verified = await verifyWebhookSignature(secret, body, typeof signature === 'string' ? signature : null);
+    if (!verified) {
+        console.log(`❌ ${new Date().toISOString()} rejected a delivery with a bad or stale signature`);
+        return res.writeHead(400).end();
+    }
+
+    const event: WebhookEvent = JSON.parse(body);
+    const { data } = event;
+    console.log(`✅ ${event.createdAt} ${event.type} ${data.id} (${data.fileName})`
+        + (data.overallScore !== null ? ` · ${data.overallScore}/100` : '')
+        + (data.error ? ` · ${data.error.code}: ${data.error.message}` : ''));
+    res.writeHead(204).end();
+});
+
+server.listen(port, () => console.log(`Listening for webhooks on http://localhost:${port}`));
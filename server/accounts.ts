@@ -0,0 +1,89 @@
+import type { User } from "@supabase/supabase-js";
+import { HttpError } from "./http";
+import { cancelSubscription, isBillable } from "./lemonsqueezy";
+import { getSupabaseAdmin } from "./supabaseAdmin";
+
+// ==========================================
+// 🗑️ ACCOUNT DELETION
+// ==========================================
+// Deleting the auth user cascades to every table (profiles, audits, presets,
+// share links, workspaces the user owns, ...). Storage doesn't cascade, so
+// the creatives go first, and the subscription is cancelled before anything
+// is removed so a failure there leaves the account intact.
+
+const VIDEO_BUCKET = 'creatives';
+const LIST_PAGE_SIZE = 1000;
+const REMOVE_BATCH_SIZE = 100;
+
+/** Everything under the user's folder (`<user id>/...`, see the creatives migration). */
+const listOwnCreatives = async (userId: string): Promise<string[]> => {
+    const storage = getSupabaseAdmin().storage.from(VIDEO_BUCKET);
+    const paths: string[] = [];
+    for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+        const { data, error } = await storage.list(userId, { limit: LIST_PAGE_SIZE, offset });
+        if (error) throw new Error(`Listing creatives failed: ${error.message}`);
+        paths.push(...(data || []).map(object => `${userId}/${object.name}`));
+        if (!data || data.length < LIST_PAGE_SIZE) return paths;
+    }
+};
+
+/**
+ * Teammates' uploads in the user's team workspaces, whose audits are deleted
+ * with them. Only paths no audit elsewhere still points at: the same upload
+ * can be audited in several workspaces (paths are per uploader and file).
+ */
+const listWorkspaceCreatives = async (userId: string): Promise<string[]> => {
+    const admin = getSupabaseAdmin();
+    const { data: workspaces, error: workspacesError } = await admin.from('workspaces').select('id').eq('owner_id', userId);
+    if (workspacesError) throw new Error(`Listing workspaces failed: ${workspacesError.message}`);
+    const workspaceIds = (workspaces || []).map(workspace => workspace.id as string);
+    if (!workspaceIds.length) return [];
+
+    const { data, error } = await admin
+        .from('audits')
+        .select('storage_path')
+        .in('workspace_id', workspaceIds)
+        .not('storage_path', 'is', null)
+        .not('storage_path', 'like', `${userId}/%`);
+    if (error) throw new Error(`Listing workspace creatives failed: ${error.message}`);
+    const paths = [...new Set((data || []).map(row => row.storage_path as string))];
+
+    const kept = new Set<string>();
+    for (let i = 0; i < paths.length; i += REMOVE_BATCH_SIZE) {
+        const { data: elsewhere, error: elsewhereError } = await admin
+            .from('audits')
+            .select('storage_path')
+            .in('storage_path', paths.slice(i, i + REMOVE_BATCH_SIZE))
+            .not('workspace_id', 'in', `(${workspaceIds.join(',')})`);
+        if (elsewhereError) throw new Error(`Checking shared creatives failed: ${elsewhereError.message}`);
+        (elsewhere || []).forEach(row => kept.add(row.storage_path as string));
+    }
+    return paths.filter(path => !kept.has(path));
+};
+
+export const deleteAccount = async (user: User, confirmation: unknown) => {
+    if (typeof confirmation !== 'string' || confirmation.trim().toLowerCase() !== (user.email ?? '').toLowerCase()) {
+        throw new HttpError(400, "Type your email address to confirm.", 'confirmation_mismatch');
+    }
+
+    const admin = getSupabaseAdmin();
+
+    const { data: subscription, error: subscriptionError } = await admin
+        .from('subscriptions')
+        .select('lemon_subscription_id, status')
+        .eq('user_id', user.id)
+        .maybeSingle();
+    if (subscriptionError) throw new Error(`Reading the subscription failed: ${subscriptionError.message}`);
+    if (subscription && isBillable(subscription.status)) await cancelSubscription(subscription.lemon_subscription_id);
+
+    const paths = [...new Set([...await listOwnCreatives(user.id), ...await listWorkspaceCreatives(user.id)])];
+    for (let i = 0; i < paths.length; i += REMOVE_BATCH_SIZE) {
+        const { error } = await admin.storage.from(VIDEO_BUCKET).remove(paths.slice(i, i + REMOVE_BATCH_SIZE));
+        if (error) throw new Error(`Removing creatives failed: ${error.message}`);
+    }
+
+    const { error } = await admin.auth.admin.deleteUser(user.id);
+    if (error) throw new Error(`Deleting the user failed: ${error.message}`);
+
+    return { deletedCreatives: paths.length };
+};
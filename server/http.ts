@@ -0,0 +1,39 @@
+// ==========================================
+// 🌐 HTTP HELPERS (shared by the api/ routes)
+// ==========================================
+
+export class HttpError extends Error {
+    constructor(public status: number, message: string, public code: string = 'error') {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+export const json = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { "Content-Type": "application/json", ...headers },
+    });
+
+/** Wraps a route so thrown HttpErrors become JSON error responses. */
+export const route = (handler: (request: Request) => Promise<Response>) =>
+    async (request: Request): Promise<Response> => {
+        try {
+            return await handler(request);
+        } catch (err: any) {
+            if (err instanceof HttpError) {
+                return json(err.status, { error: { code: err.code, message: err.message } });
+            }
+            console.error(err);
+            return json(500, { error: { code: 'internal', message: "Internal server error" } });
+        }
+    };
+
+/** The app's own origin: APP_URL when it's set, otherwise the host the request came in on. */
+export const appOrigin = (request: Request) => new URL(process.env.APP_URL || request.url).origin;
+
+export const requireEnv = (name: string): string => {
+    const value = process.env[name];
+    if (!value) throw new HttpError(500, `${name} is not configured`, 'misconfigured');
+    return value;
+};
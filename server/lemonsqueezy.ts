@@ -0,0 +1,266 @@
+import { PlanId } from "../lib/plans";
+import { HttpError, json, requireEnv } from "./http";
+import { getSupabaseAdmin } from "./supabaseAdmin";
+
+// ==========================================
+// 🍋 LEMON SQUEEZY
+// ==========================================
+// Checkout creation and subscription webhooks. Entitlement changes themselves
+// happen in Postgres (apply_subscription_event) so they are atomic.
+
+const API_URL = 'https://api.lemonsqueezy.com/v1';
+
+const PAID_PLANS = ['starter', 'professional'] as const;
+type PaidPlan = typeof PAID_PLANS[number];
+
+const variantEnv: Record<PaidPlan, string> = {
+    starter: 'LEMONSQUEEZY_STARTER_VARIANT_ID',
+    professional: 'LEMONSQUEEZY_PROFESSIONAL_VARIANT_ID',
+};
+
+export const isPaidPlan = (value: unknown): value is PaidPlan =>
+    typeof value === 'string' && (PAID_PLANS as readonly string[]).includes(value);
+
+const planForVariant = (variantId: string | number | null | undefined): PlanId | null => {
+    if (variantId === null || variantId === undefined) return null;
+    const match = PAID_PLANS.find(plan => process.env[variantEnv[plan]] === String(variantId));
+    return match ?? null;
+};
+
+// ------------------------------------------
+// Checkout
+// ------------------------------------------
+
+export const createCheckout = async (options: { plan: PaidPlan; userId: string; email?: string; redirectUrl: string }) => {
+    const response = await fetch(`${API_URL}/checkouts`, {
+        method: 'POST',
+        headers: {
+            Accept: 'application/vnd.api+json',
+            "Content-Type": 'application/vnd.api+json',
+            Authorization: `Bearer ${requireEnv('LEMONSQUEEZY_API_KEY')}`,
+        },
+        body: JSON.stringify({
+            data: {
+                type: 'checkouts',
+                attributes: {
+                    checkout_data: {
+                        email: options.email,
+                        // Echoed back as meta.custom_data on every subscription webhook
+                        custom: { user_id: options.userId },
+                    },
+                    product_options: { redirect_url: options.redirectUrl },
+                },
+                relationships: {
+                    store: { data: { type: 'stores', id: requireEnv('LEMONSQUEEZY_STORE_ID') } },
+                    variant: { data: { type: 'variants', id: requireEnv(variantEnv[options.plan]) } },
+                },
+            },
+        }),
+    });
+
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        console.error("Lemon Squeezy checkout failed", response.status, body);
+        throw new HttpError(502, "Checkout is unavailable, please try again", 'checkout_failed');
+    }
+    return body.data.attributes.url as string;
+};
+
+// ------------------------------------------
+// Changing plans
+// ------------------------------------------
+
+/** Statuses after which nothing will be charged again. */
+const ENDED_STATUSES = ['cancelled', 'expired'];
+
+export const isBillable = (status: string | null | undefined) => !!status && !ENDED_STATUSES.includes(status);
+
+/**
+ * Moves an existing subscription to another plan, instead of a second
+ * checkout that would bill the user twice. A cancelled subscription that
+ * hasn't expired yet is resumed on the new plan. Lemon Squeezy prorates the
+ * difference and sends subscription_updated, which applies the plan.
+ */
+export const changeSubscriptionPlan = async (subscriptionId: string, plan: PaidPlan, resume: boolean) => {
+    const response = await fetch(`${API_URL}/subscriptions/${encodeURIComponent(subscriptionId)}`, {
+        method: 'PATCH',
+        headers: {
+            Accept: 'application/vnd.api+json',
+            "Content-Type": 'application/vnd.api+json',
+            Authorization: `Bearer ${requireEnv('LEMONSQUEEZY_API_KEY')}`,
+        },
+        body: JSON.stringify({
+            data: {
+                type: 'subscriptions',
+                id: subscriptionId,
+                attributes: {
+                    variant_id: Number(requireEnv(variantEnv[plan])),
+                    ...(resume ? { cancelled: false } : {}),
+                },
+            },
+        }),
+    });
+    if (!response.ok) {
+        console.error("Lemon Squeezy plan change failed", response.status, await response.text().catch(() => ''));
+        throw new HttpError(502, "Your plan couldn't be changed, please try again", 'plan_change_failed');
+    }
+};
+
+// ------------------------------------------
+// Cancelling
+// ------------------------------------------
+
+/** Stops renewals. Lemon Squeezy keeps the subscription until the end of the paid period. */
+export const cancelSubscription = async (subscriptionId: string) => {
+    const response = await fetch(`${API_URL}/subscriptions/${encodeURIComponent(subscriptionId)}`, {
+        method: 'DELETE',
+        headers: {
+            Accept: 'application/vnd.api+json',
+            Authorization: `Bearer ${requireEnv('LEMONSQUEEZY_API_KEY')}`,
+        },
+    });
+    // Already gone on their side is as good as cancelled
+    if (!response.ok && response.status !== 404) {
+        console.error("Lemon Squeezy cancellation failed", response.status, await response.text().catch(() => ''));
+        throw new HttpError(502, "Your subscription couldn't be cancelled, so nothing was deleted. Please try again.", 'cancel_failed');
+    }
+};
+
+// ------------------------------------------
+// Webhook signatures
+// ------------------------------------------
+
+const toHex = (buffer: ArrayBuffer) =>
+    Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+
+/** HMAC-SHA256 of the raw body, hex encoded, as sent in `X-Signature`. */
+export const signPayload = async (rawBody: string, secret: string) => {
+    const key = await crypto.subtle.importKey(
+        'raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'],
+    );
+    return toHex(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(rawBody)));
+};
+
+const timingSafeEqual = (a: string, b: string) => {
+    if (a.length !== b.length) return false;
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    return diff === 0;
+};
+
+export const verifySignature = async (rawBody: string, signature: string | null, secret: string) =>
+    !!signature && timingSafeEqual(await signPayload(rawBody, secret), signature.trim().toLowerCase());
+
+// ------------------------------------------
+// Webhook events
+// ------------------------------------------
+
+export type SubscriptionUpdate = {
+    eventKey: string;
+    eventName: string;
+    userId: string | null;
+    subscriptionId: string;
+    plan: PlanId | null;
+    status: string | null;
+    customerId: string | null;
+    variantId: string | null;
+    renewsAt: string | null;
+    endsAt: string | null;
+    startPeriod: boolean;
+};
+
+/** Events that change entitlements. Everything else is acknowledged and ignored. */
+const HANDLED_EVENTS = [
+    'subscription_created',
+    'subscription_updated',
+    'subscription_cancelled',
+    'subscription_resumed',
+    'subscription_expired',
+    'subscription_paused',
+    'subscription_unpaused',
+    'subscription_payment_success',
+] as const;
+
+/** Maps a webhook payload to an entitlement update, or null if it doesn't affect one. */
+export const toSubscriptionUpdate = (payload: any): SubscriptionUpdate | null => {
+    const eventName: string | undefined = payload?.meta?.event_name;
+    if (!eventName || !(HANDLED_EVENTS as readonly string[]).includes(eventName)) return null;
+
+    const data = payload.data;
+    const attributes = data?.attributes ?? {};
+    const userId = payload.meta.custom_data?.user_id ?? null;
+
+    // Renewals arrive as invoices, which point back at their subscription.
+    if (eventName === 'subscription_payment_success') {
+        if (attributes.billing_reason !== 'renewal') return null;
+        return {
+            eventKey: `${eventName}:${data.id}`,
+            eventName,
+            userId,
+            subscriptionId: String(attributes.subscription_id),
+            plan: null,
+            status: null,
+            customerId: attributes.customer_id != null ? String(attributes.customer_id) : null,
+            variantId: null,
+            renewsAt: null,
+            endsAt: null,
+            startPeriod: true,
+        };
+    }
+
+    const variantId = attributes.variant_id != null ? String(attributes.variant_id) : null;
+    const plan = planForVariant(variantId);
+    if (!plan) throw new HttpError(422, `Unknown variant ${variantId}`, 'unknown_variant');
+
+    return {
+        eventKey: `${eventName}:${data.id}:${attributes.updated_at ?? ''}`,
+        eventName,
+        userId,
+        subscriptionId: String(data.id),
+        plan,
+        status: attributes.status ?? null,
+        customerId: attributes.customer_id != null ? String(attributes.customer_id) : null,
+        variantId,
+        renewsAt: attributes.renews_at ?? null,
+        endsAt: attributes.ends_at ?? null,
+        startPeriod: eventName === 'subscription_created',
+    };
+};
+
+export const handleWebhook = async (request: Request) => {
+    if (request.method !== 'POST') throw new HttpError(405, "Method not allowed", 'method_not_allowed');
+
+    const rawBody = await request.text();
+    const valid = await verifySignature(rawBody, request.headers.get('X-Signature'), requireEnv('LEMONSQUEEZY_WEBHOOK_SECRET'));
+    if (!valid) throw new HttpError(401, "Invalid signature", 'invalid_signature');
+
+    let payload: any;
+    try {
+        payload = JSON.parse(rawBody);
+    } catch {
+        throw new HttpError(400, "Body is not JSON", 'invalid_body');
+    }
+
+    const update = toSubscriptionUpdate(payload);
+    if (!update) return json(200, { received: true, ignored: true });
+
+    const { data, error } = await getSupabaseAdmin().rpc('apply_subscription_event', {
+        p_event_key: update.eventKey,
+        p_event_name: update.eventName,
+        p_user: update.userId,
+        p_subscription_id: update.subscriptionId,
+        p_plan: update.plan,
+        p_status: update.status,
+        p_customer_id: update.customerId,
+        p_variant_id: update.variantId,
+        p_renews_at: update.renewsAt,
+        p_ends_at: update.endsAt,
+        p_start_period: update.startPeriod,
+    });
+    if (error) {
+        console.error("apply_subscription_event failed", error);
+        // 5xx makes Lemon Squeezy retry the delivery
+        throw new HttpError(500, "Could not apply subscription event", 'apply_failed');
+    }
+    return json(200, { received: true, duplicate: data === false });
+};
@@ -0,0 +1,62 @@
+import { ShareErrorCode } from "../lib/shares";
+import { HttpError } from "./http";
+import { getSupabaseAdmin } from "./supabaseAdmin";
+
+// ==========================================
+// 🔗 SHARE LINKS (visitor side)
+// ==========================================
+// open_report_share() decides whether a link may be opened; this only maps
+// its status to HTTP and signs the video when the owner included it.
+// Wrong passwords are counted per visitor, keyed by a hash of their address.
+
+const VIDEO_BUCKET = 'creatives';
+const VIDEO_URL_TTL_SECONDS = 60 * 60;
+
+const STATUS_HTTP: Record<ShareErrorCode, number> = {
+    not_found: 404,
+    revoked: 410,
+    expired: 410,
+    locked: 429,
+    password_required: 401,
+    wrong_password: 403,
+};
+
+const TOKEN = /^[0-9a-f]{48}$/;
+
+/** SHA-256 of the visitor's address (first X-Forwarded-For hop, as Vercel sets it), hex encoded. */
+const clientKey = async (headers: Headers) => {
+    const address = headers.get('x-forwarded-for')?.split(',')[0].trim() || headers.get('x-real-ip') || 'unknown';
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(address));
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const openShare = async (token: unknown, password: unknown, headers: Headers) => {
+    if (typeof token !== 'string' || !TOKEN.test(token)) throw new HttpError(404, "Share link not found", 'not_found');
+
+    const admin = getSupabaseAdmin();
+    const { data, error } = await admin.rpc('open_report_share', {
+        p_token: token,
+        p_password: typeof password === 'string' ? password.slice(0, 256) : null,
+        p_client: await clientKey(headers),
+    });
+    if (error) throw new Error(`open_report_share failed: ${error.message}`);
+
+    const row = Array.isArray(data) ? data[0] : data;
+    const status = (row?.status ?? 'not_found') as ShareErrorCode | 'ok';
+    if (status !== 'ok') throw new HttpError(STATUS_HTTP[status] ?? 404, "This share link can't be opened", status);
+
+    let videoUrl: string | null = null;
+    if (row.storage_path) {
+        // The upload may have been deleted since; the report still opens
+        const { data: signed } = await admin.storage.from(VIDEO_BUCKET).createSignedUrl(row.storage_path, VIDEO_URL_TTL_SECONDS);
+        videoUrl = signed?.signedUrl ?? null;
+    }
+
+    return {
+        fileName: row.file_name as string,
+        report: row.report,
+        transcript: row.transcript ?? null,
+        videoUrl,
+        expiresAt: row.expires_at ?? null,
+    };
+};
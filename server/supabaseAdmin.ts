@@ -0,0 +1,28 @@
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import ws from "ws";
+import { HttpError, requireEnv } from "./http";
+
+// Service-role client: bypasses RLS, never ship this to the browser.
+let admin: SupabaseClient | null = null;
+
+export const getSupabaseAdmin = () => {
+    if (!admin) {
+        admin = createClient(requireEnv('SUPABASE_URL'), requireEnv('SUPABASE_SERVICE_ROLE_KEY'), {
+            auth: { persistSession: false, autoRefreshToken: false },
+            // Realtime isn't used here, but its client needs a WebSocket, which Node 20 doesn't have
+            // built in ("ws" is what supabase-js suggests; its types differ only in event typings)
+            realtime: { transport: ws as any },
+        });
+    }
+    return admin;
+};
+
+/** Resolves the Supabase user behind the request's `Authorization: Bearer <access token>`. */
+export const requireUser = async (request: Request) => {
+    const token = request.headers.get('Authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+    if (!token) throw new HttpError(401, "Missing access token", 'unauthorized');
+
+    const { data, error } = await getSupabaseAdmin().auth.getUser(token);
+    if (error || !data.user) throw new HttpError(401, "Invalid or expired session", 'unauthorized');
+    return data.user;
+};
@@ -0,0 +1,33 @@
+-- Saved audit reports, one row per completed analysis.
+-- Scores are denormalised out of `report` so history can filter and sort on them.
+
+create table if not exists public.audits (
+    id            uuid primary key default gen_random_uuid(),
+    user_id       uuid not null references auth.users (id) on delete cascade,
+    file_name     text not null,
+    mime_type     text not null,
+    file_size     bigint not null check (file_size >= 0),
+    overall_score numeric(5, 1) not null,
+    hook_score    numeric(4, 1),
+    body_score    numeric(4, 1),
+    audio_score   numeric(4, 1),
+    script_score  numeric(4, 1),
+    report        jsonb not null,
+    created_at    timestamptz not null default now()
+);
+
+create index if not exists audits_user_created_idx on public.audits (user_id, created_at desc);
+
+alter table public.audits enable row level security;
+
+create policy "Users read their own audits"
+    on public.audits for select
+    using (auth.uid() = user_id);
+
+create policy "Users save their own audits"
+    on public.audits for insert
+    with check (auth.uid() = user_id);
+
+create policy "Users delete their own audits"
+    on public.audits for delete
+    using (auth.uid() = user_id);
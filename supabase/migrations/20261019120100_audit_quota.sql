@@ -0,0 +1,140 @@
+-- Server-side audit quota.
+--
+-- The browser used to check `audit_count` against a hardcoded limit and then
+-- write the new count back itself. The count is now only ever changed by the
+-- functions below, which run as the table owner and increment atomically.
+
+alter table public.profiles
+    add column if not exists audit_count integer not null default 0,
+    add column if not exists audit_limit integer not null default 3;
+
+-- Clients may read their profile but no longer write the counters.
+revoke update on public.profiles from anon, authenticated;
+
+-- One row per credit taken. A credit starts `reserved` while the analysis
+-- runs and ends `consumed` (report delivered) or `refunded` (analysis failed).
+create table if not exists public.audit_credits (
+    id         uuid primary key default gen_random_uuid(),
+    user_id    uuid not null references auth.users (id) on delete cascade,
+    status     text not null default 'reserved' check (status in ('reserved', 'consumed', 'refunded')),
+    created_at timestamptz not null default now(),
+    settled_at timestamptz
+);
+
+create index if not exists audit_credits_user_idx on public.audit_credits (user_id, created_at desc);
+
+alter table public.audit_credits enable row level security;
+
+create policy "Users read their own credits"
+    on public.audit_credits for select
+    using (auth.uid() = user_id);
+
+-- ------------------------------------------
+-- get_audit_quota(): current balance for the caller
+-- ------------------------------------------
+create or replace function public.get_audit_quota()
+returns table (used integer, quota integer, remaining integer)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select p.audit_count, p.audit_limit, greatest(p.audit_limit - p.audit_count, 0)
+    from public.profiles p
+    where p.id = auth.uid();
+$$;
+
+-- ------------------------------------------
+-- consume_audit_credit(): take one credit or fail with 'quota_exhausted'
+-- ------------------------------------------
+-- The conditional UPDATE takes a row lock, so two tabs racing for the last
+-- credit cannot both succeed.
+create or replace function public.consume_audit_credit()
+returns table (credit_id uuid, remaining integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_user uuid := auth.uid();
+    v_count integer;
+    v_limit integer;
+begin
+    if v_user is null then
+        raise exception 'not_authenticated';
+    end if;
+
+    update public.profiles
+       set audit_count = audit_count + 1
+     where id = v_user
+       and audit_count < audit_limit
+    returning audit_count, audit_limit into v_count, v_limit;
+
+    if not found then
+        raise exception 'quota_exhausted';
+    end if;
+
+    insert into public.audit_credits (user_id) values (v_user) returning id into credit_id;
+    remaining := v_limit - v_count;
+    return next;
+end;
+$$;
+
+-- ------------------------------------------
+-- settle_audit_credit(): the report was delivered, the credit is final
+-- ------------------------------------------
+create or replace function public.settle_audit_credit(p_credit_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+    update public.audit_credits
+       set status = 'consumed', settled_at = now()
+     where id = p_credit_id
+       and user_id = auth.uid()
+       and status = 'reserved';
+$$;
+
+-- ------------------------------------------
+-- refund_audit_credit(): the analysis failed, give the credit back
+-- ------------------------------------------
+-- Only a still-reserved credit can be refunded, and only shortly after it was
+-- taken, so a settled audit can never be refunded.
+create or replace function public.refund_audit_credit(p_credit_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_user uuid := auth.uid();
+    v_remaining integer;
+begin
+    update public.audit_credits
+       set status = 'refunded', settled_at = now()
+     where id = p_credit_id
+       and user_id = v_user
+       and status = 'reserved'
+       and created_at > now() - interval '15 minutes';
+
+    if found then
+        update public.profiles
+           set audit_count = greatest(audit_count - 1, 0)
+         where id = v_user;
+    end if;
+
+    select greatest(audit_limit - audit_count, 0) into v_remaining
+      from public.profiles where id = v_user;
+    return v_remaining;
+end;
+$$;
+
+revoke execute on function public.get_audit_quota() from public, anon;
+revoke execute on function public.consume_audit_credit() from public, anon;
+revoke execute on function public.settle_audit_credit(uuid) from public, anon;
+revoke execute on function public.refund_audit_credit(uuid) from public, anon;
+grant execute on function public.get_audit_quota() to authenticated;
+grant execute on function public.consume_audit_credit() to authenticated;
+grant execute on function public.settle_audit_credit(uuid) to authenticated;
+grant execute on function public.refund_audit_credit(uuid) to authenticated;
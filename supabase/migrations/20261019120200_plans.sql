@@ -0,0 +1,270 @@
+-- Subscription plans and per-user entitlements.
+--
+-- `plans` is the single source of truth for what each plan includes. A user's
+-- entitlement is `profiles.plan` plus the current quota period; Lemon Squeezy
+-- webhooks move users between plans through apply_subscription_event().
+
+create table if not exists public.plans (
+    id          text primary key,
+    name        text not null,
+    audit_limit integer not null check (audit_limit >= 0),
+    -- 'lifetime' quotas never reset; 'month' quotas reset every billing period.
+    period      text not null check (period in ('lifetime', 'month')),
+    features    jsonb not null default '{}'::jsonb
+);
+
+insert into public.plans (id, name, audit_limit, period, features) values
+    ('free', 'Free', 3, 'lifetime', '{}'),
+    ('starter', 'Starter', 50, 'month', '{}'),
+    ('professional', 'Professional', 500, 'month', '{"script_rewrites": true, "policy_check": true, "benchmarking": true}')
+on conflict (id) do update
+    set name = excluded.name,
+        audit_limit = excluded.audit_limit,
+        period = excluded.period,
+        features = excluded.features;
+
+alter table public.plans enable row level security;
+
+create policy "Plans are public"
+    on public.plans for select
+    using (true);
+
+alter table public.profiles
+    add column if not exists plan text not null default 'free' references public.plans (id),
+    add column if not exists period_start timestamptz not null default now(),
+    add column if not exists period_end timestamptz;
+
+-- The Lemon Squeezy subscription behind a paid plan, one per user.
+create table if not exists public.subscriptions (
+    user_id                uuid primary key references auth.users (id) on delete cascade,
+    plan                   text not null references public.plans (id),
+    status                 text not null,
+    lemon_subscription_id  text not null unique,
+    lemon_customer_id      text,
+    variant_id             text,
+    renews_at              timestamptz,
+    ends_at                timestamptz,
+    updated_at             timestamptz not null default now()
+);
+
+alter table public.subscriptions enable row level security;
+
+create policy "Users read their own subscription"
+    on public.subscriptions for select
+    using (auth.uid() = user_id);
+
+-- Webhooks can be delivered more than once; each processed event is recorded
+-- so a replay never resets a quota twice.
+create table if not exists public.subscription_events (
+    event_key   text primary key,
+    user_id     uuid references auth.users (id) on delete cascade,
+    event_name  text not null,
+    received_at timestamptz not null default now()
+);
+
+alter table public.subscription_events enable row level security;
+
+-- ------------------------------------------
+-- roll_audit_period(): start a new monthly period once the old one is over
+-- ------------------------------------------
+-- Renewal webhooks normally do this; rolling lazily keeps quotas correct if
+-- one is late or lost.
+create or replace function public.roll_audit_period(p_user uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+    update public.profiles p
+       set audit_count = 0,
+           period_start = now(),
+           period_end = now() + interval '1 month'
+      from public.plans pl
+     where p.id = p_user
+       and pl.id = p.plan
+       and pl.period = 'month'
+       and p.period_end is not null
+       and p.period_end <= now();
+$$;
+
+revoke execute on function public.roll_audit_period(uuid) from public, anon, authenticated;
+
+-- ------------------------------------------
+-- Quota functions now respect the plan period
+-- ------------------------------------------
+create or replace function public.get_audit_quota()
+returns table (used integer, quota integer, remaining integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    perform public.roll_audit_period(auth.uid());
+    return query
+        select p.audit_count, p.audit_limit, greatest(p.audit_limit - p.audit_count, 0)
+        from public.profiles p
+        where p.id = auth.uid();
+end;
+$$;
+
+create or replace function public.consume_audit_credit()
+returns table (credit_id uuid, remaining integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_user uuid := auth.uid();
+    v_count integer;
+    v_limit integer;
+begin
+    if v_user is null then
+        raise exception 'not_authenticated';
+    end if;
+
+    perform public.roll_audit_period(v_user);
+
+    update public.profiles
+       set audit_count = audit_count + 1
+     where id = v_user
+       and audit_count < audit_limit
+    returning audit_count, audit_limit into v_count, v_limit;
+
+    if not found then
+        raise exception 'quota_exhausted';
+    end if;
+
+    insert into public.audit_credits (user_id) values (v_user) returning id into credit_id;
+    remaining := v_limit - v_count;
+    return next;
+end;
+$$;
+
+-- ------------------------------------------
+-- get_entitlements(): plan, quota and features for the caller
+-- ------------------------------------------
+create or replace function public.get_entitlements()
+returns table (
+    plan text,
+    plan_name text,
+    used integer,
+    quota integer,
+    remaining integer,
+    period text,
+    period_end timestamptz,
+    subscription_status text,
+    features jsonb
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    perform public.roll_audit_period(auth.uid());
+    return query
+        select p.plan, pl.name, p.audit_count, p.audit_limit,
+               greatest(p.audit_limit - p.audit_count, 0),
+               pl.period, p.period_end, s.status, pl.features
+        from public.profiles p
+        join public.plans pl on pl.id = p.plan
+        left join public.subscriptions s on s.user_id = p.id
+        where p.id = auth.uid();
+end;
+$$;
+
+revoke execute on function public.get_entitlements() from public, anon;
+grant execute on function public.get_entitlements() to authenticated;
+
+-- ------------------------------------------
+-- apply_subscription_event(): called by the Lemon Squeezy webhook handler
+-- ------------------------------------------
+-- `p_plan` may be null for events that don't carry a variant (invoices); the
+-- stored subscription's plan is used then. `p_user` may be null when the
+-- event has no custom data; the user is found by subscription id.
+-- `p_start_period` resets the quota (new subscription or renewal).
+-- Returns false when the event was already processed.
+create or replace function public.apply_subscription_event(
+    p_event_key text,
+    p_event_name text,
+    p_user uuid,
+    p_subscription_id text,
+    p_plan text,
+    p_status text,
+    p_customer_id text,
+    p_variant_id text,
+    p_renews_at timestamptz,
+    p_ends_at timestamptz,
+    p_start_period boolean
+)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_user uuid := p_user;
+    v_plan text := p_plan;
+    v_status text := p_status;
+    v_effective text;
+    v_limit integer;
+    v_period text;
+begin
+    if v_user is null or v_plan is null or v_status is null then
+        select s.user_id, coalesce(v_plan, s.plan), coalesce(v_status, s.status)
+          into v_user, v_plan, v_status
+          from public.subscriptions s
+         where s.lemon_subscription_id = p_subscription_id;
+    end if;
+
+    if v_user is null or v_plan is null then
+        raise exception 'unknown_subscription %', p_subscription_id;
+    end if;
+
+    insert into public.subscription_events (event_key, user_id, event_name)
+    values (p_event_key, v_user, p_event_name)
+    on conflict (event_key) do nothing;
+    if not found then
+        return false;
+    end if;
+
+    insert into public.subscriptions as s
+        (user_id, plan, status, lemon_subscription_id, lemon_customer_id, variant_id, renews_at, ends_at, updated_at)
+    values
+        (v_user, v_plan, v_status, p_subscription_id, p_customer_id, p_variant_id, p_renews_at, p_ends_at, now())
+    on conflict (user_id) do update
+        set plan = excluded.plan,
+            status = excluded.status,
+            lemon_subscription_id = excluded.lemon_subscription_id,
+            lemon_customer_id = coalesce(excluded.lemon_customer_id, s.lemon_customer_id),
+            variant_id = coalesce(excluded.variant_id, s.variant_id),
+            renews_at = coalesce(excluded.renews_at, s.renews_at),
+            ends_at = excluded.ends_at,
+            updated_at = now();
+
+    -- A cancelled subscription keeps its plan until the paid period ends;
+    -- Lemon Squeezy sends subscription_expired at that point.
+    v_effective := case
+        when v_status in ('active', 'on_trial', 'past_due', 'cancelled') then v_plan
+        else 'free'
+    end;
+
+    select audit_limit, period into v_limit, v_period from public.plans where id = v_effective;
+
+    update public.profiles
+       set plan = v_effective,
+           audit_limit = v_limit,
+           audit_count = case when p_start_period then 0 else audit_count end,
+           period_start = case when p_start_period then now() else period_start end,
+           period_end = case
+               when v_period = 'lifetime' then null
+               when p_start_period then coalesce(p_renews_at, now() + interval '1 month')
+               else coalesce(period_end, p_renews_at, now() + interval '1 month')
+           end
+     where id = v_user;
+
+    return true;
+end;
+$$;
+
+revoke execute on function public.apply_subscription_event(text, text, uuid, text, text, text, text, text, timestamptz, timestamptz, boolean) from public, anon, authenticated;
+grant execute on function public.apply_subscription_event(text, text, uuid, text, text, text, text, text, timestamptz, timestamptz, boolean) to service_role;
@@ -0,0 +1,30 @@
+-- Private bucket for uploaded creatives. Objects are stored as
+-- `<user id>/<file fingerprint>.<ext>`; users can only touch their own folder.
+-- The analysis worker reads them with the service role.
+
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('creatives', 'creatives', false, 262144000, array['video/mp4', 'video/quicktime', 'video/webm'])
+on conflict (id) do update
+    set public = excluded.public,
+        file_size_limit = excluded.file_size_limit,
+        allowed_mime_types = excluded.allowed_mime_types;
+
+create policy "Users upload creatives to their folder"
+    on storage.objects for insert to authenticated
+    with check (bucket_id = 'creatives' and (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Resumable uploads with x-upsert need update as well as insert
+create policy "Users overwrite creatives in their folder"
+    on storage.objects for update to authenticated
+    using (bucket_id = 'creatives' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users read creatives in their folder"
+    on storage.objects for select to authenticated
+    using (bucket_id = 'creatives' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users delete creatives in their folder"
+    on storage.objects for delete to authenticated
+    using (bucket_id = 'creatives' and (storage.foldername(name))[1] = auth.uid()::text);
+
+alter table public.audits
+    add column if not exists storage_path text;
@@ -0,0 +1,80 @@
+-- Idempotent credit consumption.
+--
+-- Every analysis job carries an idempotency key. If the client retries
+-- consume_audit_credit() with the same key (say the first response was lost),
+-- it gets the same credit back instead of being charged again.
+
+alter table public.audit_credits
+    add column if not exists idempotency_key text;
+
+create unique index if not exists audit_credits_idempotency_idx
+    on public.audit_credits (user_id, idempotency_key)
+    where idempotency_key is not null;
+
+drop function if exists public.consume_audit_credit();
+
+create or replace function public.consume_audit_credit(p_idempotency_key text default null)
+returns table (credit_id uuid, remaining integer, replayed boolean)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_user uuid := auth.uid();
+    v_existing public.audit_credits%rowtype;
+    v_count integer;
+    v_limit integer;
+begin
+    if v_user is null then
+        raise exception 'not_authenticated';
+    end if;
+
+    if p_idempotency_key is not null then
+        select * into v_existing
+          from public.audit_credits
+         where user_id = v_user and idempotency_key = p_idempotency_key
+           for update;
+
+        -- Already charged for this job: hand back the same credit.
+        if found and v_existing.status <> 'refunded' then
+            select greatest(audit_limit - audit_count, 0) into remaining
+              from public.profiles where id = v_user;
+            credit_id := v_existing.id;
+            replayed := true;
+            return next;
+            return;
+        end if;
+    end if;
+
+    perform public.roll_audit_period(v_user);
+
+    update public.profiles
+       set audit_count = audit_count + 1
+     where id = v_user
+       and audit_count < audit_limit
+    returning audit_count, audit_limit into v_count, v_limit;
+
+    if not found then
+        raise exception 'quota_exhausted';
+    end if;
+
+    if v_existing.id is not null then
+        -- The job was refunded earlier and is being run again: charge it anew.
+        update public.audit_credits
+           set status = 'reserved', settled_at = null, created_at = now()
+         where id = v_existing.id;
+        credit_id := v_existing.id;
+    else
+        insert into public.audit_credits (user_id, idempotency_key)
+        values (v_user, p_idempotency_key)
+        returning id into credit_id;
+    end if;
+
+    remaining := v_limit - v_count;
+    replayed := false;
+    return next;
+end;
+$$;
+
+revoke execute on function public.consume_audit_credit(text) from public, anon;
+grant execute on function public.consume_audit_credit(text) to authenticated;
@@ -0,0 +1,135 @@
+-- Credits are settled and refunded by the analysis worker, not the browser.
+--
+-- Until now settle_audit_credit()/refund_audit_credit() were callable by any
+-- signed-in user, so a client could take a credit, get its report and then
+-- refund it. The worker (worker/) now takes the credit with the user's token
+-- and settles or refunds it with the service role; the client-callable
+-- versions are dropped.
+--
+-- consume_audit_credit() also stops replaying credits that were already
+-- settled: a finished job's key can no longer buy another analysis.
+
+drop function if exists public.settle_audit_credit(uuid);
+drop function if exists public.refund_audit_credit(uuid);
+
+-- ------------------------------------------
+-- settle_audit_credit(): the report was delivered, the credit is final
+-- ------------------------------------------
+create or replace function public.settle_audit_credit(p_user uuid, p_credit_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+    update public.audit_credits
+       set status = 'consumed', settled_at = now()
+     where id = p_credit_id
+       and user_id = p_user
+       and status = 'reserved';
+$$;
+
+-- ------------------------------------------
+-- refund_audit_credit(): the analysis failed, give the credit back
+-- ------------------------------------------
+create or replace function public.refund_audit_credit(p_user uuid, p_credit_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_remaining integer;
+begin
+    update public.audit_credits
+       set status = 'refunded', settled_at = now()
+     where id = p_credit_id
+       and user_id = p_user
+       and status = 'reserved'
+       and created_at > now() - interval '15 minutes';
+
+    if found then
+        update public.profiles
+           set audit_count = greatest(audit_count - 1, 0)
+         where id = p_user;
+    end if;
+
+    select greatest(audit_limit - audit_count, 0) into v_remaining
+      from public.profiles where id = p_user;
+    return v_remaining;
+end;
+$$;
+
+revoke execute on function public.settle_audit_credit(uuid, uuid) from public, anon, authenticated;
+revoke execute on function public.refund_audit_credit(uuid, uuid) from public, anon, authenticated;
+grant execute on function public.settle_audit_credit(uuid, uuid) to service_role;
+grant execute on function public.refund_audit_credit(uuid, uuid) to service_role;
+
+-- ------------------------------------------
+-- consume_audit_credit(): refuse to replay a settled credit
+-- ------------------------------------------
+create or replace function public.consume_audit_credit(p_idempotency_key text default null)
+returns table (credit_id uuid, remaining integer, replayed boolean)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_user uuid := auth.uid();
+    v_existing public.audit_credits%rowtype;
+    v_count integer;
+    v_limit integer;
+begin
+    if v_user is null then
+        raise exception 'not_authenticated';
+    end if;
+
+    if p_idempotency_key is not null then
+        select * into v_existing
+          from public.audit_credits
+         where user_id = v_user and idempotency_key = p_idempotency_key
+           for update;
+
+        if found and v_existing.status = 'consumed' then
+            raise exception 'already_settled';
+        end if;
+
+        -- Still running (or its response was lost): hand back the same credit.
+        if found and v_existing.status = 'reserved' then
+            select greatest(audit_limit - audit_count, 0) into remaining
+              from public.profiles where id = v_user;
+            credit_id := v_existing.id;
+            replayed := true;
+            return next;
+            return;
+        end if;
+    end if;
+
+    perform public.roll_audit_period(v_user);
+
+    update public.profiles
+       set audit_count = audit_count + 1
+     where id = v_user
+       and audit_count < audit_limit
+    returning audit_count, audit_limit into v_count, v_limit;
+
+    if not found then
+        raise exception 'quota_exhausted';
+    end if;
+
+    if v_existing.id is not null then
+        -- The job was refunded earlier and is being run again: charge it anew.
+        update public.audit_credits
+           set status = 'reserved', settled_at = null, created_at = now()
+         where id = v_existing.id;
+        credit_id := v_existing.id;
+    else
+        insert into public.audit_credits (user_id, idempotency_key)
+        values (v_user, p_idempotency_key)
+        returning id into credit_id;
+    end if;
+
+    remaining := v_limit - v_count;
+    replayed := false;
+    return next;
+end;
+$$;
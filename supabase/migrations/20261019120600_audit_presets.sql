@@ -0,0 +1,51 @@
+-- Saved audit presets: platform, objective, audience and brand rules.
+-- The audit itself stores a snapshot of the preset in report->'context', so
+-- editing or deleting a preset never changes old reports.
+
+create table if not exists public.audit_presets (
+    id          uuid primary key default gen_random_uuid(),
+    user_id     uuid not null references auth.users (id) on delete cascade,
+    name        text not null check (char_length(name) between 1 and 60),
+    platform    text check (platform in ('tiktok', 'reels', 'shorts', 'meta_feed')),
+    objective   text check (objective in ('awareness', 'conversion', 'app_install')),
+    audience    text not null default '' check (char_length(audience) <= 500),
+    brand_voice text not null default '' check (char_length(brand_voice) <= 500),
+    dos         text[] not null default '{}' check (cardinality(dos) <= 12),
+    donts       text[] not null default '{}' check (cardinality(donts) <= 12),
+    created_at  timestamptz not null default now(),
+    updated_at  timestamptz not null default now(),
+    unique (user_id, name)
+);
+
+create or replace function public.touch_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+    new.updated_at := now();
+    return new;
+end;
+$$;
+
+create trigger audit_presets_touch
+    before update on public.audit_presets
+    for each row execute function public.touch_updated_at();
+
+alter table public.audit_presets enable row level security;
+
+create policy "Users read their own presets"
+    on public.audit_presets for select
+    using (auth.uid() = user_id);
+
+create policy "Users create their own presets"
+    on public.audit_presets for insert
+    with check (auth.uid() = user_id);
+
+create policy "Users update their own presets"
+    on public.audit_presets for update
+    using (auth.uid() = user_id)
+    with check (auth.uid() = user_id);
+
+create policy "Users delete their own presets"
+    on public.audit_presets for delete
+    using (auth.uid() = user_id);
@@ -0,0 +1,20 @@
+-- has_feature(): whether the caller's plan includes a paid feature.
+-- The analysis worker calls this with the user's token before running a
+-- Pro-only pass (policy check, script rewrites, ...), so the gate holds even
+-- if the app's own check is bypassed.
+
+create or replace function public.has_feature(p_feature text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select coalesce((pl.features ->> p_feature)::boolean, false)
+      from public.profiles p
+      join public.plans pl on pl.id = p.plan
+     where p.id = auth.uid();
+$$;
+
+revoke execute on function public.has_feature(text) from public, anon;
+grant execute on function public.has_feature(text) to authenticated;
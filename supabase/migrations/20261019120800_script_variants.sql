@@ -0,0 +1,42 @@
+-- Script rewrite studio: hooks and rewrites saved against an audit.
+-- `edited` marks versions a copywriter changed after generation.
+
+create table if not exists public.script_variants (
+    id         uuid primary key default gen_random_uuid(),
+    user_id    uuid not null references auth.users (id) on delete cascade,
+    audit_id   uuid not null references public.audits (id) on delete cascade,
+    kind       text not null check (kind in ('hook', 'rewrite')),
+    style      text not null check (style in ('ugc', 'founder_story', 'problem_solution', 'listicle')),
+    text       text not null check (char_length(text) between 1 and 10000),
+    edited     boolean not null default false,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
+
+create index if not exists script_variants_audit_idx on public.script_variants (audit_id, created_at);
+
+create trigger script_variants_touch
+    before update on public.script_variants
+    for each row execute function public.touch_updated_at();
+
+alter table public.script_variants enable row level security;
+
+create policy "Users read their own script variants"
+    on public.script_variants for select
+    using (auth.uid() = user_id);
+
+create policy "Users save variants on their own audits"
+    on public.script_variants for insert
+    with check (
+        auth.uid() = user_id
+        and exists (select 1 from public.audits a where a.id = audit_id and a.user_id = auth.uid())
+    );
+
+create policy "Users edit their own script variants"
+    on public.script_variants for update
+    using (auth.uid() = user_id)
+    with check (auth.uid() = user_id);
+
+create policy "Users delete their own script variants"
+    on public.script_variants for delete
+    using (auth.uid() = user_id);
@@ -0,0 +1,58 @@
+-- Competitor benchmarking (Professional): named libraries of competitor ads.
+-- A competitor ad is an ordinary audit (uploaded and analysed like any other)
+-- tagged into a set with the competitor's name. Writes are gated on the
+-- plan's `benchmarking` feature; reads are not, so a downgraded user keeps
+-- access to what they built.
+
+create table if not exists public.benchmark_sets (
+    id         uuid primary key default gen_random_uuid(),
+    user_id    uuid not null references auth.users (id) on delete cascade,
+    name       text not null check (char_length(name) between 1 and 60),
+    niche      text not null default '' check (char_length(niche) <= 120),
+    created_at timestamptz not null default now(),
+    unique (user_id, name)
+);
+
+create table if not exists public.benchmark_entries (
+    id         uuid primary key default gen_random_uuid(),
+    set_id     uuid not null references public.benchmark_sets (id) on delete cascade,
+    user_id    uuid not null references auth.users (id) on delete cascade,
+    audit_id   uuid not null references public.audits (id) on delete cascade,
+    competitor text not null check (char_length(competitor) between 1 and 80),
+    created_at timestamptz not null default now(),
+    unique (set_id, audit_id)
+);
+
+create index if not exists benchmark_entries_set_idx on public.benchmark_entries (set_id, created_at);
+
+alter table public.benchmark_sets enable row level security;
+alter table public.benchmark_entries enable row level security;
+
+create policy "Users read their own benchmark sets"
+    on public.benchmark_sets for select
+    using (auth.uid() = user_id);
+
+create policy "Pro users create benchmark sets"
+    on public.benchmark_sets for insert
+    with check (auth.uid() = user_id and public.has_feature('benchmarking'));
+
+create policy "Users delete their own benchmark sets"
+    on public.benchmark_sets for delete
+    using (auth.uid() = user_id);
+
+create policy "Users read their own benchmark entries"
+    on public.benchmark_entries for select
+    using (auth.uid() = user_id);
+
+create policy "Pro users tag their own audits into their own sets"
+    on public.benchmark_entries for insert
+    with check (
+        auth.uid() = user_id
+        and public.has_feature('benchmarking')
+        and exists (select 1 from public.benchmark_sets s where s.id = set_id and s.user_id = auth.uid())
+        and exists (select 1 from public.audits a where a.id = audit_id and a.user_id = auth.uid())
+    );
+
+create policy "Users remove their own benchmark entries"
+    on public.benchmark_entries for delete
+    using (auth.uid() = user_id);
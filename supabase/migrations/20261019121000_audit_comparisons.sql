@@ -0,0 +1,29 @@
+-- A/B comparisons: two to four audits of the same ad and the recommended winner.
+-- `comparison` is a self-contained snapshot (lib/comparisons.ts), so it still
+-- opens after one of its audits is deleted; `audit_ids` links back to history.
+
+create table if not exists public.audit_comparisons (
+    id         uuid primary key default gen_random_uuid(),
+    user_id    uuid not null references auth.users (id) on delete cascade,
+    name       text not null check (char_length(name) between 1 and 200),
+    audit_ids  uuid[] not null default '{}',
+    winner     text not null check (winner in ('A', 'B', 'C', 'D')),
+    comparison jsonb not null,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists audit_comparisons_user_idx on public.audit_comparisons (user_id, created_at desc);
+
+alter table public.audit_comparisons enable row level security;
+
+create policy "Users read their own comparisons"
+    on public.audit_comparisons for select
+    using (auth.uid() = user_id);
+
+create policy "Users save their own comparisons"
+    on public.audit_comparisons for insert
+    with check (auth.uid() = user_id);
+
+create policy "Users delete their own comparisons"
+    on public.audit_comparisons for delete
+    using (auth.uid() = user_id);
@@ -0,0 +1,16 @@
+-- Edited transcripts. The model's transcript stays in `report`; an editor's
+-- corrections are stored beside it (null = never edited), so the report
+-- itself remains exactly what the analysis returned.
+
+alter table public.audits add column if not exists transcript jsonb
+    check (transcript is null or jsonb_typeof(transcript) = 'array');
+alter table public.audits add column if not exists transcript_updated_at timestamptz;
+
+-- Owners may change the transcript columns and nothing else on an audit.
+revoke update on public.audits from anon, authenticated;
+grant update (transcript, transcript_updated_at) on public.audits to authenticated;
+
+create policy "Users edit transcripts on their own audits"
+    on public.audits for update
+    using (auth.uid() = user_id)
+    with check (auth.uid() = user_id);
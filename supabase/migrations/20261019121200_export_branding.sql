@@ -0,0 +1,44 @@
+-- Branded PDF exports (Professional): an agency's company name, logo,
+-- colours and a cover note, one row per user. The logo is kept inline as a
+-- small data URL so an export never has to fetch anything. Writes are gated
+-- on the plan's `branded_exports` feature; reads are not, so a downgraded
+-- user can still see what they saved.
+
+update public.plans
+   set features = features || '{"branded_exports": true}'::jsonb
+ where id = 'professional';
+
+create table if not exists public.export_branding (
+    user_id       uuid primary key references auth.users (id) on delete cascade,
+    company_name  text not null default '' check (char_length(company_name) <= 80),
+    -- ~200 KB image, base64-encoded
+    logo          text check (logo ~ '^data:image/(png|jpeg|webp);base64,' and char_length(logo) <= 280000),
+    primary_color text not null default '#FF0050' check (primary_color ~ '^#[0-9A-Fa-f]{6}$'),
+    accent_color  text not null default '#00F2EA' check (accent_color ~ '^#[0-9A-Fa-f]{6}$'),
+    cover_note    text not null default '' check (char_length(cover_note) <= 1500),
+    created_at    timestamptz not null default now(),
+    updated_at    timestamptz not null default now()
+);
+
+create trigger export_branding_touch
+    before update on public.export_branding
+    for each row execute function public.touch_updated_at();
+
+alter table public.export_branding enable row level security;
+
+create policy "Users read their own branding"
+    on public.export_branding for select
+    using (auth.uid() = user_id);
+
+create policy "Pro users create their own branding"
+    on public.export_branding for insert
+    with check (auth.uid() = user_id and public.has_feature('branded_exports'));
+
+create policy "Pro users update their own branding"
+    on public.export_branding for update
+    using (auth.uid() = user_id)
+    with check (auth.uid() = user_id and public.has_feature('branded_exports'));
+
+create policy "Users delete their own branding"
+    on public.export_branding for delete
+    using (auth.uid() = user_id);
@@ -0,0 +1,162 @@
+-- Read-only share links for reports. A link is an unguessable token; anyone
+-- holding it can open the report through /api/share, which calls
+-- open_report_share() with the service role. Links can expire, need a
+-- password, or be revoked by their owner. The video is only shown when the
+-- owner opted in, and then as a short-lived signed URL.
+
+create extension if not exists pgcrypto with schema extensions;
+
+create table if not exists public.report_shares (
+    id              uuid primary key default gen_random_uuid(),
+    token           text not null unique default encode(extensions.gen_random_bytes(24), 'hex'),
+    audit_id        uuid not null references public.audits (id) on delete cascade,
+    user_id         uuid not null references auth.users (id) on delete cascade,
+    include_video   boolean not null default false,
+    password_hash   text,
+    has_password    boolean generated always as (password_hash is not null) stored,
+    expires_at      timestamptz,
+    revoked_at      timestamptz,
+    view_count      integer not null default 0,
+    last_viewed_at  timestamptz,
+    -- Wrong passwords; the link locks at 20 (see open_report_share)
+    failed_attempts integer not null default 0,
+    created_at      timestamptz not null default now()
+);
+
+create index if not exists report_shares_audit_idx on public.report_shares (audit_id, created_at desc);
+
+alter table public.report_shares enable row level security;
+
+-- Links are created through create_report_share() and the password hash never
+-- leaves the database; owners may only revoke.
+revoke select, insert, update on public.report_shares from anon, authenticated;
+grant select (id, token, audit_id, include_video, has_password, expires_at, revoked_at, view_count, last_viewed_at, created_at)
+    on public.report_shares to authenticated;
+grant update (revoked_at) on public.report_shares to authenticated;
+
+create policy "Users read their own share links"
+    on public.report_shares for select
+    using (auth.uid() = user_id);
+
+create policy "Users revoke their own share links"
+    on public.report_shares for update
+    using (auth.uid() = user_id)
+    with check (auth.uid() = user_id);
+
+create policy "Users delete their own share links"
+    on public.report_shares for delete
+    using (auth.uid() = user_id);
+
+-- ------------------------------------------
+-- create_report_share(): a new link for one of the caller's audits
+-- ------------------------------------------
+
+create or replace function public.create_report_share(
+    p_audit_id uuid,
+    p_include_video boolean,
+    p_expires_at timestamptz,
+    p_password text
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+    v_id uuid;
+begin
+    if auth.uid() is null then
+        raise exception 'not_authenticated';
+    end if;
+    if not exists (select 1 from public.audits where id = p_audit_id and user_id = auth.uid()) then
+        raise exception 'audit_not_found';
+    end if;
+    if p_expires_at is not null and p_expires_at <= now() then
+        raise exception 'expiry_in_past';
+    end if;
+    if p_password is not null and char_length(p_password) not between 4 and 128 then
+        raise exception 'invalid_password';
+    end if;
+
+    insert into public.report_shares (audit_id, user_id, include_video, password_hash, expires_at)
+    values (
+        p_audit_id,
+        auth.uid(),
+        coalesce(p_include_video, false),
+        case when p_password is null then null else crypt(p_password, gen_salt('bf')) end,
+        p_expires_at
+    )
+    returning id into v_id;
+    return v_id;
+end;
+$$;
+
+revoke execute on function public.create_report_share(uuid, boolean, timestamptz, text) from public, anon;
+grant execute on function public.create_report_share(uuid, boolean, timestamptz, text) to authenticated;
+
+-- ------------------------------------------
+-- open_report_share(): what a visitor with the link may see
+-- ------------------------------------------
+-- Returns a status instead of raising, so a wrong password can be counted.
+-- `storage_path` is only filled in when the owner included the video.
+
+create or replace function public.open_report_share(p_token text, p_password text)
+returns table (
+    status       text,
+    file_name    text,
+    report       jsonb,
+    transcript   jsonb,
+    storage_path text,
+    expires_at   timestamptz
+)
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+    v_share public.report_shares;
+begin
+    select * into v_share from public.report_shares s where s.token = p_token for update;
+
+    if not found then
+        return query select 'not_found', null::text, null::jsonb, null::jsonb, null::text, null::timestamptz;
+        return;
+    end if;
+    if v_share.revoked_at is not null then
+        return query select 'revoked', null::text, null::jsonb, null::jsonb, null::text, null::timestamptz;
+        return;
+    end if;
+    if v_share.expires_at is not null and v_share.expires_at <= now() then
+        return query select 'expired', null::text, null::jsonb, null::jsonb, null::text, null::timestamptz;
+        return;
+    end if;
+    if v_share.password_hash is not null then
+        if v_share.failed_attempts >= 20 then
+            return query select 'locked', null::text, null::jsonb, null::jsonb, null::text, null::timestamptz;
+            return;
+        end if;
+        if p_password is null or p_password = '' then
+            return query select 'password_required', null::text, null::jsonb, null::jsonb, null::text, null::timestamptz;
+            return;
+        end if;
+        if crypt(p_password, v_share.password_hash) <> v_share.password_hash then
+            update public.report_shares set failed_attempts = failed_attempts + 1 where id = v_share.id;
+            return query select 'wrong_password', null::text, null::jsonb, null::jsonb, null::text, null::timestamptz;
+            return;
+        end if;
+    end if;
+
+    update public.report_shares
+       set view_count = view_count + 1, last_viewed_at = now(), failed_attempts = 0
+     where id = v_share.id;
+
+    return query
+        select 'ok', a.file_name, a.report, a.transcript,
+               case when v_share.include_video then a.storage_path end,
+               v_share.expires_at
+          from public.audits a
+         where a.id = v_share.audit_id;
+end;
+$$;
+
+revoke execute on function public.open_report_share(text, text) from public, anon, authenticated;
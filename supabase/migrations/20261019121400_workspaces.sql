@@ -0,0 +1,836 @@
+-- Team workspaces. Every user has a personal workspace; Professional users
+-- can create team workspaces and invite people into them by email as admins
+-- or members. Audits, presets and benchmark libraries belong to a workspace
+-- and are shared by everyone in it.
+--
+-- A workspace runs on its owner's plan: members spend the owner's audit quota
+-- and get the owner's features, so an agency's team works from one
+-- subscription. The workspace a user is working in is kept on their profile,
+-- so the quota functions, has_feature(), the RLS policies and the analysis
+-- worker all resolve it from auth.uid() and nothing has to pass it along.
+--
+-- Comparisons, script variants, share links and export branding stay
+-- personal.
+
+update public.plans
+   set features = features || '{"team_workspaces": true}'::jsonb
+ where id = 'professional';
+
+create table if not exists public.workspaces (
+    id         uuid primary key default gen_random_uuid(),
+    name       text not null check (char_length(name) between 1 and 60),
+    owner_id   uuid not null references auth.users (id) on delete cascade,
+    personal   boolean not null default false,
+    created_at timestamptz not null default now()
+);
+
+create unique index if not exists workspaces_personal_idx on public.workspaces (owner_id) where personal;
+
+create table if not exists public.workspace_members (
+    workspace_id uuid not null references public.workspaces (id) on delete cascade,
+    user_id      uuid not null references auth.users (id) on delete cascade,
+    -- Copied when they join; other members can't read auth.users
+    email        text not null,
+    role         text not null check (role in ('owner', 'admin', 'member')),
+    created_at   timestamptz not null default now(),
+    primary key (workspace_id, user_id)
+);
+
+create index if not exists workspace_members_user_idx on public.workspace_members (user_id);
+
+-- Waits for someone to sign in with the invited address and accept.
+create table if not exists public.workspace_invites (
+    id           uuid primary key default gen_random_uuid(),
+    workspace_id uuid not null references public.workspaces (id) on delete cascade,
+    email        text not null check (email = lower(email)),
+    role         text not null check (role in ('admin', 'member')),
+    invited_by   uuid references auth.users (id) on delete set null,
+    created_at   timestamptz not null default now(),
+    unique (workspace_id, email)
+);
+
+create index if not exists workspace_invites_email_idx on public.workspace_invites (email);
+
+alter table public.profiles
+    add column if not exists active_workspace_id uuid references public.workspaces (id) on delete set null;
+
+-- ------------------------------------------
+-- Personal workspaces, for existing and new users
+-- ------------------------------------------
+
+insert into public.workspaces (name, owner_id, personal)
+select 'Personal', p.id, true from public.profiles p
+on conflict (owner_id) where personal do nothing;
+
+insert into public.workspace_members (workspace_id, user_id, email, role)
+select w.id, w.owner_id, coalesce(u.email, ''), 'owner'
+  from public.workspaces w
+  join auth.users u on u.id = w.owner_id
+ where w.personal
+on conflict do nothing;
+
+create or replace function public.create_personal_workspace()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_workspace uuid;
+begin
+    insert into public.workspaces (name, owner_id, personal)
+    values ('Personal', new.id, true)
+    on conflict (owner_id) where personal do nothing
+    returning id into v_workspace;
+
+    if v_workspace is not null then
+        insert into public.workspace_members (workspace_id, user_id, email, role)
+        select v_workspace, u.id, coalesce(u.email, ''), 'owner' from auth.users u where u.id = new.id;
+    end if;
+    return new;
+end;
+$$;
+
+create trigger profiles_personal_workspace
+    after insert on public.profiles
+    for each row execute function public.create_personal_workspace();
+
+-- ------------------------------------------
+-- Membership helpers
+-- ------------------------------------------
+-- Security definer so the policies below can use them without recursing
+-- through workspace_members' own policies.
+
+create or replace function public.workspace_role(p_workspace uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select role from public.workspace_members where workspace_id = p_workspace and user_id = auth.uid();
+$$;
+
+create or replace function public.is_workspace_member(p_workspace uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select exists (select 1 from public.workspace_members where workspace_id = p_workspace and user_id = auth.uid());
+$$;
+
+-- The caller's active workspace, or their personal one when they have none
+-- (or were removed from it).
+create or replace function public.current_workspace()
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select coalesce(
+        (select p.active_workspace_id
+           from public.profiles p
+           join public.workspace_members m on m.workspace_id = p.active_workspace_id and m.user_id = p.id
+          where p.id = auth.uid()),
+        (select w.id from public.workspaces w where w.owner_id = auth.uid() and w.personal)
+    );
+$$;
+
+-- Whose plan and quota the caller is spending: the current workspace's owner.
+create or replace function public.billing_user()
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select coalesce((select w.owner_id from public.workspaces w where w.id = public.current_workspace()), auth.uid());
+$$;
+
+revoke execute on function public.workspace_role(uuid) from public, anon;
+revoke execute on function public.is_workspace_member(uuid) from public, anon;
+revoke execute on function public.current_workspace() from public, anon;
+revoke execute on function public.billing_user() from public, anon;
+grant execute on function public.workspace_role(uuid) to authenticated;
+grant execute on function public.is_workspace_member(uuid) to authenticated;
+grant execute on function public.current_workspace() to authenticated;
+grant execute on function public.billing_user() to authenticated;
+
+-- ------------------------------------------
+-- Workspace tables: members read, functions write
+-- ------------------------------------------
+
+alter table public.workspaces enable row level security;
+alter table public.workspace_members enable row level security;
+alter table public.workspace_invites enable row level security;
+
+revoke insert, update, delete on public.workspaces from anon, authenticated;
+revoke insert, update, delete on public.workspace_members from anon, authenticated;
+revoke insert, update, delete on public.workspace_invites from anon, authenticated;
+
+create policy "Members read their workspaces"
+    on public.workspaces for select
+    using (public.is_workspace_member(id));
+
+create policy "Members read their workspace's members"
+    on public.workspace_members for select
+    using (public.is_workspace_member(workspace_id));
+
+create policy "Owners and admins read their workspace's invites"
+    on public.workspace_invites for select
+    using (public.workspace_role(workspace_id) in ('owner', 'admin'));
+
+-- ------------------------------------------
+-- Quota and features follow the current workspace
+-- ------------------------------------------
+
+alter table public.audit_credits
+    add column if not exists workspace_id uuid references public.workspaces (id) on delete set null,
+    add column if not exists billed_to uuid references auth.users (id) on delete cascade;
+
+update public.audit_credits set billed_to = user_id where billed_to is null;
+
+create or replace function public.get_audit_quota()
+returns table (used integer, quota integer, remaining integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_billing uuid := public.billing_user();
+begin
+    perform public.roll_audit_period(v_billing);
+    return query
+        select p.audit_count, p.audit_limit, greatest(p.audit_limit - p.audit_count, 0)
+        from public.profiles p
+        where p.id = v_billing;
+end;
+$$;
+
+create or replace function public.has_feature(p_feature text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select coalesce((pl.features ->> p_feature)::boolean, false)
+      from public.profiles p
+      join public.plans pl on pl.id = p.plan
+     where p.id = public.billing_user();
+$$;
+
+-- Gains the workspace columns, so it has to be dropped first
+drop function if exists public.get_entitlements();
+
+create or replace function public.get_entitlements()
+returns table (
+    plan text,
+    plan_name text,
+    used integer,
+    quota integer,
+    remaining integer,
+    period text,
+    period_end timestamptz,
+    subscription_status text,
+    features jsonb,
+    workspace_id uuid,
+    workspace_name text,
+    workspace_role text,
+    workspace_personal boolean
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_workspace uuid := public.current_workspace();
+    v_billing uuid := public.billing_user();
+begin
+    perform public.roll_audit_period(v_billing);
+    return query
+        select p.plan, pl.name, p.audit_count, p.audit_limit,
+               greatest(p.audit_limit - p.audit_count, 0),
+               pl.period, p.period_end, s.status, pl.features,
+               w.id, w.name, m.role, w.personal
+        from public.profiles p
+        join public.plans pl on pl.id = p.plan
+        left join public.subscriptions s on s.user_id = p.id
+        left join public.workspaces w on w.id = v_workspace
+        left join public.workspace_members m on m.workspace_id = w.id and m.user_id = auth.uid()
+        where p.id = v_billing;
+end;
+$$;
+
+revoke execute on function public.get_entitlements() from public, anon;
+grant execute on function public.get_entitlements() to authenticated;
+
+-- The credit is taken from the workspace owner's quota and remembers whose
+-- it was, so a refund goes back to the same place.
+create or replace function public.consume_audit_credit(p_idempotency_key text default null)
+returns table (credit_id uuid, remaining integer, replayed boolean)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_user uuid := auth.uid();
+    v_billing uuid;
+    v_existing public.audit_credits%rowtype;
+    v_count integer;
+    v_limit integer;
+begin
+    if v_user is null then
+        raise exception 'not_authenticated';
+    end if;
+
+    if p_idempotency_key is not null then
+        select * into v_existing
+          from public.audit_credits
+         where user_id = v_user and idempotency_key = p_idempotency_key
+           for update;
+
+        if found and v_existing.status = 'consumed' then
+            raise exception 'already_settled';
+        end if;
+
+        -- Still running (or its response was lost): hand back the same credit.
+        if found and v_existing.status = 'reserved' then
+            select greatest(audit_limit - audit_count, 0) into remaining
+              from public.profiles where id = coalesce(v_existing.billed_to, v_user);
+            credit_id := v_existing.id;
+            replayed := true;
+            return next;
+            return;
+        end if;
+    end if;
+
+    v_billing := public.billing_user();
+    perform public.roll_audit_period(v_billing);
+
+    update public.profiles
+       set audit_count = audit_count + 1
+     where id = v_billing
+       and audit_count < audit_limit
+    returning audit_count, audit_limit into v_count, v_limit;
+
+    if not found then
+        raise exception 'quota_exhausted';
+    end if;
+
+    if v_existing.id is not null then
+        -- The job was refunded earlier and is being run again: charge it anew.
+        update public.audit_credits
+           set status = 'reserved', settled_at = null, created_at = now(),
+               workspace_id = public.current_workspace(), billed_to = v_billing
+         where id = v_existing.id;
+        credit_id := v_existing.id;
+    else
+        insert into public.audit_credits (user_id, idempotency_key, workspace_id, billed_to)
+        values (v_user, p_idempotency_key, public.current_workspace(), v_billing)
+        returning id into credit_id;
+    end if;
+
+    remaining := v_limit - v_count;
+    replayed := false;
+    return next;
+end;
+$$;
+
+create or replace function public.refund_audit_credit(p_user uuid, p_credit_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_billed uuid;
+    v_remaining integer;
+begin
+    update public.audit_credits
+       set status = 'refunded', settled_at = now()
+     where id = p_credit_id
+       and user_id = p_user
+       and status = 'reserved'
+       and created_at > now() - interval '15 minutes'
+    returning coalesce(billed_to, user_id) into v_billed;
+
+    if found then
+        update public.profiles
+           set audit_count = greatest(audit_count - 1, 0)
+         where id = v_billed;
+    else
+        select coalesce(billed_to, user_id) into v_billed
+          from public.audit_credits where id = p_credit_id and user_id = p_user;
+    end if;
+
+    select greatest(audit_limit - audit_count, 0) into v_remaining
+      from public.profiles where id = coalesce(v_billed, p_user);
+    return v_remaining;
+end;
+$$;
+
+-- ------------------------------------------
+-- Audits, presets and benchmark libraries belong to a workspace
+-- ------------------------------------------
+-- New rows land in the caller's current workspace unless one is given.
+
+alter table public.audits add column if not exists workspace_id uuid references public.workspaces (id) on delete cascade;
+alter table public.audit_presets add column if not exists workspace_id uuid references public.workspaces (id) on delete cascade;
+alter table public.benchmark_sets add column if not exists workspace_id uuid references public.workspaces (id) on delete cascade;
+
+update public.audits a set workspace_id = w.id
+  from public.workspaces w where w.owner_id = a.user_id and w.personal and a.workspace_id is null;
+update public.audit_presets a set workspace_id = w.id
+  from public.workspaces w where w.owner_id = a.user_id and w.personal and a.workspace_id is null;
+update public.benchmark_sets a set workspace_id = w.id
+  from public.workspaces w where w.owner_id = a.user_id and w.personal and a.workspace_id is null;
+
+alter table public.audits
+    alter column workspace_id set default public.current_workspace(),
+    alter column workspace_id set not null;
+alter table public.audit_presets
+    alter column workspace_id set default public.current_workspace(),
+    alter column workspace_id set not null;
+alter table public.benchmark_sets
+    alter column workspace_id set default public.current_workspace(),
+    alter column workspace_id set not null;
+
+create index if not exists audits_workspace_created_idx on public.audits (workspace_id, created_at desc);
+
+-- Names are unique per workspace now, not per user
+alter table public.audit_presets drop constraint if exists audit_presets_user_id_name_key;
+alter table public.audit_presets add constraint audit_presets_workspace_name_key unique (workspace_id, name);
+alter table public.benchmark_sets drop constraint if exists benchmark_sets_user_id_name_key;
+alter table public.benchmark_sets add constraint benchmark_sets_workspace_name_key unique (workspace_id, name);
+
+-- Audits: anyone in the workspace reads them and edits transcripts; the
+-- author or the workspace's owner/admins delete them.
+drop policy if exists "Users read their own audits" on public.audits;
+drop policy if exists "Users save their own audits" on public.audits;
+drop policy if exists "Users delete their own audits" on public.audits;
+drop policy if exists "Users edit transcripts on their own audits" on public.audits;
+
+create policy "Members read their workspace's audits"
+    on public.audits for select
+    using (public.is_workspace_member(workspace_id));
+
+create policy "Members save audits to their workspace"
+    on public.audits for insert
+    with check (auth.uid() = user_id and public.is_workspace_member(workspace_id));
+
+create policy "Authors and admins delete workspace audits"
+    on public.audits for delete
+    using (auth.uid() = user_id and public.is_workspace_member(workspace_id)
+           or public.workspace_role(workspace_id) in ('owner', 'admin'));
+
+create policy "Members edit transcripts in their workspace"
+    on public.audits for update
+    using (public.is_workspace_member(workspace_id))
+    with check (public.is_workspace_member(workspace_id));
+
+-- Presets
+drop policy if exists "Users read their own presets" on public.audit_presets;
+drop policy if exists "Users create their own presets" on public.audit_presets;
+drop policy if exists "Users update their own presets" on public.audit_presets;
+drop policy if exists "Users delete their own presets" on public.audit_presets;
+
+create policy "Members read their workspace's presets"
+    on public.audit_presets for select
+    using (public.is_workspace_member(workspace_id));
+
+create policy "Members create presets in their workspace"
+    on public.audit_presets for insert
+    with check (auth.uid() = user_id and public.is_workspace_member(workspace_id));
+
+create policy "Authors and admins update workspace presets"
+    on public.audit_presets for update
+    using (auth.uid() = user_id and public.is_workspace_member(workspace_id)
+           or public.workspace_role(workspace_id) in ('owner', 'admin'))
+    with check (public.is_workspace_member(workspace_id));
+
+create policy "Authors and admins delete workspace presets"
+    on public.audit_presets for delete
+    using (auth.uid() = user_id and public.is_workspace_member(workspace_id)
+           or public.workspace_role(workspace_id) in ('owner', 'admin'));
+
+-- Benchmark libraries (writes still need the workspace plan's `benchmarking`)
+drop policy if exists "Users read their own benchmark sets" on public.benchmark_sets;
+drop policy if exists "Pro users create benchmark sets" on public.benchmark_sets;
+drop policy if exists "Users delete their own benchmark sets" on public.benchmark_sets;
+drop policy if exists "Users read their own benchmark entries" on public.benchmark_entries;
+drop policy if exists "Pro users tag their own audits into their own sets" on public.benchmark_entries;
+drop policy if exists "Users remove their own benchmark entries" on public.benchmark_entries;
+
+create policy "Members read their workspace's benchmark sets"
+    on public.benchmark_sets for select
+    using (public.is_workspace_member(workspace_id));
+
+create policy "Pro members create benchmark sets in their workspace"
+    on public.benchmark_sets for insert
+    with check (auth.uid() = user_id and public.is_workspace_member(workspace_id) and public.has_feature('benchmarking'));
+
+create policy "Authors and admins delete workspace benchmark sets"
+    on public.benchmark_sets for delete
+    using (auth.uid() = user_id and public.is_workspace_member(workspace_id)
+           or public.workspace_role(workspace_id) in ('owner', 'admin'));
+
+create policy "Members read their workspace's benchmark entries"
+    on public.benchmark_entries for select
+    using (exists (select 1 from public.benchmark_sets s where s.id = set_id and public.is_workspace_member(s.workspace_id)));
+
+create policy "Pro members tag workspace audits into workspace sets"
+    on public.benchmark_entries for insert
+    with check (
+        auth.uid() = user_id
+        and public.has_feature('benchmarking')
+        and exists (
+            select 1
+              from public.benchmark_sets s
+              join public.audits a on a.id = audit_id and a.workspace_id = s.workspace_id
+             where s.id = set_id and public.is_workspace_member(s.workspace_id)
+        )
+    );
+
+create policy "Authors and admins remove workspace benchmark entries"
+    on public.benchmark_entries for delete
+    using (exists (
+        select 1 from public.benchmark_sets s
+         where s.id = set_id
+           and (auth.uid() = benchmark_entries.user_id and public.is_workspace_member(s.workspace_id)
+                or public.workspace_role(s.workspace_id) in ('owner', 'admin'))
+    ));
+
+-- Teammates can play each other's creatives, rewrite their scripts and share
+-- their reports.
+create policy "Members read their workspace's creatives"
+    on storage.objects for select to authenticated
+    using (
+        bucket_id = 'creatives'
+        and exists (select 1 from public.audits a where a.storage_path = storage.objects.name and public.is_workspace_member(a.workspace_id))
+    );
+
+drop policy if exists "Users save variants on their own audits" on public.script_variants;
+
+create policy "Users save variants on their workspace's audits"
+    on public.script_variants for insert
+    with check (
+        auth.uid() = user_id
+        and exists (select 1 from public.audits a where a.id = audit_id and public.is_workspace_member(a.workspace_id))
+    );
+
+create or replace function public.create_report_share(
+    p_audit_id uuid,
+    p_include_video boolean,
+    p_expires_at timestamptz,
+    p_password text
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+    v_id uuid;
+begin
+    if auth.uid() is null then
+        raise exception 'not_authenticated';
+    end if;
+    if not exists (select 1 from public.audits where id = p_audit_id and public.is_workspace_member(workspace_id)) then
+        raise exception 'audit_not_found';
+    end if;
+    if p_expires_at is not null and p_expires_at <= now() then
+        raise exception 'expiry_in_past';
+    end if;
+    if p_password is not null and char_length(p_password) not between 4 and 128 then
+        raise exception 'invalid_password';
+    end if;
+
+    insert into public.report_shares (audit_id, user_id, include_video, password_hash, expires_at)
+    values (
+        p_audit_id,
+        auth.uid(),
+        coalesce(p_include_video, false),
+        case when p_password is null then null else crypt(p_password, gen_salt('bf')) end,
+        p_expires_at
+    )
+    returning id into v_id;
+    return v_id;
+end;
+$$;
+
+-- ------------------------------------------
+-- Managing workspaces
+-- ------------------------------------------
+-- Owners do everything; admins rename, invite and remove members; members
+-- use the workspace and may leave it. Personal workspaces can't be shared.
+
+-- create_workspace(): a team workspace owned (and paid for) by the caller
+create or replace function public.create_workspace(p_name text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_id uuid;
+begin
+    if auth.uid() is null then
+        raise exception 'not_authenticated';
+    end if;
+    -- The caller's own plan, not the current workspace's: they'll be paying
+    if not coalesce((select (pl.features ->> 'team_workspaces')::boolean
+                       from public.profiles p join public.plans pl on pl.id = p.plan
+                      where p.id = auth.uid()), false) then
+        raise exception 'feature_not_in_plan';
+    end if;
+    if char_length(trim(coalesce(p_name, ''))) not between 1 and 60 then
+        raise exception 'invalid_name';
+    end if;
+
+    insert into public.workspaces (name, owner_id) values (trim(p_name), auth.uid()) returning id into v_id;
+    insert into public.workspace_members (workspace_id, user_id, email, role)
+    values (v_id, auth.uid(), coalesce(auth.jwt() ->> 'email', ''), 'owner');
+    update public.profiles set active_workspace_id = v_id where id = auth.uid();
+    return v_id;
+end;
+$$;
+
+create or replace function public.rename_workspace(p_workspace uuid, p_name text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if coalesce(public.workspace_role(p_workspace), '') not in ('owner', 'admin') then
+        raise exception 'not_allowed';
+    end if;
+    if exists (select 1 from public.workspaces where id = p_workspace and personal) then
+        raise exception 'personal_workspace';
+    end if;
+    if char_length(trim(coalesce(p_name, ''))) not between 1 and 60 then
+        raise exception 'invalid_name';
+    end if;
+    update public.workspaces set name = trim(p_name) where id = p_workspace;
+end;
+$$;
+
+-- delete_workspace(): owner only; takes the workspace's audits, presets and
+-- benchmark libraries with it.
+create or replace function public.delete_workspace(p_workspace uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if coalesce(public.workspace_role(p_workspace), '') <> 'owner' then
+        raise exception 'not_allowed';
+    end if;
+    if exists (select 1 from public.workspaces where id = p_workspace and personal) then
+        raise exception 'personal_workspace';
+    end if;
+    delete from public.workspaces where id = p_workspace;
+end;
+$$;
+
+-- invite_member(): up to 10 people per workspace, counting pending invites.
+-- Inviting the same address again updates the role.
+create or replace function public.invite_member(p_workspace uuid, p_email text, p_role text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_email text := lower(trim(coalesce(p_email, '')));
+    v_id uuid;
+begin
+    if coalesce(public.workspace_role(p_workspace), '') not in ('owner', 'admin') then
+        raise exception 'not_allowed';
+    end if;
+    if exists (select 1 from public.workspaces where id = p_workspace and personal) then
+        raise exception 'personal_workspace';
+    end if;
+    if p_role not in ('admin', 'member') then
+        raise exception 'invalid_role';
+    end if;
+    if v_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' or char_length(v_email) > 254 then
+        raise exception 'invalid_email';
+    end if;
+    if exists (select 1 from public.workspace_members where workspace_id = p_workspace and lower(email) = v_email) then
+        raise exception 'already_member';
+    end if;
+    if (select count(*) from public.workspace_members where workspace_id = p_workspace)
+     + (select count(*) from public.workspace_invites where workspace_id = p_workspace and email <> v_email) >= 10 then
+        raise exception 'workspace_full';
+    end if;
+
+    insert into public.workspace_invites (workspace_id, email, role, invited_by)
+    values (p_workspace, v_email, p_role, auth.uid())
+    on conflict (workspace_id, email) do update
+        set role = excluded.role, invited_by = excluded.invited_by, created_at = now()
+    returning id into v_id;
+    return v_id;
+end;
+$$;
+
+create or replace function public.revoke_invite(p_invite uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    delete from public.workspace_invites i
+     where i.id = p_invite
+       and public.workspace_role(i.workspace_id) in ('owner', 'admin');
+    if not found then
+        raise exception 'invite_not_found';
+    end if;
+end;
+$$;
+
+-- my_invites(): invites waiting for the caller's email address
+create or replace function public.my_invites()
+returns table (id uuid, workspace_id uuid, workspace_name text, role text, invited_by text, created_at timestamptz)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select i.id, i.workspace_id, w.name, i.role, m.email, i.created_at
+      from public.workspace_invites i
+      join public.workspaces w on w.id = i.workspace_id
+      left join public.workspace_members m on m.workspace_id = i.workspace_id and m.user_id = i.invited_by
+     where i.email = lower(auth.jwt() ->> 'email')
+     order by i.created_at desc;
+$$;
+
+-- accept_invite(): joins the workspace and switches to it
+create or replace function public.accept_invite(p_invite uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_invite public.workspace_invites;
+begin
+    select * into v_invite
+      from public.workspace_invites
+     where id = p_invite and email = lower(auth.jwt() ->> 'email')
+       for update;
+    if not found then
+        raise exception 'invite_not_found';
+    end if;
+
+    insert into public.workspace_members (workspace_id, user_id, email, role)
+    values (v_invite.workspace_id, auth.uid(), v_invite.email, v_invite.role)
+    on conflict (workspace_id, user_id) do nothing;
+    delete from public.workspace_invites where id = p_invite;
+    update public.profiles set active_workspace_id = v_invite.workspace_id where id = auth.uid();
+    return v_invite.workspace_id;
+end;
+$$;
+
+create or replace function public.decline_invite(p_invite uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+    delete from public.workspace_invites where id = p_invite and email = lower(auth.jwt() ->> 'email');
+$$;
+
+-- set_member_role(): owner only; the owner's own role never changes
+create or replace function public.set_member_role(p_workspace uuid, p_user uuid, p_role text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if coalesce(public.workspace_role(p_workspace), '') <> 'owner' then
+        raise exception 'not_allowed';
+    end if;
+    if p_role not in ('admin', 'member') then
+        raise exception 'invalid_role';
+    end if;
+    update public.workspace_members
+       set role = p_role
+     where workspace_id = p_workspace and user_id = p_user and role <> 'owner';
+    if not found then
+        raise exception 'not_a_member';
+    end if;
+end;
+$$;
+
+-- remove_member(): removing yourself is leaving. Admins may only remove
+-- members; nobody removes the owner.
+create or replace function public.remove_member(p_workspace uuid, p_user uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_caller text := public.workspace_role(p_workspace);
+    v_target text;
+begin
+    select role into v_target from public.workspace_members where workspace_id = p_workspace and user_id = p_user;
+    if v_caller is null or v_target is null then
+        raise exception 'not_a_member';
+    end if;
+    if v_target = 'owner' then
+        raise exception 'owner_cannot_leave';
+    end if;
+    if p_user <> auth.uid() and not (v_caller = 'owner' or (v_caller = 'admin' and v_target = 'member')) then
+        raise exception 'not_allowed';
+    end if;
+
+    delete from public.workspace_members where workspace_id = p_workspace and user_id = p_user;
+    update public.profiles set active_workspace_id = null where id = p_user and active_workspace_id = p_workspace;
+end;
+$$;
+
+create or replace function public.set_active_workspace(p_workspace uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if not public.is_workspace_member(p_workspace) then
+        raise exception 'not_a_member';
+    end if;
+    update public.profiles set active_workspace_id = p_workspace where id = auth.uid();
+end;
+$$;
+
+revoke execute on function public.create_workspace(text) from public, anon;
+revoke execute on function public.rename_workspace(uuid, text) from public, anon;
+revoke execute on function public.delete_workspace(uuid) from public, anon;
+revoke execute on function public.invite_member(uuid, text, text) from public, anon;
+revoke execute on function public.revoke_invite(uuid) from public, anon;
+revoke execute on function public.my_invites() from public, anon;
+revoke execute on function public.accept_invite(uuid) from public, anon;
+revoke execute on function public.decline_invite(uuid) from public, anon;
+revoke execute on function public.set_member_role(uuid, uuid, text) from public, anon;
+revoke execute on function public.remove_member(uuid, uuid) from public, anon;
+revoke execute on function public.set_active_workspace(uuid) from public, anon;
+grant execute on function public.create_workspace(text) to authenticated;
+grant execute on function public.rename_workspace(uuid, text) to authenticated;
+grant execute on function public.delete_workspace(uuid) to authenticated;
+grant execute on function public.invite_member(uuid, text, text) to authenticated;
+grant execute on function public.revoke_invite(uuid) to authenticated;
+grant execute on function public.my_invites() to authenticated;
+grant execute on function public.accept_invite(uuid) to authenticated;
+grant execute on function public.decline_invite(uuid) to authenticated;
+grant execute on function public.set_member_role(uuid, uuid, text) to authenticated;
+grant execute on function public.remove_member(uuid, uuid) to authenticated;
+grant execute on function public.set_active_workspace(uuid) to authenticated;
@@ -0,0 +1,109 @@
+-- Usage history for the account page.
+--
+-- profiles only holds the current quota period. When the next one starts
+-- (roll_audit_period() or a renewal webhook moving period_start), the
+-- finished period is copied to usage_periods, so past periods keep their
+-- plan, quota and count. Periods that ended before this migration aren't
+-- recoverable; history starts with the current one.
+
+create table if not exists public.usage_periods (
+    id           uuid primary key default gen_random_uuid(),
+    user_id      uuid not null references auth.users (id) on delete cascade,
+    plan         text not null references public.plans (id),
+    period_start timestamptz not null,
+    period_end   timestamptz not null,
+    quota        integer not null,
+    used         integer not null
+);
+
+create index if not exists usage_periods_user_idx on public.usage_periods (user_id, period_start desc);
+
+alter table public.usage_periods enable row level security;
+
+create policy "Users read their own usage periods"
+    on public.usage_periods for select
+    using (auth.uid() = user_id);
+
+create or replace function public.record_usage_period()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if new.period_start is distinct from old.period_start then
+        insert into public.usage_periods (user_id, plan, period_start, period_end, quota, used)
+        values (old.id, old.plan, old.period_start, now(), old.audit_limit, old.audit_count);
+    end if;
+    return new;
+end;
+$$;
+
+drop trigger if exists profiles_record_usage_period on public.profiles;
+create trigger profiles_record_usage_period
+    after update of period_start on public.profiles
+    for each row execute function public.record_usage_period();
+
+-- ------------------------------------------
+-- get_usage_history(): the caller's periods, current first
+-- ------------------------------------------
+-- Credits billed to the caller's quota are split into the caller's own
+-- audits and the ones teammates ran in workspaces the caller owns. Refunded
+-- credits count for neither.
+create or replace function public.get_usage_history()
+returns table (
+    period_start timestamptz,
+    period_end timestamptz,
+    plan_name text,
+    quota integer,
+    used integer,
+    by_you integer,
+    by_team integer,
+    is_current boolean
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_user uuid := auth.uid();
+begin
+    if v_user is null then
+        raise exception 'not_authenticated';
+    end if;
+    perform public.roll_audit_period(v_user);
+
+    return query
+        with periods as (
+            select u.period_start, u.period_end, u.plan, u.quota, u.used, false as is_current
+              from public.usage_periods u
+             where u.user_id = v_user
+            union all
+            select p.period_start, p.period_end, p.plan, p.audit_limit, p.audit_count, true
+              from public.profiles p
+             where p.id = v_user
+        )
+        select pr.period_start,
+               pr.period_end,
+               pl.name,
+               pr.quota,
+               pr.used,
+               count(c.id) filter (where c.user_id = v_user)::integer,
+               count(c.id) filter (where c.user_id <> v_user)::integer,
+               pr.is_current
+          from periods pr
+          join public.plans pl on pl.id = pr.plan
+          left join public.audit_credits c
+            on c.billed_to = v_user
+           and c.status <> 'refunded'
+           and c.created_at >= pr.period_start
+           -- The current period's end is when it will reset, not a bound
+           and (pr.is_current or c.created_at < pr.period_end)
+         group by pr.period_start, pr.period_end, pl.name, pr.quota, pr.used, pr.is_current
+         order by pr.is_current desc, pr.period_start desc
+         limit 24;
+end;
+$$;
+
+revoke execute on function public.get_usage_history() from public, anon;
+grant execute on function public.get_usage_history() to authenticated;
@@ -0,0 +1,446 @@
+-- Personal API keys and the public audit API (worker/src/api.ts).
+--
+-- A key belongs to a user and to the workspace that was active when it was
+-- created: audits submitted with it land in that workspace and draw on the
+-- same quota as audits run in the app (the workspace owner's). Keys are
+-- shown once and only their SHA-256 hash is stored. Each key also gets a
+-- secret for signing webhook deliveries, which only the worker reads.
+--
+-- Submitted audits are jobs in api_audits. The worker stores the video,
+-- creates the job and processes it in the background; a finished job points
+-- at a normal row in public.audits, so it shows up in the history too.
+
+create extension if not exists pgcrypto with schema extensions;
+
+create table if not exists public.api_keys (
+    id             uuid primary key default gen_random_uuid(),
+    user_id        uuid not null references auth.users (id) on delete cascade,
+    workspace_id   uuid not null references public.workspaces (id) on delete cascade,
+    name           text not null check (char_length(name) between 1 and 60),
+    -- The start of the key, so users can tell their keys apart
+    prefix         text not null,
+    key_hash       text not null unique,
+    scopes         text[] not null check (cardinality(scopes) > 0 and scopes <@ array['audits:write', 'audits:read']),
+    -- Audits submitted per minute
+    rate_limit     integer not null default 10 check (rate_limit between 1 and 60),
+    webhook_url    text check (char_length(webhook_url) <= 500 and webhook_url ~ '^https?://\S+$'),
+    webhook_secret text not null,
+    last_used_at   timestamptz,
+    revoked_at     timestamptz,
+    created_at     timestamptz not null default now()
+);
+
+create index if not exists api_keys_user_idx on public.api_keys (user_id, created_at desc);
+
+alter table public.api_keys enable row level security;
+
+-- Keys are created through create_api_key(); the hash and the webhook secret
+-- never leave the database except to the worker. Owners may only revoke.
+revoke select, insert, update on public.api_keys from anon, authenticated;
+grant select (id, workspace_id, name, prefix, scopes, rate_limit, webhook_url, last_used_at, revoked_at, created_at)
+    on public.api_keys to authenticated;
+grant update (revoked_at) on public.api_keys to authenticated;
+
+create policy "Users read their own API keys"
+    on public.api_keys for select
+    using (auth.uid() = user_id);
+
+create policy "Users revoke their own API keys"
+    on public.api_keys for update
+    using (auth.uid() = user_id)
+    with check (auth.uid() = user_id);
+
+create table if not exists public.api_audits (
+    id              uuid primary key,
+    key_id          uuid references public.api_keys (id) on delete set null,
+    user_id         uuid not null references auth.users (id) on delete cascade,
+    workspace_id    uuid not null references public.workspaces (id) on delete cascade,
+    idempotency_key text,
+    status          text not null default 'queued' check (status in ('queued', 'processing', 'succeeded', 'failed')),
+    file_name       text not null,
+    mime_type       text not null,
+    file_size       bigint not null check (file_size >= 0),
+    storage_path    text not null,
+    context         jsonb,
+    policy_check    boolean not null default false,
+    webhook_url     text,
+    audit_id        uuid references public.audits (id) on delete set null,
+    error_code      text,
+    error_message   text,
+    webhook_status  text check (webhook_status in ('delivered', 'failed')),
+    created_at      timestamptz not null default now(),
+    started_at      timestamptz,
+    completed_at    timestamptz,
+    unique (key_id, idempotency_key)
+);
+
+create index if not exists api_audits_user_idx on public.api_audits (user_id, created_at desc);
+
+alter table public.api_audits enable row level security;
+
+revoke insert, update, delete on public.api_audits from anon, authenticated;
+
+create policy "Users read their own API audits"
+    on public.api_audits for select
+    using (auth.uid() = user_id);
+
+-- ------------------------------------------
+-- create_api_key(): a new key in the caller's current workspace
+-- ------------------------------------------
+-- Returns the key and webhook secret in plain text; this is the only time
+-- they can be read.
+
+create or replace function public.create_api_key(p_name text, p_scopes text[], p_rate_limit integer, p_webhook_url text)
+returns table (id uuid, api_key text, webhook_secret text)
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+    v_key text := 'va_' || encode(gen_random_bytes(24), 'hex');
+    v_secret text := 'whsec_' || encode(gen_random_bytes(24), 'hex');
+begin
+    if auth.uid() is null then
+        raise exception 'not_authenticated';
+    end if;
+    if char_length(trim(coalesce(p_name, ''))) not between 1 and 60 then
+        raise exception 'invalid_name';
+    end if;
+    if coalesce(cardinality(p_scopes), 0) = 0 or not p_scopes <@ array['audits:write', 'audits:read'] then
+        raise exception 'invalid_scopes';
+    end if;
+    if p_rate_limit is null or p_rate_limit not between 1 and 60 then
+        raise exception 'invalid_rate_limit';
+    end if;
+    if p_webhook_url is not null and (char_length(p_webhook_url) > 500 or p_webhook_url !~ '^https?://\S+$') then
+        raise exception 'invalid_webhook_url';
+    end if;
+    if (select count(*) from public.api_keys k where k.user_id = auth.uid() and k.revoked_at is null) >= 10 then
+        raise exception 'too_many_keys';
+    end if;
+
+    insert into public.api_keys (user_id, workspace_id, name, prefix, key_hash, scopes, rate_limit, webhook_url, webhook_secret)
+    values (
+        auth.uid(),
+        public.current_workspace(),
+        trim(p_name),
+        left(v_key, 11),
+        encode(digest(v_key, 'sha256'), 'hex'),
+        p_scopes,
+        p_rate_limit,
+        nullif(trim(p_webhook_url), ''),
+        v_secret
+    )
+    returning api_keys.id into id;
+
+    api_key := v_key;
+    webhook_secret := v_secret;
+    return next;
+end;
+$$;
+
+revoke execute on function public.create_api_key(text, text[], integer, text) from public, anon;
+grant execute on function public.create_api_key(text, text[], integer, text) to authenticated;
+
+-- ------------------------------------------
+-- Worker side (service role only)
+-- ------------------------------------------
+
+-- authenticate_api_key(): the key behind a hash, if it's live and its owner
+-- is still in the key's workspace, with the quota and features it draws on.
+create or replace function public.authenticate_api_key(p_key_hash text)
+returns table (
+    key_id         uuid,
+    user_id        uuid,
+    workspace_id   uuid,
+    scopes         text[],
+    rate_limit     integer,
+    webhook_url    text,
+    webhook_secret text,
+    remaining      integer,
+    features       jsonb
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_key public.api_keys;
+    v_billing uuid;
+begin
+    select k.* into v_key
+      from public.api_keys k
+      join public.workspace_members m on m.workspace_id = k.workspace_id and m.user_id = k.user_id
+     where k.key_hash = p_key_hash
+       and k.revoked_at is null;
+    if not found then
+        return;
+    end if;
+
+    -- Coarse, so polling doesn't write on every request
+    update public.api_keys k set last_used_at = now()
+     where k.id = v_key.id and (k.last_used_at is null or k.last_used_at < now() - interval '1 minute');
+
+    select w.owner_id into v_billing from public.workspaces w where w.id = v_key.workspace_id;
+    perform public.roll_audit_period(v_billing);
+
+    return query
+        select v_key.id, v_key.user_id, v_key.workspace_id, v_key.scopes, v_key.rate_limit,
+               v_key.webhook_url, v_key.webhook_secret,
+               greatest(p.audit_limit - p.audit_count, 0), pl.features
+          from public.profiles p
+          join public.plans pl on pl.id = p.plan
+         where p.id = v_billing;
+end;
+$$;
+
+-- consume_api_credit(): consume_audit_credit() for a key instead of a
+-- session. Charges the owner of the key's workspace.
+create or replace function public.consume_api_credit(p_key uuid, p_idempotency_key text)
+returns table (credit_id uuid, remaining integer, replayed boolean)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_key public.api_keys;
+    v_billing uuid;
+    v_existing public.audit_credits%rowtype;
+    v_count integer;
+    v_limit integer;
+begin
+    select k.* into v_key from public.api_keys k where k.id = p_key and k.revoked_at is null;
+    if not found then
+        raise exception 'key_revoked';
+    end if;
+    select w.owner_id into v_billing from public.workspaces w where w.id = v_key.workspace_id;
+
+    select * into v_existing
+      from public.audit_credits c
+     where c.user_id = v_key.user_id and c.idempotency_key = p_idempotency_key
+       for update;
+
+    if found and v_existing.status = 'consumed' then
+        raise exception 'already_settled';
+    end if;
+    if found and v_existing.status = 'reserved' then
+        select greatest(p.audit_limit - p.audit_count, 0) into remaining
+          from public.profiles p where p.id = coalesce(v_existing.billed_to, v_billing);
+        credit_id := v_existing.id;
+        replayed := true;
+        return next;
+        return;
+    end if;
+
+    perform public.roll_audit_period(v_billing);
+
+    update public.profiles p
+       set audit_count = p.audit_count + 1
+     where p.id = v_billing
+       and p.audit_count < p.audit_limit
+    returning p.audit_count, p.audit_limit into v_count, v_limit;
+
+    if not found then
+        raise exception 'quota_exhausted';
+    end if;
+
+    if v_existing.id is not null then
+        update public.audit_credits c
+           set status = 'reserved', settled_at = null, created_at = now(),
+               workspace_id = v_key.workspace_id, billed_to = v_billing
+         where c.id = v_existing.id;
+        credit_id := v_existing.id;
+    else
+        insert into public.audit_credits (user_id, idempotency_key, workspace_id, billed_to)
+        values (v_key.user_id, p_idempotency_key, v_key.workspace_id, v_billing)
+        returning audit_credits.id into credit_id;
+    end if;
+
+    remaining := v_limit - v_count;
+    replayed := false;
+    return next;
+end;
+$$;
+
+-- find_api_audit(): the job a key already submitted under an idempotency key
+create or replace function public.find_api_audit(p_key uuid, p_idempotency_key text)
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select a.id from public.api_audits a where a.key_id = p_key and a.idempotency_key = p_idempotency_key;
+$$;
+
+-- create_api_audit(): records a submitted job. A concurrent submission with
+-- the same idempotency key gets the first job back.
+create or replace function public.create_api_audit(
+    p_id uuid,
+    p_key uuid,
+    p_idempotency_key text,
+    p_file_name text,
+    p_mime_type text,
+    p_file_size bigint,
+    p_storage_path text,
+    p_context jsonb,
+    p_policy_check boolean,
+    p_webhook_url text
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_key public.api_keys;
+    v_id uuid;
+begin
+    select k.* into v_key from public.api_keys k where k.id = p_key and k.revoked_at is null;
+    if not found then
+        raise exception 'key_revoked';
+    end if;
+
+    insert into public.api_audits (id, key_id, user_id, workspace_id, idempotency_key, file_name, mime_type, file_size, storage_path, context, policy_check, webhook_url)
+    values (p_id, p_key, v_key.user_id, v_key.workspace_id, p_idempotency_key, p_file_name, p_mime_type, p_file_size, p_storage_path, p_context, coalesce(p_policy_check, false), p_webhook_url)
+    on conflict (key_id, idempotency_key) do nothing
+    returning api_audits.id into v_id;
+
+    return coalesce(v_id, public.find_api_audit(p_key, p_idempotency_key));
+end;
+$$;
+
+-- get_api_audit(): a job with its report once it has one, and the signing
+-- secret of the key it was submitted with
+create or replace function public.get_api_audit(p_id uuid)
+returns table (
+    id             uuid,
+    key_id         uuid,
+    user_id        uuid,
+    status         text,
+    file_name      text,
+    mime_type      text,
+    file_size      bigint,
+    storage_path   text,
+    context        jsonb,
+    policy_check   boolean,
+    webhook_url    text,
+    webhook_secret text,
+    audit_id       uuid,
+    error_code     text,
+    error_message  text,
+    created_at     timestamptz,
+    started_at     timestamptz,
+    completed_at   timestamptz,
+    report         jsonb,
+    transcript     jsonb
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select j.id, j.key_id, j.user_id, j.status, j.file_name, j.mime_type, j.file_size, j.storage_path,
+           j.context, j.policy_check, j.webhook_url, k.webhook_secret, j.audit_id, j.error_code,
+           j.error_message, j.created_at, j.started_at, j.completed_at, a.report, a.transcript
+      from public.api_audits j
+      left join public.api_keys k on k.id = j.key_id
+      left join public.audits a on a.id = j.audit_id
+     where j.id = p_id;
+$$;
+
+-- start_api_audit(): claims a queued job. A job stuck in processing for 15
+-- minutes (the worker died) can be claimed again.
+create or replace function public.start_api_audit(p_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    update public.api_audits j
+       set status = 'processing', started_at = now()
+     where j.id = p_id
+       and (j.status = 'queued' or (j.status = 'processing' and j.started_at < now() - interval '15 minutes'));
+    return found;
+end;
+$$;
+
+-- finish_api_audit(): saves the report as an audit in the key's workspace
+create or replace function public.finish_api_audit(
+    p_id uuid,
+    p_report jsonb,
+    p_overall_score numeric,
+    p_hook_score numeric,
+    p_body_score numeric,
+    p_audio_score numeric,
+    p_script_score numeric
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_job public.api_audits;
+    v_audit uuid;
+begin
+    select * into v_job from public.api_audits j where j.id = p_id and j.status = 'processing' for update;
+    if not found then
+        raise exception 'job_not_processing';
+    end if;
+
+    insert into public.audits (user_id, workspace_id, file_name, mime_type, file_size, storage_path,
+                               overall_score, hook_score, body_score, audio_score, script_score, report)
+    values (v_job.user_id, v_job.workspace_id, v_job.file_name, v_job.mime_type, v_job.file_size, v_job.storage_path,
+            p_overall_score, p_hook_score, p_body_score, p_audio_score, p_script_score, p_report)
+    returning audits.id into v_audit;
+
+    update public.api_audits j
+       set status = 'succeeded', audit_id = v_audit, completed_at = now(), error_code = null, error_message = null
+     where j.id = p_id;
+    return v_audit;
+end;
+$$;
+
+create or replace function public.fail_api_audit(p_id uuid, p_code text, p_message text)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+    update public.api_audits j
+       set status = 'failed', error_code = p_code, error_message = left(p_message, 500), completed_at = now()
+     where j.id = p_id
+       and j.status in ('queued', 'processing');
+$$;
+
+create or replace function public.record_api_webhook(p_id uuid, p_delivered boolean)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+    update public.api_audits j
+       set webhook_status = case when p_delivered then 'delivered' else 'failed' end
+     where j.id = p_id;
+$$;
+
+revoke execute on function public.authenticate_api_key(text) from public, anon, authenticated;
+revoke execute on function public.consume_api_credit(uuid, text) from public, anon, authenticated;
+revoke execute on function public.find_api_audit(uuid, text) from public, anon, authenticated;
+revoke execute on function public.create_api_audit(uuid, uuid, text, text, text, bigint, text, jsonb, boolean, text) from public, anon, authenticated;
+revoke execute on function public.get_api_audit(uuid) from public, anon, authenticated;
+revoke execute on function public.start_api_audit(uuid) from public, anon, authenticated;
+revoke execute on function public.finish_api_audit(uuid, jsonb, numeric, numeric, numeric, numeric, numeric) from public, anon, authenticated;
+revoke execute on function public.fail_api_audit(uuid, text, text) from public, anon, authenticated;
+revoke execute on function public.record_api_webhook(uuid, boolean) from public, anon, authenticated;
+grant execute on function public.authenticate_api_key(text) to service_role;
+grant execute on function public.consume_api_credit(uuid, text) to service_role;
+grant execute on function public.find_api_audit(uuid, text) to service_role;
+grant execute on function public.create_api_audit(uuid, uuid, text, text, text, bigint, text, jsonb, boolean, text) to service_role;
+grant execute on function public.get_api_audit(uuid) to service_role;
+grant execute on function public.start_api_audit(uuid) to service_role;
+grant execute on function public.finish_api_audit(uuid, jsonb, numeric, numeric, numeric, numeric, numeric) to service_role;
+grant execute on function public.fail_api_audit(uuid, text, text) to service_role;
+grant execute on function public.record_api_webhook(uuid, boolean) to service_role;
@@ -0,0 +1,126 @@
+-- Ad performance imports: results from Meta Ads Manager / TikTok Ads exports,
+-- matched to audits so section scores can be checked against real outcomes.
+--
+-- The CSV is parsed in the browser (lib/performance.ts), one row per
+-- creative. import_ad_performance() stores an import and its rows in one go,
+-- in the caller's current workspace. A row links to at most one audit of that
+-- workspace, either matched by file name at import or linked by hand later.
+-- Base counts are kept next to the reported rates so rows can be combined.
+
+create table if not exists public.performance_imports (
+    id           uuid primary key default gen_random_uuid(),
+    user_id      uuid not null references auth.users (id) on delete cascade,
+    workspace_id uuid not null default public.current_workspace() references public.workspaces (id) on delete cascade,
+    source       text not null check (source in ('meta', 'tiktok', 'other')),
+    file_name    text not null check (char_length(file_name) between 1 and 255),
+    row_count    integer not null check (row_count >= 0),
+    created_at   timestamptz not null default now()
+);
+
+create index if not exists performance_imports_workspace_idx on public.performance_imports (workspace_id, created_at desc);
+
+create table if not exists public.performance_rows (
+    id             uuid primary key default gen_random_uuid(),
+    import_id      uuid not null references public.performance_imports (id) on delete cascade,
+    user_id        uuid not null references auth.users (id) on delete cascade,
+    workspace_id   uuid not null references public.workspaces (id) on delete cascade,
+    creative_name  text not null check (char_length(creative_name) between 1 and 300),
+    audit_id       uuid references public.audits (id) on delete set null,
+    match_method   text check (match_method in ('file_name', 'manual')),
+    spend          numeric check (spend >= 0),
+    impressions    bigint check (impressions >= 0),
+    clicks         bigint check (clicks >= 0),
+    hook_views     bigint check (hook_views >= 0),
+    purchase_value numeric check (purchase_value >= 0),
+    -- Percentages as exported (1.5 is 1.5%); ROAS as a multiple
+    ctr            numeric check (ctr >= 0),
+    hook_rate      numeric check (hook_rate >= 0),
+    roas           numeric check (roas >= 0),
+    date_start     date,
+    date_end       date,
+    created_at     timestamptz not null default now(),
+    check ((audit_id is null) = (match_method is null))
+);
+
+create index if not exists performance_rows_import_idx on public.performance_rows (import_id);
+create index if not exists performance_rows_workspace_idx on public.performance_rows (workspace_id, audit_id);
+
+alter table public.performance_imports enable row level security;
+alter table public.performance_rows enable row level security;
+
+-- Rows come in through import_ad_performance(); members only relink them
+revoke insert, update on public.performance_imports from anon, authenticated;
+revoke insert, update on public.performance_rows from anon, authenticated;
+grant update (audit_id, match_method) on public.performance_rows to authenticated;
+
+create policy "Members read their workspace's performance imports"
+    on public.performance_imports for select
+    using (public.is_workspace_member(workspace_id));
+
+create policy "Importers and admins delete workspace performance imports"
+    on public.performance_imports for delete
+    using (auth.uid() = user_id and public.is_workspace_member(workspace_id)
+           or public.workspace_role(workspace_id) in ('owner', 'admin'));
+
+create policy "Members read their workspace's performance rows"
+    on public.performance_rows for select
+    using (public.is_workspace_member(workspace_id));
+
+create policy "Members link performance rows to workspace audits"
+    on public.performance_rows for update
+    using (public.is_workspace_member(workspace_id))
+    with check (
+        public.is_workspace_member(workspace_id)
+        and (audit_id is null
+             or exists (select 1 from public.audits a where a.id = audit_id and a.workspace_id = performance_rows.workspace_id))
+    );
+
+-- ------------------------------------------
+-- import_ad_performance(): an import and its rows
+-- ------------------------------------------
+-- p_rows is a JSON array of { creative_name, audit_id, spend, impressions,
+-- clicks, hook_views, purchase_value, ctr, hook_rate, roas, date_start,
+-- date_end }. An audit_id outside the workspace is dropped, not trusted.
+create or replace function public.import_ad_performance(p_source text, p_file_name text, p_rows jsonb)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_user uuid := auth.uid();
+    v_workspace uuid := public.current_workspace();
+    v_import uuid;
+begin
+    if v_user is null or v_workspace is null then
+        raise exception 'not_authenticated';
+    end if;
+    if jsonb_typeof(p_rows) <> 'array' or jsonb_array_length(p_rows) = 0 then
+        raise exception 'no_rows';
+    end if;
+    if jsonb_array_length(p_rows) > 5000 then
+        raise exception 'too_many_rows';
+    end if;
+
+    insert into public.performance_imports (user_id, workspace_id, source, file_name, row_count)
+    values (v_user, v_workspace, p_source, left(p_file_name, 255), jsonb_array_length(p_rows))
+    returning id into v_import;
+
+    insert into public.performance_rows (import_id, user_id, workspace_id, creative_name, audit_id, match_method,
+                                         spend, impressions, clicks, hook_views, purchase_value, ctr, hook_rate, roas,
+                                         date_start, date_end)
+    select v_import, v_user, v_workspace, left(r.creative_name, 300), a.id, case when a.id is not null then 'file_name' end,
+           r.spend, r.impressions, r.clicks, r.hook_views, r.purchase_value, r.ctr, r.hook_rate, r.roas,
+           r.date_start, r.date_end
+      from jsonb_to_recordset(p_rows) as r (
+               creative_name text, audit_id uuid, spend numeric, impressions bigint, clicks bigint, hook_views bigint,
+               purchase_value numeric, ctr numeric, hook_rate numeric, roas numeric, date_start date, date_end date
+           )
+      left join public.audits a on a.id = r.audit_id and a.workspace_id = v_workspace;
+
+    return v_import;
+end;
+$$;
+
+revoke execute on function public.import_ad_performance(text, text, jsonb) from public, anon;
+grant execute on function public.import_ad_performance(text, text, jsonb) to authenticated;
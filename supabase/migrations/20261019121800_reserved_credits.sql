@@ -0,0 +1,209 @@
+-- Reserved credits belong to the run that took them.
+--
+-- A run settles or refunds its credit within the worker's time limit (see
+-- worker/src/analyze.ts), and a cancelled run refunds it when the browser
+-- hangs up. A credit still reserved after 15 minutes was left by a worker that
+-- died; release_stale_credits() gives it back the next time the quota is read.
+--
+-- consume_audit_credit() and consume_api_credit() also stop handing a
+-- reserved credit to a second run with the same key: it could refund the
+-- credit from under the first, or get a free audit when the first one's
+-- settle found it gone.
+
+-- ------------------------------------------
+-- release_stale_credits(): refund reservations no run will settle
+-- ------------------------------------------
+-- The same 15 minutes as refund_audit_credit(), so a credit is either still
+-- the run's to settle or refund, or released here; never both. Stale
+-- reservations go back to the quota they were taken from.
+create or replace function public.release_stale_credits(p_user uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_released integer;
+begin
+    with released as (
+        update public.audit_credits
+           set status = 'refunded', settled_at = now()
+         where coalesce(billed_to, user_id) = p_user
+           and status = 'reserved'
+           and created_at <= now() - interval '15 minutes'
+        returning 1
+    )
+    select count(*) into v_released from released;
+
+    if v_released > 0 then
+        update public.profiles
+           set audit_count = greatest(audit_count - v_released, 0)
+         where id = p_user;
+    end if;
+end;
+$$;
+
+revoke execute on function public.release_stale_credits(uuid) from public, anon, authenticated;
+
+-- Every quota read and charge already brings the period up to date first;
+-- stale reservations are released there too, before the period can reset.
+create or replace function public.roll_audit_period(p_user uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    perform public.release_stale_credits(p_user);
+
+    update public.profiles p
+       set audit_count = 0,
+           period_start = now(),
+           period_end = now() + interval '1 month'
+      from public.plans pl
+     where p.id = p_user
+       and pl.id = p.plan
+       and pl.period = 'month'
+       and p.period_end is not null
+       and p.period_end <= now();
+end;
+$$;
+
+-- ------------------------------------------
+-- consume_audit_credit(): refuse to replay a reserved credit
+-- ------------------------------------------
+create or replace function public.consume_audit_credit(p_idempotency_key text default null)
+returns table (credit_id uuid, remaining integer, replayed boolean)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_user uuid := auth.uid();
+    v_billing uuid;
+    v_existing public.audit_credits%rowtype;
+    v_count integer;
+    v_limit integer;
+begin
+    if v_user is null then
+        raise exception 'not_authenticated';
+    end if;
+
+    if p_idempotency_key is not null then
+        select * into v_existing
+          from public.audit_credits
+         where user_id = v_user and idempotency_key = p_idempotency_key
+           for update;
+
+        if found and v_existing.status = 'consumed' then
+            raise exception 'already_settled';
+        end if;
+
+        -- Still running: only the run that reserved it settles or refunds it
+        if found and v_existing.status = 'reserved' then
+            if v_existing.created_at > now() - interval '15 minutes' then
+                raise exception 'in_progress';
+            end if;
+            -- Abandoned: released, then charged anew below
+            perform public.release_stale_credits(coalesce(v_existing.billed_to, v_user));
+        end if;
+    end if;
+
+    v_billing := public.billing_user();
+    perform public.roll_audit_period(v_billing);
+
+    update public.profiles
+       set audit_count = audit_count + 1
+     where id = v_billing
+       and audit_count < audit_limit
+    returning audit_count, audit_limit into v_count, v_limit;
+
+    if not found then
+        raise exception 'quota_exhausted';
+    end if;
+
+    if v_existing.id is not null then
+        -- The job was refunded earlier and is being run again: charge it anew.
+        update public.audit_credits
+           set status = 'reserved', settled_at = null, created_at = now(),
+               workspace_id = public.current_workspace(), billed_to = v_billing
+         where id = v_existing.id;
+        credit_id := v_existing.id;
+    else
+        insert into public.audit_credits (user_id, idempotency_key, workspace_id, billed_to)
+        values (v_user, p_idempotency_key, public.current_workspace(), v_billing)
+        returning id into credit_id;
+    end if;
+
+    remaining := v_limit - v_count;
+    replayed := false;
+    return next;
+end;
+$$;
+
+-- ------------------------------------------
+-- consume_api_credit(): the same for API keys
+-- ------------------------------------------
+create or replace function public.consume_api_credit(p_key uuid, p_idempotency_key text)
+returns table (credit_id uuid, remaining integer, replayed boolean)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_key public.api_keys;
+    v_billing uuid;
+    v_existing public.audit_credits%rowtype;
+    v_count integer;
+    v_limit integer;
+begin
+    select k.* into v_key from public.api_keys k where k.id = p_key and k.revoked_at is null;
+    if not found then
+        raise exception 'key_revoked';
+    end if;
+    select w.owner_id into v_billing from public.workspaces w where w.id = v_key.workspace_id;
+
+    select * into v_existing
+      from public.audit_credits c
+     where c.user_id = v_key.user_id and c.idempotency_key = p_idempotency_key
+       for update;
+
+    if found and v_existing.status = 'consumed' then
+        raise exception 'already_settled';
+    end if;
+    if found and v_existing.status = 'reserved' then
+        if v_existing.created_at > now() - interval '15 minutes' then
+            raise exception 'in_progress';
+        end if;
+        perform public.release_stale_credits(coalesce(v_existing.billed_to, v_billing));
+    end if;
+
+    perform public.roll_audit_period(v_billing);
+
+    update public.profiles p
+       set audit_count = p.audit_count + 1
+     where p.id = v_billing
+       and p.audit_count < p.audit_limit
+    returning p.audit_count, p.audit_limit into v_count, v_limit;
+
+    if not found then
+        raise exception 'quota_exhausted';
+    end if;
+
+    if v_existing.id is not null then
+        update public.audit_credits c
+           set status = 'reserved', settled_at = null, created_at = now(),
+               workspace_id = v_key.workspace_id, billed_to = v_billing
+         where c.id = v_existing.id;
+        credit_id := v_existing.id;
+    else
+        insert into public.audit_credits (user_id, idempotency_key, workspace_id, billed_to)
+        values (v_key.user_id, p_idempotency_key, v_key.workspace_id, v_billing)
+        returning audit_credits.id into credit_id;
+    end if;
+
+    remaining := v_limit - v_count;
+    replayed := false;
+    return next;
+end;
+$$;
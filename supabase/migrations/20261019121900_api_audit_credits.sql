@@ -0,0 +1,263 @@
+-- API jobs reserve their credit at submit and are held by one run at a time.
+--
+-- The worker reserves the job's credit before storing the video, so a key
+-- can't queue more jobs than it has audits. A job remembers the run holding
+-- it (a queue message's id, or one waitUntil call's), so a retry of that run
+-- takes it back at once instead of waiting out the stuck attempt. Finishing
+-- settles the credit in the same transaction and failing refunds it, so a
+-- job is never charged without a report. Submissions are also counted per
+-- key in Postgres, shared by every worker instance.
+
+alter table public.api_keys
+    add column if not exists submit_window timestamptz,
+    add column if not exists submit_count  integer not null default 0;
+
+alter table public.api_audits
+    add column if not exists credit_id uuid references public.audit_credits (id) on delete set null,
+    add column if not exists claim     text;
+
+-- take_api_submit(): counts a submission against the key's rate_limit, in
+-- one-minute windows shared by every worker instance. Returns 0 when it's
+-- allowed, otherwise the seconds until the next window.
+create or replace function public.take_api_submit(p_key uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_window timestamptz := date_trunc('minute', now());
+    v_count integer;
+    v_limit integer;
+begin
+    update public.api_keys k
+       set submit_count = case when k.submit_window = v_window then k.submit_count + 1 else 1 end,
+           submit_window = v_window
+     where k.id = p_key
+    returning k.submit_count, k.rate_limit into v_count, v_limit;
+
+    if v_count is null or v_count <= v_limit then
+        return 0;
+    end if;
+    return greatest(ceil(extract(epoch from v_window + interval '1 minute' - now())), 1)::integer;
+end;
+$$;
+
+drop function if exists public.create_api_audit(uuid, uuid, text, text, text, bigint, text, jsonb, boolean, text);
+
+-- create_api_audit(): records a submitted job. A concurrent submission with
+-- the same idempotency key gets the first job back.
+create or replace function public.create_api_audit(
+    p_id uuid,
+    p_key uuid,
+    p_idempotency_key text,
+    p_file_name text,
+    p_mime_type text,
+    p_file_size bigint,
+    p_storage_path text,
+    p_context jsonb,
+    p_policy_check boolean,
+    p_webhook_url text,
+    p_credit_id uuid
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_key public.api_keys;
+    v_id uuid;
+begin
+    select k.* into v_key from public.api_keys k where k.id = p_key and k.revoked_at is null;
+    if not found then
+        raise exception 'key_revoked';
+    end if;
+
+    insert into public.api_audits (id, key_id, user_id, workspace_id, idempotency_key, file_name, mime_type, file_size, storage_path, context, policy_check, webhook_url, credit_id)
+    values (p_id, p_key, v_key.user_id, v_key.workspace_id, p_idempotency_key, p_file_name, p_mime_type, p_file_size, p_storage_path, p_context, coalesce(p_policy_check, false), p_webhook_url, p_credit_id)
+    on conflict (key_id, idempotency_key) do nothing
+    returning api_audits.id into v_id;
+
+    return coalesce(v_id, public.find_api_audit(p_key, p_idempotency_key));
+end;
+$$;
+
+drop function if exists public.get_api_audit(uuid);
+
+-- get_api_audit(): a job with its report once it has one, and the signing
+-- secret of the key it was submitted with
+create or replace function public.get_api_audit(p_id uuid)
+returns table (
+    id             uuid,
+    key_id         uuid,
+    user_id        uuid,
+    status         text,
+    file_name      text,
+    mime_type      text,
+    file_size      bigint,
+    storage_path   text,
+    context        jsonb,
+    policy_check   boolean,
+    webhook_url    text,
+    webhook_secret text,
+    credit_id      uuid,
+    audit_id       uuid,
+    error_code     text,
+    error_message  text,
+    webhook_status text,
+    created_at     timestamptz,
+    started_at     timestamptz,
+    claim          text,
+    completed_at   timestamptz,
+    report         jsonb,
+    transcript     jsonb
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select j.id, j.key_id, j.user_id, j.status, j.file_name, j.mime_type, j.file_size, j.storage_path,
+           j.context, j.policy_check, j.webhook_url, k.webhook_secret, j.credit_id, j.audit_id, j.error_code,
+           j.error_message, j.webhook_status, j.created_at, j.started_at, j.claim, j.completed_at, a.report, a.transcript
+      from public.api_audits j
+      left join public.api_keys k on k.id = j.key_id
+      left join public.audits a on a.id = j.audit_id
+     where j.id = p_id;
+$$;
+
+drop function if exists public.start_api_audit(uuid);
+
+-- start_api_audit(): claims a job for the run `p_claim` and says what to do:
+--   'started'  run it
+--   'running'  another run holds it
+--   'done'     it already succeeded or failed
+-- A retry of the same run takes its job back at once (the attempt before it
+-- is over, whatever it got stuck on); a job another run has held for 15
+-- minutes is taken over, as that run died.
+--
+-- The credit reserved at submit belongs to this run from now on. If it was
+-- released while the job waited (see release_stale_credits()) or refunded
+-- by an attempt that failed, it's charged again, and without quota left the
+-- job fails instead of running for free.
+create or replace function public.start_api_audit(p_id uuid, p_claim text)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_job public.api_audits;
+    v_credit public.audit_credits;
+begin
+    select j.* into v_job from public.api_audits j where j.id = p_id for update;
+    if not found or v_job.status in ('succeeded', 'failed') then
+        return 'done';
+    end if;
+    if v_job.status = 'processing'
+       and v_job.claim is distinct from p_claim
+       and v_job.started_at > now() - interval '15 minutes' then
+        return 'running';
+    end if;
+
+    select c.* into v_credit from public.audit_credits c where c.id = v_job.credit_id for update;
+    if v_credit.status = 'reserved' then
+        update public.audit_credits c set created_at = now() where c.id = v_credit.id;
+    else
+        perform public.roll_audit_period(v_credit.billed_to);
+        update public.profiles p
+           set audit_count = p.audit_count + 1
+         where p.id = v_credit.billed_to
+           and p.audit_count < p.audit_limit;
+        if not found then
+            update public.api_audits j
+               set status = 'failed', claim = p_claim, error_code = 'quota_exhausted',
+                   error_message = 'You''ve used all your audits for this plan.', completed_at = now()
+             where j.id = p_id;
+            return 'done';
+        end if;
+        update public.audit_credits c
+           set status = 'reserved', settled_at = null, created_at = now()
+         where c.id = v_credit.id;
+    end if;
+
+    update public.api_audits j set status = 'processing', started_at = now(), claim = p_claim where j.id = p_id;
+    return 'started';
+end;
+$$;
+
+-- finish_api_audit(): saves the report as an audit in the key's workspace
+-- and settles the job's credit, in one go: a job that fails to finish is
+-- never charged.
+create or replace function public.finish_api_audit(
+    p_id uuid,
+    p_report jsonb,
+    p_overall_score numeric,
+    p_hook_score numeric,
+    p_body_score numeric,
+    p_audio_score numeric,
+    p_script_score numeric
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_job public.api_audits;
+    v_audit uuid;
+begin
+    select * into v_job from public.api_audits j where j.id = p_id and j.status = 'processing' for update;
+    if not found then
+        raise exception 'job_not_processing';
+    end if;
+
+    insert into public.audits (user_id, workspace_id, file_name, mime_type, file_size, storage_path,
+                               overall_score, hook_score, body_score, audio_score, script_score, report)
+    values (v_job.user_id, v_job.workspace_id, v_job.file_name, v_job.mime_type, v_job.file_size, v_job.storage_path,
+            p_overall_score, p_hook_score, p_body_score, p_audio_score, p_script_score, p_report)
+    returning audits.id into v_audit;
+
+    update public.audit_credits c
+       set status = 'consumed', settled_at = now()
+     where c.id = v_job.credit_id
+       and c.status = 'reserved';
+
+    update public.api_audits j
+       set status = 'succeeded', audit_id = v_audit, completed_at = now(), error_code = null, error_message = null
+     where j.id = p_id;
+    return v_audit;
+end;
+$$;
+
+-- fail_api_audit(): records the failure and gives the job's credit back
+create or replace function public.fail_api_audit(p_id uuid, p_code text, p_message text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_job public.api_audits;
+begin
+    update public.api_audits j
+       set status = 'failed', error_code = p_code, error_message = left(p_message, 500), completed_at = now()
+     where j.id = p_id
+       and j.status in ('queued', 'processing')
+    returning j.* into v_job;
+
+    if found and v_job.credit_id is not null then
+        perform public.refund_audit_credit(v_job.user_id, v_job.credit_id);
+    end if;
+end;
+$$;
+
+revoke execute on function public.take_api_submit(uuid) from public, anon, authenticated;
+revoke execute on function public.create_api_audit(uuid, uuid, text, text, text, bigint, text, jsonb, boolean, text, uuid) from public, anon, authenticated;
+revoke execute on function public.get_api_audit(uuid) from public, anon, authenticated;
+revoke execute on function public.start_api_audit(uuid, text) from public, anon, authenticated;
+grant execute on function public.take_api_submit(uuid) to service_role;
+grant execute on function public.create_api_audit(uuid, uuid, text, text, text, bigint, text, jsonb, boolean, text, uuid) to service_role;
+grant execute on function public.get_api_audit(uuid) to service_role;
+grant execute on function public.start_api_audit(uuid, text) to service_role;
@@ -0,0 +1,117 @@
+-- Wrong share passwords slow down the visitor typing them instead of locking
+-- the link.
+--
+-- open_report_share() used to lock a link for good after 20 wrong passwords,
+-- from anyone, so a stranger could lock the owner's recipients out. Failures
+-- are now counted per visitor (server/shares.ts passes a hash of their
+-- address): five are free, then each one blocks that visitor for twice as
+-- long, from 30 seconds up to an hour. Counts older than a day are forgotten,
+-- and the right password clears the visitor's own.
+
+-- Wrong passwords per link and visitor
+create table if not exists public.report_share_attempts (
+    share_id       uuid not null references public.report_shares (id) on delete cascade,
+    client         text not null,
+    failures       integer not null default 0,
+    blocked_until  timestamptz,
+    last_failed_at timestamptz not null default now(),
+    primary key (share_id, client)
+);
+
+-- Only open_report_share() touches it
+alter table public.report_share_attempts enable row level security;
+revoke all on public.report_share_attempts from anon, authenticated;
+
+drop function if exists public.open_report_share(text, text);
+
+-- ------------------------------------------
+-- open_report_share(): what a visitor with the link may see
+-- ------------------------------------------
+-- Returns a status instead of raising, so a wrong password can be counted.
+-- `storage_path` is only filled in when the owner included the video.
+create or replace function public.open_report_share(p_token text, p_password text, p_client text)
+returns table (
+    status       text,
+    file_name    text,
+    report       jsonb,
+    transcript   jsonb,
+    storage_path text,
+    expires_at   timestamptz
+)
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+    v_share    public.report_shares;
+    v_attempt  public.report_share_attempts;
+    v_failures integer;
+begin
+    select * into v_share from public.report_shares s where s.token = p_token for update;
+
+    if not found then
+        return query select 'not_found', null::text, null::jsonb, null::jsonb, null::text, null::timestamptz;
+        return;
+    end if;
+    if v_share.revoked_at is not null then
+        return query select 'revoked', null::text, null::jsonb, null::jsonb, null::text, null::timestamptz;
+        return;
+    end if;
+    if v_share.expires_at is not null and v_share.expires_at <= now() then
+        return query select 'expired', null::text, null::jsonb, null::jsonb, null::text, null::timestamptz;
+        return;
+    end if;
+    if v_share.password_hash is not null then
+        if p_password is null or p_password = '' then
+            return query select 'password_required', null::text, null::jsonb, null::jsonb, null::text, null::timestamptz;
+            return;
+        end if;
+
+        delete from public.report_share_attempts a
+         where a.share_id = v_share.id and a.last_failed_at < now() - interval '1 day';
+        select * into v_attempt from public.report_share_attempts a
+         where a.share_id = v_share.id and a.client = p_client;
+        if v_attempt.blocked_until > now() then
+            return query select 'locked', null::text, null::jsonb, null::jsonb, null::text, null::timestamptz;
+            return;
+        end if;
+
+        if crypt(p_password, v_share.password_hash) <> v_share.password_hash then
+            v_failures := coalesce(v_attempt.failures, 0) + 1;
+            insert into public.report_share_attempts (share_id, client, failures, blocked_until, last_failed_at)
+            values (
+                v_share.id,
+                p_client,
+                v_failures,
+                case when v_failures > 5
+                     then now() + least(interval '30 seconds' * power(2, least(v_failures - 6, 7)), interval '1 hour')
+                end,
+                now()
+            )
+            on conflict (share_id, client) do update
+               set failures = excluded.failures,
+                   blocked_until = excluded.blocked_until,
+                   last_failed_at = excluded.last_failed_at;
+            return query select 'wrong_password', null::text, null::jsonb, null::jsonb, null::text, null::timestamptz;
+            return;
+        end if;
+
+        delete from public.report_share_attempts a where a.share_id = v_share.id and a.client = p_client;
+    end if;
+
+    update public.report_shares
+       set view_count = view_count + 1, last_viewed_at = now()
+     where id = v_share.id;
+
+    return query
+        select 'ok', a.file_name, a.report, a.transcript,
+               case when v_share.include_video then a.storage_path end,
+               v_share.expires_at
+          from public.audits a
+         where a.id = v_share.audit_id;
+end;
+$$;
+
+revoke execute on function public.open_report_share(text, text, text) from public, anon, authenticated;
+
+alter table public.report_shares drop column if exists failed_attempts;
@@ -0,0 +1,30 @@
+-- An audit may only point at a video in its author's folder of the creatives
+-- bucket.
+--
+-- The browser writes `storage_path` itself (lib/audits.ts), and members can
+-- read any creative an audit of their workspace points at. A path into
+-- someone else's folder would have let anyone who learnt it (they are in every
+-- signed share URL) read that user's video for as long as they liked.
+
+-- Rows already pointing outside their author's folder lose the video
+update public.audits
+   set storage_path = null
+ where storage_path is not null
+   and (storage.foldername(storage_path))[1] is distinct from user_id::text;
+
+drop policy if exists "Members save audits to their workspace" on public.audits;
+
+create policy "Members save audits to their workspace"
+    on public.audits for insert
+    with check (
+        auth.uid() = user_id
+        and public.is_workspace_member(workspace_id)
+        and (storage_path is null or (storage.foldername(storage_path))[1] = auth.uid()::text)
+    );
+
+-- Members may only update the transcript columns today (see
+-- audit_transcripts.sql); this holds the rule even if that grant widens.
+create policy "Audits keep their video in the author's folder"
+    on public.audits as restrictive for update
+    using (true)
+    with check (storage_path is null or (storage.foldername(storage_path))[1] = user_id::text);
@@ -0,0 +1,92 @@
+-- Shared videos only come from the audit author's folder.
+--
+-- /api/share signs whatever `storage_path` open_report_share() returns with
+-- the service role, and the path on an audit used to be whatever the browser
+-- saved. A link to an audit pointing into someone else's folder would have
+-- served their video. Audits can no longer be saved that way (see
+-- audit_storage_paths.sql); this checks again where the video is handed out.
+
+create or replace function public.open_report_share(p_token text, p_password text, p_client text)
+returns table (
+    status       text,
+    file_name    text,
+    report       jsonb,
+    transcript   jsonb,
+    storage_path text,
+    expires_at   timestamptz
+)
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+    v_share    public.report_shares;
+    v_attempt  public.report_share_attempts;
+    v_failures integer;
+begin
+    select * into v_share from public.report_shares s where s.token = p_token for update;
+
+    if not found then
+        return query select 'not_found', null::text, null::jsonb, null::jsonb, null::text, null::timestamptz;
+        return;
+    end if;
+    if v_share.revoked_at is not null then
+        return query select 'revoked', null::text, null::jsonb, null::jsonb, null::text, null::timestamptz;
+        return;
+    end if;
+    if v_share.expires_at is not null and v_share.expires_at <= now() then
+        return query select 'expired', null::text, null::jsonb, null::jsonb, null::text, null::timestamptz;
+        return;
+    end if;
+    if v_share.password_hash is not null then
+        if p_password is null or p_password = '' then
+            return query select 'password_required', null::text, null::jsonb, null::jsonb, null::text, null::timestamptz;
+            return;
+        end if;
+
+        delete from public.report_share_attempts a
+         where a.share_id = v_share.id and a.last_failed_at < now() - interval '1 day';
+        select * into v_attempt from public.report_share_attempts a
+         where a.share_id = v_share.id and a.client = p_client;
+        if v_attempt.blocked_until > now() then
+            return query select 'locked', null::text, null::jsonb, null::jsonb, null::text, null::timestamptz;
+            return;
+        end if;
+
+        if crypt(p_password, v_share.password_hash) <> v_share.password_hash then
+            v_failures := coalesce(v_attempt.failures, 0) + 1;
+            insert into public.report_share_attempts (share_id, client, failures, blocked_until, last_failed_at)
+            values (
+                v_share.id,
+                p_client,
+                v_failures,
+                case when v_failures > 5
+                     then now() + least(interval '30 seconds' * power(2, least(v_failures - 6, 7)), interval '1 hour')
+                end,
+                now()
+            )
+            on conflict (share_id, client) do update
+               set failures = excluded.failures,
+                   blocked_until = excluded.blocked_until,
+                   last_failed_at = excluded.last_failed_at;
+            return query select 'wrong_password', null::text, null::jsonb, null::jsonb, null::text, null::timestamptz;
+            return;
+        end if;
+
+        delete from public.report_share_attempts a where a.share_id = v_share.id and a.client = p_client;
+    end if;
+
+    update public.report_shares
+       set view_count = view_count + 1, last_viewed_at = now()
+     where id = v_share.id;
+
+    return query
+        select 'ok', a.file_name, a.report, a.transcript,
+               case when v_share.include_video
+                     and (storage.foldername(a.storage_path))[1] = a.user_id::text
+                    then a.storage_path end,
+               v_share.expires_at
+          from public.audits a
+         where a.id = v_share.audit_id;
+end;
+$$;
@@ -0,0 +1,36 @@
+-- Revoking a share link is final.
+--
+-- Owners used to update `revoked_at` directly, which also let them set it back
+-- to null and revive a link they had turned off. They now go through
+-- revoke_report_share(), which only ever turns a live link off.
+
+revoke update (revoked_at) on public.report_shares from authenticated;
+drop policy if exists "Users revoke their own share links" on public.report_shares;
+
+-- ------------------------------------------
+-- revoke_report_share(): turns one of the caller's links off
+-- ------------------------------------------
+-- Revoking a revoked link keeps its original revocation time.
+create or replace function public.revoke_report_share(p_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if auth.uid() is null then
+        raise exception 'not_authenticated';
+    end if;
+
+    update public.report_shares s
+       set revoked_at = coalesce(s.revoked_at, now())
+     where s.id = p_id
+       and s.user_id = auth.uid();
+    if not found then
+        raise exception 'share_not_found';
+    end if;
+end;
+$$;
+
+revoke execute on function public.revoke_report_share(uuid) from public, anon;
+grant execute on function public.revoke_report_share(uuid) to authenticated;
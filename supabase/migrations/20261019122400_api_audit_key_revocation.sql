@@ -0,0 +1,54 @@
+-- A queued API job stops when its key is revoked.
+--
+-- A job only failed with `key_revoked` once its key was deleted; a key that
+-- was revoked after the job was queued still ran it on the workspace's quota.
+-- get_api_audit() now returns the key's revocation time, and the worker fails
+-- (and refunds) a job whose key has one.
+
+drop function if exists public.get_api_audit(uuid);
+
+-- get_api_audit(): a job with its report once it has one, and the signing
+-- secret and revocation time of the key it was submitted with
+create or replace function public.get_api_audit(p_id uuid)
+returns table (
+    id             uuid,
+    key_id         uuid,
+    user_id        uuid,
+    status         text,
+    file_name      text,
+    mime_type      text,
+    file_size      bigint,
+    storage_path   text,
+    context        jsonb,
+    policy_check   boolean,
+    webhook_url    text,
+    webhook_secret text,
+    key_revoked_at timestamptz,
+    credit_id      uuid,
+    audit_id       uuid,
+    error_code     text,
+    error_message  text,
+    webhook_status text,
+    created_at     timestamptz,
+    started_at     timestamptz,
+    claim          text,
+    completed_at   timestamptz,
+    report         jsonb,
+    transcript     jsonb
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select j.id, j.key_id, j.user_id, j.status, j.file_name, j.mime_type, j.file_size, j.storage_path,
+           j.context, j.policy_check, j.webhook_url, k.webhook_secret, k.revoked_at, j.credit_id, j.audit_id, j.error_code,
+           j.error_message, j.webhook_status, j.created_at, j.started_at, j.claim, j.completed_at, a.report, a.transcript
+      from public.api_audits j
+      left join public.api_keys k on k.id = j.key_id
+      left join public.audits a on a.id = j.audit_id
+     where j.id = p_id;
+$$;
+
+revoke execute on function public.get_api_audit(uuid) from public, anon, authenticated;
+grant execute on function public.get_api_audit(uuid) to service_role;
@@ -10,15 +10,24 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // api/ routes run under `npm run api:dev` locally, on Vercel in production
+        proxy: {
+          '/api': `http://localhost:${env.API_PORT || 3001}`,
+        },
       },
       plugins: [react()],
       define: {
-        // Pass Gemini Key
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        
         // Pass Supabase Keys (from Vercel Integration)
         'process.env.SUPABASE_URL': JSON.stringify(env.SUPABASE_URL),
-        'process.env.SUPABASE_KEY': JSON.stringify(env.SUPABASE_ANON_KEY)
+        'process.env.SUPABASE_KEY': JSON.stringify(env.SUPABASE_ANON_KEY),
+
+        // Analysis backend: 'worker' (default) or 'mock' for offline fixtures
+        'process.env.ANALYSIS_PROVIDER': JSON.stringify(env.ANALYSIS_PROVIDER),
+        'process.env.ANALYSIS_WORKER_URL': JSON.stringify(env.ANALYSIS_WORKER_URL),
+        'process.env.MOCK_LATENCY_MS': JSON.stringify(env.MOCK_LATENCY_MS),
+
+        // Per-attempt analysis timeout (optional)
+        'process.env.ANALYSIS_TIMEOUT_MS': JSON.stringify(env.ANALYSIS_TIMEOUT_MS)
       },
       resolve: {
         alias: {
@@ -0,0 +1,104 @@
+import '../../scripts/env';
+import http from 'node:http';
+import { pathToFileURL } from 'node:url';
+import worker from '../src/index';
+import { Env } from '../src/env';
+import { STUB_KEYS, startStubs } from './stubs';
+
+// ==========================================
+// Local runtime for the analysis worker
+// ==========================================
+// `npm run worker:dev` serves the worker on port 8787 with the same fetch
+// handler Cloudflare runs, configured from .env.local. With `--offline`,
+// Supabase and Gemini are replaced by the stubs in ./stubs.ts (port 8788),
+// so the whole flow runs without network or API keys.
+
+export const WORKER_PORT = Number(process.env.WORKER_PORT || 8787);
+
+const readBody = (req: http.IncomingMessage) => new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+});
+
+const envFromProcess = (): Env => ({
+    GEMINI_API_KEY: process.env.GEMINI_API_KEY || '',
+    GEMINI_API_URL: process.env.GEMINI_API_URL,
+    GEMINI_MODEL: process.env.GEMINI_MODEL,
+    SUPABASE_URL: process.env.SUPABASE_URL || '',
+    SUPABASE_ANON_KEY: process.env.SUPABASE_ANON_KEY || '',
+    SUPABASE_SERVICE_ROLE_KEY: process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+    ALLOWED_ORIGINS: process.env.WORKER_ALLOWED_ORIGINS || 'http://localhost:3000',
+    RATE_LIMIT_PER_MINUTE: process.env.RATE_LIMIT_PER_MINUTE,
+    // Local webhook receivers and video URLs are plain http
+    API_ALLOW_HTTP: process.env.API_ALLOW_HTTP ?? 'true',
+});
+
+export const startDevWorker = async ({ offline = false, port = WORKER_PORT } = {}) => {
+    let env = envFromProcess();
+    let stubs: http.Server | null = null;
+
+    if (offline) {
+        const stubPort = port + 1;
+        stubs = await startStubs(stubPort);
+        env = {
+            ...env,
+            GEMINI_API_KEY: STUB_KEYS.gemini,
+            GEMINI_API_URL: `http://localhost:${stubPort}`,
+            SUPABASE_URL: `http://localhost:${stubPort}`,
+            SUPABASE_ANON_KEY: STUB_KEYS.anon,
+            SUPABASE_SERVICE_ROLE_KEY: STUB_KEYS.serviceRole,
+        };
+    }
+
+    for (const key of ['GEMINI_API_KEY', 'SUPABASE_URL', 'SUPABASE_ANON_KEY', 'SUPABASE_SERVICE_ROLE_KEY'] as const) {
+        if (!env[key]) console.warn(`${key} is not set; requests that need it will fail (or use --offline)`);
+    }
+
+    const server = http.createServer(async (req, res) => {
+        const url = new URL(req.url || '/', `http://localhost:${port}`);
+        const pending: Promise<unknown>[] = [];
+        // Like Workers' request.signal: aborts if the client goes away before the response
+        const disconnected = new AbortController();
+        res.on('close', () => { if (!res.writableFinished) disconnected.abort(); });
+        try {
+            const headers = new Headers();
+            for (const [key, value] of Object.entries(req.headers)) {
+                if (value !== undefined) headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+            }
+            const body = req.method === 'GET' || req.method === 'HEAD' ? undefined : await readBody(req);
+            const response = await worker.fetch(
+                new Request(url, { method: req.method, headers, body, signal: disconnected.signal }),
+                env,
+                { waitUntil: promise => { pending.push(promise); } },
+            );
+            res.writeHead(response.status, Object.fromEntries(response.headers));
+            res.end(Buffer.from(await response.arrayBuffer()));
+        } catch (err) {
+            console.error(err);
+            res.writeHead(500).end('Internal error');
+        } finally {
+            console.log(`${req.method} ${url.pathname} -> ${res.statusCode}`);
+            await Promise.allSettled(pending);
+        }
+    });
+
+    await new Promise<void>(resolve => server.listen(port, resolve));
+    return {
+        url: `http://localhost:${port}`,
+        /** The stubs' URL when offline, for calling the stubbed RPCs directly. */
+        supabaseUrl: env.SUPABASE_URL,
+        close: () => {
+            server.close();
+            stubs?.close();
+        },
+    };
+};
+
+if (import.meta.url === pathToFileURL(process.argv[1] ?? '').href) {
+    const offline = process.argv.includes('--offline');
+    startDevWorker({ offline }).then(({ url }) => {
+        console.log(`Analysis worker on ${url}${offline ? ' (offline: Supabase and Gemini stubbed)' : ''}`);
+    });
+}
@@ -0,0 +1,238 @@
+import http from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { parseWorkerResponse, validateAuditReport } from '../../lib/report';
+import { FIXTURE_REPORTS } from '../../lib/providers/fixtures';
+import { captionIssues } from '../../lib/captions';
+import { WEBHOOK_SIGNATURE_HEADER, WebhookEvent, verifyWebhookSignature } from '../../lib/apiKeys';
+import { DEV_QUOTA, devToken } from './stubs';
+import { startDevWorker } from './server';
+
+// ==========================================
+// End-to-end check of the worker, offline
+// ==========================================
+// `npm run worker:smoke` starts the worker with stubbed Supabase and Gemini,
+// then walks the paths that matter: a good audit, a replayed, still running or
+// cancelled job, a bad session, someone else's video, presets, failures that must be
+// refunded, and the text-only routes (rewrites, A/B comparisons), and the
+// public API with its webhook.
+
+type Expect = (name: string, response: Response, status: number) => Promise<any>;
+
+/** Keys, a raw upload and a videoUrl job, polling, the report and a verified webhook. Returns the failures. */
+const checkPublicApi = async (worker: { url: string; supabaseUrl: string }, expect: Expect) => {
+    let failures = 0;
+    const check = (name: string, ok: boolean, detail = '') => {
+        if (!ok) failures++;
+        console.log(`   ${ok ? '✅' : '❌'} ${name}${detail ? `: ${detail}` : ''}`);
+    };
+
+    // Receives webhooks and serves a video for `videoUrl` (`/moved...` redirects to it)
+    const events: { event: WebhookEvent; verified: boolean }[] = [];
+    let secret = '';
+    const receiver = http.createServer(async (req, res) => {
+        if (req.method === 'GET' && req.url?.startsWith('/moved')) return res.writeHead(302, { Location: '/promo.mp4' }).end();
+        if (req.method === 'GET') {
+            res.writeHead(200, { "Content-Type": "video/mp4" });
+            return res.end(Buffer.alloc(4096));
+        }
+        let body = '';
+        for await (const chunk of req) body += chunk;
+        const verified = await verifyWebhookSignature(secret, body, String(req.headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()] ?? ''));
+        events.push({ event: JSON.parse(body), verified });
+        res.writeHead(verified ? 204 : 400).end();
+    });
+    await new Promise<void>(resolve => receiver.listen(8799, resolve));
+
+    try {
+        const owner = randomUUID();
+        const createKey = async (scopes: string[], rateLimit = 10) => {
+            const response = await fetch(`${worker.supabaseUrl}/rest/v1/rpc/create_api_key`, {
+                method: 'POST',
+                headers: { "Content-Type": "application/json", Authorization: `Bearer ${devToken(owner, 'api@viralaudit.local')}` },
+                body: JSON.stringify({ p_name: 'Smoke', p_scopes: scopes, p_rate_limit: rateLimit, p_webhook_url: 'http://localhost:8799/hook' }),
+            });
+            return (await response.json())[0] as { api_key: string; webhook_secret: string };
+        };
+        const key = await createKey(['audits:write', 'audits:read']);
+        secret = key.webhook_secret;
+        const api = (path: string, init: RequestInit = {}, apiKey = key.api_key) => fetch(`${worker.url}/v1${path}`, {
+            ...init,
+            headers: { Authorization: `Bearer ${apiKey}`, ...init.headers },
+        });
+        const upload = (apiKey = key.api_key, idempotencyKey = randomUUID()) => api('/audits?fileName=api.mp4', {
+            method: 'POST',
+            headers: { "Content-Type": "video/mp4", "Idempotency-Key": idempotencyKey },
+            body: Buffer.alloc(4096),
+        }, apiKey);
+        const poll = async (id: string) => {
+            for (let i = 0; i < 100; i++) {
+                const job = await (await api(`/audits/${id}`)).json();
+                if (job.status === 'succeeded' || job.status === 'failed') return job;
+                await new Promise(resolve => setTimeout(resolve, 100));
+            }
+            return null;
+        };
+
+        const idempotencyKey = randomUUID();
+        const job = await expect("API: upload a video", await upload(key.api_key, idempotencyKey), 202);
+        const again = await expect("API: same Idempotency-Key", await upload(key.api_key, idempotencyKey), 200);
+        check("same job returned", again.id === job.id);
+        const done = await poll(job.id);
+        check("job succeeded", done?.status === 'succeeded', `${done?.status} ${done?.overallScore ?? ''}`);
+        const { report } = await expect("API: report", await api(`/audits/${job.id}/report`), 200);
+        check("report is valid", !!validateAuditReport(report));
+
+        const fromUrl = await expect("API: videoUrl", await api('/audits', {
+            method: 'POST',
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ videoUrl: 'http://localhost:8799/moved.mp4', policyCheck: true }),
+        }), 202);
+        check("videoUrl job succeeded", (await poll(fromUrl.id))?.status === 'succeeded');
+
+        // Webhooks go out just after the job is marked done
+        for (let i = 0; i < 50 && events.length < 2; i++) await new Promise(resolve => setTimeout(resolve, 100));
+        const delivered = events.filter(e => e.event.type === 'audit.succeeded' && e.verified).map(e => e.event.data.id);
+        check("signed webhooks received", delivered.includes(job.id) && delivered.includes(fromUrl.id), `${events.length} event(s)`);
+
+        await expect("API: unknown key", await upload(`va_${'0'.repeat(48)}`), 401);
+        await expect("API: key without audits:write", await upload((await createKey(['audits:read'])).api_key), 403);
+        await expect("API: unknown job", await api(`/audits/${randomUUID()}`), 404);
+        await expect("API: not a video", await api('/audits', { method: 'POST', headers: { "Content-Type": "text/plain" }, body: 'hello' }), 415);
+        // The credit is reserved at submit and given back when the video is refused
+        await expect("API: unsupported video (refunded)", await api('/audits', {
+            method: 'POST',
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ videoUrl: 'http://localhost:8799/promo.avi', mimeType: 'video/x-msvideo' }),
+        }), 415);
+        for (let i = 3; i <= DEV_QUOTA; i++) await poll((await expect(`API: audit ${i} of ${DEV_QUOTA}`, await upload(), 202)).id);
+        await expect("API: quota exhausted", await upload(), 402);
+        const slowKey = (await createKey(['audits:write'], 1)).api_key;
+        await upload(slowKey);
+        await expect("API: key's rate limit", await upload(slowKey), 429);
+    } finally {
+        receiver.close();
+    }
+    return failures;
+};
+
+const run = async () => {
+    // The per-user limit (6/min by default) would trip before the quota does
+    process.env.RATE_LIMIT_PER_MINUTE = '100';
+    const worker = await startDevWorker({ offline: true, port: 8797 });
+    const userId = randomUUID();
+    const token = devToken(userId, 'smoke@viralaudit.local');
+    let failures = 0;
+
+    const post = (body: object, { auth = token, key = randomUUID(), signal = undefined as AbortSignal | undefined } = {}) => fetch(`${worker.url}/analyze`, {
+        method: 'POST',
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${auth}`, "Idempotency-Key": key },
+        body: JSON.stringify({ storageBucket: 'creatives', mimeType: 'video/mp4', ...body }),
+        signal,
+    });
+
+    const expect = async (name: string, response: Response, status: number) => {
+        const json = await response.json();
+        const ok = response.status === status;
+        if (!ok) failures++;
+        console.log(`${ok ? '✅' : '❌'} ${name}: ${response.status}${ok ? '' : ` (expected ${status}) ${JSON.stringify(json)}`}`);
+        return json;
+    };
+
+    try {
+        const key = randomUUID();
+        const payload = await expect("audit", await post({ storagePath: `${userId}/ad.mp4` }, { key }), 200);
+        if (payload.candidates) {
+            const report = parseWorkerResponse(payload);
+            console.log(`   ${report.overallScore}/100 · ${report.sections.map(s => `${s.id} ${s.score}`).join(' · ')}`);
+            const cues = report.transcript?.length ?? 0;
+            if (!cues) failures++;
+            console.log(`   ${cues ? '✅' : '❌'} transcript: ${cues} line(s), ${captionIssues(report.captions, report.transcript).length} caption issue(s)`);
+        }
+        await expect("same job again", await post({ storagePath: `${userId}/ad.mp4` }, { key }), 409);
+        // A credit another run still holds is not shared (its own user, to keep the quota count below)
+        const busyUser = randomUUID();
+        const busyToken = devToken(busyUser, 'busy@viralaudit.local');
+        const busyKey = randomUUID();
+        await fetch(`${worker.supabaseUrl}/rest/v1/rpc/consume_audit_credit`, {
+            method: 'POST',
+            headers: { "Content-Type": "application/json", Authorization: `Bearer ${busyToken}` },
+            body: JSON.stringify({ p_idempotency_key: busyKey }),
+        });
+        await expect("same job while it runs", await post({ storagePath: `${busyUser}/__missing.mp4` }, { auth: busyToken, key: busyKey }), 409);
+        // Hanging up mid-analysis refunds the credit, so the same job can run again
+        const cancelKey = randomUUID();
+        await post({ storagePath: `${busyUser}/__slow.mp4` }, { auth: busyToken, key: cancelKey, signal: AbortSignal.timeout(300) }).catch(() => null);
+        await new Promise(resolve => setTimeout(resolve, 300));
+        await expect("cancelled job again (refunded)", await post({ storagePath: `${busyUser}/__slow.mp4` }, { auth: busyToken, key: cancelKey }), 200);
+        await expect("no session", await post({ storagePath: `${userId}/ad.mp4` }, { auth: 'nope' }), 401);
+        await expect("someone else's video", await post({ storagePath: `${randomUUID()}/ad.mp4` }), 403);
+        await expect("unsupported type", await post({ storagePath: `${userId}/ad.avi`, mimeType: 'video/x-msvideo' }), 415);
+        await expect("missing video (refunded)", await post({ storagePath: `${userId}/__missing.mp4` }), 400);
+        await expect("unreadable report (refunded)", await post({ storagePath: `${userId}/__fail_model.mp4` }), 502);
+        // 3 credits: one settled, two refunded, so two more audits fit before the limit
+        await expect("invalid preset", await post({ storagePath: `${userId}/b.mp4`, context: { platform: 'myspace' } }), 400);
+        const withPreset = await expect("audit with preset", await post({
+            storagePath: `${userId}/b.mp4`,
+            context: { presetName: 'Smoke', platform: 'tiktok', objective: 'conversion', dos: ["Show the price"] },
+            policyCheck: true,
+        }), 200);
+        if (withPreset.candidates) {
+            const { context, policy } = parseWorkerResponse(withPreset);
+            const recorded = context?.platform === 'tiktok' && context.presetName === 'Smoke';
+            if (!recorded) failures++;
+            console.log(`   ${recorded ? '✅' : '❌'} preset recorded on the report: ${JSON.stringify(context)}`);
+            if (!policy) failures++;
+            console.log(`   ${policy ? '✅' : '❌'} policy check: ${policy ? `${policy.verdict}, ${policy.findings.length} finding(s)` : 'missing'}`);
+        }
+        const freeUser = randomUUID();
+        await expect("policy check on a free plan", await post(
+            { storagePath: `${freeUser}/ad.mp4`, policyCheck: true },
+            { auth: devToken(freeUser, 'free@viralaudit.local') },
+        ), 403);
+        await expect("audit", await post({ storagePath: `${userId}/c.mp4` }), 200);
+        const rewrite = (body: object, auth = token) => fetch(`${worker.url}/rewrite`, {
+            method: 'POST',
+            headers: { "Content-Type": "application/json", Authorization: `Bearer ${auth}` },
+            body: JSON.stringify(body),
+        });
+        const rewrites = await expect("script rewrites", await rewrite({ script: "Buy now.", styles: ['ugc', 'listicle'] }), 200);
+        console.log(`   ${rewrites.hooks?.length} hooks, ${rewrites.rewrites?.length} rewrites`);
+        await expect("rewrites without a style", await rewrite({ script: "Buy now.", styles: [] }), 400);
+        await expect("rewrites on a free plan", await rewrite({ script: "Buy now.", styles: ['ugc'] }, devToken(freeUser, 'free@viralaudit.local')), 403);
+        // Comparisons read saved audits and take a credit, so they get their own user
+        const tester = randomUUID();
+        const testerToken = devToken(tester, 'ab@viralaudit.local');
+        const saveAudit = async (report: unknown, auth = testerToken) => {
+            const response = await fetch(`${worker.supabaseUrl}/rest/v1/audits`, {
+                method: 'POST',
+                headers: { "Content-Type": "application/json", Authorization: `Bearer ${auth}` },
+                body: JSON.stringify({ report }),
+            });
+            return (await response.json())[0].id as string;
+        };
+        const compare = (auditIds: string[], auth = testerToken) => fetch(`${worker.url}/compare`, {
+            method: 'POST',
+            headers: { "Content-Type": "application/json", Authorization: `Bearer ${auth}`, "Idempotency-Key": randomUUID() },
+            body: JSON.stringify({ auditIds }),
+        });
+        const [a, b] = await Promise.all(FIXTURE_REPORTS.slice(0, 2).map(report => saveAudit(validateAuditReport(report))));
+        const verdict = await expect("A/B comparison", await compare([a, b]), 200);
+        console.log(`   winner ${verdict.winner}`);
+        await expect("A/B comparison of one variant", await compare([a]), 400);
+        await expect("A/B comparison of someone else's audit", await compare([a, await saveAudit(validateAuditReport(FIXTURE_REPORTS[1]), token)]), 404);
+        // Each comparison costs a credit, so the quota runs out after DEV_QUOTA of them
+        for (let i = 2; i <= DEV_QUOTA; i++) await expect(`A/B comparison ${i} of ${DEV_QUOTA}`, await compare([a, b]), 200);
+        await expect("A/B comparison without audits left", await compare([a, b]), 402);
+        await expect("quota exhausted", await post({ storagePath: `${userId}/d.mp4` }), 402);
+        failures += await checkPublicApi(worker, expect);
+    } finally {
+        worker.close();
+    }
+
+    if (failures) {
+        console.error(`${failures} check(s) failed`);
+        process.exit(1);
+    }
+};
+
+run();
@@ -0,0 +1,363 @@
+import http from 'node:http';
+import { createHash, randomBytes, randomUUID } from 'node:crypto';
+import { FIXTURE_POLICY_REPORTS, FIXTURE_REPORTS, fixtureCompareOutput, fixtureRewriteOutput } from '../../lib/providers/fixtures';
+import { REWRITE_STYLE_IDS, RewriteStyleId } from '../../lib/rewrites';
+
+// Stand-ins for Supabase (auth, storage, audits, credit RPCs) and the Gemini
+// API, so the worker runs end to end with no network. State is in memory and
+// resets on restart.
+//
+// Access tokens are `dev:<user id>:<email>`; emails starting with `free`
+// are on a plan without Pro features. Storage paths containing
+// `__missing` 404, `__fail_model` makes Gemini answer with prose instead of
+// a report (the worker should refund), and `__slow` makes it take a second.
+// API keys and jobs (api_keys, api_audits) follow the migration closely
+// enough for the public API.
+
+export const STUB_KEYS = {
+    gemini: 'stub-gemini-key',
+    anon: 'stub-anon-key',
+    serviceRole: 'stub-service-role-key',
+};
+
+export const DEV_QUOTA = Number(process.env.DEV_QUOTA) || 3;
+
+export const devToken = (userId: string, email: string) => `dev:${userId}:${email}`;
+
+type Credit = { id: string; userId: string; key: string | null; status: 'reserved' | 'consumed' | 'refunded' };
+
+type ApiKeyStub = {
+    id: string;
+    userId: string;
+    hash: string;
+    scopes: string[];
+    rateLimit: number;
+    webhookUrl: string | null;
+    webhookSecret: string;
+    revokedAt: string | null;
+    submitWindow?: number;
+    submits?: number;
+};
+
+const readJson = (req: http.IncomingMessage) => new Promise<any>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+        const text = Buffer.concat(chunks).toString('utf8');
+        try {
+            resolve(text ? JSON.parse(text) : null);
+        } catch {
+            resolve(null);
+        }
+    });
+    req.on('error', reject);
+});
+
+const send = (res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { "Content-Type": "application/json", ...headers });
+    res.end(JSON.stringify(body));
+};
+
+const bearer = (req: http.IncomingMessage) => req.headers.authorization?.replace(/^Bearer\s+/i, '') ?? '';
+
+const userFromToken = (token: string) => {
+    const [prefix, id, email] = token.split(':');
+    return prefix === 'dev' && id && email ? { id, email } : null;
+};
+
+export const startStubs = (port: number) => {
+    const base = `http://localhost:${port}`;
+    const credits = new Map<string, Credit>();
+    const used = new Map<string, number>();
+    const files = new Map<string, { displayName: string; mimeType: string; polled: boolean }>();
+    const apiKeys = new Map<string, ApiKeyStub>();
+    const apiJobs = new Map<string, any>();
+    const audits = new Map<string, any>();
+    let nextId = 1;
+
+    // ------------------------------------------
+    // Supabase
+    // ------------------------------------------
+
+    const consume = (userId: string, key: string | null) => {
+        const existing = key ? [...credits.values()].find(c => c.userId === userId && c.key === key) : undefined;
+        if (existing?.status === 'consumed') return { error: 'already_settled' };
+        const remaining = () => DEV_QUOTA - (used.get(userId) ?? 0);
+        if (existing?.status === 'reserved') return { error: 'in_progress' };
+        if (remaining() <= 0) return { error: 'quota_exhausted' };
+
+        used.set(userId, (used.get(userId) ?? 0) + 1);
+        const credit: Credit = existing ?? { id: `credit-${nextId++}`, userId, key, status: 'reserved' };
+        credit.status = 'reserved';
+        credits.set(credit.id, credit);
+        return { row: { credit_id: credit.id, remaining: remaining(), replayed: false } };
+    };
+
+    const supabase = async (req: http.IncomingMessage, res: http.ServerResponse, url: URL) => {
+        const path = url.pathname;
+        if (path === '/auth/v1/user') {
+            const user = userFromToken(bearer(req));
+            return user ? send(res, 200, user) : send(res, 401, { message: 'invalid JWT' });
+        }
+
+        if (path.startsWith('/storage/v1/object/creatives/')) {
+            if (bearer(req) !== STUB_KEYS.serviceRole) return send(res, 403, { message: 'Unauthorized' });
+            if (req.method === 'POST') {
+                let size = 0;
+                for await (const chunk of req) size += chunk.length;
+                console.log(`[stub] stored ${path} (${size} bytes)`);
+                return send(res, 200, { Key: path.replace('/storage/v1/object/', '') });
+            }
+            if (req.method === 'DELETE') {
+                console.log(`[stub] deleted ${path}`);
+                return send(res, 200, { message: 'Successfully deleted' });
+            }
+            if (path.includes('__missing')) return send(res, 404, { message: 'Object not found' });
+            // Not a real video; the Gemini stub doesn't look inside
+            const bytes = Buffer.alloc(64 * 1024);
+            res.writeHead(200, { "Content-Type": "video/mp4", "Content-Length": String(bytes.length) });
+            return res.end(bytes);
+        }
+
+        // Saved audits: insert, and `id=in.(...)` reads limited to the token's user, like RLS
+        if (path === '/rest/v1/audits') {
+            const user = userFromToken(bearer(req));
+            if (!user) return send(res, 401, { message: 'invalid JWT' });
+            if (req.method === 'POST') {
+                const id = randomUUID();
+                audits.set(id, { user_id: user.id, report: (await readJson(req))?.report });
+                return send(res, 201, [{ id }]);
+            }
+            const ids = url.searchParams.get('id')?.match(/^in\.\((.*)\)$/)?.[1].split(',') ?? [];
+            return send(res, 200, ids.filter(id => audits.get(id)?.user_id === user.id).map(id => ({ id, report: audits.get(id).report })));
+        }
+
+        const rpc = path.match(/^\/rest\/v1\/rpc\/(\w+)$/)?.[1];
+        const args = await readJson(req) ?? {};
+        if (rpc === 'consume_audit_credit') {
+            const user = userFromToken(bearer(req));
+            if (!user) return send(res, 401, { message: 'invalid JWT' });
+            const result = consume(user.id, args.p_idempotency_key ?? null);
+            return result.error ? send(res, 400, { code: 'P0001', message: result.error }) : send(res, 200, [result.row]);
+        }
+        if (rpc === 'has_feature') {
+            const user = userFromToken(bearer(req));
+            if (!user) return send(res, 401, { message: 'invalid JWT' });
+            return send(res, 200, !user.email.startsWith('free'));
+        }
+        if (rpc === 'settle_audit_credit' || rpc === 'refund_audit_credit') {
+            if (bearer(req) !== STUB_KEYS.serviceRole) return send(res, 403, { message: 'permission denied' });
+            const credit = credits.get(args.p_credit_id);
+            if (credit && credit.userId === args.p_user && credit.status === 'reserved') {
+                credit.status = rpc === 'settle_audit_credit' ? 'consumed' : 'refunded';
+                if (credit.status === 'refunded') used.set(credit.userId, (used.get(credit.userId) ?? 1) - 1);
+            }
+            console.log(`[stub] ${rpc} ${args.p_credit_id} -> ${credit?.status ?? 'unknown'}`);
+            return send(res, 200, rpc === 'refund_audit_credit' ? DEV_QUOTA - (used.get(args.p_user) ?? 0) : null);
+        }
+        if (rpc === 'create_api_key') {
+            const user = userFromToken(bearer(req));
+            if (!user) return send(res, 401, { message: 'invalid JWT' });
+            const apiKey = `va_${randomBytes(24).toString('hex')}`;
+            const key: ApiKeyStub = {
+                id: randomUUID(),
+                userId: user.id,
+                hash: createHash('sha256').update(apiKey).digest('hex'),
+                scopes: args.p_scopes,
+                rateLimit: args.p_rate_limit,
+                webhookUrl: args.p_webhook_url ?? null,
+                webhookSecret: `whsec_${randomBytes(24).toString('hex')}`,
+                revokedAt: null,
+            };
+            apiKeys.set(key.id, key);
+            return send(res, 200, [{ id: key.id, api_key: apiKey, webhook_secret: key.webhookSecret }]);
+        }
+        if (rpc?.includes('_api_')) {
+            if (bearer(req) !== STUB_KEYS.serviceRole) return send(res, 403, { message: 'permission denied' });
+            const liveKey = (id: string) => {
+                const key = apiKeys.get(id);
+                return key && !key.revokedAt ? key : null;
+            };
+            switch (rpc) {
+                case 'authenticate_api_key': {
+                    const key = [...apiKeys.values()].find(k => k.hash === args.p_key_hash && !k.revokedAt);
+                    return send(res, 200, key ? [{
+                        key_id: key.id, user_id: key.userId, workspace_id: key.userId, scopes: key.scopes,
+                        rate_limit: key.rateLimit, webhook_url: key.webhookUrl, webhook_secret: key.webhookSecret,
+                        remaining: DEV_QUOTA - (used.get(key.userId) ?? 0), features: { policy_check: true },
+                    }] : []);
+                }
+                case 'take_api_submit': {
+                    const key = apiKeys.get(args.p_key);
+                    if (!key) return send(res, 200, 0);
+                    const window = Math.floor(Date.now() / 60_000);
+                    key.submits = key.submitWindow === window ? (key.submits ?? 0) + 1 : 1;
+                    key.submitWindow = window;
+                    return send(res, 200, key.submits <= key.rateLimit ? 0 : Math.max(1, Math.ceil(((window + 1) * 60_000 - Date.now()) / 1000)));
+                }
+                case 'consume_api_credit': {
+                    const key = liveKey(args.p_key);
+                    if (!key) return send(res, 400, { code: 'P0001', message: 'key_revoked' });
+                    const result = consume(key.userId, args.p_idempotency_key);
+                    return result.error ? send(res, 400, { code: 'P0001', message: result.error }) : send(res, 200, [result.row]);
+                }
+                case 'find_api_audit':
+                    return send(res, 200, [...apiJobs.values()].find(j => j.key_id === args.p_key && j.idempotency_key === args.p_idempotency_key)?.id ?? null);
+                case 'create_api_audit': {
+                    const key = liveKey(args.p_key);
+                    if (!key) return send(res, 400, { code: 'P0001', message: 'key_revoked' });
+                    const existing = args.p_idempotency_key && [...apiJobs.values()].find(j => j.key_id === key.id && j.idempotency_key === args.p_idempotency_key);
+                    if (existing) return send(res, 200, existing.id);
+                    apiJobs.set(args.p_id, {
+                        id: args.p_id, key_id: key.id, user_id: key.userId, idempotency_key: args.p_idempotency_key, status: 'queued',
+                        file_name: args.p_file_name, mime_type: args.p_mime_type, file_size: args.p_file_size, storage_path: args.p_storage_path,
+                        context: args.p_context, policy_check: args.p_policy_check, webhook_url: args.p_webhook_url, credit_id: args.p_credit_id, audit_id: null,
+                        error_code: null, error_message: null, webhook_status: null, created_at: new Date().toISOString(),
+                        started_at: null, claim: null, completed_at: null,
+                    });
+                    return send(res, 200, args.p_id);
+                }
+                case 'get_api_audit': {
+                    const job = apiJobs.get(args.p_id);
+                    const audit = job?.audit_id ? audits.get(job.audit_id) : null;
+                    return send(res, 200, job ? [{
+                        ...job, webhook_secret: apiKeys.get(job.key_id)?.webhookSecret ?? null, key_revoked_at: apiKeys.get(job.key_id)?.revokedAt ?? null,
+                        report: audit?.report ?? null, transcript: null,
+                    }] : []);
+                }
+                case 'start_api_audit': {
+                    // No 15 minute takeover: the dev server doesn't live that long
+                    const job = apiJobs.get(args.p_id);
+                    if (!job || ['succeeded', 'failed'].includes(job.status)) return send(res, 200, 'done');
+                    if (job.status === 'processing' && job.claim !== args.p_claim) return send(res, 200, 'running');
+                    const credit = credits.get(job.credit_id);
+                    if (credit?.status !== 'reserved') {
+                        if (DEV_QUOTA - (used.get(job.user_id) ?? 0) <= 0) {
+                            Object.assign(job, { status: 'failed', claim: args.p_claim, error_code: 'quota_exhausted', completed_at: new Date().toISOString() });
+                            return send(res, 200, 'done');
+                        }
+                        used.set(job.user_id, (used.get(job.user_id) ?? 0) + 1);
+                        if (credit) credit.status = 'reserved';
+                    }
+                    Object.assign(job, { status: 'processing', started_at: new Date().toISOString(), claim: args.p_claim });
+                    return send(res, 200, 'started');
+                }
+                case 'finish_api_audit': {
+                    const job = apiJobs.get(args.p_id);
+                    if (job?.status !== 'processing') return send(res, 400, { code: 'P0001', message: 'job_not_processing' });
+                    const auditId = randomUUID();
+                    audits.set(auditId, { user_id: job.user_id, report: args.p_report });
+                    const credit = credits.get(job.credit_id);
+                    if (credit?.status === 'reserved') credit.status = 'consumed';
+                    Object.assign(job, { status: 'succeeded', audit_id: auditId, completed_at: new Date().toISOString() });
+                    return send(res, 200, auditId);
+                }
+                case 'fail_api_audit': {
+                    const job = apiJobs.get(args.p_id);
+                    if (job && ['queued', 'processing'].includes(job.status)) {
+                        Object.assign(job, { status: 'failed', error_code: args.p_code, error_message: args.p_message, completed_at: new Date().toISOString() });
+                        const credit = credits.get(job.credit_id);
+                        if (credit?.status === 'reserved') {
+                            credit.status = 'refunded';
+                            used.set(credit.userId, (used.get(credit.userId) ?? 1) - 1);
+                        }
+                    }
+                    return send(res, 200, null);
+                }
+                case 'record_api_webhook': {
+                    const job = apiJobs.get(args.p_id);
+                    if (job) job.webhook_status = args.p_delivered ? 'delivered' : 'failed';
+                    console.log(`[stub] webhook for ${args.p_id} ${args.p_delivered ? 'delivered' : 'failed'}`);
+                    return send(res, 200, null);
+                }
+            }
+        }
+        return send(res, 404, { message: `No stub for ${path}` });
+    };
+
+    // ------------------------------------------
+    // Gemini
+    // ------------------------------------------
+
+    const gemini = async (req: http.IncomingMessage, res: http.ServerResponse, url: URL) => {
+        if (url.searchParams.get('key') !== STUB_KEYS.gemini) {
+            return send(res, 400, { error: { code: 400, message: 'API key not valid.' } });
+        }
+        const path = url.pathname;
+
+        if (path === '/upload/v1beta/files' && req.headers['x-goog-upload-command'] === 'start') {
+            const body = await readJson(req);
+            const id = `stub${nextId++}`;
+            files.set(id, {
+                displayName: body?.file?.display_name ?? id,
+                mimeType: String(req.headers['x-goog-upload-header-content-type'] ?? 'video/mp4'),
+                polled: false,
+            });
+            return send(res, 200, {}, { "X-Goog-Upload-URL": `${base}/upload/v1beta/files/${id}?key=${STUB_KEYS.gemini}` });
+        }
+
+        const uploadId = path.match(/^\/upload\/v1beta\/files\/(\w+)$/)?.[1];
+        if (uploadId && files.has(uploadId)) {
+            for await (const _ of req) { /* drain the video */ }
+            const file = files.get(uploadId)!;
+            return send(res, 200, { file: { name: `files/${uploadId}`, uri: `${base}/v1beta/files/${uploadId}`, mimeType: file.mimeType, state: 'PROCESSING' } });
+        }
+
+        const fileId = path.match(/^\/v1beta\/files\/(\w+)$/)?.[1];
+        if (fileId) {
+            const file = files.get(fileId);
+            if (!file) return send(res, 404, { error: { code: 404, message: 'File not found' } });
+            if (req.method === 'DELETE') {
+                files.delete(fileId);
+                return send(res, 200, {});
+            }
+            return send(res, 200, { name: `files/${fileId}`, uri: `${base}/v1beta/files/${fileId}`, mimeType: file.mimeType, state: 'ACTIVE' });
+        }
+
+        if (/^\/v1beta\/models\/[\w.-]+:generateContent$/.test(path)) {
+            const body = await readJson(req);
+            const systemPrompt: string = body?.systemInstruction?.parts?.[0]?.text ?? '';
+
+            // Script rewrites are text only; answer for the styles the prompt lists
+            if (systemPrompt.includes('copywriter')) {
+                const styles = REWRITE_STYLE_IDS.filter(id => systemPrompt.includes(`- "${id}"`)) as RewriteStyleId[];
+                return send(res, 200, { candidates: [{ content: { role: 'model', parts: [{ text: JSON.stringify(fixtureRewriteOutput(styles)) }] }, finishReason: 'STOP' }] });
+            }
+
+            // A/B comparisons read the variant digest; pick from its overall scores
+            if (systemPrompt.includes('media buyer')) {
+                const digest: string = body?.contents?.[0]?.parts?.[0]?.text ?? '';
+                const variants = [...digest.matchAll(/## Variant (\w)\nOverall score: ([\d.]+)/g)].map(m => ({ label: m[1], overallScore: Number(m[2]) }));
+                return send(res, 200, { candidates: [{ content: { role: 'model', parts: [{ text: JSON.stringify(fixtureCompareOutput(variants)) }] }, finishReason: 'STOP' }] });
+            }
+
+            const fileUri: string = body?.contents?.[0]?.parts?.find((p: any) => p.fileData)?.fileData?.fileUri ?? '';
+            const file = files.get(fileUri.split('/').pop() ?? '');
+            if (!file) return send(res, 400, { error: { code: 400, message: 'File not found or not active' } });
+            if (!systemPrompt) return send(res, 400, { error: { code: 400, message: 'Missing system instruction' } });
+
+            // The policy pass has its own prompt; answer it with the matching policy fixture
+            const index = file.displayName.length % FIXTURE_REPORTS.length;
+            const isPolicy = systemPrompt.includes('ad policy reviewer');
+            const fixture = isPolicy ? FIXTURE_POLICY_REPORTS[index] : FIXTURE_REPORTS[index];
+            if (file.displayName.includes('__slow')) await new Promise(resolve => setTimeout(resolve, 1000));
+            const text = file.displayName.includes('__fail_model') ? "Sorry, I can't help with that." : JSON.stringify(fixture);
+            return send(res, 200, { candidates: [{ content: { role: 'model', parts: [{ text }] }, finishReason: 'STOP' }] });
+        }
+
+        return send(res, 404, { error: { code: 404, message: `No stub for ${path}` } });
+    };
+
+    const server = http.createServer(async (req, res) => {
+        const url = new URL(req.url || '/', base);
+        try {
+            if (/^\/(auth|storage|rest)\/v1\//.test(url.pathname)) await supabase(req, res, url);
+            else await gemini(req, res, url);
+        } catch (err) {
+            console.error(err);
+            send(res, 500, { message: 'stub error' });
+        }
+    });
+
+    return new Promise<http.Server>(resolve => server.listen(port, () => resolve(server)));
+};
@@ -0,0 +1,127 @@
+import { ReportParseError, extractModelJson, parseWorkerResponse } from "../../lib/report";
+import { Env, ExecutionContext } from "./env";
+import { WorkerError } from "./http";
+import { AnalyzeRequest } from "./validate";
+import { SessionUser, downloadObject, hasFeature, rpc } from "./supabase";
+import { GeminiFile, deleteFile, generateContent, uploadFile, waitUntilActive } from "./gemini";
+import { AUDIT_INSTRUCTION, POLICY_INSTRUCTION, buildPolicyPrompt, buildReportPrompt } from "./prompts";
+
+// One analysis: take a credit as the user → stream the video from Storage to
+// Gemini → validate the answer → settle the credit, or refund it if anything
+// after the charge failed. Settling and refunding need the service role, so
+// the browser can no longer hand its own credits back.
+//
+// A run gets ANALYSIS_TIME_LIMIT_MS and stops early when the browser hangs up
+// (the user cancelled); both end in a refund. Credits still reserved long
+// after that are released by the database (release_stale_credits()).
+//
+// The policy check (Pro) runs alongside the audit on the same Gemini file and
+// doesn't cost an extra credit.
+//
+// Audits submitted through the public API (api.ts) run the same steps, with
+// the credit taken for the API key instead of a session.
+
+/** Well inside the 15 minutes after which the database releases a reserved credit. */
+export const ANALYSIS_TIME_LIMIT_MS = 5 * 60_000;
+
+type CreditRow = { credit_id: string; remaining: number; replayed: boolean };
+
+/** Runs one of the consume_*_credit functions and maps its exceptions. */
+export const takeCredit = async (env: Env, fn: string, args: Record<string, unknown>, accessToken?: string) => {
+    try {
+        const rows = await rpc<CreditRow[]>(env, fn, args, accessToken);
+        return rows[0];
+    } catch (err: any) {
+        if (err.message?.includes('quota_exhausted')) {
+            throw new WorkerError(402, 'quota_exhausted', "You've used all your audits for this plan.");
+        }
+        if (err.message?.includes('already_settled')) {
+            throw new WorkerError(409, 'already_processed', "This audit already finished. Check your history for the report.");
+        }
+        if (err.message?.includes('in_progress')) {
+            throw new WorkerError(409, 'in_progress', "This audit is still running. Its report will be in your history when it's done.");
+        }
+        if (err.message?.includes('key_revoked')) {
+            throw new WorkerError(401, 'key_revoked', "The API key was revoked.");
+        }
+        console.error(`${fn} failed`, err);
+        throw new WorkerError(503, 'quota_unavailable', "Could not check your audit balance, please try again.");
+    }
+};
+
+const unreadable = (err: unknown) => {
+    if (!(err instanceof ReportParseError)) return err;
+    console.error("Model returned an invalid report", err.message);
+    return new WorkerError(502, 'invalid_report', "The AI returned a report we couldn't read. You have not been charged.");
+};
+
+const runPolicyCheck = async (env: Env, file: GeminiFile, request: AnalyzeRequest, signal: AbortSignal) => {
+    const payload = await generateContent(env, file, buildPolicyPrompt(request.context), POLICY_INSTRUCTION, signal);
+    return extractModelJson(payload);
+};
+
+export const analyze = async (
+    env: Env,
+    ctx: ExecutionContext,
+    user: SessionUser,
+    accessToken: string,
+    request: AnalyzeRequest,
+    /** Aborts when the client disconnects. */
+    signal?: AbortSignal,
+) => {
+    // Checked before the credit, so a refused request costs nothing
+    if (request.policyCheck && !await hasFeature(env, accessToken, 'policy_check')) {
+        throw new WorkerError(403, 'feature_not_in_plan', "The policy check is part of the Professional plan.");
+    }
+
+    const credit = await takeCredit(env, 'consume_audit_credit', { p_idempotency_key: request.idempotencyKey }, accessToken);
+    const response = await runAnalysis(env, ctx, user.id, credit, request, signal);
+    ctx.waitUntil(rpc(env, 'settle_audit_credit', { p_user: user.id, p_credit_id: credit.credit_id })
+        .catch(err => console.error("settle_audit_credit failed", err)));
+    return response;
+};
+
+/**
+ * Everything after the credit: the analysis itself, refunding `credit` if it
+ * fails. Settling is up to the caller, once the result is safe.
+ */
+export const runAnalysis = async (
+    env: Env,
+    ctx: ExecutionContext,
+    userId: string,
+    credit: Pick<CreditRow, 'credit_id'>,
+    request: AnalyzeRequest,
+    cancelled?: AbortSignal,
+) => {
+    const creditArgs = { p_user: userId, p_credit_id: credit.credit_id };
+    const deadline = AbortSignal.timeout(ANALYSIS_TIME_LIMIT_MS);
+    const signal = cancelled ? AbortSignal.any([cancelled, deadline]) : deadline;
+
+    let geminiFile: GeminiFile | null = null;
+    try {
+        const video = await downloadObject(env, request.storageBucket, request.storagePath, signal);
+        const uploaded = await uploadFile(env, video, request.mimeType, request.storagePath, signal);
+        const file = geminiFile = await waitUntilActive(env, uploaded, signal);
+        const [payload, policy] = await Promise.all([
+            generateContent(env, file, buildReportPrompt(request.context), AUDIT_INSTRUCTION, signal),
+            request.policyCheck ? runPolicyCheck(env, file, request, signal) : null,
+        ]);
+
+        // The preset and policy check are recorded on the report
+        const response = { ...payload, auditContext: request.context, policy };
+
+        // Never charge for an answer the app can't render
+        parseWorkerResponse(response);
+        return response;
+    } catch (err) {
+        // In waitUntil too: after a disconnect the request itself may not run to the end
+        const refund = rpc(env, 'refund_audit_credit', creditArgs).catch(refundErr => console.error("refund_audit_credit failed", refundErr));
+        ctx.waitUntil(refund);
+        await refund;
+        if (deadline.aborted) throw new WorkerError(504, 'model_timeout', "The analysis took too long. You have not been charged.");
+        if (cancelled?.aborted) throw new WorkerError(499, 'cancelled', "The audit was cancelled.");
+        throw unreadable(err);
+    } finally {
+        if (geminiFile) ctx.waitUntil(deleteFile(env, geminiFile));
+    }
+};
@@ -0,0 +1,512 @@
+import { API_KEY_LIMITS, ApiAudit, ApiAuditReport, ApiScope, WEBHOOK_SIGNATURE_HEADER, WebhookEvent, signWebhook } from "../../lib/apiKeys";
+import { AuditContext, PresetValidationError, parseAuditContext } from "../../lib/presets";
+import { AuditReport, parseTranscript, parseWorkerResponse, sectionScore, validateAuditReport } from "../../lib/report";
+import { Env, ExecutionContext } from "./env";
+import { WorkerError, json } from "./http";
+import { OutboundUrlError, fetchOutbound, outboundUrlProblem } from "./outbound";
+import { RateLimiter } from "./rateLimit";
+import { deleteObject, rpc, uploadObject } from "./supabase";
+import { ALLOWED_MIME_TYPES, AnalyzeRequest, VIDEO_BUCKET } from "./validate";
+import { runAnalysis, takeCredit } from "./analyze";
+
+// ==========================================
+// 🔌 PUBLIC API (/v1)
+// ==========================================
+// For scripts and integrations, with a personal API key instead of a session:
+//
+//   Authorization: Bearer va_...
+//   POST /v1/audits                  audits:write  the video as the body (Content-Type video/*,
+//                                                  options in the query string), or JSON with a
+//                                                  `videoUrl` to fetch it from → 202 and the job
+//   GET  /v1/audits/:id              audits:read   the job's status
+//   GET  /v1/audits/:id/report       audits:read   the report, once the job succeeded
+//
+// Jobs run after the response: on the API_JOBS queue when it's bound,
+// otherwise in waitUntil. When one finishes, the key's webhook (or the job's
+// own `webhookUrl`) gets a signed `audit.succeeded` / `audit.failed` event.
+
+const MAX_VIDEO_BYTES = 250 * 1024 * 1024;
+
+const EXTENSIONS: Record<string, string> = { 'video/mp4': 'mp4', 'video/quicktime': 'mov', 'video/webm': 'webm' };
+
+/** A live key, as authenticate_api_key() returns it. */
+type ApiKeyRow = {
+    key_id: string;
+    user_id: string;
+    workspace_id: string;
+    scopes: ApiScope[];
+    rate_limit: number;
+    webhook_url: string | null;
+    webhook_secret: string;
+    remaining: number;
+    features: Record<string, unknown> | null;
+};
+
+/** A job, as get_api_audit() returns it. */
+type JobRow = {
+    id: string;
+    key_id: string | null;
+    user_id: string;
+    status: ApiAudit['status'];
+    file_name: string;
+    mime_type: string;
+    file_size: number;
+    storage_path: string;
+    context: AuditContext | null;
+    policy_check: boolean;
+    webhook_url: string | null;
+    webhook_secret: string | null;
+    key_revoked_at: string | null;
+    credit_id: string | null;
+    audit_id: string | null;
+    error_code: string | null;
+    error_message: string | null;
+    webhook_status: 'delivered' | 'failed' | null;
+    created_at: string;
+    started_at: string | null;
+    claim: string | null;
+    completed_at: string | null;
+    report: any | null;
+    transcript: unknown | null;
+};
+
+const invalid = (message: string) => new WorkerError(400, 'invalid_request', message);
+
+// ------------------------------------------
+// Keys and limits
+// ------------------------------------------
+
+const sha256Hex = async (text: string) => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const authenticate = async (env: Env, request: Request): Promise<ApiKeyRow> => {
+    const key = request.headers.get('Authorization')?.match(/^Bearer\s+(va_[0-9a-f]+)$/i)?.[1];
+    if (!key) throw new WorkerError(401, 'invalid_api_key', "Pass your API key as `Authorization: Bearer va_...`.");
+    let rows: ApiKeyRow[];
+    try {
+        rows = await rpc<ApiKeyRow[]>(env, 'authenticate_api_key', { p_key_hash: await sha256Hex(key) });
+    } catch (err) {
+        console.error("authenticate_api_key failed", err);
+        throw new WorkerError(503, 'auth_unavailable', "Could not check the API key, please try again.");
+    }
+    if (!rows[0]) throw new WorkerError(401, 'invalid_api_key', "The API key is invalid or was revoked.");
+    return rows[0];
+};
+
+const requireScope = (key: ApiKeyRow, scope: ApiScope) => {
+    if (!key.scopes.includes(scope)) throw new WorkerError(403, 'missing_scope', `This API key needs the ${scope} permission.`);
+};
+
+// Reads (polling) are limited per isolate, which is enough to stop a loop
+// gone wrong. The key's own submit limit is what users pay attention to, so
+// it's counted in Postgres, across instances.
+const readLimiter = new RateLimiter(API_KEY_LIMITS.readsPerMinute, 60_000);
+
+const rateLimited = (retryAfterSeconds: number) =>
+    new WorkerError(429, 'rate_limited', "Rate limit reached for this API key.", retryAfterSeconds);
+
+const checkReadRate = (keyId: string) => {
+    const limit = readLimiter.check(keyId);
+    if (!limit.allowed) throw rateLimited(limit.retryAfterSeconds);
+};
+
+const checkSubmitRate = async (env: Env, keyId: string) => {
+    let retryAfter: number;
+    try {
+        retryAfter = await rpc<number>(env, 'take_api_submit', { p_key: keyId });
+    } catch (err) {
+        console.error("take_api_submit failed", err);
+        throw new WorkerError(503, 'rate_limit_unavailable', "Could not check the rate limit, please try again.");
+    }
+    if (retryAfter > 0) throw rateLimited(retryAfter);
+};
+
+// ------------------------------------------
+// Submitting
+// ------------------------------------------
+
+/** A public https URL (see outbound.ts), so keys can't be pointed at internal services. */
+const parsePublicUrl = (env: Env, value: unknown, field: string) => {
+    if (typeof value !== 'string' || value.length > 500) throw invalid(`${field} must be a URL.`);
+    let url: URL;
+    try {
+        url = new URL(value);
+    } catch {
+        throw invalid(`${field} must be a URL.`);
+    }
+    const problem = outboundUrlProblem(env, url);
+    if (problem) throw invalid(`${field} ${problem}.`);
+    return url;
+};
+
+type SubmitOptions = {
+    fileName: string | null;
+    context: AuditContext | null;
+    policyCheck: boolean;
+    webhookUrl: string | null;
+};
+
+const parseOptions = (env: Env, raw: Record<string, unknown>): SubmitOptions => {
+    if (raw.fileName !== undefined && (typeof raw.fileName !== 'string' || !raw.fileName.trim() || raw.fileName.length > 255)) {
+        throw invalid("fileName must be 1 to 255 characters.");
+    }
+    if (raw.policyCheck !== undefined && typeof raw.policyCheck !== 'boolean') throw invalid("policyCheck must be true or false.");
+
+    let context: AuditContext | null;
+    try {
+        context = parseAuditContext(raw.context);
+    } catch (err) {
+        if (err instanceof PresetValidationError) throw invalid(`Preset: ${err.message}`);
+        throw err;
+    }
+
+    return {
+        fileName: typeof raw.fileName === 'string' ? raw.fileName.trim() : null,
+        context,
+        policyCheck: raw.policyCheck === true,
+        webhookUrl: raw.webhookUrl === undefined || raw.webhookUrl === null ? null : parsePublicUrl(env, raw.webhookUrl, 'webhookUrl').href,
+    };
+};
+
+/** Query string options for raw uploads: `context` is JSON, `policyCheck` is "true" or "false". */
+const optionsFromQuery = (env: Env, params: URLSearchParams) => {
+    const raw: Record<string, unknown> = {};
+    for (const name of ['fileName', 'webhookUrl'] as const) {
+        const value = params.get(name);
+        if (value !== null) raw[name] = value;
+    }
+    const policyCheck = params.get('policyCheck');
+    if (policyCheck !== null) raw.policyCheck = policyCheck === 'true' ? true : policyCheck === 'false' ? false : policyCheck;
+    const context = params.get('context');
+    if (context !== null) {
+        try {
+            raw.context = JSON.parse(context);
+        } catch {
+            throw invalid("context must be JSON.");
+        }
+    }
+    return parseOptions(env, raw);
+};
+
+type Video = { body: ReadableStream<Uint8Array>; mimeType: string; size: number | null; name: string | null };
+
+const contentLength = (headers: Headers) => {
+    const value = headers.get('Content-Length');
+    return value === null ? null : Number(value);
+};
+
+const fetchVideo = async (env: Env, url: URL): Promise<Video> => {
+    let response: Response;
+    try {
+        response = await fetchOutbound(env, url);
+    } catch (err) {
+        if (err instanceof OutboundUrlError) throw new WorkerError(400, 'video_unreachable', `videoUrl: ${err.message}`);
+        throw new WorkerError(400, 'video_unreachable', "Could not download the video from videoUrl.");
+    }
+    if (!response.ok || !response.body) {
+        throw new WorkerError(400, 'video_unreachable', `Downloading videoUrl failed with ${response.status}.`);
+    }
+    return {
+        body: response.body,
+        mimeType: (response.headers.get('Content-Type') ?? '').split(';')[0].trim().toLowerCase(),
+        size: contentLength(response.headers),
+        name: decodeURIComponent(url.pathname.split('/').pop() ?? '') || null,
+    };
+};
+
+/** The options and a stream of the video, without reading the video yet. */
+const readSubmission = async (env: Env, request: Request, url: URL) => {
+    const contentType = (request.headers.get('Content-Type') ?? '').split(';')[0].trim().toLowerCase();
+
+    if (contentType === 'application/json') {
+        let body: any;
+        try {
+            body = await request.json();
+        } catch {
+            throw invalid("Body must be JSON.");
+        }
+        if (typeof body !== 'object' || body === null || Array.isArray(body)) throw invalid("Body must be a JSON object.");
+        const options = parseOptions(env, body);
+        const videoUrl = parsePublicUrl(env, body.videoUrl, 'videoUrl');
+        if (body.mimeType !== undefined && typeof body.mimeType !== 'string') throw invalid("mimeType must be a string.");
+        return {
+            options,
+            open: async () => {
+                const video = await fetchVideo(env, videoUrl);
+                return { ...video, mimeType: body.mimeType ?? video.mimeType };
+            },
+        };
+    }
+
+    if (contentType.startsWith('video/')) {
+        if (!request.body) throw invalid("The request has no video.");
+        const body = request.body;
+        return {
+            options: optionsFromQuery(env, url.searchParams),
+            open: async (): Promise<Video> => ({ body, mimeType: contentType, size: contentLength(request.headers), name: null }),
+        };
+    }
+
+    throw new WorkerError(415, 'unsupported_media_type', "Send the video itself (Content-Type: video/mp4, video/quicktime or video/webm) or JSON with a videoUrl.");
+};
+
+const toApiAudit = (job: JobRow): ApiAudit => ({
+    id: job.id,
+    status: job.status,
+    fileName: job.file_name,
+    createdAt: job.created_at,
+    startedAt: job.started_at,
+    completedAt: job.completed_at,
+    auditId: job.audit_id,
+    overallScore: typeof job.report?.overallScore === 'number' ? job.report.overallScore : null,
+    error: job.error_code ? { code: job.error_code, message: job.error_message ?? '' } : null,
+});
+
+const getJob = async (env: Env, id: string) => (await rpc<JobRow[]>(env, 'get_api_audit', { p_id: id }))[0] ?? null;
+
+const JOB_ATTEMPTS = 3;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** Without a queue, the job runs in waitUntil and retries database errors itself, as one run. */
+const runJob = async (env: Env, ctx: ExecutionContext, jobId: string) => {
+    const claim = crypto.randomUUID();
+    for (let attempt = 0; attempt < JOB_ATTEMPTS; attempt++) {
+        if (attempt) await sleep(1000 * 4 ** (attempt - 1));
+        try {
+            return await processApiAudit(env, ctx, jobId, claim);
+        } catch (err) {
+            console.error(`API job ${jobId} failed (attempt ${attempt + 1} of ${JOB_ATTEMPTS})`, err);
+        }
+    }
+};
+
+const enqueue = async (env: Env, ctx: ExecutionContext, jobId: string) => {
+    if (env.API_JOBS) return env.API_JOBS.send({ jobId });
+    ctx.waitUntil(runJob(env, ctx, jobId));
+};
+
+/** Cleanup for a submission that didn't become a job: the credit goes back and the video is deleted. */
+const discardSubmission = async (env: Env, key: ApiKeyRow, creditId: string, storagePath: string | null) => {
+    await Promise.all([
+        rpc(env, 'refund_audit_credit', { p_user: key.user_id, p_credit_id: creditId })
+            .catch(err => console.error("refund_audit_credit failed", err)),
+        storagePath && deleteObject(env, VIDEO_BUCKET, storagePath)
+            .catch(err => console.error(`Deleting ${storagePath} failed`, err)),
+    ]);
+};
+
+const submit = async (env: Env, ctx: ExecutionContext, request: Request, url: URL, key: ApiKeyRow) => {
+    requireScope(key, 'audits:write');
+    await checkSubmitRate(env, key.key_id);
+
+    // A retried submission gets its first job back, without uploading again
+    const idempotencyKey = request.headers.get('Idempotency-Key');
+    if (idempotencyKey !== null && !/^[\w-]{8,128}$/.test(idempotencyKey)) {
+        throw invalid("Idempotency-Key must be 8–128 letters, digits, _ or -.");
+    }
+    if (idempotencyKey) {
+        const existing = await rpc<string | null>(env, 'find_api_audit', { p_key: key.key_id, p_idempotency_key: idempotencyKey });
+        const job = existing && await getJob(env, existing);
+        if (job) return json(200, toApiAudit(job), { Location: `/v1/audits/${job.id}` });
+    }
+
+    // Checked before the upload, so a refused request costs nothing
+    const { options, open } = await readSubmission(env, request, url);
+    if (options.policyCheck && key.features?.policy_check !== true) {
+        throw new WorkerError(403, 'feature_not_in_plan', "The policy check is part of the Professional plan.");
+    }
+
+    // The job's credit is reserved before the video is read, so a key without
+    // quota can't upload, and it's given back if the job isn't created
+    const jobId = crypto.randomUUID();
+    const credit = await takeCredit(env, 'consume_api_credit', { p_key: key.key_id, p_idempotency_key: `api-${jobId}` });
+    let storagePath: string | null = null;
+    let id: string;
+    try {
+        const video = await open();
+        if (!ALLOWED_MIME_TYPES.includes(video.mimeType)) {
+            throw new WorkerError(415, 'unsupported_media_type', "Only MP4, MOV and WEBM videos are supported.");
+        }
+        if (video.size !== null && video.size > MAX_VIDEO_BYTES) {
+            throw new WorkerError(413, 'video_too_large', "The video is larger than 250 MB.");
+        }
+
+        const extension = EXTENSIONS[video.mimeType];
+        const fileName = options.fileName ?? video.name ?? `api-upload.${extension}`;
+        storagePath = `${key.user_id}/api-${jobId}.${extension}`;
+        await uploadObject(env, VIDEO_BUCKET, storagePath, video.body, video.mimeType, video.size);
+
+        id = await rpc<string>(env, 'create_api_audit', {
+            p_id: jobId,
+            p_key: key.key_id,
+            p_idempotency_key: idempotencyKey,
+            p_file_name: fileName,
+            p_mime_type: video.mimeType,
+            p_file_size: video.size ?? 0,
+            p_storage_path: storagePath,
+            p_context: options.context,
+            p_policy_check: options.policyCheck,
+            p_webhook_url: options.webhookUrl ?? key.webhook_url,
+            p_credit_id: credit.credit_id,
+        });
+    } catch (err) {
+        await discardSubmission(env, key, credit.credit_id, storagePath);
+        throw err;
+    }
+
+    if (id === jobId) {
+        try {
+            await enqueue(env, ctx, jobId);
+        } catch (err) {
+            console.error(`Queueing API job ${jobId} failed`, err);
+            await rpc(env, 'fail_api_audit', { p_id: jobId, p_code: 'queue_unavailable', p_message: "The audit could not be queued." })
+                .catch(failErr => console.error("fail_api_audit failed", failErr));
+            await discardSubmission(env, key, credit.credit_id, storagePath);
+            throw new WorkerError(503, 'queue_unavailable', "Could not queue the audit, please try again.");
+        }
+    } else {
+        // Another request with the same Idempotency-Key won the race; its job stands
+        await discardSubmission(env, key, credit.credit_id, storagePath);
+    }
+
+    const job = await getJob(env, id);
+    if (!job) throw new WorkerError(500, 'internal_error', "The job was not recorded.");
+    return json(id === jobId ? 202 : 200, toApiAudit(job), { Location: `/v1/audits/${id}` });
+};
+
+// ------------------------------------------
+// Reading
+// ------------------------------------------
+
+/** Jobs are visible to the keys of the user who submitted them. */
+const ownJob = async (env: Env, key: ApiKeyRow, id: string) => {
+    requireScope(key, 'audits:read');
+    checkReadRate(key.key_id);
+    const job = await getJob(env, id);
+    if (!job || job.user_id !== key.user_id) throw new WorkerError(404, 'not_found', "No audit with this id.");
+    return job;
+};
+
+const getReport = (job: JobRow): ApiAuditReport => {
+    if (job.status === 'failed') throw new WorkerError(409, 'audit_failed', job.error_message ?? "The audit failed.");
+    if (job.status !== 'succeeded' || !job.audit_id || !job.report) {
+        throw new WorkerError(409, 'not_ready', "The audit is still running. Poll GET /v1/audits/:id or wait for the webhook.");
+    }
+    // Transcript corrections made in the app are part of the report
+    const report = validateAuditReport(job.report);
+    const transcript = job.transcript ? parseTranscript(job.transcript) : null;
+    return { id: job.id, auditId: job.audit_id, report: transcript ? { ...report, transcript } : report };
+};
+
+export const handleApi = async (request: Request, env: Env, ctx: ExecutionContext): Promise<Response> => {
+    const url = new URL(request.url);
+    const match = url.pathname.match(/^\/v1\/audits(?:\/([0-9a-f-]{36})(\/report)?)?$/i);
+    if (!match) throw new WorkerError(404, 'not_found', "Not found.");
+    const [, id, report] = match;
+    const method = id ? 'GET' : 'POST';
+    if (request.method !== method) throw new WorkerError(405, 'method_not_allowed', "Method not allowed.");
+
+    const key = await authenticate(env, request);
+    if (!id) return submit(env, ctx, request, url, key);
+    const job = await ownJob(env, key, id.toLowerCase());
+    return json(200, report ? getReport(job) : toApiAudit(job));
+};
+
+// ------------------------------------------
+// Processing
+// ------------------------------------------
+
+const WEBHOOK_ATTEMPTS = 3;
+
+/** POSTs the job's outcome, retrying with backoff; a 2xx counts as delivered, and redirects aren't followed. */
+const deliverWebhook = async (env: Env, job: JobRow) => {
+    if (!job.webhook_url || !job.webhook_secret) return;
+    const event: WebhookEvent = {
+        id: `evt_${crypto.randomUUID()}`,
+        type: job.status === 'succeeded' ? 'audit.succeeded' : 'audit.failed',
+        createdAt: new Date().toISOString(),
+        data: toApiAudit(job),
+    };
+    const body = JSON.stringify(event);
+
+    let delivered = false;
+    for (let attempt = 0; attempt < WEBHOOK_ATTEMPTS && !delivered; attempt++) {
+        if (attempt) await sleep(1000 * 4 ** (attempt - 1));
+        try {
+            const response = await fetchOutbound(env, new URL(job.webhook_url), {
+                method: 'POST',
+                headers: {
+                    "Content-Type": "application/json",
+                    [WEBHOOK_SIGNATURE_HEADER]: await signWebhook(job.webhook_secret, body),
+                },
+                body,
+                signal: AbortSignal.timeout(10_000),
+            }, false);
+            delivered = response.ok;
+        } catch (err) {
+            // Not a public URL: no point retrying
+            if (err instanceof OutboundUrlError) break;
+            // Unreachable or too slow; retried
+        }
+    }
+    await rpc(env, 'record_api_webhook', { p_id: job.id, p_delivered: delivered })
+        .catch(err => console.error("record_api_webhook failed", err));
+};
+
+/**
+ * Runs a queued job as the run `claim`: analysis on the credit reserved at
+ * submit → audit saved in the key's workspace (which settles the credit) →
+ * webhook. A failed analysis is recorded on the job, which refunds the
+ * credit, and its video is deleted. Errors talking to the database, saving
+ * the finished report included, are thrown instead, so the run is retried
+ * with the same claim and takes the job back.
+ */
+export const processApiAudit = async (env: Env, ctx: ExecutionContext, jobId: string, claim: string) => {
+    const state = await rpc<'started' | 'running' | 'done'>(env, 'start_api_audit', { p_id: jobId, p_claim: claim });
+    if (state === 'running') return;
+    const job = await getJob(env, jobId);
+    if (!job) return;
+    // This run finished the job before a database error stopped it; only the webhook is left
+    if (state === 'done') {
+        if (job.claim === claim && job.webhook_status === null) await deliverWebhook(env, job);
+        return;
+    }
+
+    let report: AuditReport | null = null;
+    try {
+        if (!job.key_id || job.key_revoked_at) throw new WorkerError(401, 'key_revoked', "The API key was revoked.");
+        if (!job.credit_id) throw new WorkerError(402, 'quota_exhausted', "You've used all your audits for this plan.");
+        const request: AnalyzeRequest = {
+            storageBucket: VIDEO_BUCKET,
+            storagePath: job.storage_path,
+            mimeType: job.mime_type,
+            idempotencyKey: `api-${job.id}`,
+            context: job.context,
+            policyCheck: job.policy_check,
+        };
+        report = parseWorkerResponse(await runAnalysis(env, ctx, job.user_id, { credit_id: job.credit_id }, request));
+    } catch (err) {
+        if (!(err instanceof WorkerError)) console.error(`API job ${jobId} failed`, err);
+        const failure = err instanceof WorkerError ? err : new WorkerError(500, 'internal_error', "Something went wrong on our side.");
+        await rpc(env, 'fail_api_audit', { p_id: job.id, p_code: failure.code, p_message: failure.message });
+        await deleteObject(env, VIDEO_BUCKET, job.storage_path).catch(deleteErr => console.error(`Deleting ${job.storage_path} failed`, deleteErr));
+    }
+
+    if (report) {
+        await rpc(env, 'finish_api_audit', {
+            p_id: job.id,
+            p_report: report,
+            p_overall_score: report.overallScore,
+            p_hook_score: sectionScore(report, 'hook'),
+            p_body_score: sectionScore(report, 'body'),
+            p_audio_score: sectionScore(report, 'audio'),
+            p_script_score: sectionScore(report, 'script'),
+        });
+    }
+
+    const done = await getJob(env, jobId);
+    if (done) await deliverWebhook(env, done);
+};
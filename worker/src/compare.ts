@@ -0,0 +1,69 @@
+import { ReportParseError, extractModelJson, validateAuditReport } from "../../lib/report";
+import { CompareRequest, CompareValidationError, VARIANT_LABELS, parseCompareRequest, parseCompareResult } from "../../lib/comparisons";
+import { Env, ExecutionContext } from "./env";
+import { WorkerError } from "./http";
+import { SessionUser, rpc, selectAsUser } from "./supabase";
+import { generateText } from "./gemini";
+import { buildComparePrompt, compareInstruction } from "./prompts";
+import { takeCredit } from "./analyze";
+import { parseIdempotencyKey } from "./validate";
+
+// A/B comparison: picks a winner among two to four saved audits of the same
+// ad. The reports are read with the user's token, so only audits they can
+// see in history are compared, and the comparison takes a credit like an
+// audit (settled on a readable verdict, refunded otherwise).
+
+/** Loads the audits in label order, as the user. */
+const loadVariants = async (env: Env, accessToken: string, auditIds: string[]): Promise<CompareRequest> => {
+    const rows = await selectAsUser<{ id: string; report: unknown }>(
+        env, 'audits', `select=id,report&id=in.(${auditIds.join(',')})`, accessToken,
+    );
+    const variants = auditIds.map((id, i) => {
+        const label = VARIANT_LABELS[i];
+        const row = rows.find(r => r.id === id);
+        if (!row) throw new WorkerError(404, 'audit_not_found', `Variant ${label}: no audit with this id in your history.`);
+        try {
+            return { label, report: validateAuditReport(row.report) };
+        } catch (err) {
+            if (err instanceof ReportParseError) throw new WorkerError(422, 'invalid_report', `Variant ${label}: the saved report can't be read.`);
+            throw err;
+        }
+    });
+    return { variants };
+};
+
+export const compare = async (
+    env: Env,
+    ctx: ExecutionContext,
+    user: SessionUser,
+    accessToken: string,
+    body: unknown,
+    idempotencyHeader: string | null,
+    signal?: AbortSignal,
+) => {
+    let auditIds;
+    try {
+        auditIds = parseCompareRequest(body);
+    } catch (err) {
+        if (err instanceof CompareValidationError) throw new WorkerError(400, 'invalid_request', err.message);
+        throw err;
+    }
+    const idempotencyKey = parseIdempotencyKey(idempotencyHeader);
+    const request = await loadVariants(env, accessToken, auditIds);
+
+    const credit = await takeCredit(env, 'consume_audit_credit', { p_idempotency_key: idempotencyKey }, accessToken);
+    const creditArgs = { p_user: user.id, p_credit_id: credit.credit_id };
+    try {
+        const payload = await generateText(env, buildComparePrompt(request), compareInstruction(request), signal);
+        const verdict = parseCompareResult(extractModelJson(payload), request.variants.map(v => v.label));
+        ctx.waitUntil(rpc(env, 'settle_audit_credit', creditArgs).catch(err => console.error("settle_audit_credit failed", err)));
+        return verdict;
+    } catch (err) {
+        const refund = rpc(env, 'refund_audit_credit', creditArgs).catch(refundErr => console.error("refund_audit_credit failed", refundErr));
+        ctx.waitUntil(refund);
+        await refund;
+        if (!(err instanceof ReportParseError)) throw err;
+        console.error("Model returned an invalid comparison", err.message);
+        throw new WorkerError(502, 'invalid_comparison', "The AI returned a comparison we couldn't read. You have not been charged.");
+    }
+};
@@ -0,0 +1,34 @@
+// Bindings configured in wrangler.toml (vars) and as secrets.
+export interface Env {
+    GEMINI_API_KEY: string;
+    /** Override to point at a stub, e.g. worker/dev. */
+    GEMINI_API_URL?: string;
+    GEMINI_MODEL?: string;
+    SUPABASE_URL: string;
+    SUPABASE_ANON_KEY: string;
+    SUPABASE_SERVICE_ROLE_KEY: string;
+    /** Comma separated; `*` allows any origin. */
+    ALLOWED_ORIGINS?: string;
+    RATE_LIMIT_PER_MINUTE?: string;
+    /** Public API jobs (see wrangler.toml). Without it, jobs run after the response, as in worker/dev. */
+    API_JOBS?: Queue<ApiJobMessage>;
+    /** "true" lets API video and webhook URLs use plain http and local hosts, for local testing. */
+    API_ALLOW_HTTP?: string;
+}
+
+export type ApiJobMessage = { jobId: string };
+
+/** The subsets of the Workers Queues types we use. */
+export interface Queue<Body> {
+    send(body: Body): Promise<void>;
+}
+
+export interface MessageBatch<Body> {
+    /** A message keeps its id across retries. */
+    readonly messages: readonly { readonly id: string; readonly body: Body; ack(): void; retry(): void }[];
+}
+
+/** The subset of the Workers ExecutionContext we use. */
+export interface ExecutionContext {
+    waitUntil(promise: Promise<unknown>): void;
+}
@@ -0,0 +1,121 @@
+import { Env } from "./env";
+import { WorkerError } from "./http";
+
+// Gemini calls: the video goes through the Files API (resumable upload, then
+// wait until it is ACTIVE), is referenced from generateContent, and is deleted
+// once the answer is in. GEMINI_API_URL lets worker/dev swap in a stub.
+
+const DEFAULT_API_URL = 'https://generativelanguage.googleapis.com';
+const DEFAULT_MODEL = 'gemini-2.5-pro';
+const POLL_INTERVAL_MS = 2_000;
+const MAX_POLLS = 60;
+
+export type GeminiFile = { name: string; uri: string; mimeType: string; state: string };
+
+const apiUrl = (env: Env, path: string) =>
+    `${(env.GEMINI_API_URL || DEFAULT_API_URL).replace(/\/$/, '')}${path}?key=${encodeURIComponent(env.GEMINI_API_KEY)}`;
+
+/** Turns a failed Gemini response into a WorkerError the app can classify. */
+const upstreamError = async (response: Response, action: string) => {
+    const body: any = await response.json().catch(() => null);
+    console.error(`Gemini ${action} failed`, response.status, body);
+    if (response.status === 429) {
+        return new WorkerError(503, 'model_busy', "The AI model is busy, please try again shortly.", 30);
+    }
+    if (response.status === 400) {
+        return new WorkerError(422, 'model_rejected', body?.error?.message || "The AI model could not process this video.");
+    }
+    return new WorkerError(502, 'model_unavailable', "The AI model is unavailable right now.");
+};
+
+export const uploadFile = async (env: Env, video: Response, mimeType: string, displayName: string, signal?: AbortSignal): Promise<GeminiFile> => {
+    const length = video.headers.get('Content-Length');
+    if (!length) throw new WorkerError(502, 'storage_unavailable', "Could not read the uploaded video.");
+
+    const start = await fetch(apiUrl(env, '/upload/v1beta/files'), {
+        method: 'POST',
+        headers: {
+            "X-Goog-Upload-Protocol": "resumable",
+            "X-Goog-Upload-Command": "start",
+            "X-Goog-Upload-Header-Content-Length": length,
+            "X-Goog-Upload-Header-Content-Type": mimeType,
+            "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ file: { display_name: displayName } }),
+        signal,
+    });
+    const uploadUrl = start.headers.get('X-Goog-Upload-URL');
+    if (!start.ok || !uploadUrl) throw await upstreamError(start, 'upload start');
+
+    // Stream straight from Storage; the video is never held in memory.
+    const upload = await fetch(uploadUrl, {
+        method: 'POST',
+        headers: {
+            "Content-Length": length,
+            "X-Goog-Upload-Offset": "0",
+            "X-Goog-Upload-Command": "upload, finalize",
+        },
+        body: video.body,
+        signal,
+        // Required by Node's fetch for streamed bodies (worker/dev); ignored by Workers
+        duplex: 'half',
+    } as RequestInit);
+    if (!upload.ok) throw await upstreamError(upload, 'upload');
+    const { file } = await upload.json() as { file: GeminiFile };
+    return file;
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+    const onAbort = () => { clearTimeout(timer); reject(signal!.reason); };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export const waitUntilActive = async (env: Env, file: GeminiFile, signal?: AbortSignal): Promise<GeminiFile> => {
+    let current = file;
+    for (let poll = 0; current.state === 'PROCESSING'; poll++) {
+        if (poll >= MAX_POLLS) throw new WorkerError(504, 'model_timeout', "The AI model took too long to process the video.");
+        await sleep(POLL_INTERVAL_MS, signal);
+        const response = await fetch(apiUrl(env, `/v1beta/${file.name}`), { signal });
+        if (!response.ok) throw await upstreamError(response, 'file status');
+        current = await response.json();
+    }
+    if (current.state !== 'ACTIVE') {
+        throw new WorkerError(422, 'video_unprocessable', "The AI model could not process this video.");
+    }
+    return current;
+};
+
+/** Asks for a JSON answer; returns the raw generateContent payload. */
+const generateJson = async (env: Env, systemPrompt: string, parts: object[], signal?: AbortSignal) => {
+    const model = env.GEMINI_MODEL || DEFAULT_MODEL;
+    const response = await fetch(apiUrl(env, `/v1beta/models/${model}:generateContent`), {
+        method: 'POST',
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+            systemInstruction: { parts: [{ text: systemPrompt }] },
+            contents: [{ role: 'user', parts }],
+            generationConfig: { responseMimeType: 'application/json', temperature: 0.4 },
+        }),
+        signal,
+    });
+    if (!response.ok) throw await upstreamError(response, 'generateContent');
+    return response.json();
+};
+
+/** A prompt about an uploaded video. */
+export const generateContent = (env: Env, file: GeminiFile, systemPrompt: string, instruction: string, signal?: AbortSignal) =>
+    generateJson(env, systemPrompt, [
+        { fileData: { mimeType: file.mimeType, fileUri: file.uri } },
+        { text: instruction },
+    ], signal);
+
+/** A text-only prompt (script rewrites, A/B comparisons). */
+export const generateText = (env: Env, systemPrompt: string, text: string, signal?: AbortSignal) =>
+    generateJson(env, systemPrompt, [{ text }], signal);
+
+export const deleteFile = async (env: Env, file: GeminiFile) => {
+    const response = await fetch(apiUrl(env, `/v1beta/${file.name}`), { method: 'DELETE' });
+    if (!response.ok && response.status !== 404) console.error("Gemini file delete failed", file.name, response.status);
+};
@@ -0,0 +1,27 @@
+// Error type and JSON helpers. Error bodies are `{ error: { code, message } }`,
+// which the app's worker provider maps onto its own error kinds by status.
+
+export class WorkerError extends Error {
+    constructor(
+        public status: number,
+        public code: string,
+        message: string,
+        public retryAfterSeconds: number | null = null,
+    ) {
+        super(message);
+        this.name = 'WorkerError';
+    }
+}
+
+export const json = (status: number, body: unknown, headers: HeadersInit = {}) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { "Content-Type": "application/json", ...headers },
+    });
+
+export const errorResponse = (err: WorkerError) =>
+    json(
+        err.status,
+        { error: { code: err.code, message: err.message } },
+        err.retryAfterSeconds !== null ? { "Retry-After": String(err.retryAfterSeconds) } : {},
+    );
@@ -0,0 +1,122 @@
+import { ApiJobMessage, Env, ExecutionContext, MessageBatch } from "./env";
+import { WorkerError, errorResponse, json } from "./http";
+import { RateLimiter } from "./rateLimit";
+import { getSessionUser } from "./supabase";
+import { parseAnalyzeRequest } from "./validate";
+import { analyze } from "./analyze";
+import { rewrite } from "./rewrite";
+import { compare } from "./compare";
+import { handleApi, processApiAudit } from "./api";
+
+// ==========================================
+// ☁️ ANALYSIS WORKER
+// ==========================================
+// POST /analyze (or /) with a Supabase access token and a reference to a video
+// in the creatives bucket; answers with the Gemini `generateContent` payload
+// plus the `auditContext` (preset) it was prompted with.
+//
+//   Authorization: Bearer <supabase access token>
+//   Idempotency-Key: <job id>
+//   { "storageBucket": "creatives", "storagePath": "<user id>/<file>", "mimeType": "video/mp4",
+//     "context": { "platform": "tiktok", "objective": "conversion", ... } }   (optional, see lib/presets.ts)
+//
+// POST /rewrite (Pro) rewrites an audit's script, see rewrite.ts.
+// POST /compare picks the winner of an A/B test from its saved audits (one
+// credit, with an Idempotency-Key like /analyze), see compare.ts.
+// /v1/... is the public API, authenticated with API keys, see api.ts.
+
+let limiter: RateLimiter | null = null;
+const getLimiter = (env: Env) =>
+    limiter ??= new RateLimiter(Number(env.RATE_LIMIT_PER_MINUTE) || 6, 60_000);
+
+const corsHeaders = (env: Env, origin: string | null): Record<string, string> => {
+    const allowed = (env.ALLOWED_ORIGINS || '').split(',').map(o => o.trim()).filter(Boolean);
+    const allowOrigin = allowed.includes('*') ? '*' : origin && allowed.includes(origin) ? origin : null;
+    if (!allowOrigin) return {};
+    return {
+        "Access-Control-Allow-Origin": allowOrigin,
+        "Access-Control-Allow-Methods": "POST, OPTIONS",
+        "Access-Control-Allow-Headers": "Authorization, Content-Type, Idempotency-Key",
+        "Access-Control-Expose-Headers": "Retry-After",
+        "Access-Control-Max-Age": "86400",
+        Vary: "Origin",
+    };
+};
+
+const bearerToken = (request: Request) => {
+    const match = request.headers.get('Authorization')?.match(/^Bearer\s+(.+)$/i);
+    if (!match) throw new WorkerError(401, 'unauthorized', "Please log in to run an audit.");
+    return match[1];
+};
+
+const handle = async (request: Request, env: Env, ctx: ExecutionContext): Promise<Response> => {
+    const { pathname } = new URL(request.url);
+    if (pathname === '/health') return json(200, { ok: true });
+    if (pathname.startsWith('/v1/')) return handleApi(request, env, ctx);
+    const route = pathname === '/' || pathname === '/analyze' ? 'analyze'
+        : pathname === '/rewrite' ? 'rewrite'
+        : pathname === '/compare' ? 'compare'
+        : null;
+    if (!route) throw new WorkerError(404, 'not_found', "Not found.");
+    if (request.method !== 'POST') throw new WorkerError(405, 'method_not_allowed', "Method not allowed.");
+
+    // 🔐 1. A real Supabase session, not a self-declared email
+    const accessToken = bearerToken(request);
+    const user = await getSessionUser(env, accessToken);
+
+    // 🚦 2. Per-user rate limit
+    const limit = getLimiter(env).check(user.id);
+    if (!limit.allowed) {
+        throw new WorkerError(429, 'rate_limited', "Too many requests at once, please wait a moment.", limit.retryAfterSeconds);
+    }
+
+    // 📋 3. Validate the request
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        throw new WorkerError(400, 'invalid_request', "Body must be JSON.");
+    }
+    if (route === 'rewrite') return json(200, await rewrite(env, accessToken, body));
+    if (route === 'compare') {
+        return json(200, await compare(env, ctx, user, accessToken, body, request.headers.get('Idempotency-Key'), request.signal));
+    }
+
+    const analyzeRequest = parseAnalyzeRequest(body, user.id, request.headers.get('Idempotency-Key'));
+
+    // 🧠 4. Credit → Gemini → settle/refund
+    // request.signal aborts when the browser cancels, so the credit is refunded
+    return json(200, await analyze(env, ctx, user, accessToken, analyzeRequest, request.signal));
+};
+
+export default {
+    async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+        const cors = corsHeaders(env, request.headers.get('Origin'));
+        if (request.method === 'OPTIONS') return new Response(null, { status: 204, headers: cors });
+
+        let response: Response;
+        try {
+            response = await handle(request, env, ctx);
+        } catch (err) {
+            if (!(err instanceof WorkerError)) console.error(err);
+            response = errorResponse(err instanceof WorkerError
+                ? err
+                : new WorkerError(500, 'internal_error', "Something went wrong on our side."));
+        }
+        for (const [key, value] of Object.entries(cors)) response.headers.set(key, value);
+        return response;
+    },
+
+    /** Public API jobs from the API_JOBS queue; a job that hit a database error is retried and picks up where it stopped. */
+    async queue(batch: MessageBatch<ApiJobMessage>, env: Env, ctx: ExecutionContext): Promise<void> {
+        for (const message of batch.messages) {
+            try {
+                await processApiAudit(env, ctx, message.body.jobId, message.id);
+                message.ack();
+            } catch (err) {
+                console.error(err);
+                message.retry();
+            }
+        }
+    },
+};
@@ -0,0 +1,90 @@
+import { Env } from "./env";
+
+// Requests to URLs an API user picked (a `videoUrl`, a webhook). Only public
+// https hosts: no loopback, private, link-local or otherwise internal
+// addresses, so a key can't reach the worker's neighbours. Redirects are
+// followed by hand, and every hop is checked like the first.
+//
+// Workers can't resolve a name before fetching it, so names are judged by
+// what they say (localhost, *.internal, ...) and IP literals by their range.
+// With API_ALLOW_HTTP on (worker/dev), plain http and local hosts are allowed.
+
+const MAX_REDIRECTS = 5;
+
+/** A URL (or a redirect) pointing somewhere the worker shouldn't go. */
+export class OutboundUrlError extends Error {}
+
+const INTERNAL_SUFFIXES = ['.localhost', '.local', '.internal', '.intranet', '.lan', '.home.arpa'];
+
+/** 0/8, 10/8, 100.64/10, 127/8, 169.254/16, 172.16/12, 192.0.0/24, 192.168/16, 198.18/15 and everything from 224 up. */
+const isInternalIPv4 = ([a, b, c]: number[]) =>
+    a === 0 || a === 10 || a === 127 || a >= 224
+    || (a === 100 && b >= 64 && b < 128)
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b < 32)
+    || (a === 192 && b === 0 && c === 0)
+    || (a === 192 && b === 168)
+    || (a === 198 && (b === 18 || b === 19));
+
+const parseIPv4 = (host: string) => {
+    const parts = host.split('.');
+    if (parts.length !== 4 || !parts.every(p => /^\d{1,3}$/.test(p))) return null;
+    return parts.map(Number);
+};
+
+/** The eight groups of an IPv6 literal, as URL writes it (compressed hex, no dotted tail). */
+const parseIPv6 = (host: string) => {
+    const [head, tail] = host.split('::');
+    const groups = (part: string | undefined) => part ? part.split(':').map(g => parseInt(g, 16)) : [];
+    const left = groups(head);
+    const right = groups(tail);
+    return tail === undefined ? left : [...left, ...Array(8 - left.length - right.length).fill(0), ...right];
+};
+
+const isInternalIPv6 = (host: string) => {
+    const g = parseIPv6(host);
+    if (g.length !== 8 || g.some(Number.isNaN)) return true;
+    // ::, ::1 and IPv4 embedded in ::/96, ::ffff:0:0/96 or 64:ff9b::/96 are judged as IPv4
+    const embedded = (g.slice(0, 5).every(n => n === 0) && (g[5] === 0 || g[5] === 0xffff))
+        || (g[0] === 0x64 && g[1] === 0xff9b && g.slice(2, 6).every(n => n === 0));
+    if (embedded) return isInternalIPv4([g[6] >> 8, g[6] & 0xff, g[7] >> 8, g[7] & 0xff]);
+    return (g[0] & 0xfe00) === 0xfc00 // unique local
+        || (g[0] & 0xffc0) === 0xfe80 // link-local
+        || (g[0] & 0xff00) === 0xff00; // multicast
+};
+
+/** Why the worker won't fetch `url`, or null when it may. */
+export const outboundUrlProblem = (env: Env, url: URL): string | null => {
+    const local = env.API_ALLOW_HTTP === 'true';
+    if (url.protocol !== 'https:' && !(url.protocol === 'http:' && local)) return "must start with https://";
+    if (url.username || url.password) return "can't contain a user name or password";
+    if (local) return null;
+
+    const host = url.hostname.toLowerCase().replace(/\.$/, '');
+    if (host.startsWith('[')) return isInternalIPv6(host.slice(1, -1)) ? "must be a public address" : null;
+    const ipv4 = parseIPv4(host);
+    if (ipv4) return isInternalIPv4(ipv4) ? "must be a public address" : null;
+    if (!host.includes('.') || host === 'localhost' || INTERNAL_SUFFIXES.some(suffix => host.endsWith(suffix))) {
+        return "must be a public host";
+    }
+    return null;
+};
+
+/**
+ * fetch() for a user's URL. Redirects are followed (up to five) only to
+ * URLs that pass the same check; anything else throws OutboundUrlError.
+ * With `followRedirects: false`, a redirect is returned as is.
+ */
+export const fetchOutbound = async (env: Env, url: URL, init: RequestInit = {}, followRedirects = true) => {
+    for (let hop = 0; ; hop++) {
+        const problem = outboundUrlProblem(env, url);
+        if (problem) throw new OutboundUrlError(`${hop ? 'A redirect' : 'The URL'} ${problem}.`);
+
+        const response = await fetch(url, { ...init, redirect: 'manual' });
+        const location = response.headers.get('Location');
+        if (!followRedirects || response.status < 300 || response.status > 399 || !location) return response;
+        if (hop === MAX_REDIRECTS) throw new OutboundUrlError("The URL redirects too many times.");
+        await response.body?.cancel();
+        url = new URL(location, url);
+    }
+};
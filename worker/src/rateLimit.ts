@@ -0,0 +1,34 @@
+// Sliding-window rate limit per key (user id).
+//
+// State lives in the isolate, so the limit is per worker instance rather than
+// global. That is enough to stop a single client hammering the endpoint; the
+// credit quota in Postgres is the hard limit on spend.
+
+export type RateLimitResult = { allowed: boolean; /** 0 when allowed. */ retryAfterSeconds: number };
+
+export class RateLimiter {
+    private hits = new Map<string, number[]>();
+
+    constructor(private limit: number, private windowMs: number) {}
+
+    check(key: string, now = Date.now()): RateLimitResult {
+        const windowStart = now - this.windowMs;
+        const recent = (this.hits.get(key) ?? []).filter(t => t > windowStart);
+
+        if (recent.length >= this.limit) {
+            this.hits.set(key, recent);
+            return { allowed: false, retryAfterSeconds: Math.max(1, Math.ceil((recent[0] + this.windowMs - now) / 1000)) };
+        }
+
+        recent.push(now);
+        this.hits.set(key, recent);
+        if (this.hits.size > 10_000) this.prune(windowStart);
+        return { allowed: true, retryAfterSeconds: 0 };
+    }
+
+    private prune(windowStart: number) {
+        for (const [key, times] of this.hits) {
+            if (times[times.length - 1] <= windowStart) this.hits.delete(key);
+        }
+    }
+}
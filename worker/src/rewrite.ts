@@ -0,0 +1,37 @@
+import { ReportParseError, extractModelJson } from "../../lib/report";
+import { RewriteValidationError, parseRewriteRequest, parseRewriteResult } from "../../lib/rewrites";
+import { Env } from "./env";
+import { WorkerError } from "./http";
+import { hasFeature } from "./supabase";
+import { generateText } from "./gemini";
+import { buildRewritePrompt, rewriteInstruction } from "./prompts";
+
+// Script rewrite studio (Pro): alternative hooks and full rewrites of an
+// audit's script in the chosen styles. Text only, no video and no credit;
+// the per-user rate limit still applies.
+
+export const rewrite = async (env: Env, accessToken: string, body: unknown) => {
+    let request;
+    try {
+        request = parseRewriteRequest(body);
+    } catch (err) {
+        if (err instanceof RewriteValidationError) throw new WorkerError(400, 'invalid_request', err.message);
+        throw err;
+    }
+
+    if (!await hasFeature(env, accessToken, 'script_rewrites')) {
+        throw new WorkerError(403, 'feature_not_in_plan', "Script rewrites are part of the Professional plan.");
+    }
+
+    const payload = await generateText(env, buildRewritePrompt(request), rewriteInstruction(request.script));
+    try {
+        const raw = extractModelJson(payload);
+        // Validate here so the app never gets half a result
+        parseRewriteResult(raw, request.styles);
+        return raw;
+    } catch (err) {
+        if (!(err instanceof ReportParseError)) throw err;
+        console.error("Model returned invalid rewrites", err.message);
+        throw new WorkerError(502, 'invalid_rewrites', "The AI returned rewrites we couldn't read. Please try again.");
+    }
+};
@@ -0,0 +1,124 @@
+import { Feature } from "../../lib/plans";
+import { Env } from "./env";
+import { WorkerError } from "./http";
+
+// Minimal Supabase REST calls. supabase-js would work too, but plain fetch
+// keeps the bundle small and makes the calls easy to stub (see worker/dev).
+
+export type SessionUser = { id: string; email: string | null };
+
+/** Resolves the user behind a Supabase access token, or throws 401. */
+export const getSessionUser = async (env: Env, accessToken: string): Promise<SessionUser> => {
+    const response = await fetch(`${env.SUPABASE_URL}/auth/v1/user`, {
+        headers: { apikey: env.SUPABASE_ANON_KEY, Authorization: `Bearer ${accessToken}` },
+    });
+    if (response.status === 401 || response.status === 403) {
+        throw new WorkerError(401, 'unauthorized', "Your session has expired, please log in again.");
+    }
+    if (!response.ok) throw new WorkerError(502, 'auth_unavailable', "Could not verify your session.");
+    const user = await response.json();
+    if (!user?.id) throw new WorkerError(401, 'unauthorized', "Invalid session.");
+    return { id: user.id, email: user.email ?? null };
+};
+
+/**
+ * Calls a Postgres function through PostgREST. With `accessToken` it runs as
+ * that user (auth.uid() works); without, as the service role.
+ */
+export const rpc = async <T = unknown>(env: Env, fn: string, args: Record<string, unknown>, accessToken?: string): Promise<T> => {
+    const response = await fetch(`${env.SUPABASE_URL}/rest/v1/rpc/${fn}`, {
+        method: 'POST',
+        headers: {
+            apikey: accessToken ? env.SUPABASE_ANON_KEY : env.SUPABASE_SERVICE_ROLE_KEY,
+            Authorization: `Bearer ${accessToken ?? env.SUPABASE_SERVICE_ROLE_KEY}`,
+            "Content-Type": "application/json",
+        },
+        body: JSON.stringify(args),
+    });
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+        const message: string = body?.message || `rpc ${fn} failed with ${response.status}`;
+        throw Object.assign(new Error(message), { status: response.status });
+    }
+    return body as T;
+};
+
+/** Reads rows through PostgREST as the user, so row level security decides what they see. */
+export const selectAsUser = async <T>(env: Env, table: string, query: string, accessToken: string): Promise<T[]> => {
+    const response = await fetch(`${env.SUPABASE_URL}/rest/v1/${table}?${query}`, {
+        headers: { apikey: env.SUPABASE_ANON_KEY, Authorization: `Bearer ${accessToken}` },
+    });
+    const body = await response.json().catch(() => null);
+    if (!response.ok || !Array.isArray(body)) {
+        console.error(`select ${table} failed`, response.status, body);
+        throw new WorkerError(503, 'database_unavailable', "Could not read your audits, please try again.");
+    }
+    return body as T[];
+};
+
+/** Whether the user's plan includes a paid feature (public.has_feature). */
+export const hasFeature = async (env: Env, accessToken: string, feature: Feature) => {
+    try {
+        return await rpc<boolean>(env, 'has_feature', { p_feature: feature }, accessToken) === true;
+    } catch (err) {
+        console.error("has_feature failed", err);
+        throw new WorkerError(503, 'entitlements_unavailable', "Could not check your plan, please try again.");
+    }
+};
+
+const objectUrl = (env: Env, bucket: string, path: string) =>
+    `${env.SUPABASE_URL}/storage/v1/object/${bucket}/${path.split('/').map(encodeURIComponent).join('/')}`;
+
+/** Streams an object out of Storage with the service role. */
+export const downloadObject = async (env: Env, bucket: string, path: string, signal?: AbortSignal) => {
+    const response = await fetch(objectUrl(env, bucket, path), {
+        headers: { apikey: env.SUPABASE_SERVICE_ROLE_KEY, Authorization: `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}` },
+        signal,
+    });
+    if (response.status === 404 || response.status === 400) {
+        throw new WorkerError(400, 'video_not_found', "The uploaded video could not be found. Please upload it again.");
+    }
+    if (!response.ok || !response.body) throw new WorkerError(502, 'storage_unavailable', "Could not read the uploaded video.");
+    return response;
+};
+
+/** Streams a body into Storage with the service role, replacing any object at `path`. */
+export const uploadObject = async (
+    env: Env,
+    bucket: string,
+    path: string,
+    body: ReadableStream<Uint8Array>,
+    contentType: string,
+    contentLength: number | null,
+) => {
+    const headers: Record<string, string> = {
+        apikey: env.SUPABASE_SERVICE_ROLE_KEY,
+        Authorization: `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+        "Content-Type": contentType,
+        "x-upsert": "true",
+    };
+    if (contentLength !== null) headers["Content-Length"] = String(contentLength);
+    const response = await fetch(objectUrl(env, bucket, path), {
+        method: 'POST',
+        headers,
+        body,
+        // Node's fetch (worker/dev) needs this to stream a request body; Workers ignore it
+        duplex: 'half',
+    } as RequestInit);
+    if (response.status === 413) throw new WorkerError(413, 'video_too_large', "The video is larger than 250 MB.");
+    if (!response.ok) {
+        console.error("Storage upload failed", response.status, await response.text().catch(() => ''));
+        throw new WorkerError(502, 'storage_unavailable', "Could not store the video, please try again.");
+    }
+};
+
+/** Deletes an object with the service role; a missing object counts as deleted. */
+export const deleteObject = async (env: Env, bucket: string, path: string) => {
+    const response = await fetch(objectUrl(env, bucket, path), {
+        method: 'DELETE',
+        headers: { apikey: env.SUPABASE_SERVICE_ROLE_KEY, Authorization: `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}` },
+    });
+    if (!response.ok && response.status !== 404 && response.status !== 400) {
+        throw new Error(`Storage delete failed with ${response.status}`);
+    }
+};
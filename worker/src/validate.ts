@@ -0,0 +1,63 @@
+import { AuditContext, PresetValidationError, parseAuditContext } from "../../lib/presets";
+import { WorkerError } from "./http";
+
+// Request validation for POST /analyze (and the Idempotency-Key of /compare).
+
+export const VIDEO_BUCKET = 'creatives';
+export const ALLOWED_MIME_TYPES = ['video/mp4', 'video/quicktime', 'video/webm'];
+
+export type AnalyzeRequest = {
+    storageBucket: string;
+    storagePath: string;
+    mimeType: string;
+    idempotencyKey: string;
+    /** Audit preset snapshot; null for a generic audit. */
+    context: AuditContext | null;
+    /** Run the policy check too (Pro). */
+    policyCheck: boolean;
+};
+
+const invalid = (message: string) => new WorkerError(400, 'invalid_request', message);
+
+/** Anything that takes a credit carries one, so a retry is never charged twice. */
+export const parseIdempotencyKey = (value: unknown) => {
+    if (typeof value !== 'string' || !/^[\w-]{8,128}$/.test(value)) {
+        throw invalid("An Idempotency-Key header (8–128 characters) is required.");
+    }
+    return value;
+};
+
+export const parseAnalyzeRequest = (body: unknown, userId: string, idempotencyHeader: string | null): AnalyzeRequest => {
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) throw invalid("Body must be a JSON object.");
+    const b = body as Record<string, unknown>;
+
+    const storageBucket = b.storageBucket ?? VIDEO_BUCKET;
+    if (storageBucket !== VIDEO_BUCKET) throw invalid(`storageBucket must be "${VIDEO_BUCKET}".`);
+
+    const storagePath = b.storagePath;
+    if (typeof storagePath !== 'string' || !storagePath) throw invalid("storagePath is required.");
+    // Users may only analyse their own uploads (`<user id>/<file>`)
+    if (!storagePath.startsWith(`${userId}/`) || storagePath.includes('..') || storagePath.split('/').length !== 2) {
+        throw new WorkerError(403, 'forbidden', "You can only analyse your own uploads.");
+    }
+
+    const mimeType = b.mimeType;
+    if (typeof mimeType !== 'string' || !ALLOWED_MIME_TYPES.includes(mimeType)) {
+        throw new WorkerError(415, 'unsupported_media_type', "Only MP4, MOV and WEBM videos are supported.");
+    }
+
+    const idempotencyKey = parseIdempotencyKey(idempotencyHeader ?? b.idempotencyKey);
+
+    let context: AuditContext | null;
+    try {
+        context = parseAuditContext(b.context);
+    } catch (err) {
+        if (err instanceof PresetValidationError) throw invalid(`Preset: ${err.message}`);
+        throw err;
+    }
+
+    if (b.policyCheck !== undefined && typeof b.policyCheck !== 'boolean') throw invalid("policyCheck must be true or false.");
+    const policyCheck = b.policyCheck === true;
+
+    return { storageBucket, storagePath, mimeType, idempotencyKey, context, policyCheck };
+};